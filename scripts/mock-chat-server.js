@@ -0,0 +1,275 @@
+/**
+ * Mock chat socket server (STOMP over WebSocket) for offline development.
+ * No dependencies - uses only Node built-ins.
+ *
+ * Run:   npm run mock:chat
+ * App:   EXPO_PUBLIC_CHAT_WS_URL=ws://<your-ip>:8090/ws npx expo start
+ *
+ * Push events into an open conversation:
+ *   curl -X POST localhost:8090/mock/messages -d '{"customerId":"c1","storeId":"s1","content":"Xin chào"}'
+ *   curl -X POST localhost:8090/mock/read -d '{"customerId":"c1","storeId":"s1"}'
+ *   curl -X POST localhost:8090/mock/drop   # close every socket to test reconnect
+ */
+const { Buffer } = require('buffer');
+const crypto = require('crypto');
+const http = require('http');
+
+const PORT = Number(process.env.MOCK_CHAT_PORT || 8090);
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const FRAME_TERMINATOR = '\u0000';
+
+/** @type {Set<{ socket: import('net').Socket, subscriptions: Map<string, string>, buffer: string }>} */
+const clients = new Set();
+
+// ---- WebSocket framing ----
+
+const encodeWsFrame = (text, opcode = 0x1) => {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Returns parsed frames and the unconsumed remainder
+const decodeWsFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    cursor += maskLength;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) {
+      for (let i = 0; i < payload.length; i += 1) {
+        payload[i] ^= mask[i % 4];
+      }
+    }
+
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+// ---- STOMP ----
+
+const encodeStompFrame = (command, headers, body = '') => {
+  const headerLines = Object.entries(headers).map(([key, value]) => `${key}:${value}`);
+  return `${[command, ...headerLines].join('\n')}\n\n${body}${FRAME_TERMINATOR}`;
+};
+
+const decodeStompFrame = (raw) => {
+  const data = raw.replace(/^[\r\n]+/, '');
+  if (!data) return null;
+
+  const separatorIndex = data.indexOf('\n\n');
+  const head = separatorIndex >= 0 ? data.slice(0, separatorIndex) : data;
+  const body = separatorIndex >= 0 ? data.slice(separatorIndex + 2) : '';
+  const [command, ...headerLines] = head.split('\n');
+  const headers = {};
+  headerLines.forEach((line) => {
+    const colonIndex = line.indexOf(':');
+    if (colonIndex > 0) headers[line.slice(0, colonIndex)] = line.slice(colonIndex + 1);
+  });
+  return { command: command.trim(), headers, body };
+};
+
+const sendStomp = (client, command, headers, body) => {
+  client.socket.write(encodeWsFrame(encodeStompFrame(command, headers, body)));
+};
+
+const broadcast = (destination, event) => {
+  const body = JSON.stringify(event);
+  let delivered = 0;
+  clients.forEach((client) => {
+    client.subscriptions.forEach((subscribedDestination, id) => {
+      if (subscribedDestination !== destination) return;
+      sendStomp(
+        client,
+        'MESSAGE',
+        {
+          subscription: id,
+          destination,
+          'message-id': crypto.randomUUID(),
+          'content-type': 'application/json',
+        },
+        body,
+      );
+      delivered += 1;
+    });
+  });
+  return delivered;
+};
+
+const handleStompFrame = (client, frame) => {
+  switch (frame.command) {
+    case 'CONNECT':
+    case 'STOMP':
+      sendStomp(client, 'CONNECTED', { version: '1.2', 'heart-beat': '0,0' });
+      break;
+    case 'SUBSCRIBE':
+      client.subscriptions.set(frame.headers.id, frame.headers.destination);
+      console.log(`[mock-chat] SUBSCRIBE ${frame.headers.destination}`);
+      break;
+    case 'UNSUBSCRIBE':
+      client.subscriptions.delete(frame.headers.id);
+      break;
+    case 'DISCONNECT':
+      client.socket.end(encodeWsFrame('', 0x8));
+      break;
+    default:
+      sendStomp(client, 'ERROR', { message: `Unsupported command ${frame.command}` });
+  }
+};
+
+// ---- HTTP ----
+
+const readJsonBody = (req) =>
+  new Promise((resolve) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+
+const server = http.createServer(async (req, res) => {
+  const reply = (status, payload) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  };
+
+  if (req.method !== 'POST') {
+    reply(404, { message: 'Not found' });
+    return;
+  }
+
+  const body = await readJsonBody(req);
+  const destination = `/topic/chat/${body.customerId}/${body.storeId}`;
+
+  if (req.url === '/mock/messages') {
+    const now = new Date().toISOString();
+    const delivered = broadcast(destination, {
+      type: 'MESSAGE',
+      message: {
+        id: crypto.randomUUID(),
+        senderId: body.storeId,
+        senderType: body.senderType || 'STORE',
+        content: body.content || 'Tin nhắn thử từ cửa hàng',
+        messageType: 'TEXT',
+        createdAt: now,
+        read: false,
+      },
+    });
+    reply(200, { delivered });
+  } else if (req.url === '/mock/read') {
+    const delivered = broadcast(destination, {
+      type: 'READ',
+      viewerType: 'STORE',
+      viewerId: body.storeId,
+      readAt: new Date().toISOString(),
+    });
+    reply(200, { delivered });
+  } else if (req.url === '/mock/drop') {
+    const dropped = clients.size;
+    clients.forEach((client) => client.socket.destroy());
+    reply(200, { dropped });
+  } else {
+    reply(404, { message: 'Not found' });
+  }
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!req.url.startsWith('/ws') || !key) {
+    socket.destroy();
+    return;
+  }
+
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    [
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '',
+      '',
+    ].join('\r\n'),
+  );
+
+  const client = { socket, subscriptions: new Map(), buffer: '' };
+  let pending = Buffer.alloc(0);
+  clients.add(client);
+  console.log(`[mock-chat] client connected (${clients.size})`);
+
+  socket.on('data', (chunk) => {
+    const { frames, rest } = decodeWsFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+
+    frames.forEach(({ opcode, payload }) => {
+      if (opcode === 0x8) {
+        socket.end(encodeWsFrame('', 0x8));
+      } else if (opcode === 0x9) {
+        socket.write(encodeWsFrame(payload.toString(), 0xa));
+      } else if (opcode === 0x1) {
+        client.buffer += payload.toString();
+        const chunks = client.buffer.split(FRAME_TERMINATOR);
+        client.buffer = chunks.pop() || '';
+        chunks.forEach((raw) => {
+          const frame = decodeStompFrame(raw);
+          if (frame) handleStompFrame(client, frame);
+        });
+      }
+    });
+  });
+
+  const remove = () => {
+    if (clients.delete(client)) {
+      console.log(`[mock-chat] client disconnected (${clients.size})`);
+    }
+  };
+  socket.on('close', remove);
+  socket.on('error', remove);
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-chat] listening on ws://localhost:${PORT}/ws`);
+});
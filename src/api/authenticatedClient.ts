@@ -0,0 +1,187 @@
+import { AxiosError, AxiosRequestConfig, AxiosResponse, isAxiosError } from 'axios';
+import httpClient from './httpClient';
+
+/**
+ * Current customer session, provided by AuthContext
+ */
+export type ApiSession = {
+  customerId: string;
+  accessToken: string;
+};
+
+/**
+ * Uniform result of an authenticated call.
+ * `data` is always the unwrapped payload, whether the backend answered
+ * `{ status, message, data }` or returned the resource directly.
+ */
+export type ApiResult<T> = {
+  status: number;
+  message: string;
+  data: T;
+};
+
+/**
+ * Normalized error thrown by the authenticated client.
+ * Keeps `response` so existing `error?.response?.data?.message` checks still work.
+ */
+export class ApiError extends Error {
+  status: number;
+  data: unknown;
+  response?: AxiosResponse;
+  isNetworkError: boolean;
+
+  constructor({
+    status,
+    message,
+    data,
+    response,
+    isNetworkError = false,
+  }: {
+    status: number;
+    message: string;
+    data?: unknown;
+    response?: AxiosResponse;
+    isNetworkError?: boolean;
+  }) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data ?? null;
+    this.response = response;
+    this.isNetworkError = isNetworkError;
+  }
+
+  static from(error: unknown, fallbackMessage = 'Đã xảy ra lỗi. Vui lòng thử lại.'): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    // Not a transport error (bad response shape, programming error): keep the message, not retryable
+    if (!isAxiosError(error)) {
+      return new ApiError({
+        status: 0,
+        message: (error as Error | undefined)?.message || fallbackMessage,
+      });
+    }
+
+    const axiosError = error as AxiosError<{ message?: string }>;
+    const response = axiosError.response;
+    if (!response) {
+      return new ApiError({
+        status: 0,
+        message: 'Lỗi kết nối. Vui lòng kiểm tra internet.',
+        isNetworkError: true,
+      });
+    }
+
+    return new ApiError({
+      status: response.status,
+      message: response.data?.message || axiosError.message || fallbackMessage,
+      data: response.data,
+      response,
+    });
+  }
+}
+
+type SessionProvider = () => ApiSession | null;
+
+let sessionProvider: SessionProvider | null = null;
+
+export const registerSessionProvider = (provider: SessionProvider | null) => {
+  sessionProvider = provider;
+};
+
+/**
+ * Get the logged-in customer's session or throw a 401 ApiError
+ */
+export const getApiSession = (): ApiSession => {
+  const session = sessionProvider?.();
+  if (!session?.customerId || !session?.accessToken) {
+    throw new ApiError({ status: 401, message: 'Vui lòng đăng nhập để tiếp tục' });
+  }
+  return session;
+};
+
+// Keys the backend uses on its `{ status, message, data }` envelope
+const ENVELOPE_KEYS = new Set(['status', 'message', 'data', 'success', 'code', 'timestamp']);
+
+const isEnvelope = (
+  payload: unknown,
+): payload is { status?: number; message?: string; data: unknown } =>
+  !!payload &&
+  typeof payload === 'object' &&
+  !Array.isArray(payload) &&
+  'data' in payload &&
+  Object.keys(payload).every((key) => ENVELOPE_KEYS.has(key));
+
+/**
+ * Convert an axios response into an ApiResult, unwrapping the envelope if present
+ */
+export const toApiResult = <T>(response: AxiosResponse): ApiResult<T> => {
+  const payload = response.data;
+  if (isEnvelope(payload)) {
+    return {
+      status: payload.status ?? response.status,
+      message: payload.message ?? '',
+      data: payload.data as T,
+    };
+  }
+  return {
+    status: response.status,
+    message: '',
+    data: payload as T,
+  };
+};
+
+export type AuthenticatedRequestConfig = Omit<AxiosRequestConfig, 'url' | 'method' | 'data'> & {
+  /** Explicit session - used while logging in, before AuthContext has state */
+  session?: ApiSession;
+  /** Message used when the backend does not send one */
+  errorMessage?: string;
+};
+
+const request = async <T>(
+  method: 'get' | 'post' | 'put' | 'delete',
+  url: string,
+  body: unknown,
+  { session: sessionOverride, errorMessage, headers, ...config }: AuthenticatedRequestConfig = {},
+): Promise<ApiResult<T>> => {
+  const session = sessionOverride ?? getApiSession();
+  // Paths are written like the API docs: /v1/customers/{customerId}/cart
+  const resolvedUrl = url.replace(/\{customerId\}/g, encodeURIComponent(session.customerId));
+
+  try {
+    const response = await httpClient.request({
+      ...config,
+      method,
+      url: resolvedUrl,
+      data: body,
+      headers: {
+        ...headers,
+        Authorization: `Bearer ${session.accessToken}`,
+      },
+    });
+    return toApiResult<T>(response);
+  } catch (error) {
+    throw ApiError.from(error, errorMessage);
+  }
+};
+
+/**
+ * HTTP client for customer endpoints.
+ * Injects the current customerId/accessToken so services do not take them as parameters.
+ */
+export const authenticatedClient = {
+  get: <T>(url: string, config?: AuthenticatedRequestConfig) =>
+    request<T>('get', url, undefined, config),
+  post: <T>(url: string, body?: unknown, config?: AuthenticatedRequestConfig) =>
+    request<T>('post', url, body, config),
+  put: <T>(url: string, body?: unknown, config?: AuthenticatedRequestConfig) =>
+    request<T>('put', url, body, config),
+  delete: <T>(url: string, config?: AuthenticatedRequestConfig & { data?: unknown }) => {
+    const { data, ...rest } = config ?? {};
+    return request<T>('delete', url, data, rest);
+  },
+};
+
+export default authenticatedClient;
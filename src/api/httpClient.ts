@@ -1,4 +1,4 @@
-import axios from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 
 const DEFAULT_API_BASE_URL =
   process.env.EXPO_PUBLIC_API_BASE_URL ?? 'https://audioe-commerce-production.up.railway.app/api';
@@ -11,6 +11,61 @@ const AUTHORIZATION_HEADER =
       : `Bearer ${RAW_TOKEN.trim()}`
     : undefined;
 
+export const REFRESH_TOKEN_ENDPOINT = '/account/refresh';
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & {
+  _retry?: boolean;
+};
+
+/**
+ * Handlers provided by AuthContext so the interceptor can refresh the session
+ * without importing React state into the HTTP layer.
+ */
+export type AuthRefreshHandlers = {
+  /** Exchange the stored refresh token for a new access token and return it */
+  refreshSession: () => Promise<string>;
+  /** Called once when the refresh fails - the user must log in again */
+  onSessionExpired: () => Promise<void> | void;
+};
+
+let authRefreshHandlers: AuthRefreshHandlers | null = null;
+
+// Shared in-flight refresh: concurrent 401s wait on the same promise
+let refreshPromise: Promise<string> | null = null;
+
+export const registerAuthRefreshHandlers = (handlers: AuthRefreshHandlers | null) => {
+  authRefreshHandlers = handlers;
+};
+
+/**
+ * Exchange the refresh token for a new access token via the registered handlers.
+ * Concurrent callers share one refresh; a failed refresh triggers the logout once.
+ */
+export const refreshAccessToken = (): Promise<string> => {
+  const handlers = authRefreshHandlers;
+  if (!handlers) {
+    return Promise.reject(new Error('No auth refresh handlers registered'));
+  }
+
+  if (!refreshPromise) {
+    refreshPromise = handlers.refreshSession().finally(() => {
+      refreshPromise = null;
+    });
+
+    // Only the caller that started the refresh triggers the logout
+    refreshPromise.catch(async (refreshError) => {
+      console.warn('[httpClient] Refresh token failed, logging out', refreshError);
+      try {
+        await handlers.onSessionExpired();
+      } catch (logoutError) {
+        console.warn('[httpClient] Logout after refresh failure failed', logoutError);
+      }
+    });
+  }
+
+  return refreshPromise;
+};
+
 const httpClient = axios.create({
   baseURL: DEFAULT_API_BASE_URL,
   timeout: 15000,
@@ -24,5 +79,43 @@ httpClient.interceptors.request.use((config) => {
   return config;
 });
 
-export default httpClient;
+const shouldAttemptRefresh = (config: RetriableRequestConfig | undefined): boolean => {
+  if (!config || config._retry || !authRefreshHandlers) {
+    return false;
+  }
+  if (config.url?.includes(REFRESH_TOKEN_ENDPOINT)) {
+    return false;
+  }
+  // Only requests made on behalf of the logged-in customer carry a session token
+  const authorization = config.headers?.Authorization;
+  return (
+    typeof authorization === 'string' &&
+    authorization.startsWith('Bearer ') &&
+    authorization !== AUTHORIZATION_HEADER
+  );
+};
+
+httpClient.interceptors.response.use(
+  (response) => response,
+  async (error: AxiosError) => {
+    const originalConfig = error.config as RetriableRequestConfig | undefined;
 
+    if (error.response?.status !== 401 || !shouldAttemptRefresh(originalConfig)) {
+      return Promise.reject(error);
+    }
+
+    originalConfig!._retry = true;
+
+    let newAccessToken: string;
+    try {
+      newAccessToken = await refreshAccessToken();
+    } catch {
+      return Promise.reject(error);
+    }
+
+    originalConfig!.headers.Authorization = `Bearer ${newAccessToken}`;
+    return httpClient(originalConfig!);
+  },
+);
+
+export default httpClient;
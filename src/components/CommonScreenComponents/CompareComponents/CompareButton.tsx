@@ -0,0 +1,56 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleProp, StyleSheet, TouchableOpacity, ViewStyle } from 'react-native';
+import { ToggleCompareResult, useCompare } from '../../../context/CompareContext';
+import { CompareItem } from '../../../types/compare';
+
+const ORANGE = '#FF6A00';
+
+type Props = {
+  product: CompareItem;
+  size?: number;
+  style?: StyleProp<ViewStyle>;
+  onToggled?: (result: ToggleCompareResult) => void;
+};
+
+const CompareButton: React.FC<Props> = ({ product, size = 18, style, onToggled }) => {
+  const { isInCompare, toggleCompare } = useCompare();
+  const active = isInCompare(product.productId);
+
+  const handlePress = () => {
+    const result = toggleCompare(product);
+    onToggled?.(result);
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, active && styles.buttonActive, style]}
+      onPress={handlePress}
+      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      accessibilityRole="button"
+      accessibilityLabel={active ? 'Bỏ khỏi so sánh' : 'Thêm vào so sánh'}
+    >
+      <MaterialCommunityIcons
+        name={active ? 'compare-horizontal' : 'compare'}
+        size={size}
+        color={active ? '#FFFFFF' : '#666'}
+      />
+    </TouchableOpacity>
+  );
+};
+
+export default CompareButton;
+
+const styles = StyleSheet.create({
+  button: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonActive: {
+    backgroundColor: ORANGE,
+  },
+});
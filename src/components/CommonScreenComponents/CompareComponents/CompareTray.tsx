@@ -0,0 +1,127 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import React from 'react';
+import { Image, StyleProp, StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+import { Button } from 'react-native-paper';
+import { MAX_COMPARE_ITEMS, useCompare } from '../../../context/CompareContext';
+
+const ORANGE = '#FF6A00';
+
+type Props = {
+  onCompare: () => void;
+  style?: StyleProp<ViewStyle>;
+};
+
+// Khay so sánh nổi ở cuối màn hình, chỉ hiện khi đã chọn sản phẩm
+const CompareTray: React.FC<Props> = ({ onCompare, style }) => {
+  const { items, removeFromCompare, clearCompare } = useCompare();
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const emptySlots = MAX_COMPARE_ITEMS - items.length;
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.slots}>
+        {items.map((item) => (
+          <View key={item.productId} style={styles.slot}>
+            <Image source={{ uri: item.image }} style={styles.slotImage} />
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => removeFromCompare(item.productId)}
+              hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+            >
+              <MaterialCommunityIcons name="close-circle" size={16} color="#666" />
+            </TouchableOpacity>
+          </View>
+        ))}
+        {Array.from({ length: emptySlots }).map((_, index) => (
+          <View key={`empty-${index}`} style={[styles.slot, styles.emptySlot]}>
+            <MaterialCommunityIcons name="plus" size={16} color="#CCC" />
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.actions}>
+        <TouchableOpacity onPress={clearCompare}>
+          <Text style={styles.clearText}>Xóa</Text>
+        </TouchableOpacity>
+        <Button
+          mode="contained"
+          compact
+          buttonColor={ORANGE}
+          onPress={onCompare}
+          disabled={items.length < 2}
+          labelStyle={styles.compareLabel}
+        >
+          So sánh ({items.length})
+        </Button>
+      </View>
+    </View>
+  );
+};
+
+export default CompareTray;
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 12,
+    right: 12,
+    bottom: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 10,
+    borderRadius: 12,
+    backgroundColor: '#FFF',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    elevation: 6,
+  },
+  slots: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  slot: {
+    width: 40,
+    height: 40,
+    borderRadius: 6,
+    backgroundColor: '#F5F5F5',
+  },
+  slotImage: {
+    width: '100%',
+    height: '100%',
+    borderRadius: 6,
+  },
+  emptySlot: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#DDD',
+  },
+  removeButton: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    backgroundColor: '#FFF',
+    borderRadius: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  clearText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  compareLabel: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,2 @@
+export { default as CompareButton } from './CompareButton';
+export { default as CompareTray } from './CompareTray';
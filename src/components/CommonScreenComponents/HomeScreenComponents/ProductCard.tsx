@@ -1,12 +1,29 @@
 import React from 'react';
 import { Image, StyleSheet, Text, TouchableOpacity } from 'react-native';
 import { COLORS } from '../../../constants/color';
+import { CompareItem } from '../../../types/compare';
+import { WishlistProductInput } from '../../../types/wishlist';
+import CompareButton from '../CompareComponents/CompareButton';
+import WishlistButton from '../WishlistComponents/WishlistButton';
 
-const ProductCard = ({ name, price, image }: { name: string; price: number; image: any }) => (
-  <TouchableOpacity style={styles.card}>
+type Props = {
+  name: string;
+  price: number;
+  image: any;
+  onPress?: () => void;
+  // Truyền vào để hiển thị nút tim (thêm/bỏ yêu thích)
+  wishlistProduct?: WishlistProductInput;
+  // Truyền vào để hiển thị nút thêm vào khay so sánh
+  compareProduct?: CompareItem;
+};
+
+const ProductCard = ({ name, price, image, onPress, wishlistProduct, compareProduct }: Props) => (
+  <TouchableOpacity style={styles.card} onPress={onPress}>
     <Image source={image} style={styles.image} resizeMode="contain" />
     <Text style={styles.name}>{name}</Text>
     <Text style={styles.price}>{price.toLocaleString()}₫</Text>
+    {wishlistProduct && <WishlistButton product={wishlistProduct} style={styles.wishlistButton} />}
+    {compareProduct && <CompareButton product={compareProduct} style={styles.compareButton} />}
   </TouchableOpacity>
 );
 
@@ -35,4 +52,14 @@ const styles = StyleSheet.create({
     color: COLORS.primary,
     fontWeight: 'bold',
   },
+  wishlistButton: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+  },
+  compareButton: {
+    position: 'absolute',
+    top: 44,
+    right: 6,
+  },
 });
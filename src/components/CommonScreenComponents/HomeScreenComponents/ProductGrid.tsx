@@ -1,6 +1,8 @@
 import React from 'react';
 import { FlatList, Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { COLORS } from '../../../constants/color';
+import CompareButton from '../CompareComponents/CompareButton';
+import WishlistButton from '../WishlistComponents/WishlistButton';
 
 const ORANGE = '#FF6A00';
 
@@ -49,6 +51,19 @@ const ProductGrid: React.FC<Props> = ({ title = 'Sản phẩm nổi bật', prod
             onPress={() => onPressItem && onPressItem(item)}
           >
             <Image source={{ uri: item.image }} style={styles.cardImage} />
+            <WishlistButton
+              product={{
+                productId: item.id,
+                name: item.name,
+                image: item.image,
+                price: item.price,
+              }}
+              style={styles.wishlistButton}
+            />
+            <CompareButton
+              product={{ productId: item.id, name: item.name, image: item.image }}
+              style={styles.compareButton}
+            />
             <View style={{ paddingHorizontal: 10, paddingBottom: 12 }}>
               <Text numberOfLines={2} style={styles.cardTitle}>
                 {item.name}
@@ -106,6 +121,16 @@ const styles = StyleSheet.create({
     width: '100%',
     height: 130,
   },
+  wishlistButton: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+  },
+  compareButton: {
+    position: 'absolute',
+    top: 48,
+    right: 8,
+  },
   cardTitle: {
     marginTop: 10,
     fontSize: 14,
@@ -1,6 +1,6 @@
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   StyleSheet,
@@ -10,8 +10,7 @@ import {
   View,
 } from 'react-native';
 import { COLORS } from '../../../constants/color';
-import { useAuth } from '../../../context/AuthContext';
-import { getCustomerCart } from '../../../services/cartService';
+import { useCart } from '../../../context/CartContext';
 
 type Props = {
   value?: string;
@@ -27,9 +26,7 @@ const SearchBar: React.FC<Props> = ({
   isLoading = false,
 }) => {
   const navigation = useNavigation();
-  const { authState, isAuthenticated } = useAuth();
-  const [cartItemCount, setCartItemCount] = useState(0);
-  const [isLoadingCart, setIsLoadingCart] = useState(false);
+  const { itemCount: cartItemCount } = useCart();
   
   const suggestions = useMemo(
     () => ['JBL Party 200', 'Sony Sonic', 'LG King', 'Sony WH-1000XM5', 
@@ -46,41 +43,6 @@ const SearchBar: React.FC<Props> = ({
     return () => clearInterval(id);
   }, [suggestions.length]);
 
-  const loadCartCount = useCallback(async () => {
-    const customerId = authState.decodedToken?.customerId;
-    const accessToken = authState.accessToken;
-
-    if (!customerId || !accessToken || !isAuthenticated) {
-      setCartItemCount(0);
-      return;
-    }
-
-    try {
-      setIsLoadingCart(true);
-      const cart = await getCustomerCart({ customerId, accessToken });
-      const count = cart?.items?.length ?? 0;
-      setCartItemCount(count);
-    } catch (error) {
-      console.error('[SearchBar] Failed to load cart count:', error);
-      setCartItemCount(0);
-    } finally {
-      setIsLoadingCart(false);
-    }
-  }, [authState.decodedToken?.customerId, authState.accessToken, isAuthenticated]);
-
-  useEffect(() => {
-    if (isAuthenticated) {
-      loadCartCount();
-      // Poll cart count every 30 seconds
-      const intervalId = setInterval(() => {
-        loadCartCount();
-      }, 30000);
-      return () => clearInterval(intervalId);
-    } else {
-      setCartItemCount(0);
-    }
-  }, [isAuthenticated, loadCartCount]);
-
   return (
     <View style={styles.container}>
       <View style={styles.row}>
@@ -107,7 +69,7 @@ const SearchBar: React.FC<Props> = ({
             navigation.navigate('Cart');
           }}
         >
-          {isLoading || isLoadingCart ? (
+          {isLoading ? (
             <ActivityIndicator size="small" color="#FF6A00" />
           ) : (
             <View style={styles.cartIconContainer}>
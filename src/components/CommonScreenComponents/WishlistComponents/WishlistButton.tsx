@@ -0,0 +1,62 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { StyleProp, StyleSheet, TouchableOpacity, ViewStyle } from 'react-native';
+import { useWishlist } from '../../../context/WishlistContext';
+import { WishlistProductInput } from '../../../types/wishlist';
+
+const HEART_RED = '#E53935';
+
+type Props = {
+  product: WishlistProductInput;
+  size?: number;
+  style?: StyleProp<ViewStyle>;
+  onToggled?: (isWishlisted: boolean) => void;
+};
+
+const WishlistButton: React.FC<Props> = ({ product, size = 20, style, onToggled }) => {
+  const { isWishlisted, toggleWishlist } = useWishlist();
+  const [isToggling, setIsToggling] = useState(false);
+  const active = isWishlisted(product.productId);
+
+  const handlePress = async () => {
+    if (isToggling) {
+      return;
+    }
+    try {
+      setIsToggling(true);
+      const added = await toggleWishlist(product);
+      onToggled?.(added);
+    } finally {
+      setIsToggling(false);
+    }
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, style]}
+      onPress={handlePress}
+      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      accessibilityRole="button"
+      accessibilityLabel={active ? 'Bỏ yêu thích' : 'Thêm vào yêu thích'}
+    >
+      <MaterialCommunityIcons
+        name={active ? 'heart' : 'heart-outline'}
+        size={size}
+        color={active ? HEART_RED : '#666'}
+      />
+    </TouchableOpacity>
+  );
+};
+
+export default WishlistButton;
+
+const styles = StyleSheet.create({
+  button: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
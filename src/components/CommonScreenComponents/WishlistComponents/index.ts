@@ -0,0 +1 @@
+export { default as WishlistButton } from './WishlistButton';
@@ -10,6 +10,8 @@ import {
   View,
 } from 'react-native';
 import { CartItem } from '../../../types/cart';
+import { StoreVoucherPlan, VoucherEvaluation } from '../../../types/voucher';
+import { describeVoucherEvaluation, isVoucherEvaluationUsable } from '../../../utils/voucherOptimizer';
 
 const ORANGE = '#FF6A00';
 
@@ -48,10 +50,14 @@ type Props = {
   selectedIds?: Set<string> | null; // null = tất cả được chọn, Set = chỉ các id trong Set được chọn
   onCartChange?: () => void;
   onRemoveItem?: (cartItemId: string) => void;
+  onSaveForLater?: (cartItemId: string) => void; // Chuyển sang danh sách "Lưu để mua sau"
   onQuantityChange?: (cartItemId: string, quantity: number) => void;
   onSelectShopVoucher?: (storeId: string, shopVoucherId: string | null, code: string) => void;
   onSelectProductVoucher?: (cartItemId: string, shopVoucherId: string | null, code: string) => void;
   onToggleItem?: (cartItemId: string) => void; // Toggle selection của một item
+  voucherPlans?: Map<string, StoreVoucherPlan>; // Gợi ý voucher tốt nhất theo storeId
+  manualVoucherStoreIds?: Set<string>; // Shop người dùng đã tự chọn voucher
+  onUseBestVouchers?: (storeId: string) => void;
 };
 
 const formatCurrencyVND = (value: number) =>
@@ -67,10 +73,14 @@ const CartItemList: React.FC<Props> = ({
   selectedIds = null,
   onCartChange,
   onRemoveItem,
+  onSaveForLater,
   onQuantityChange,
   onSelectShopVoucher,
   onSelectProductVoucher,
   onToggleItem,
+  voucherPlans = new Map(),
+  manualVoucherStoreIds = new Set(),
+  onUseBestVouchers,
 }) => {
   const [shopVoucherModal, setShopVoucherModal] = useState<{ storeId: string; visible: boolean }>({
     storeId: '',
@@ -149,6 +159,39 @@ const CartItemList: React.FC<Props> = ({
     return voucher.title || voucher.name || voucher.code;
   };
 
+  // Helper: Giải thích của bộ tối ưu cho voucher sản phẩm của một item
+  const findProductEvaluation = (cartItemId: string, voucherId: string) => {
+    const storeId = storeGroups?.find((group) =>
+      group.items.some((item) => item.cartItemId === cartItemId),
+    )?.storeId;
+    if (!storeId) return undefined;
+    const evaluations: VoucherEvaluation[] =
+      voucherPlans.get(storeId)?.productEvaluations[cartItemId] ?? [];
+    return evaluations.find((evaluation) => evaluation.voucher.voucherId === voucherId);
+  };
+
+  const renderVoucherOptionInfo = (
+    voucher: ShopVoucherFromAPI,
+    evaluation: VoucherEvaluation | undefined,
+  ) => (
+    <View style={styles.voucherOptionInfo}>
+      <View style={styles.voucherOptionTitleRow}>
+        <Text style={styles.voucherOptionName}>{voucher.title || voucher.name || voucher.code}</Text>
+        {evaluation?.status === 'APPLIED' && <Text style={styles.bestBadge}>Tốt nhất</Text>}
+      </View>
+      {evaluation && (
+        <Text
+          style={[
+            styles.voucherOptionReason,
+            !isVoucherEvaluationUsable(evaluation) && styles.voucherOptionReasonBlocked,
+          ]}
+        >
+          {describeVoucherEvaluation(evaluation)}
+        </Text>
+      )}
+    </View>
+  );
+
   // Helper: Kiểm tra item có được chọn không
   const isItemSelected = (cartItemId: string): boolean => {
     if (selectedIds === null) {
@@ -172,6 +215,8 @@ const CartItemList: React.FC<Props> = ({
                 (v: ShopVoucherFromAPI) => (v.shopVoucherId || v.voucherId) === selectedShopVoucher.shopVoucherId,
               )
             : null;
+          const voucherPlan = voucherPlans.get(group.storeId);
+          const isManualVoucher = manualVoucherStoreIds.has(group.storeId);
 
           return (
             <View key={group.storeId} style={styles.storeGroup}>
@@ -196,6 +241,23 @@ const CartItemList: React.FC<Props> = ({
                 )}
               </View>
 
+              {/* Gợi ý voucher tốt nhất */}
+              {voucherPlan && voucherPlan.totalDiscount > 0 && (
+                <View style={styles.voucherSuggestion}>
+                  <MaterialCommunityIcons name="lightbulb-on-outline" size={16} color={ORANGE} />
+                  <Text style={styles.voucherSuggestionText}>
+                    {isManualVoucher
+                      ? `Gợi ý tốt nhất tiết kiệm ${formatCurrencyVND(voucherPlan.totalDiscount)}`
+                      : `Đã tự chọn voucher tốt nhất, tiết kiệm ${formatCurrencyVND(voucherPlan.totalDiscount)}`}
+                  </Text>
+                  {isManualVoucher && onUseBestVouchers && (
+                    <TouchableOpacity onPress={() => onUseBestVouchers(group.storeId)}>
+                      <Text style={styles.voucherSuggestionAction}>Dùng gợi ý tốt nhất</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+
               {/* Store Items */}
               {group.items.map((item) => {
                 const itemVouchers = productVouchers.get(item.cartItemId) || [];
@@ -309,12 +371,23 @@ const CartItemList: React.FC<Props> = ({
                             <MaterialCommunityIcons name="plus" size={18} color={ORANGE} />
                           </TouchableOpacity>
                         </View>
-                        <TouchableOpacity
-                          style={styles.removeButton}
-                          onPress={() => handleRemoveItem(item.cartItemId)}
-                        >
-                          <MaterialCommunityIcons name="delete-outline" size={20} color="#B3261E" />
-                        </TouchableOpacity>
+                        <View style={styles.lineActions}>
+                          {onSaveForLater && (
+                            <TouchableOpacity
+                              style={styles.saveForLaterButton}
+                              onPress={() => onSaveForLater(item.cartItemId)}
+                            >
+                              <MaterialCommunityIcons name="bookmark-outline" size={18} color="#666" />
+                              <Text style={styles.saveForLaterText}>Để sau</Text>
+                            </TouchableOpacity>
+                          )}
+                          <TouchableOpacity
+                            style={styles.removeButton}
+                            onPress={() => handleRemoveItem(item.cartItemId)}
+                          >
+                            <MaterialCommunityIcons name="delete-outline" size={20} color="#B3261E" />
+                          </TouchableOpacity>
+                        </View>
                       </View>
                       <View style={styles.lineTotalRow}>
                         <Text style={styles.lineTotalLabel}>Thành tiền:</Text>
@@ -363,10 +436,19 @@ const CartItemList: React.FC<Props> = ({
                   const voucherId = voucher.shopVoucherId || voucher.voucherId || '';
                   const isSelected =
                     selectedShopVouchers.get(shopVoucherModal.storeId)?.shopVoucherId === voucherId;
+                  const shopEvaluations: VoucherEvaluation[] =
+                    voucherPlans.get(shopVoucherModal.storeId)?.shopEvaluations ?? [];
+                  const evaluation = shopEvaluations.find(
+                    (item) => item.voucher.voucherId === voucherId,
+                  );
                   return (
                     <TouchableOpacity
                       key={voucherId}
-                      style={[styles.voucherOption, isSelected && styles.voucherOptionSelected]}
+                      style={[
+                        styles.voucherOption,
+                        isSelected && styles.voucherOptionSelected,
+                        evaluation && !isVoucherEvaluationUsable(evaluation) && styles.voucherOptionBlocked,
+                      ]}
                       onPress={() => {
                         if (onSelectShopVoucher) {
                           onSelectShopVoucher(shopVoucherModal.storeId, voucherId, voucher.code);
@@ -374,9 +456,7 @@ const CartItemList: React.FC<Props> = ({
                         setShopVoucherModal({ storeId: '', visible: false });
                       }}
                     >
-                      <Text style={styles.voucherOptionText}>
-                        {voucher.title || voucher.name || voucher.code}
-                      </Text>
+                      {renderVoucherOptionInfo(voucher, evaluation)}
                       <Text style={styles.voucherOptionDiscount}>
                         {getVoucherDisplayText(voucher)}
                       </Text>
@@ -425,10 +505,15 @@ const CartItemList: React.FC<Props> = ({
                   const isSelected =
                     selectedProductVouchers.get(productVoucherModal.cartItemId)?.shopVoucherId ===
                     voucherId;
+                  const evaluation = findProductEvaluation(productVoucherModal.cartItemId, voucherId);
                   return (
                     <TouchableOpacity
                       key={voucherId}
-                      style={[styles.voucherOption, isSelected && styles.voucherOptionSelected]}
+                      style={[
+                        styles.voucherOption,
+                        isSelected && styles.voucherOptionSelected,
+                        evaluation && !isVoucherEvaluationUsable(evaluation) && styles.voucherOptionBlocked,
+                      ]}
                       onPress={() => {
                         if (onSelectProductVoucher) {
                           onSelectProductVoucher(
@@ -440,9 +525,7 @@ const CartItemList: React.FC<Props> = ({
                         setProductVoucherModal({ cartItemId: '', visible: false });
                       }}
                     >
-                      <Text style={styles.voucherOptionText}>
-                        {voucher.title || voucher.name || voucher.code}
-                      </Text>
+                      {renderVoucherOptionInfo(voucher, evaluation)}
                       <Text style={styles.voucherOptionDiscount}>
                         {getVoucherDisplayText(voucher)}
                       </Text>
@@ -543,12 +626,23 @@ const CartItemList: React.FC<Props> = ({
                     <MaterialCommunityIcons name="plus" size={18} color={ORANGE} />
                   </TouchableOpacity>
                 </View>
-                <TouchableOpacity
-                  style={styles.removeButton}
-                  onPress={() => handleRemoveItem(item.cartItemId)}
-                >
-                  <MaterialCommunityIcons name="delete-outline" size={20} color="#B3261E" />
-                </TouchableOpacity>
+                <View style={styles.lineActions}>
+                  {onSaveForLater && (
+                    <TouchableOpacity
+                      style={styles.saveForLaterButton}
+                      onPress={() => onSaveForLater(item.cartItemId)}
+                    >
+                      <MaterialCommunityIcons name="bookmark-outline" size={18} color="#666" />
+                      <Text style={styles.saveForLaterText}>Để sau</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => handleRemoveItem(item.cartItemId)}
+                  >
+                    <MaterialCommunityIcons name="delete-outline" size={20} color="#B3261E" />
+                  </TouchableOpacity>
+                </View>
               </View>
               <View style={styles.lineTotalRow}>
                 <Text style={styles.lineTotalLabel}>Thành tiền:</Text>
@@ -616,6 +710,27 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: ORANGE,
   },
+  voucherSuggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#FFF8F3',
+  },
+  voucherSuggestionText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#555',
+  },
+  voucherSuggestionAction: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: ORANGE,
+  },
   productVoucherButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -738,6 +853,21 @@ const styles = StyleSheet.create({
     minWidth: 30,
     textAlign: 'center',
   },
+  lineActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  saveForLaterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    padding: 4,
+  },
+  saveForLaterText: {
+    fontSize: 12,
+    color: '#666',
+  },
   removeButton: {
     padding: 4,
   },
@@ -804,6 +934,41 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#222',
   },
+  voucherOptionBlocked: {
+    opacity: 0.6,
+  },
+  voucherOptionInfo: {
+    flex: 1,
+  },
+  voucherOptionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  voucherOptionName: {
+    flexShrink: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#222',
+  },
+  voucherOptionReason: {
+    fontSize: 12,
+    color: '#2E7D32',
+    marginTop: 2,
+  },
+  voucherOptionReasonBlocked: {
+    color: '#B3261E',
+  },
+  bestBadge: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    backgroundColor: ORANGE,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
   voucherOptionDiscount: {
     fontSize: 14,
     fontWeight: '600',
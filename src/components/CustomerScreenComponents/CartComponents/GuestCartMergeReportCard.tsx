@@ -0,0 +1,175 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import React from 'react';
+import { Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { GuestCartMergeIssue, GuestCartMergeReport } from '../../../types/cart';
+
+const ORANGE = '#FF6A00';
+
+const formatCurrencyVND = (value: number) =>
+  new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+
+type Props = {
+  report: GuestCartMergeReport;
+  onDismiss: () => void;
+};
+
+const IssueRow: React.FC<{ issue: GuestCartMergeIssue; type: 'outOfStock' | 'priceChanged' }> = ({
+  issue,
+  type,
+}) => {
+  const priceUp =
+    typeof issue.currentPrice === 'number' && issue.currentPrice > issue.previousPrice;
+
+  return (
+    <View style={styles.issueRow}>
+      <Image source={{ uri: issue.image }} style={styles.issueImage} />
+      <View style={styles.issueInfo}>
+        <Text style={styles.issueName} numberOfLines={1}>
+          {issue.name}
+        </Text>
+        {!!issue.variantOptionValue && (
+          <Text style={styles.issueVariant}>Phân loại: {issue.variantOptionValue}</Text>
+        )}
+        {type === 'outOfStock' ? (
+          <Text style={styles.outOfStockText}>Hết hàng / ngừng bán - chưa thêm vào giỏ</Text>
+        ) : (
+          <View style={styles.priceRow}>
+            <Text style={styles.oldPrice}>{formatCurrencyVND(issue.previousPrice)}</Text>
+            <MaterialCommunityIcons name="arrow-right" size={12} color="#999" />
+            <Text style={[styles.newPrice, priceUp ? styles.priceUp : styles.priceDown]}>
+              {formatCurrencyVND(issue.currentPrice ?? issue.previousPrice)}
+            </Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+// Báo cáo sau khi gộp giỏ hàng khách vào tài khoản vừa đăng nhập
+const GuestCartMergeReportCard: React.FC<Props> = ({ report, onDismiss }) => {
+  const hasIssues = report.outOfStock.length > 0 || report.priceChanged.length > 0;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <MaterialCommunityIcons
+          name={hasIssues ? 'cart-remove' : 'cart-check'}
+          size={20}
+          color={hasIssues ? ORANGE : '#2E7D32'}
+        />
+        <Text style={styles.title}>
+          Đã gộp {report.mergedCount} sản phẩm từ giỏ hàng trước khi đăng nhập
+        </Text>
+        <TouchableOpacity onPress={onDismiss} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <MaterialCommunityIcons name="close" size={18} color="#999" />
+        </TouchableOpacity>
+      </View>
+
+      {report.outOfStock.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>
+            {report.outOfStock.length} sản phẩm không còn hàng
+          </Text>
+          {report.outOfStock.map((issue, index) => (
+            <IssueRow key={`oos-${index}`} issue={issue} type="outOfStock" />
+          ))}
+        </View>
+      )}
+
+      {report.priceChanged.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>
+            {report.priceChanged.length} sản phẩm đã thay đổi giá
+          </Text>
+          {report.priceChanged.map((issue, index) => (
+            <IssueRow key={`price-${index}`} issue={issue} type="priceChanged" />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+export default GuestCartMergeReportCard;
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 12,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#FFE0CC',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+  },
+  section: {
+    marginTop: 10,
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#666',
+  },
+  issueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  issueImage: {
+    width: 40,
+    height: 40,
+    borderRadius: 6,
+    backgroundColor: '#F5F5F5',
+  },
+  issueInfo: {
+    flex: 1,
+  },
+  issueName: {
+    fontSize: 13,
+    color: '#222',
+  },
+  issueVariant: {
+    fontSize: 11,
+    color: '#888',
+    marginTop: 2,
+  },
+  outOfStockText: {
+    fontSize: 12,
+    color: '#B3261E',
+    marginTop: 2,
+  },
+  priceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 2,
+  },
+  oldPrice: {
+    fontSize: 12,
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+  newPrice: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  priceUp: {
+    color: '#B3261E',
+  },
+  priceDown: {
+    color: '#2E7D32',
+  },
+});
@@ -0,0 +1,182 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import React from 'react';
+import { Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { SavedCartItem } from '../../../types/cart';
+
+const ORANGE = '#FF6A00';
+
+const formatCurrencyVND = (value: number) =>
+  new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+
+type Props = {
+  items: SavedCartItem[];
+  onMoveToCart: (savedItemId: string) => void;
+  onRemove: (savedItemId: string) => void;
+};
+
+// Danh sách "Lưu để mua sau" dưới giỏ hàng - không tính vào tạm tính và voucher
+const SavedForLaterList: React.FC<Props> = ({ items, onMoveToCart, onRemove }) => {
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <MaterialCommunityIcons name="bookmark-multiple-outline" size={20} color={ORANGE} />
+        <Text style={styles.title}>Lưu để mua sau ({items.length})</Text>
+      </View>
+
+      {items.map((item) => {
+        const currentPrice = item.currentPrice ?? item.savedPrice;
+        const priceDiff = currentPrice - item.savedPrice;
+        const outOfStock = item.inStock === false;
+
+        return (
+          <View key={item.id} style={styles.itemRow}>
+            <Image source={{ uri: item.image }} style={styles.itemImage} />
+            <View style={styles.itemInfo}>
+              <Text style={styles.itemName} numberOfLines={2}>
+                {item.name}
+              </Text>
+              {!!item.variantOptionValue && (
+                <Text style={styles.itemVariant}>
+                  {item.variantOptionName ? `${item.variantOptionName}: ` : ''}
+                  {item.variantOptionValue}
+                </Text>
+              )}
+              <View style={styles.priceRow}>
+                <Text style={styles.itemPrice}>{formatCurrencyVND(currentPrice)}</Text>
+                <Text style={styles.itemQuantity}>x{item.quantity}</Text>
+              </View>
+              {priceDiff !== 0 && (
+                <Text style={[styles.priceChange, priceDiff < 0 ? styles.priceDown : styles.priceUp]}>
+                  {`${priceDiff < 0 ? 'Giảm' : 'Tăng'} ${formatCurrencyVND(Math.abs(priceDiff))} so với lúc lưu (${formatCurrencyVND(item.savedPrice)})`}
+                </Text>
+              )}
+              {outOfStock && <Text style={styles.outOfStock}>Tạm hết hàng</Text>}
+
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={[styles.moveButton, outOfStock && styles.moveButtonDisabled]}
+                  onPress={() => onMoveToCart(item.id)}
+                  disabled={outOfStock}
+                >
+                  <MaterialCommunityIcons name="cart-arrow-up" size={16} color="#FFFFFF" />
+                  <Text style={styles.moveButtonText}>Chuyển vào giỏ</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.removeButton} onPress={() => onRemove(item.id)}>
+                  <MaterialCommunityIcons name="delete-outline" size={20} color="#B3261E" />
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+export default SavedForLaterList;
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#222',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  itemImage: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: '#F5F5F5',
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#222',
+  },
+  itemVariant: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  priceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  itemPrice: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: ORANGE,
+  },
+  itemQuantity: {
+    fontSize: 12,
+    color: '#666',
+  },
+  priceChange: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  priceDown: {
+    color: '#2E7D32',
+  },
+  priceUp: {
+    color: '#B3261E',
+  },
+  outOfStock: {
+    fontSize: 12,
+    color: '#B3261E',
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  moveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: ORANGE,
+  },
+  moveButtonDisabled: {
+    backgroundColor: '#CCCCCC',
+  },
+  moveButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  removeButton: {
+    padding: 4,
+  },
+});
@@ -1,2 +1,4 @@
 export { default as CartItemList } from './CartItemList';
 
+export { default as GuestCartMergeReportCard } from './GuestCartMergeReportCard';
+export { default as SavedForLaterList } from './SavedForLaterList';
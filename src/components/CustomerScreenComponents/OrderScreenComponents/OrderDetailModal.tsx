@@ -9,8 +9,15 @@ import {
     View
 } from 'react-native';
 import { Button, Chip, Divider } from 'react-native-paper';
-import { CustomerOrder, GHNOrderResponse, ReturnReasonType } from '../../../types/order';
+import {
+  CreateReturnRequest,
+  CustomerOrder,
+  GHNOrderResponse,
+  OrderItem,
+  ReturnRequest,
+} from '../../../types/order';
 import CancelOrderModal from './CancelOrderModal';
+import PaymentCountdown, { getPaymentDeadline } from './PaymentCountdown';
 import ReturnRequestModal from './ReturnRequestModal';
 
 const ORANGE = '#FF6A00';
@@ -35,6 +42,7 @@ const getStatusLabel = (status: string): string => {
     UNPAID: 'Chưa thanh toán',
     AWAITING_SHIPMENT: 'Chờ giao hàng',
     SHIPPING: 'Đang vận chuyển',
+    DELIVERED_WAITING_CONFIRM: 'Đã giao chờ xác nhận',
     DELIVERY_SUCCESS: 'Giao hàng thành công',
     COMPLETED: 'Hoàn thành',
     CANCELLED: 'Đã hủy',
@@ -49,6 +57,7 @@ const getStatusColor = (status: string): string => {
     UNPAID: '#F44336',
     AWAITING_SHIPMENT: '#2196F3',
     SHIPPING: '#4CAF50',
+    DELIVERED_WAITING_CONFIRM: '#FFC107',
     DELIVERY_SUCCESS: '#4CAF50',
     COMPLETED: '#4CAF50',
     CANCELLED: '#9E9E9E',
@@ -63,15 +72,14 @@ interface OrderDetailModalProps {
   onClose: () => void;
   onCancel: (orderId: string, reason: string, note?: string) => Promise<void>;
   onRequestCancel: (orderId: string, reason: string, note?: string) => Promise<void>;
-  onReturn: (payload: {
-    orderId: string;
-    storeOrderId: string;
-    orderItemId: string;
-    reasonType: ReturnReasonType;
-    reason: string;
-    images?: string[];
-    video?: string;
-  }) => Promise<void>;
+  onReturn: (payload: CreateReturnRequest) => Promise<void>;
+  onPayNow?: (order: CustomerOrder) => Promise<void>;
+  onSwitchToCod?: (order: CustomerOrder) => Promise<void>;
+  onTrackShipment?: (storeOrderId: string, storeName: string) => void;
+  onConfirmReceipt?: (order: CustomerOrder) => Promise<void>;
+  onBuyAgain?: (items: OrderItem[]) => Promise<void>;
+  getItemReturn?: (item: OrderItem) => ReturnRequest | undefined;
+  isPaying?: boolean;
 }
 
 const OrderDetailModal: React.FC<OrderDetailModalProps> = ({
@@ -81,15 +89,58 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({
   onCancel,
   onRequestCancel,
   onReturn,
+  onPayNow,
+  onSwitchToCod,
+  onTrackShipment,
+  onConfirmReceipt,
+  onBuyAgain,
+  getItemReturn,
+  isPaying = false,
 }) => {
   const [showCancelModal, setShowCancelModal] = useState(false);
   const [showReturnModal, setShowReturnModal] = useState(false);
+  const [isConfirmingReceipt, setIsConfirmingReceipt] = useState(false);
+  const [isBuyingAgain, setIsBuyingAgain] = useState(false);
 
+  const isUnpaid = order.status === 'UNPAID';
+  // Backend chỉ cho chuyển COD khi chưa chặn rõ ràng (allowCodSwitch === false)
+  const canSwitchToCod = isUnpaid && order.allowCodSwitch !== false && !!onSwitchToCod;
   const canCancel = order.status === 'PENDING';
   const canRequestCancel = order.status === 'AWAITING_SHIPMENT';
-  const canReturn = order.status === 'DELIVERY_SUCCESS';
+  const canConfirmReceipt = order.status === 'DELIVERED_WAITING_CONFIRM' && !!onConfirmReceipt;
+  // Đã xác nhận nhận hàng thì đóng cửa sổ hoàn trả
+  const canReturn = order.status === 'DELIVERY_SUCCESS' && !order.receivedAt;
+  const canBuyAgain =
+    !!onBuyAgain &&
+    (['DELIVERY_SUCCESS', 'COMPLETED', 'CANCELLED', 'RETURNED'].includes(order.status) ||
+      !!order.receivedAt);
+
+  const handleBuyAgain = async (items: OrderItem[]) => {
+    if (!onBuyAgain || isBuyingAgain) return;
+    try {
+      setIsBuyingAgain(true);
+      await onBuyAgain(items);
+    } finally {
+      setIsBuyingAgain(false);
+    }
+  };
+
+  const handleConfirmReceipt = async () => {
+    if (!onConfirmReceipt || isConfirmingReceipt) return;
+    try {
+      setIsConfirmingReceipt(true);
+      await onConfirmReceipt(order);
+    } finally {
+      setIsConfirmingReceipt(false);
+    }
+  };
 
-  const handleTrackOrder = async (storeOrderId: string) => {
+  const handleTrackOrder = async (storeOrderId: string, storeName: string) => {
+    // Ưu tiên màn hình theo dõi trong app, chỉ mở trang GHN khi không có
+    if (onTrackShipment) {
+      onTrackShipment(storeOrderId, storeName);
+      return;
+    }
     const ghnData = ghnOrderData[storeOrderId];
     if (ghnData?.orderGhn) {
       const trackingUrl = `https://donhang.ghn.vn/?order_code=${ghnData.orderGhn}`;
@@ -135,6 +186,25 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({
                     {getStatusLabel(order.status)}
                   </Chip>
                 </View>
+                {isUnpaid && getPaymentDeadline(order) !== null && (
+                  <View style={styles.countdownRow}>
+                    <PaymentCountdown order={order} />
+                  </View>
+                )}
+                {order.status === 'DELIVERED_WAITING_CONFIRM' && order.autoConfirmAt && (
+                  <View style={styles.autoConfirmNotice}>
+                    <MaterialCommunityIcons name="timer-sand" size={16} color="#F57C00" />
+                    <Text style={styles.autoConfirmText}>
+                      Đơn hàng sẽ tự động xác nhận đã nhận vào {formatDate(order.autoConfirmAt)}
+                    </Text>
+                  </View>
+                )}
+                {order.receivedAt && (
+                  <View style={styles.infoRow}>
+                    <Text style={styles.infoLabel}>Đã nhận hàng:</Text>
+                    <Text style={styles.infoValue}>{formatDate(order.receivedAt)}</Text>
+                  </View>
+                )}
               </View>
 
               {/* Delivery Address */}
@@ -167,6 +237,16 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({
                           <Text style={styles.itemPrice}>
                             {formatCurrencyVND(item.unitPrice)} x {item.quantity}
                           </Text>
+                          {canBuyAgain && (
+                            <TouchableOpacity
+                              style={styles.buyAgainItemButton}
+                              onPress={() => handleBuyAgain([item])}
+                              disabled={isBuyingAgain}
+                            >
+                              <MaterialCommunityIcons name="cart-arrow-down" size={14} color={ORANGE} />
+                              <Text style={styles.buyAgainItemText}>Mua lại</Text>
+                            </TouchableOpacity>
+                          )}
                         </View>
                         <Text style={styles.itemTotal}>{formatCurrencyVND(item.lineTotal)}</Text>
                       </View>
@@ -181,7 +261,7 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({
                     {ghnData?.orderGhn && (
                       <TouchableOpacity
                         style={styles.trackButton}
-                        onPress={() => handleTrackOrder(storeOrder.id)}
+                        onPress={() => handleTrackOrder(storeOrder.id, storeOrder.storeName)}
                       >
                         <MaterialCommunityIcons name="truck-delivery" size={20} color={ORANGE} />
                         <Text style={styles.trackButtonText}>
@@ -222,6 +302,29 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({
 
             {/* Action Buttons */}
             <View style={styles.actionContainer}>
+              {canSwitchToCod && (
+                <Button
+                  mode="outlined"
+                  onPress={() => onSwitchToCod?.(order)}
+                  style={styles.actionButton}
+                  textColor={ORANGE}
+                  disabled={isPaying}
+                >
+                  Chuyển sang COD
+                </Button>
+              )}
+              {isUnpaid && onPayNow && (
+                <Button
+                  mode="contained"
+                  onPress={() => onPayNow(order)}
+                  style={styles.actionButton}
+                  buttonColor={ORANGE}
+                  loading={isPaying}
+                  disabled={isPaying}
+                >
+                  Thanh toán ngay
+                </Button>
+              )}
               {canCancel && (
                 <Button
                   mode="outlined"
@@ -242,6 +345,31 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({
                   Yêu cầu hủy
                 </Button>
               )}
+              {canConfirmReceipt && (
+                <Button
+                  mode="contained"
+                  onPress={handleConfirmReceipt}
+                  style={styles.actionButton}
+                  buttonColor={ORANGE}
+                  loading={isConfirmingReceipt}
+                  disabled={isConfirmingReceipt}
+                >
+                  Đã nhận hàng
+                </Button>
+              )}
+              {canBuyAgain && (
+                <Button
+                  mode={canReturn ? 'outlined' : 'contained'}
+                  onPress={() => handleBuyAgain(order.storeOrders.flatMap((storeOrder) => storeOrder.items))}
+                  style={styles.actionButton}
+                  buttonColor={canReturn ? undefined : ORANGE}
+                  textColor={canReturn ? ORANGE : undefined}
+                  loading={isBuyingAgain}
+                  disabled={isBuyingAgain}
+                >
+                  Mua lại đơn này
+                </Button>
+              )}
               {canReturn && (
                 <Button
                   mode="contained"
@@ -278,6 +406,7 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({
           order={order}
           onClose={() => setShowReturnModal(false)}
           onConfirm={onReturn}
+          getItemReturn={getItemReturn}
         />
       )}
     </>
@@ -349,6 +478,24 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '700',
   },
+  countdownRow: {
+    flexDirection: 'row',
+    marginTop: 4,
+  },
+  autoConfirmNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: '#FFF8E1',
+  },
+  autoConfirmText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#F57C00',
+  },
   addressText: {
     fontSize: 14,
     color: '#666',
@@ -448,6 +595,18 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: ORANGE,
   },
+  buyAgainItemButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    marginTop: 4,
+  },
+  buyAgainItemText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: ORANGE,
+  },
   actionContainer: {
     flexDirection: 'row',
     gap: 12,
@@ -1,8 +1,11 @@
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import React from 'react';
 import { Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
-import { Chip } from 'react-native-paper';
-import { CustomerOrder, GHNOrderResponse } from '../../../types/order';
+import { Button, Chip } from 'react-native-paper';
+import { CustomerOrder, GHNOrderResponse, OrderItem, ReturnRequest } from '../../../types/order';
+import { Review } from '../../../types/review';
+import { getReturnStatusColor, getReturnStatusLabel } from '../../../utils/returnStatus';
+import PaymentCountdown from './PaymentCountdown';
 
 const ORANGE = '#FF6A00';
 
@@ -50,14 +53,60 @@ interface OrderItemCardProps {
   order: CustomerOrder;
   ghnOrderData: Record<string, GHNOrderResponse['data']>;
   onPress: () => void;
+  onPayNow?: () => void;
+  isPaying?: boolean;
+  onPaymentExpire?: () => void;
+  getItemReview?: (item: OrderItem) => Review | undefined;
+  onReviewItem?: (item: OrderItem) => void;
+  getItemReturn?: (item: OrderItem) => ReturnRequest | undefined;
+  onViewReturn?: (request: ReturnRequest) => void;
+  onBuyAgain?: () => void;
+  isBuyingAgain?: boolean;
 }
 
-const OrderItemCard: React.FC<OrderItemCardProps> = ({ order, ghnOrderData, onPress }) => {
+const OrderItemCard: React.FC<OrderItemCardProps> = ({
+  order,
+  ghnOrderData,
+  onPress,
+  onPayNow,
+  isPaying = false,
+  onPaymentExpire,
+  getItemReview,
+  onReviewItem,
+  getItemReturn,
+  onViewReturn,
+  onBuyAgain,
+  isBuyingAgain = false,
+}) => {
   const firstStoreOrder = order.storeOrders?.[0];
   const firstItem = firstStoreOrder?.items?.[0];
 
   // Get GHN tracking code if available
   const hasGhnTracking = firstStoreOrder && ghnOrderData[firstStoreOrder.id];
+  const isUnpaid = order.status === 'UNPAID';
+  // Đơn đã kết thúc (giao xong / hoàn thành / đã hủy) mới hiện nút mua lại
+  const canBuyAgain =
+    !!onBuyAgain &&
+    (['DELIVERY_SUCCESS', 'COMPLETED', 'CANCELLED', 'RETURNED'].includes(order.status) ||
+      !!order.receivedAt);
+
+  // Đơn hoàn thành hoặc đã xác nhận nhận hàng: cho phép đánh giá từng sản phẩm (combo không đánh giá được)
+  const reviewableItems =
+    (order.status === 'COMPLETED' || !!order.receivedAt) && onReviewItem
+      ? order.storeOrders.flatMap((storeOrder) =>
+          storeOrder.items.filter((item) => item.type === 'PRODUCT'),
+        )
+      : [];
+  const pendingReviewCount = reviewableItems.filter((item) => !getItemReview?.(item)).length;
+
+  // Sản phẩm đã có yêu cầu hoàn trả, hiển thị trạng thái và liên kết tới màn hình hoàn trả
+  const returnedItems = getItemReturn
+    ? order.storeOrders.flatMap((storeOrder) =>
+        storeOrder.items
+          .map((item) => ({ item, request: getItemReturn(item) }))
+          .filter((entry): entry is { item: OrderItem; request: ReturnRequest } => !!entry.request),
+      )
+    : [];
 
   return (
     <TouchableOpacity style={styles.card} onPress={onPress} activeOpacity={0.7}>
@@ -76,6 +125,13 @@ const OrderItemCard: React.FC<OrderItemCardProps> = ({ order, ghnOrderData, onPr
         </Chip>
       </View>
 
+      {pendingReviewCount > 0 && (
+        <View style={styles.pendingReviewBadge}>
+          <MaterialCommunityIcons name="star-outline" size={14} color={ORANGE} />
+          <Text style={styles.pendingReviewText}>{pendingReviewCount} sản phẩm chờ đánh giá</Text>
+        </View>
+      )}
+
       {firstItem && (
         <View style={styles.itemRow}>
           {firstItem.image && (
@@ -101,6 +157,87 @@ const OrderItemCard: React.FC<OrderItemCardProps> = ({ order, ghnOrderData, onPr
           <Text style={styles.totalLabel}>Tổng tiền:</Text>
           <Text style={styles.totalValue}>{formatCurrencyVND(order.grandTotal)}</Text>
         </View>
+        {isUnpaid && (
+          <View style={styles.unpaidRow}>
+            <PaymentCountdown order={order} onExpire={onPaymentExpire} />
+            {onPayNow && (
+              <Button
+                mode="contained"
+                compact
+                onPress={onPayNow}
+                loading={isPaying}
+                disabled={isPaying}
+                buttonColor={ORANGE}
+                labelStyle={styles.payNowLabel}
+              >
+                Thanh toán ngay
+              </Button>
+            )}
+          </View>
+        )}
+        {returnedItems.length > 0 && (
+          <View style={styles.reviewSection}>
+            {returnedItems.map(({ item, request }) => (
+              <TouchableOpacity
+                key={item.id}
+                style={styles.reviewRow}
+                onPress={() => onViewReturn?.(request)}
+                disabled={!onViewReturn}
+              >
+                <View style={styles.reviewItemInfo}>
+                  <Text style={styles.reviewItemName} numberOfLines={1}>
+                    {item.name}
+                  </Text>
+                  <Text style={[styles.returnStatusText, { color: getReturnStatusColor(request.status) }]}>
+                    Hoàn trả: {getReturnStatusLabel(request.status)}
+                  </Text>
+                </View>
+                <MaterialCommunityIcons name="chevron-right" size={18} color="#999" />
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        {reviewableItems.length > 0 && (
+          <View style={styles.reviewSection}>
+            {reviewableItems.map((item) => {
+              const review = getItemReview?.(item);
+              return (
+                <View key={item.id} style={styles.reviewRow}>
+                  <View style={styles.reviewItemInfo}>
+                    <Text style={styles.reviewItemName} numberOfLines={1}>
+                      {item.name}
+                    </Text>
+                    {review ? (
+                      <View style={styles.reviewStars}>
+                        {[1, 2, 3, 4, 5].map((star) => (
+                          <MaterialCommunityIcons
+                            key={star}
+                            name={star <= review.rating ? 'star' : 'star-outline'}
+                            size={12}
+                            color="#FFB800"
+                          />
+                        ))}
+                      </View>
+                    ) : (
+                      <Text style={styles.awaitingReviewText}>Chờ đánh giá</Text>
+                    )}
+                  </View>
+                  <Button
+                    mode={review ? 'outlined' : 'contained'}
+                    compact
+                    onPress={() => onReviewItem?.(item)}
+                    buttonColor={review ? undefined : ORANGE}
+                    textColor={review ? ORANGE : '#FFF'}
+                    style={review ? styles.editReviewButton : undefined}
+                    labelStyle={styles.reviewButtonLabel}
+                  >
+                    {review ? 'Sửa đánh giá' : 'Đánh giá'}
+                  </Button>
+                </View>
+              );
+            })}
+          </View>
+        )}
         {hasGhnTracking && (
           <View style={styles.trackingRow}>
             <MaterialCommunityIcons name="truck-delivery" size={16} color={ORANGE} />
@@ -110,6 +247,21 @@ const OrderItemCard: React.FC<OrderItemCardProps> = ({ order, ghnOrderData, onPr
           </View>
         )}
         <View style={styles.actionRow}>
+          {canBuyAgain && (
+            <Button
+              mode="outlined"
+              compact
+              icon="cart-arrow-down"
+              onPress={onBuyAgain}
+              loading={isBuyingAgain}
+              disabled={isBuyingAgain}
+              textColor={ORANGE}
+              style={styles.buyAgainButton}
+              labelStyle={styles.reviewButtonLabel}
+            >
+              Mua lại
+            </Button>
+          )}
           <Text style={styles.viewDetailText}>Xem chi tiết</Text>
           <MaterialCommunityIcons name="chevron-right" size={20} color={ORANGE} />
         </View>
@@ -214,6 +366,70 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: ORANGE,
   },
+  unpaidRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginBottom: 8,
+  },
+  payNowLabel: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  pendingReviewBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#FFF3E0',
+    marginBottom: 12,
+  },
+  pendingReviewText: {
+    fontSize: 12,
+    color: ORANGE,
+    fontWeight: '600',
+  },
+  reviewSection: {
+    gap: 8,
+    marginBottom: 8,
+  },
+  reviewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  reviewItemInfo: {
+    flex: 1,
+  },
+  returnStatusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  reviewItemName: {
+    fontSize: 13,
+    color: '#222',
+    marginBottom: 2,
+  },
+  reviewStars: {
+    flexDirection: 'row',
+  },
+  awaitingReviewText: {
+    fontSize: 12,
+    color: ORANGE,
+  },
+  editReviewButton: {
+    borderColor: ORANGE,
+  },
+  reviewButtonLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
   trackingRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -231,6 +447,10 @@ const styles = StyleSheet.create({
     justifyContent: 'flex-end',
     marginTop: 4,
   },
+  buyAgainButton: {
+    borderColor: ORANGE,
+    marginRight: 'auto',
+  },
   viewDetailText: {
     fontSize: 14,
     color: ORANGE,
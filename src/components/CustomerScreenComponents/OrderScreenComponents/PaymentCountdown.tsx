@@ -0,0 +1,107 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import React, { useEffect, useRef, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { CustomerOrder } from '../../../types/order';
+
+/**
+ * Thời điểm đơn UNPAID bị tự động hủy (ms), null nếu backend không trả về paymentExpiresAt
+ */
+export const getPaymentDeadline = (order: CustomerOrder): number | null => {
+  if (!order.paymentExpiresAt) {
+    return null;
+  }
+  const deadline = new Date(order.paymentExpiresAt).getTime();
+  return Number.isNaN(deadline) ? null : deadline;
+};
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return hours > 0
+    ? `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`
+    : `${pad(minutes)}:${pad(seconds)}`;
+};
+
+interface PaymentCountdownProps {
+  order: CustomerOrder;
+  onExpire?: () => void;
+}
+
+const PaymentCountdown: React.FC<PaymentCountdownProps> = ({ order, onExpire }) => {
+  const deadline = getPaymentDeadline(order);
+  const [remaining, setRemaining] = useState(() => (deadline ?? 0) - Date.now());
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    if (deadline === null) {
+      return;
+    }
+    setRemaining(deadline - Date.now());
+    if (deadline <= Date.now()) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      const next = deadline - Date.now();
+      setRemaining(next);
+      if (next <= 0) {
+        clearInterval(interval);
+        onExpireRef.current?.();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  // Không có hạn thanh toán từ backend thì không hiển thị thời gian đoán
+  if (deadline === null) {
+    return null;
+  }
+
+  const isExpired = remaining <= 0;
+
+  return (
+    <View style={[styles.container, isExpired && styles.containerExpired]}>
+      <MaterialCommunityIcons
+        name={isExpired ? 'timer-off-outline' : 'timer-outline'}
+        size={16}
+        color={isExpired ? '#9E9E9E' : '#F44336'}
+      />
+      <Text style={[styles.text, isExpired && styles.textExpired]}>
+        {isExpired
+          ? 'Đã hết hạn thanh toán, đơn sẽ bị hủy'
+          : `Tự động hủy sau ${formatRemaining(remaining)}`}
+      </Text>
+    </View>
+  );
+};
+
+export default PaymentCountdown;
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#FFEBEE',
+  },
+  containerExpired: {
+    backgroundColor: '#F5F5F5',
+  },
+  text: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#F44336',
+  },
+  textExpired: {
+    color: '#9E9E9E',
+  },
+});
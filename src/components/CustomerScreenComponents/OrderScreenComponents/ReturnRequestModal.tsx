@@ -1,12 +1,28 @@
 import { MaterialCommunityIcons } from '@expo/vector-icons';
-import React, { useState } from 'react';
-import { Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
-import { Button, RadioButton, TextInput } from 'react-native-paper';
-import { CustomerOrder, ReturnReasonType } from '../../../types/order';
+import * as ImagePicker from 'expo-image-picker';
+import React, { useMemo, useState } from 'react';
+import { Image, Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Button, Checkbox, RadioButton, Switch, TextInput } from 'react-native-paper';
+import { uploadImage, uploadVideo } from '../../../services/uploadService';
+import {
+  CreateReturnRequest,
+  CreateReturnRequestItem,
+  CustomerOrder,
+  OrderItem,
+  ReturnReasonType,
+  ReturnRequest,
+  StoreOrder,
+} from '../../../types/order';
+import { getReturnStatusLabel, isActiveReturnRequest } from '../../../utils/returnStatus';
 
 const ORANGE = '#FF6A00';
 
-const returnReasons: Array<{ label: string; value: ReturnReasonType }> = [
+const MAX_IMAGES = 5;
+
+const formatCurrencyVND = (value: number) =>
+  new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+
+const returnReasons: { label: string; value: ReturnReasonType }[] = [
   { label: 'Sản phẩm bị lỗi', value: 'DEFECTIVE' },
   { label: 'Sai sản phẩm', value: 'WRONG_ITEM' },
   { label: 'Không đúng mô tả', value: 'NOT_AS_DESCRIBED' },
@@ -14,62 +30,220 @@ const returnReasons: Array<{ label: string; value: ReturnReasonType }> = [
   { label: 'Lý do khác', value: 'OTHER' },
 ];
 
+type ItemSelection = {
+  quantity: number;
+  reasonType: ReturnReasonType;
+  reason: string;
+};
+
+type PickedMedia = {
+  type: 'IMAGE' | 'VIDEO';
+  uri: string;
+  name: string;
+};
+
+/**
+ * Ước tính tiền hoàn cho một sản phẩm: đơn giá trừ phần giảm giá của cửa hàng
+ * được phân bổ theo tỷ lệ giá trị dòng hàng
+ */
+const estimateItemRefund = (storeOrder: StoreOrder, item: OrderItem, quantity: number) => {
+  const lineTotal = item.lineTotal || item.unitPrice * item.quantity;
+  const discountShare =
+    storeOrder.totalAmount > 0 ? (storeOrder.discountTotal * lineTotal) / storeOrder.totalAmount : 0;
+  const unitRefund = item.unitPrice - discountShare / Math.max(item.quantity, 1);
+  return Math.max(Math.round(unitRefund * quantity), 0);
+};
+
 interface ReturnRequestModalProps {
   order: CustomerOrder;
   onClose: () => void;
-  onConfirm: (payload: {
-    orderId: string;
-    storeOrderId: string;
-    orderItemId: string;
-    reasonType: ReturnReasonType;
-    reason: string;
-    images?: string[];
-    video?: string;
-  }) => void;
+  onConfirm: (payload: CreateReturnRequest) => Promise<void>;
+  getItemReturn?: (item: OrderItem) => ReturnRequest | undefined;
 }
 
-const ReturnRequestModal: React.FC<ReturnRequestModalProps> = ({ order, onClose, onConfirm }) => {
+const ReturnRequestModal: React.FC<ReturnRequestModalProps> = ({
+  order,
+  onClose,
+  onConfirm,
+  getItemReturn,
+}) => {
   const [selectedStoreOrderId, setSelectedStoreOrderId] = useState<string>(
     order.storeOrders[0]?.id || '',
   );
-  const [selectedItemId, setSelectedItemId] = useState<string>(
-    order.storeOrders[0]?.items[0]?.id || '',
-  );
-  const [selectedReason, setSelectedReason] = useState<ReturnReasonType>('DEFECTIVE');
-  const [reasonText, setReasonText] = useState('');
+  const [selections, setSelections] = useState<Record<string, ItemSelection>>({});
+  const [useSharedReason, setUseSharedReason] = useState(true);
+  const [sharedReasonType, setSharedReasonType] = useState<ReturnReasonType>('DEFECTIVE');
+  const [sharedReason, setSharedReason] = useState('');
+  const [media, setMedia] = useState<PickedMedia[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   const selectedStoreOrder = order.storeOrders.find((so) => so.id === selectedStoreOrderId);
   const availableItems = selectedStoreOrder?.items || [];
+  const selectedItems = useMemo(
+    () => (selectedStoreOrder?.items || []).filter((item) => selections[item.id]),
+    [selectedStoreOrder, selections],
+  );
+  const imageCount = media.filter((m) => m.type === 'IMAGE').length;
+  const hasVideo = media.some((m) => m.type === 'VIDEO');
 
-  const handleConfirm = () => {
-    if (selectedStoreOrderId && selectedItemId && selectedReason && reasonText.trim()) {
-      onConfirm({
+  const estimatedRefund = useMemo(
+    () =>
+      selectedStoreOrder
+        ? selectedItems.reduce(
+            (sum, item) => sum + estimateItemRefund(selectedStoreOrder, item, selections[item.id].quantity),
+            0,
+          )
+        : 0,
+    [selectedStoreOrder, selectedItems, selections],
+  );
+
+  const hasValidReasons = useSharedReason
+    ? sharedReason.trim().length > 0
+    : selectedItems.every((item) => selections[item.id].reason.trim().length > 0);
+  const canSubmit = selectedItems.length > 0 && hasValidReasons && !isSubmitting;
+
+  const handleSelectStoreOrder = (storeOrderId: string) => {
+    // Mỗi yêu cầu chỉ thuộc một StoreOrder
+    setSelectedStoreOrderId(storeOrderId);
+    setSelections({});
+  };
+
+  // Sản phẩm đang có yêu cầu hoàn trả (chưa bị từ chối/hủy) thì không chọn lại được
+  const getActiveReturn = (item: OrderItem) => {
+    const request = getItemReturn?.(item);
+    return request && isActiveReturnRequest(request) ? request : undefined;
+  };
+
+  const toggleItem = (item: OrderItem) => {
+    if (getActiveReturn(item)) {
+      return;
+    }
+    setSelections((prev) => {
+      if (prev[item.id]) {
+        const { [item.id]: _removed, ...rest } = prev;
+        return rest;
+      }
+      return { ...prev, [item.id]: { quantity: item.quantity, reasonType: 'DEFECTIVE', reason: '' } };
+    });
+  };
+
+  const updateSelection = (itemId: string, changes: Partial<ItemSelection>) => {
+    setSelections((prev) => (prev[itemId] ? { ...prev, [itemId]: { ...prev[itemId], ...changes } } : prev));
+  };
+
+  const changeQuantity = (item: OrderItem, delta: number) => {
+    const current = selections[item.id]?.quantity ?? 1;
+    const next = Math.min(Math.max(current + delta, 1), item.quantity);
+    updateSelection(item.id, { quantity: next });
+  };
+
+  const pickMedia = async (type: PickedMedia['type']) => {
+    try {
+      const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (permission.status !== 'granted') {
+        setErrorMessage('Cần quyền truy cập thư viện ảnh');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync(
+        type === 'IMAGE'
+          ? {
+              mediaTypes: ImagePicker.MediaTypeOptions.Images,
+              allowsMultipleSelection: true,
+              selectionLimit: MAX_IMAGES - imageCount,
+              quality: 0.8,
+            }
+          : { mediaTypes: ImagePicker.MediaTypeOptions.Videos, quality: 0.8 },
+      );
+
+      if (!result.canceled && result.assets) {
+        const limit = type === 'IMAGE' ? MAX_IMAGES - imageCount : 1;
+        const picked = result.assets.slice(0, limit).map((asset) => ({
+          type,
+          uri: asset.uri,
+          name: asset.fileName || `return_${Date.now()}.${type === 'IMAGE' ? 'jpg' : 'mp4'}`,
+        }));
+        setMedia((prev) => [...prev, ...picked]);
+      }
+    } catch (error) {
+      console.error('[ReturnRequestModal] Failed to pick media:', error);
+      setErrorMessage('Không thể chọn tệp');
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!canSubmit) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setErrorMessage(null);
+
+      // Upload một lần, dùng chung cho mọi sản phẩm trong yêu cầu
+      const images: string[] = [];
+      let video: string | undefined;
+      for (const m of media) {
+        if (m.type === 'VIDEO') {
+          video = (await uploadVideo({ uri: m.uri, type: 'video/mp4', name: m.name })).url;
+        } else {
+          images.push((await uploadImage({ uri: m.uri, type: 'image/jpeg', name: m.name })).url);
+        }
+      }
+
+      const items: CreateReturnRequestItem[] = selectedItems.map((item) => {
+        const selection = selections[item.id];
+        return {
+          orderItemId: item.id,
+          quantity: selection.quantity,
+          reasonType: useSharedReason ? sharedReasonType : selection.reasonType,
+          reason: (useSharedReason ? sharedReason : selection.reason).trim(),
+        };
+      });
+
+      await onConfirm({
         orderId: order.id,
         storeOrderId: selectedStoreOrderId,
-        orderItemId: selectedItemId,
-        reasonType: selectedReason,
-        reason: reasonText.trim(),
-        // TODO: Add image/video upload functionality
-        images: undefined,
-        video: undefined,
+        items,
+        images: images.length > 0 ? images : undefined,
+        video,
       });
+    } catch (error: any) {
+      console.error('[ReturnRequestModal] Failed to submit return request:', error);
+      setErrorMessage(error?.message || 'Không thể gửi yêu cầu hoàn trả. Vui lòng thử lại.');
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
+  const renderReasonPicker = (value: ReturnReasonType, onChange: (value: ReturnReasonType) => void) =>
+    returnReasons.map((reason) => (
+      <TouchableOpacity key={reason.value} style={styles.radioRow} onPress={() => onChange(reason.value)}>
+        <RadioButton
+          value={reason.value}
+          status={value === reason.value ? 'checked' : 'unchecked'}
+          onPress={() => onChange(reason.value)}
+          color={ORANGE}
+        />
+        <Text style={styles.radioLabel}>{reason.label}</Text>
+      </TouchableOpacity>
+    ));
+
   return (
     <Modal visible={true} animationType="slide" transparent={true} onRequestClose={onClose}>
       <View style={styles.modalOverlay}>
         <View style={styles.modalContent}>
           <View style={styles.modalHeader}>
             <Text style={styles.modalTitle}>Yêu cầu hoàn trả sản phẩm</Text>
-            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton} disabled={isSubmitting}>
               <MaterialCommunityIcons name="close" size={24} color="#666" />
             </TouchableOpacity>
           </View>
 
           <ScrollView style={styles.scrollContent} showsVerticalScrollIndicator={false}>
             <Text style={styles.description}>
-              Vui lòng chọn sản phẩm và điền thông tin yêu cầu hoàn trả:
+              Chọn các sản phẩm cần hoàn trả, số lượng và lý do cho từng sản phẩm:
             </Text>
 
             {order.storeOrders.length > 1 && (
@@ -79,18 +253,12 @@ const ReturnRequestModal: React.FC<ReturnRequestModalProps> = ({ order, onClose,
                   <TouchableOpacity
                     key={storeOrder.id}
                     style={styles.radioRow}
-                    onPress={() => {
-                      setSelectedStoreOrderId(storeOrder.id);
-                      setSelectedItemId(storeOrder.items[0]?.id || '');
-                    }}
+                    onPress={() => handleSelectStoreOrder(storeOrder.id)}
                   >
                     <RadioButton
                       value={storeOrder.id}
                       status={selectedStoreOrderId === storeOrder.id ? 'checked' : 'unchecked'}
-                      onPress={() => {
-                        setSelectedStoreOrderId(storeOrder.id);
-                        setSelectedItemId(storeOrder.items[0]?.id || '');
-                      }}
+                      onPress={() => handleSelectStoreOrder(storeOrder.id)}
                       color={ORANGE}
                     />
                     <Text style={styles.radioLabel}>{storeOrder.storeName}</Text>
@@ -100,57 +268,201 @@ const ReturnRequestModal: React.FC<ReturnRequestModalProps> = ({ order, onClose,
             )}
 
             <Text style={styles.label}>Chọn sản phẩm *</Text>
-            {availableItems.map((item) => (
-              <TouchableOpacity
-                key={item.id}
-                style={styles.radioRow}
-                onPress={() => setSelectedItemId(item.id)}
-              >
-                <RadioButton
-                  value={item.id}
-                  status={selectedItemId === item.id ? 'checked' : 'unchecked'}
-                  onPress={() => setSelectedItemId(item.id)}
-                  color={ORANGE}
-                />
-                <Text style={styles.radioLabel}>{item.name}</Text>
-              </TouchableOpacity>
-            ))}
-
-            <Text style={styles.label}>Lý do hoàn trả *</Text>
-            {returnReasons.map((reason) => (
-              <TouchableOpacity
-                key={reason.value}
-                style={styles.radioRow}
-                onPress={() => setSelectedReason(reason.value)}
-              >
-                <RadioButton
-                  value={reason.value}
-                  status={selectedReason === reason.value ? 'checked' : 'unchecked'}
-                  onPress={() => setSelectedReason(reason.value)}
-                  color={ORANGE}
+            {availableItems.map((item) => {
+              const selection = selections[item.id];
+              const activeReturn = getActiveReturn(item);
+              return (
+                <View
+                  key={item.id}
+                  style={[
+                    styles.itemCard,
+                    selection && styles.itemCardSelected,
+                    activeReturn && styles.itemCardDisabled,
+                  ]}
+                >
+                  <TouchableOpacity
+                    style={styles.itemRow}
+                    onPress={() => toggleItem(item)}
+                    disabled={!!activeReturn}
+                  >
+                    <Checkbox
+                      status={selection ? 'checked' : 'unchecked'}
+                      onPress={() => toggleItem(item)}
+                      disabled={!!activeReturn}
+                      color={ORANGE}
+                    />
+                    {item.image ? <Image source={{ uri: item.image }} style={styles.itemImage} /> : null}
+                    <View style={styles.itemInfo}>
+                      <Text style={styles.itemName} numberOfLines={2}>
+                        {item.name}
+                      </Text>
+                      <Text style={styles.itemMeta}>
+                        {formatCurrencyVND(item.unitPrice)} x {item.quantity}
+                      </Text>
+                      {activeReturn && (
+                        <Text style={styles.itemReturnStatus}>
+                          Đã có yêu cầu hoàn trả · {getReturnStatusLabel(activeReturn.status)}
+                        </Text>
+                      )}
+                    </View>
+                  </TouchableOpacity>
+
+                  {selection && (
+                    <View style={styles.itemOptions}>
+                      <View style={styles.quantityRow}>
+                        <Text style={styles.quantityLabel}>Số lượng hoàn trả</Text>
+                        <View style={styles.quantityControl}>
+                          <TouchableOpacity
+                            style={styles.quantityButton}
+                            onPress={() => changeQuantity(item, -1)}
+                            disabled={selection.quantity <= 1}
+                          >
+                            <MaterialCommunityIcons
+                              name="minus"
+                              size={16}
+                              color={selection.quantity <= 1 ? '#CCC' : '#222'}
+                            />
+                          </TouchableOpacity>
+                          <Text style={styles.quantityValue}>{selection.quantity}</Text>
+                          <TouchableOpacity
+                            style={styles.quantityButton}
+                            onPress={() => changeQuantity(item, 1)}
+                            disabled={selection.quantity >= item.quantity}
+                          >
+                            <MaterialCommunityIcons
+                              name="plus"
+                              size={16}
+                              color={selection.quantity >= item.quantity ? '#CCC' : '#222'}
+                            />
+                          </TouchableOpacity>
+                        </View>
+                      </View>
+
+                      {!useSharedReason && (
+                        <>
+                          <Text style={styles.subLabel}>Lý do *</Text>
+                          {renderReasonPicker(selection.reasonType, (reasonType) =>
+                            updateSelection(item.id, { reasonType }),
+                          )}
+                          <TextInput
+                            mode="outlined"
+                            placeholder="Mô tả vấn đề của sản phẩm này..."
+                            value={selection.reason}
+                            onChangeText={(reason) => updateSelection(item.id, { reason })}
+                            multiline
+                            style={styles.noteInput}
+                          />
+                        </>
+                      )}
+                    </View>
+                  )}
+                </View>
+              );
+            })}
+
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Dùng chung một lý do cho tất cả sản phẩm</Text>
+              <Switch value={useSharedReason} onValueChange={setUseSharedReason} color={ORANGE} />
+            </View>
+
+            {useSharedReason && (
+              <>
+                <Text style={styles.label}>Lý do hoàn trả *</Text>
+                {renderReasonPicker(sharedReasonType, setSharedReasonType)}
+
+                <Text style={styles.label}>Mô tả chi tiết *</Text>
+                <TextInput
+                  mode="outlined"
+                  placeholder="Nhập mô tả chi tiết về lý do hoàn trả..."
+                  value={sharedReason}
+                  onChangeText={setSharedReason}
+                  multiline
+                  numberOfLines={4}
+                  style={styles.noteInput}
                 />
-                <Text style={styles.radioLabel}>{reason.label}</Text>
-              </TouchableOpacity>
-            ))}
+              </>
+            )}
 
-            <Text style={styles.label}>Mô tả chi tiết *</Text>
-            <TextInput
-              mode="outlined"
-              placeholder="Nhập mô tả chi tiết về lý do hoàn trả..."
-              value={reasonText}
-              onChangeText={setReasonText}
-              multiline
-              numberOfLines={4}
-              style={styles.noteInput}
-            />
-
-            <Text style={styles.note}>
-              Lưu ý: Bạn có thể đính kèm hình ảnh/video để hỗ trợ yêu cầu hoàn trả (tính năng đang phát triển)
-            </Text>
+            <Text style={styles.label}>Hình ảnh / Video minh chứng</Text>
+            <View style={styles.mediaGrid}>
+              {media.map((m, index) => (
+                <View key={`${m.uri}-${index}`} style={styles.mediaItem}>
+                  {m.type === 'VIDEO' ? (
+                    <View style={styles.videoPlaceholder}>
+                      <MaterialCommunityIcons name="play-circle-outline" size={28} color="#FFF" />
+                    </View>
+                  ) : (
+                    <Image source={{ uri: m.uri }} style={styles.mediaImage} />
+                  )}
+                  <TouchableOpacity
+                    style={styles.removeMediaButton}
+                    onPress={() => setMedia((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={isSubmitting}
+                  >
+                    <MaterialCommunityIcons name="close-circle" size={20} color="#F44336" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              {imageCount < MAX_IMAGES && (
+                <TouchableOpacity
+                  style={styles.addMediaButton}
+                  onPress={() => pickMedia('IMAGE')}
+                  disabled={isSubmitting}
+                >
+                  <MaterialCommunityIcons name="camera-plus-outline" size={24} color={ORANGE} />
+                  <Text style={styles.addMediaText}>
+                    Ảnh {imageCount}/{MAX_IMAGES}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              {!hasVideo && (
+                <TouchableOpacity
+                  style={styles.addMediaButton}
+                  onPress={() => pickMedia('VIDEO')}
+                  disabled={isSubmitting}
+                >
+                  <MaterialCommunityIcons name="video-plus-outline" size={24} color={ORANGE} />
+                  <Text style={styles.addMediaText}>Video</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {selectedItems.length > 0 && selectedStoreOrder && (
+              <View style={styles.refundBox}>
+                <Text style={styles.refundTitle}>Hoàn tiền dự kiến</Text>
+                {selectedItems.map((item) => (
+                  <View key={item.id} style={styles.refundRow}>
+                    <Text style={styles.refundItemName} numberOfLines={1}>
+                      {item.name} x {selections[item.id].quantity}
+                    </Text>
+                    <Text style={styles.refundItemValue}>
+                      {formatCurrencyVND(
+                        estimateItemRefund(selectedStoreOrder, item, selections[item.id].quantity),
+                      )}
+                    </Text>
+                  </View>
+                ))}
+                <View style={[styles.refundRow, styles.refundTotalRow]}>
+                  <Text style={styles.refundTotalLabel}>Tổng cộng</Text>
+                  <Text style={styles.refundTotalValue}>{formatCurrencyVND(estimatedRefund)}</Text>
+                </View>
+                <Text style={styles.note}>
+                  Số tiền thực tế do cửa hàng xác nhận, đã trừ phần giảm giá được phân bổ cho sản phẩm.
+                </Text>
+              </View>
+            )}
+
+            {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
           </ScrollView>
 
           <View style={styles.actionContainer}>
-            <Button mode="outlined" onPress={onClose} style={styles.cancelButton} textColor="#666">
+            <Button
+              mode="outlined"
+              onPress={onClose}
+              style={styles.cancelButton}
+              textColor="#666"
+              disabled={isSubmitting}
+            >
               Hủy
             </Button>
             <Button
@@ -158,7 +470,8 @@ const ReturnRequestModal: React.FC<ReturnRequestModalProps> = ({ order, onClose,
               onPress={handleConfirm}
               style={styles.confirmButton}
               buttonColor={ORANGE}
-              disabled={!selectedStoreOrderId || !selectedItemId || !selectedReason || !reasonText.trim()}
+              disabled={!canSubmit}
+              loading={isSubmitting}
             >
               Gửi yêu cầu
             </Button>
@@ -182,7 +495,7 @@ const styles = StyleSheet.create({
     backgroundColor: '#FFF',
     borderRadius: 20,
     width: '90%',
-    maxHeight: '80%',
+    maxHeight: '85%',
   },
   modalHeader: {
     flexDirection: 'row',
@@ -229,6 +542,188 @@ const styles = StyleSheet.create({
   noteInput: {
     marginTop: 8,
   },
+  itemCard: {
+    borderWidth: 1,
+    borderColor: '#F0F0F0',
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  itemCardSelected: {
+    borderColor: ORANGE,
+  },
+  itemCardDisabled: {
+    opacity: 0.5,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 8,
+  },
+  itemImage: {
+    width: 44,
+    height: 44,
+    borderRadius: 6,
+    backgroundColor: '#F5F5F5',
+    marginHorizontal: 8,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 14,
+    color: '#222',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  itemReturnStatus: {
+    fontSize: 12,
+    color: '#FF5722',
+    marginTop: 2,
+  },
+  itemOptions: {
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+  },
+  quantityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  quantityLabel: {
+    fontSize: 13,
+    color: '#666',
+  },
+  quantityControl: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 6,
+  },
+  quantityButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  quantityValue: {
+    minWidth: 28,
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#222',
+  },
+  subLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#222',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#222',
+  },
+  mediaGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  mediaItem: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  mediaImage: {
+    width: '100%',
+    height: '100%',
+    backgroundColor: '#F5F5F5',
+  },
+  videoPlaceholder: {
+    flex: 1,
+    backgroundColor: '#333',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  removeMediaButton: {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    backgroundColor: '#FFF',
+    borderRadius: 10,
+  },
+  addMediaButton: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: ORANGE,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 2,
+  },
+  addMediaText: {
+    fontSize: 11,
+    color: ORANGE,
+  },
+  refundBox: {
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#FFF3EB',
+  },
+  refundTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#222',
+    marginBottom: 8,
+  },
+  refundRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginBottom: 4,
+  },
+  refundItemName: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+  },
+  refundItemValue: {
+    fontSize: 13,
+    color: '#222',
+  },
+  refundTotalRow: {
+    marginTop: 4,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#FFE0CC',
+  },
+  refundTotalLabel: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#222',
+  },
+  refundTotalValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: ORANGE,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#F44336',
+    marginTop: 12,
+  },
   note: {
     fontSize: 12,
     color: '#666',
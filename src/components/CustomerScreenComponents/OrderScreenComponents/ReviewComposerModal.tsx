@@ -0,0 +1,504 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import React, { useState } from 'react';
+import {
+  Alert,
+  Image,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Button, TextInput } from 'react-native-paper';
+import { uploadImage, uploadVideo } from '../../../services/uploadService';
+import { OrderItem } from '../../../types/order';
+import { Review, ReviewMedia, ReviewMediaType } from '../../../types/review';
+
+const ORANGE = '#FF6A00';
+const STAR_COLOR = '#FFB800';
+
+const MAX_IMAGES = 5;
+const MAX_VIDEOS = 1;
+const MIN_CONTENT_LENGTH = 10;
+
+const ratingLabels: Record<number, string> = {
+  1: 'Tệ',
+  2: 'Không hài lòng',
+  3: 'Bình thường',
+  4: 'Hài lòng',
+  5: 'Tuyệt vời',
+};
+
+// Media đã upload (url) hoặc mới chọn từ máy (uri, upload khi gửi)
+type ComposerMedia = {
+  type: ReviewMediaType;
+  url?: string;
+  uri?: string;
+  name?: string;
+};
+
+export type ReviewComposerPayload = {
+  rating: number;
+  content: string;
+  media: ReviewMedia[];
+};
+
+interface ReviewComposerModalProps {
+  item: OrderItem;
+  // Review hiện có => chế độ sửa
+  review?: Review | null;
+  onClose: () => void;
+  onSubmit: (payload: ReviewComposerPayload) => Promise<void>;
+  onDelete?: (review: Review) => Promise<void>;
+}
+
+const ReviewComposerModal: React.FC<ReviewComposerModalProps> = ({
+  item,
+  review,
+  onClose,
+  onSubmit,
+  onDelete,
+}) => {
+  const isEditing = !!review;
+  const [rating, setRating] = useState(review?.rating ?? 5);
+  const [content, setContent] = useState(review?.content ?? '');
+  const [media, setMedia] = useState<ComposerMedia[]>(
+    () => review?.media?.map((m) => ({ type: m.type, url: m.url })) ?? [],
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const imageCount = media.filter((m) => m.type === 'IMAGE').length;
+  const videoCount = media.filter((m) => m.type === 'VIDEO').length;
+  const isBusy = isSubmitting || isDeleting;
+  const canSubmit = rating > 0 && content.trim().length >= MIN_CONTENT_LENGTH && !isBusy;
+
+  const pickImages = async () => {
+    try {
+      const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (permission.status !== 'granted') {
+        setErrorMessage('Cần quyền truy cập thư viện ảnh');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsMultipleSelection: true,
+        selectionLimit: MAX_IMAGES - imageCount,
+        quality: 0.8,
+      });
+
+      if (!result.canceled && result.assets) {
+        const picked = result.assets.slice(0, MAX_IMAGES - imageCount).map((asset) => ({
+          type: 'IMAGE' as const,
+          uri: asset.uri,
+          name: asset.fileName || `review_${Date.now()}.jpg`,
+        }));
+        setMedia((prev) => [...prev, ...picked]);
+      }
+    } catch (error) {
+      console.error('[ReviewComposerModal] Failed to pick image:', error);
+      setErrorMessage('Không thể chọn ảnh');
+    }
+  };
+
+  const pickVideo = async () => {
+    try {
+      const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (permission.status !== 'granted') {
+        setErrorMessage('Cần quyền truy cập thư viện ảnh');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Videos,
+        quality: 0.8,
+      });
+
+      if (!result.canceled && result.assets && result.assets.length > 0) {
+        const asset = result.assets[0];
+        setMedia((prev) => [
+          ...prev,
+          {
+            type: 'VIDEO',
+            uri: asset.uri,
+            name: asset.fileName || `review_${Date.now()}.mp4`,
+          },
+        ]);
+      }
+    } catch (error) {
+      console.error('[ReviewComposerModal] Failed to pick video:', error);
+      setErrorMessage('Không thể chọn video');
+    }
+  };
+
+  const removeMedia = (index: number) => {
+    setMedia((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  // Upload các file mới chọn, giữ nguyên media đã có url
+  const uploadPendingMedia = async (): Promise<ReviewMedia[]> => {
+    const uploaded: ReviewMedia[] = [];
+    for (const m of media) {
+      if (m.url) {
+        uploaded.push({ type: m.type, url: m.url });
+        continue;
+      }
+      if (!m.uri) {
+        continue;
+      }
+      if (m.type === 'VIDEO') {
+        const result = await uploadVideo({ uri: m.uri, type: 'video/mp4', name: m.name });
+        uploaded.push({ type: 'VIDEO', url: result.url });
+      } else {
+        const result = await uploadImage({ uri: m.uri, type: 'image/jpeg', name: m.name });
+        uploaded.push({ type: 'IMAGE', url: result.url });
+      }
+    }
+    return uploaded;
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setErrorMessage(null);
+      const uploadedMedia = await uploadPendingMedia();
+      // Giữ lại url đã upload để không upload lại nếu gửi thất bại
+      setMedia(uploadedMedia.map((m) => ({ type: m.type, url: m.url })));
+      await onSubmit({ rating, content: content.trim(), media: uploadedMedia });
+    } catch (error: any) {
+      console.error('[ReviewComposerModal] Failed to submit review:', error);
+      setErrorMessage(error?.message || 'Không thể gửi đánh giá. Vui lòng thử lại.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!review || !onDelete) {
+      return;
+    }
+
+    Alert.alert('Xóa đánh giá', 'Bạn có chắc chắn muốn xóa đánh giá này?', [
+      { text: 'Không', style: 'cancel' },
+      {
+        text: 'Xóa',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setIsDeleting(true);
+            setErrorMessage(null);
+            await onDelete(review);
+          } catch (error: any) {
+            setErrorMessage(error?.message || 'Không thể xóa đánh giá. Vui lòng thử lại.');
+          } finally {
+            setIsDeleting(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <Modal visible={true} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{isEditing ? 'Sửa đánh giá' : 'Đánh giá sản phẩm'}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton} disabled={isBusy}>
+              <MaterialCommunityIcons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.scrollContent} showsVerticalScrollIndicator={false}>
+            <View style={styles.productRow}>
+              {item.image ? (
+                <Image source={{ uri: item.variantUrl || item.image }} style={styles.productImage} />
+              ) : null}
+              <View style={styles.productInfo}>
+                <Text style={styles.productName} numberOfLines={2}>
+                  {item.name}
+                </Text>
+                {item.variantOptionValue ? (
+                  <Text style={styles.variantText}>
+                    {item.variantOptionName ? `${item.variantOptionName}: ` : ''}
+                    {item.variantOptionValue}
+                  </Text>
+                ) : null}
+              </View>
+            </View>
+
+            <Text style={styles.label}>Chất lượng sản phẩm *</Text>
+            <View style={styles.starRow}>
+              {[1, 2, 3, 4, 5].map((star) => (
+                <TouchableOpacity
+                  key={star}
+                  onPress={() => setRating(star)}
+                  disabled={isBusy}
+                  hitSlop={{ top: 6, bottom: 6, left: 4, right: 4 }}
+                >
+                  <MaterialCommunityIcons
+                    name={star <= rating ? 'star' : 'star-outline'}
+                    size={34}
+                    color={STAR_COLOR}
+                  />
+                </TouchableOpacity>
+              ))}
+              <Text style={styles.ratingLabel}>{ratingLabels[rating]}</Text>
+            </View>
+
+            <Text style={styles.label}>Nhận xét *</Text>
+            <TextInput
+              mode="outlined"
+              placeholder="Chia sẻ cảm nhận của bạn về sản phẩm..."
+              value={content}
+              onChangeText={setContent}
+              multiline
+              numberOfLines={4}
+              style={styles.contentInput}
+              outlineColor="#E0E0E0"
+              activeOutlineColor={ORANGE}
+              editable={!isBusy}
+            />
+            {content.trim().length > 0 && content.trim().length < MIN_CONTENT_LENGTH && (
+              <Text style={styles.hint}>Nhận xét cần tối thiểu {MIN_CONTENT_LENGTH} ký tự</Text>
+            )}
+
+            <Text style={styles.label}>Hình ảnh / Video</Text>
+            <View style={styles.mediaGrid}>
+              {media.map((m, index) => (
+                <View key={`${m.url || m.uri}-${index}`} style={styles.mediaItem}>
+                  {m.type === 'VIDEO' ? (
+                    <View style={styles.videoPlaceholder}>
+                      <MaterialCommunityIcons name="play-circle-outline" size={28} color="#FFF" />
+                    </View>
+                  ) : (
+                    <Image source={{ uri: m.url || m.uri }} style={styles.mediaImage} />
+                  )}
+                  <TouchableOpacity
+                    style={styles.removeMediaButton}
+                    onPress={() => removeMedia(index)}
+                    disabled={isBusy}
+                  >
+                    <MaterialCommunityIcons name="close-circle" size={20} color="#F44336" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              {imageCount < MAX_IMAGES && (
+                <TouchableOpacity style={styles.addMediaButton} onPress={pickImages} disabled={isBusy}>
+                  <MaterialCommunityIcons name="camera-plus-outline" size={24} color={ORANGE} />
+                  <Text style={styles.addMediaText}>
+                    Ảnh {imageCount}/{MAX_IMAGES}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              {videoCount < MAX_VIDEOS && (
+                <TouchableOpacity style={styles.addMediaButton} onPress={pickVideo} disabled={isBusy}>
+                  <MaterialCommunityIcons name="video-plus-outline" size={24} color={ORANGE} />
+                  <Text style={styles.addMediaText}>Video</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
+          </ScrollView>
+
+          <View style={styles.actionContainer}>
+            {isEditing && onDelete ? (
+              <Button
+                mode="outlined"
+                onPress={handleDelete}
+                style={styles.deleteButton}
+                textColor="#F44336"
+                disabled={isBusy}
+                loading={isDeleting}
+              >
+                Xóa
+              </Button>
+            ) : (
+              <Button
+                mode="outlined"
+                onPress={onClose}
+                style={styles.cancelButton}
+                textColor="#666"
+                disabled={isBusy}
+              >
+                Hủy
+              </Button>
+            )}
+            <Button
+              mode="contained"
+              onPress={handleSubmit}
+              style={styles.confirmButton}
+              buttonColor={ORANGE}
+              disabled={!canSubmit}
+              loading={isSubmitting}
+            >
+              {isEditing ? 'Cập nhật' : 'Gửi đánh giá'}
+            </Button>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default ReviewComposerModal;
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFF',
+    borderRadius: 20,
+    width: '90%',
+    maxHeight: '85%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#222',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  productRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  productImage: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    backgroundColor: '#F5F5F5',
+    marginRight: 12,
+  },
+  productInfo: {
+    flex: 1,
+  },
+  productName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#222',
+  },
+  variantText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#222',
+    marginBottom: 8,
+    marginTop: 12,
+  },
+  starRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  ratingLabel: {
+    fontSize: 14,
+    color: ORANGE,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  contentInput: {
+    backgroundColor: '#FFF',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  mediaGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  mediaItem: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  mediaImage: {
+    width: '100%',
+    height: '100%',
+    backgroundColor: '#F5F5F5',
+  },
+  videoPlaceholder: {
+    flex: 1,
+    backgroundColor: '#333',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  removeMediaButton: {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    backgroundColor: '#FFF',
+    borderRadius: 10,
+  },
+  addMediaButton: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: ORANGE,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 2,
+  },
+  addMediaText: {
+    fontSize: 11,
+    color: ORANGE,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#F44336',
+    marginTop: 12,
+  },
+  actionContainer: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  cancelButton: {
+    flex: 1,
+  },
+  deleteButton: {
+    flex: 1,
+    borderColor: '#F44336',
+  },
+  confirmButton: {
+    flex: 1,
+  },
+});
@@ -1,5 +1,6 @@
 export { default as CancelOrderModal } from './CancelOrderModal';
 export { default as OrderDetailModal } from './OrderDetailModal';
 export { default as OrderItemCard } from './OrderItemCard';
+export { default as PaymentCountdown } from './PaymentCountdown';
 export { default as ReturnRequestModal } from './ReturnRequestModal';
-
+export { default as ReviewComposerModal } from './ReviewComposerModal';
@@ -0,0 +1,136 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { RatingHistogram as RatingHistogramData } from '../../../types/review';
+
+const ORANGE = '#FF6A00';
+const STAR_COLOR = '#FFA800';
+
+interface RatingHistogramProps {
+  histogram: RatingHistogramData;
+  selectedRating: number | null;
+  // Bấm vào một dòng để lọc theo số sao đó (bấm lại để bỏ lọc)
+  onSelectRating: (rating: number | null) => void;
+}
+
+const RatingHistogram: React.FC<RatingHistogramProps> = ({
+  histogram,
+  selectedRating,
+  onSelectRating,
+}) => {
+  const maxCount = Math.max(1, ...Object.values(histogram.counts));
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summary}>
+        <Text style={styles.average}>{histogram.average.toFixed(1)}</Text>
+        <View style={styles.summaryStars}>
+          {[1, 2, 3, 4, 5].map((star) => (
+            <MaterialCommunityIcons
+              key={star}
+              name={
+                star <= Math.floor(histogram.average)
+                  ? 'star'
+                  : star - histogram.average < 1
+                    ? 'star-half-full'
+                    : 'star-outline'
+              }
+              size={14}
+              color={STAR_COLOR}
+            />
+          ))}
+        </View>
+        <Text style={styles.total}>{histogram.total} đánh giá</Text>
+      </View>
+
+      <View style={styles.bars}>
+        {[5, 4, 3, 2, 1].map((star) => {
+          const count = histogram.counts[star] || 0;
+          const isSelected = selectedRating === star;
+          return (
+            <TouchableOpacity
+              key={star}
+              style={[styles.barRow, isSelected && styles.barRowSelected]}
+              onPress={() => onSelectRating(isSelected ? null : star)}
+              disabled={count === 0 && !isSelected}
+            >
+              <Text style={styles.starLabel}>{star}</Text>
+              <MaterialCommunityIcons name="star" size={12} color={STAR_COLOR} />
+              <View style={styles.barTrack}>
+                <View style={[styles.barFill, { width: `${(count / maxCount) * 100}%` }]} />
+              </View>
+              <Text style={styles.count}>{count}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+export default RatingHistogram;
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    marginBottom: 12,
+  },
+  summary: {
+    alignItems: 'center',
+    width: 88,
+  },
+  average: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: '#222',
+  },
+  summaryStars: {
+    flexDirection: 'row',
+    marginVertical: 4,
+  },
+  total: {
+    fontSize: 12,
+    color: '#888',
+  },
+  bars: {
+    flex: 1,
+    gap: 4,
+  },
+  barRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 2,
+    paddingHorizontal: 4,
+    borderRadius: 4,
+  },
+  barRowSelected: {
+    backgroundColor: '#FFF3E0',
+  },
+  starLabel: {
+    width: 10,
+    fontSize: 12,
+    color: '#444',
+    textAlign: 'right',
+  },
+  barTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#EEEEEE',
+    overflow: 'hidden',
+    marginHorizontal: 4,
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: 4,
+    backgroundColor: ORANGE,
+  },
+  count: {
+    width: 28,
+    fontSize: 12,
+    color: '#888',
+  },
+});
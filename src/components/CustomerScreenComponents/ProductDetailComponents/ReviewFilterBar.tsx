@@ -0,0 +1,117 @@
+import React from 'react';
+import { ScrollView, StyleSheet, View } from 'react-native';
+import { Chip } from 'react-native-paper';
+import { ReviewFilter, ReviewSort } from '../../../types/review';
+
+const ORANGE = '#FF6A00';
+
+const sortOptions: { label: string; value: ReviewSort }[] = [
+  { label: 'Mới nhất', value: 'newest' },
+  { label: 'Hữu ích nhất', value: 'helpful' },
+];
+
+interface ReviewFilterBarProps {
+  filter: ReviewFilter;
+  sort: ReviewSort;
+  variantOptions: string[];
+  mediaCount: number;
+  onChangeFilter: (filter: ReviewFilter) => void;
+  onChangeSort: (sort: ReviewSort) => void;
+}
+
+const ReviewFilterBar: React.FC<ReviewFilterBarProps> = ({
+  filter,
+  sort,
+  variantOptions,
+  mediaCount,
+  onChangeFilter,
+  onChangeSort,
+}) => {
+  const isAll = filter.rating === null && !filter.hasMedia && !filter.variantOptionValue;
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <Chip
+      key={key}
+      compact
+      selected={selected}
+      showSelectedCheck={false}
+      onPress={onPress}
+      style={[styles.chip, selected && styles.chipSelected]}
+      textStyle={[styles.chipText, selected && styles.chipTextSelected]}
+    >
+      {label}
+    </Chip>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        {renderChip('all', 'Tất cả', isAll, () =>
+          onChangeFilter({ rating: null, hasMedia: false, variantOptionValue: null }),
+        )}
+        {renderChip('media', `Có hình ảnh/video (${mediaCount})`, filter.hasMedia, () =>
+          onChangeFilter({ ...filter, hasMedia: !filter.hasMedia }),
+        )}
+        {[5, 4, 3, 2, 1].map((star) =>
+          renderChip(`star-${star}`, `${star} sao`, filter.rating === star, () =>
+            onChangeFilter({ ...filter, rating: filter.rating === star ? null : star }),
+          ),
+        )}
+      </ScrollView>
+
+      {variantOptions.length > 1 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.row}
+        >
+          {variantOptions.map((option) =>
+            renderChip(`variant-${option}`, option, filter.variantOptionValue === option, () =>
+              onChangeFilter({
+                ...filter,
+                variantOptionValue: filter.variantOptionValue === option ? null : option,
+              }),
+            ),
+          )}
+        </ScrollView>
+      )}
+
+      <View style={styles.row}>
+        {sortOptions.map((option) =>
+          renderChip(`sort-${option.value}`, option.label, sort === option.value, () =>
+            onChangeSort(option.value),
+          ),
+        )}
+      </View>
+    </View>
+  );
+};
+
+export default ReviewFilterBar;
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: '#F5F5F5',
+  },
+  chipSelected: {
+    backgroundColor: '#FFF3E0',
+    borderColor: ORANGE,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  chipTextSelected: {
+    color: ORANGE,
+    fontWeight: '700',
+  },
+});
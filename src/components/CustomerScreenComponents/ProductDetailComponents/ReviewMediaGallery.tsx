@@ -0,0 +1,136 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useVideoPlayer, VideoView } from 'expo-video';
+import React, { useEffect, useState } from 'react';
+import {
+  Dimensions,
+  FlatList,
+  Image,
+  Modal,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { ReviewMedia } from '../../../types/review';
+
+const { width, height } = Dimensions.get('window');
+
+// Video trong gallery: chỉ phát khi đang ở trang của nó
+const ReviewVideo: React.FC<{ url: string; isActive: boolean }> = ({ url, isActive }) => {
+  const player = useVideoPlayer(url, (instance) => {
+    instance.loop = false;
+  });
+
+  useEffect(() => {
+    if (isActive) {
+      player.play();
+    } else {
+      player.pause();
+    }
+  }, [isActive, player]);
+
+  return (
+    <VideoView
+      player={player}
+      style={styles.video}
+      contentFit="contain"
+      nativeControls
+      allowsFullscreen
+    />
+  );
+};
+
+interface ReviewMediaGalleryProps {
+  media: ReviewMedia[];
+  initialIndex: number;
+  onClose: () => void;
+}
+
+const ReviewMediaGallery: React.FC<ReviewMediaGalleryProps> = ({ media, initialIndex, onClose }) => {
+  const [currentIndex, setCurrentIndex] = useState(initialIndex);
+
+  const handleScrollEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const index = Math.round(event.nativeEvent.contentOffset.x / width);
+    setCurrentIndex(Math.min(Math.max(index, 0), media.length - 1));
+  };
+
+  const renderItem = ({ item, index }: { item: ReviewMedia; index: number }) => (
+    <View style={styles.page}>
+      {item.type === 'IMAGE' ? (
+        <Image source={{ uri: item.url }} style={styles.image} resizeMode="contain" />
+      ) : (
+        <ReviewVideo url={item.url} isActive={index === currentIndex} />
+      )}
+    </View>
+  );
+
+  return (
+    <Modal visible={true} animationType="fade" transparent={false} onRequestClose={onClose}>
+      <View style={styles.container}>
+        <FlatList
+          data={media}
+          extraData={currentIndex}
+          horizontal
+          pagingEnabled
+          showsHorizontalScrollIndicator={false}
+          keyExtractor={(item, index) => `${item.url}-${index}`}
+          renderItem={renderItem}
+          initialScrollIndex={initialIndex}
+          getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+          onMomentumScrollEnd={handleScrollEnd}
+        />
+
+        <View style={styles.topBar}>
+          <Text style={styles.counter}>
+            {currentIndex + 1}/{media.length}
+          </Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <MaterialCommunityIcons name="close" size={28} color="#FFF" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default ReviewMediaGallery;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  page: {
+    width,
+    height,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  image: {
+    width,
+    height: height * 0.8,
+  },
+  video: {
+    width,
+    height: height * 0.8,
+  },
+  topBar: {
+    position: 'absolute',
+    top: 50,
+    left: 16,
+    right: 16,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  counter: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  closeButton: {
+    padding: 4,
+  },
+});
@@ -0,0 +1,333 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import React, { useState } from 'react';
+import {
+  Image,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Button, TextInput } from 'react-native-paper';
+import { uploadImage } from '../../../services/uploadService';
+import { ReturnRequest, ReturnShippingProofRequest } from '../../../types/order';
+
+const ORANGE = '#FF6A00';
+
+const MAX_IMAGES = 3;
+
+const carriers = ['GHN', 'GHTK', 'Viettel Post', 'J&T Express', 'VNPost'];
+
+interface ReturnShippingProofModalProps {
+  request: ReturnRequest;
+  onClose: () => void;
+  onSubmit: (payload: ReturnShippingProofRequest) => Promise<void>;
+}
+
+const ReturnShippingProofModal: React.FC<ReturnShippingProofModalProps> = ({
+  request,
+  onClose,
+  onSubmit,
+}) => {
+  const [trackingCode, setTrackingCode] = useState(request.shippingProof?.trackingCode ?? '');
+  const [carrier, setCarrier] = useState(request.shippingProof?.carrier ?? carriers[0]);
+  // Ảnh đã upload giữ url, ảnh mới chọn giữ uri cho tới khi gửi
+  const [images, setImages] = useState<{ url?: string; uri?: string; name?: string }[]>(
+    () => request.shippingProof?.images?.map((url) => ({ url })) ?? [],
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const canSubmit = trackingCode.trim().length > 0 && !isSubmitting;
+
+  const pickImages = async () => {
+    try {
+      const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (permission.status !== 'granted') {
+        setErrorMessage('Cần quyền truy cập thư viện ảnh');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsMultipleSelection: true,
+        selectionLimit: MAX_IMAGES - images.length,
+        quality: 0.8,
+      });
+
+      if (!result.canceled && result.assets) {
+        const picked = result.assets.slice(0, MAX_IMAGES - images.length).map((asset) => ({
+          uri: asset.uri,
+          name: asset.fileName || `return_${Date.now()}.jpg`,
+        }));
+        setImages((prev) => [...prev, ...picked]);
+      }
+    } catch (error) {
+      console.error('[ReturnShippingProofModal] Failed to pick image:', error);
+      setErrorMessage('Không thể chọn ảnh');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setErrorMessage(null);
+      const uploadedUrls: string[] = [];
+      for (const image of images) {
+        if (image.url) {
+          uploadedUrls.push(image.url);
+        } else if (image.uri) {
+          const result = await uploadImage({ uri: image.uri, type: 'image/jpeg', name: image.name });
+          uploadedUrls.push(result.url);
+        }
+      }
+      // Giữ lại url đã upload để không upload lại nếu gửi thất bại
+      setImages(uploadedUrls.map((url) => ({ url })));
+      await onSubmit({
+        trackingCode: trackingCode.trim(),
+        carrier,
+        images: uploadedUrls.length > 0 ? uploadedUrls : undefined,
+      });
+    } catch (error: any) {
+      console.error('[ReturnShippingProofModal] Failed to submit shipping proof:', error);
+      setErrorMessage(error?.message || 'Không thể gửi thông tin vận chuyển. Vui lòng thử lại.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={true} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Thông tin gửi trả hàng</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton} disabled={isSubmitting}>
+              <MaterialCommunityIcons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.scrollContent} showsVerticalScrollIndicator={false}>
+            <Text style={styles.description}>
+              Vui lòng gửi hàng về cửa hàng và nhập mã vận đơn để cửa hàng theo dõi kiện hàng hoàn trả.
+            </Text>
+
+            <Text style={styles.label}>Đơn vị vận chuyển *</Text>
+            <View style={styles.carrierRow}>
+              {carriers.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.carrierChip, carrier === option && styles.carrierChipActive]}
+                  onPress={() => setCarrier(option)}
+                  disabled={isSubmitting}
+                >
+                  <Text style={[styles.carrierText, carrier === option && styles.carrierTextActive]}>
+                    {option}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Mã vận đơn *</Text>
+            <TextInput
+              mode="outlined"
+              placeholder="Nhập mã vận đơn"
+              value={trackingCode}
+              onChangeText={setTrackingCode}
+              autoCapitalize="characters"
+              style={styles.input}
+              outlineColor="#E0E0E0"
+              activeOutlineColor={ORANGE}
+              editable={!isSubmitting}
+            />
+
+            <Text style={styles.label}>Ảnh biên nhận / kiện hàng</Text>
+            <View style={styles.mediaGrid}>
+              {images.map((image, index) => (
+                <View key={`${image.url || image.uri}-${index}`} style={styles.mediaItem}>
+                  <Image source={{ uri: image.url || image.uri }} style={styles.mediaImage} />
+                  <TouchableOpacity
+                    style={styles.removeMediaButton}
+                    onPress={() => setImages((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={isSubmitting}
+                  >
+                    <MaterialCommunityIcons name="close-circle" size={20} color="#F44336" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              {images.length < MAX_IMAGES && (
+                <TouchableOpacity style={styles.addMediaButton} onPress={pickImages} disabled={isSubmitting}>
+                  <MaterialCommunityIcons name="camera-plus-outline" size={24} color={ORANGE} />
+                  <Text style={styles.addMediaText}>
+                    Ảnh {images.length}/{MAX_IMAGES}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
+          </ScrollView>
+
+          <View style={styles.actionContainer}>
+            <Button
+              mode="outlined"
+              onPress={onClose}
+              style={styles.cancelButton}
+              textColor="#666"
+              disabled={isSubmitting}
+            >
+              Hủy
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleSubmit}
+              style={styles.confirmButton}
+              buttonColor={ORANGE}
+              disabled={!canSubmit}
+              loading={isSubmitting}
+            >
+              Gửi
+            </Button>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default ReturnShippingProofModal;
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#FFF',
+    borderRadius: 20,
+    width: '90%',
+    maxHeight: '85%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#222',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  description: {
+    fontSize: 13,
+    color: '#666',
+    lineHeight: 18,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#222',
+    marginBottom: 8,
+    marginTop: 12,
+  },
+  carrierRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  carrierChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  carrierChipActive: {
+    borderColor: ORANGE,
+    backgroundColor: '#FFF3EB',
+  },
+  carrierText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  carrierTextActive: {
+    color: ORANGE,
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: '#FFF',
+  },
+  mediaGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  mediaItem: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  mediaImage: {
+    width: '100%',
+    height: '100%',
+    backgroundColor: '#F5F5F5',
+  },
+  removeMediaButton: {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    backgroundColor: '#FFF',
+    borderRadius: 10,
+  },
+  addMediaButton: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: ORANGE,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 2,
+  },
+  addMediaText: {
+    fontSize: 11,
+    color: ORANGE,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#F44336',
+    marginTop: 12,
+  },
+  actionContainer: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  cancelButton: {
+    flex: 1,
+  },
+  confirmButton: {
+    flex: 1,
+  },
+});
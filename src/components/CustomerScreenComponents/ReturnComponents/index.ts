@@ -0,0 +1 @@
+export { default as ReturnShippingProofModal } from './ReturnShippingProofModal';
@@ -0,0 +1,194 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { AppliedVoucherCode } from '../../../types/checkout';
+
+const ORANGE = '#FF6A00';
+
+const formatCurrencyVND = (value: number) =>
+  new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+
+type Props = {
+  label: string;
+  appliedCodes: AppliedVoucherCode[];
+  // Trả về thông báo lỗi nếu mã không hợp lệ, null nếu đã áp dụng
+  onApply: (code: string) => Promise<string | null>;
+  onRemove: (code: string) => void;
+  disabled?: boolean;
+};
+
+// Ô nhập mã voucher ở trang thanh toán (theo shop hoặc toàn sàn)
+const VoucherCodeInput: React.FC<Props> = ({
+  label,
+  appliedCodes,
+  onApply,
+  onRemove,
+  disabled = false,
+}) => {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleApply = async () => {
+    if (!code.trim()) {
+      setError('Vui lòng nhập mã voucher');
+      return;
+    }
+    try {
+      setIsApplying(true);
+      setError(null);
+      const failure = await onApply(code);
+      if (failure) {
+        setError(failure);
+      } else {
+        setCode('');
+      }
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[styles.input, !!error && styles.inputError]}
+          value={code}
+          onChangeText={(text) => {
+            setCode(text);
+            setError(null);
+          }}
+          placeholder="Nhập mã voucher"
+          placeholderTextColor="#AAA"
+          autoCapitalize="characters"
+          autoCorrect={false}
+          editable={!disabled && !isApplying}
+          onSubmitEditing={handleApply}
+          returnKeyType="done"
+        />
+        <TouchableOpacity
+          style={[styles.applyButton, (disabled || isApplying) && styles.applyButtonDisabled]}
+          onPress={handleApply}
+          disabled={disabled || isApplying}
+        >
+          {isApplying ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.applyText}>Áp dụng</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+      {error && (
+        <View style={styles.errorRow}>
+          <MaterialCommunityIcons name="alert-circle-outline" size={14} color="#B3261E" />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+      {appliedCodes.map((applied) => (
+        <View key={applied.code} style={styles.appliedRow}>
+          <MaterialCommunityIcons name="ticket-percent-outline" size={16} color={ORANGE} />
+          <Text style={styles.appliedCode}>{applied.code}</Text>
+          <Text style={styles.appliedDiscount}>
+            {applied.discount > 0 ? `-${formatCurrencyVND(applied.discount)}` : 'Đã áp dụng'}
+          </Text>
+          <TouchableOpacity
+            onPress={() => onRemove(applied.code)}
+            disabled={disabled}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <MaterialCommunityIcons name="close-circle" size={18} color="#999" />
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+export default VoucherCodeInput;
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#444',
+    marginBottom: 6,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    height: 40,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#DDD',
+    borderRadius: 8,
+    fontSize: 14,
+    color: '#222',
+  },
+  inputError: {
+    borderColor: '#B3261E',
+  },
+  applyButton: {
+    minWidth: 80,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: ORANGE,
+  },
+  applyButtonDisabled: {
+    opacity: 0.6,
+  },
+  applyText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  errorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 6,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#B3261E',
+  },
+  appliedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#FFF3EB',
+  },
+  appliedCode: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#222',
+  },
+  appliedDiscount: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: ORANGE,
+  },
+});
@@ -0,0 +1,192 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleProp,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+  ViewStyle,
+} from 'react-native';
+import { ApiError } from '../../../api/authenticatedClient';
+import { useAuth } from '../../../context/AuthContext';
+import { useVoucherWallet } from '../../../context/VoucherWalletContext';
+import { ShopVoucher } from '../../../types/voucher';
+import { formatVoucherDiscount, formatVoucherMinOrder } from '../../../utils/voucherWallet';
+
+const ORANGE = '#FF6A00';
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit' });
+
+type Props = {
+  vouchers: ShopVoucher[];
+  title?: string;
+  onRequireLogin: () => void;
+  onMessage: (message: string) => void;
+  style?: StyleProp<ViewStyle>;
+};
+
+// Dải voucher shop có nút "Lưu" vào ví (StorePage, ProductDetailScreen)
+const VoucherCollectList: React.FC<Props> = ({
+  vouchers,
+  title = 'Voucher của shop',
+  onRequireLogin,
+  onMessage,
+  style,
+}) => {
+  const { isAuthenticated } = useAuth();
+  const { isCollected, collectVoucher } = useVoucherWallet();
+  const [collectingId, setCollectingId] = useState<string | null>(null);
+
+  const activeVouchers = vouchers.filter((voucher) => voucher.status === 'ACTIVE');
+  if (activeVouchers.length === 0) {
+    return null;
+  }
+
+  const handleCollect = async (voucher: ShopVoucher) => {
+    if (!isAuthenticated) {
+      onRequireLogin();
+      return;
+    }
+    if (collectingId) {
+      return;
+    }
+    try {
+      setCollectingId(voucher.voucherId);
+      await collectVoucher(voucher);
+      onMessage(`Đã lưu voucher ${voucher.code} vào ví`);
+    } catch (error) {
+      onMessage(ApiError.from(error, 'Không thể lưu voucher. Vui lòng thử lại.').message);
+    } finally {
+      setCollectingId(null);
+    }
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.header}>
+        <MaterialCommunityIcons name="ticket-percent-outline" size={18} color={ORANGE} />
+        <Text style={styles.title}>{title}</Text>
+      </View>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.list}
+      >
+        {activeVouchers.map((voucher) => {
+          const collected = isCollected(voucher.voucherId);
+          const isCollecting = collectingId === voucher.voucherId;
+          return (
+            <View key={voucher.voucherId} style={styles.ticket}>
+              <View style={styles.ticketInfo}>
+                <Text style={styles.discount} numberOfLines={1}>
+                  {formatVoucherDiscount(voucher)}
+                </Text>
+                <Text style={styles.minOrder} numberOfLines={1}>
+                  {formatVoucherMinOrder(voucher)}
+                </Text>
+                <Text style={styles.meta} numberOfLines={1}>
+                  {voucher.scope === 'PRODUCT' ? 'Sản phẩm chọn lọc' : 'Toàn shop'}
+                  {voucher.endTime ? ` · HSD ${formatDate(voucher.endTime)}` : ''}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={[styles.collectButton, collected && styles.collectButtonDone]}
+                onPress={() => handleCollect(voucher)}
+                disabled={collected || isCollecting}
+              >
+                {isCollecting ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={[styles.collectText, collected && styles.collectTextDone]}>
+                    {collected ? 'Đã lưu' : 'Lưu'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+};
+
+export default VoucherCollectList;
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    paddingVertical: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#222',
+  },
+  list: {
+    paddingHorizontal: 16,
+    gap: 10,
+  },
+  ticket: {
+    width: 240,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#FFD2B3',
+    borderLeftWidth: 4,
+    borderLeftColor: ORANGE,
+    backgroundColor: '#FFF6F0',
+  },
+  ticketInfo: {
+    flex: 1,
+  },
+  discount: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: ORANGE,
+  },
+  minOrder: {
+    fontSize: 12,
+    color: '#555',
+    marginTop: 2,
+  },
+  meta: {
+    fontSize: 11,
+    color: '#888',
+    marginTop: 2,
+  },
+  collectButton: {
+    minWidth: 56,
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: ORANGE,
+  },
+  collectButtonDone: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: ORANGE,
+  },
+  collectText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  collectTextDone: {
+    color: ORANGE,
+  },
+});
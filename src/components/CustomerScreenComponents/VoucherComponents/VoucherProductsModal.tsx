@@ -0,0 +1,188 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Image,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { getProductById } from '../../../services/productService';
+import { ProductDetail } from '../../../types/product';
+import { CustomerVoucher } from '../../../types/voucher';
+import { formatVoucherDiscount } from '../../../utils/voucherWallet';
+
+const ORANGE = '#FF6A00';
+// Giới hạn số sản phẩm tải chi tiết cho một voucher
+const MAX_PRODUCTS = 20;
+
+const formatCurrencyVND = (value: number) =>
+  new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+
+type Props = {
+  voucher: CustomerVoucher;
+  onClose: () => void;
+  onSelectProduct: (productId: string) => void;
+};
+
+// Danh sách sản phẩm áp dụng voucher (scope PRODUCT có nhiều productIds)
+const VoucherProductsModal: React.FC<Props> = ({ voucher, onClose, onSelectProduct }) => {
+  const [products, setProducts] = useState<ProductDetail[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const productIds = (voucher.productIds ?? []).slice(0, MAX_PRODUCTS);
+
+    Promise.allSettled(productIds.map((productId) => getProductById(productId))).then((results) => {
+      if (cancelled) {
+        return;
+      }
+      setProducts(
+        results
+          .filter(
+            (result): result is PromiseFulfilledResult<ProductDetail> =>
+              result.status === 'fulfilled',
+          )
+          .map((result) => result.value)
+          .filter((product) => product.status === 'ACTIVE'),
+      );
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [voucher]);
+
+  return (
+    <Modal visible animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.title}>Sản phẩm áp dụng</Text>
+              <Text style={styles.subtitle} numberOfLines={1}>
+                {voucher.code} · {formatVoucherDiscount(voucher)}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <MaterialCommunityIcons name="close" size={22} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          {isLoading ? (
+            <View style={styles.centered}>
+              <ActivityIndicator size="large" color={ORANGE} />
+            </View>
+          ) : (
+            <FlatList
+              data={products}
+              keyExtractor={(item) => item.productId}
+              contentContainerStyle={styles.list}
+              renderItem={({ item }) => (
+                <TouchableOpacity
+                  style={styles.productRow}
+                  onPress={() => onSelectProduct(item.productId)}
+                >
+                  <Image source={{ uri: item.images?.[0] }} style={styles.productImage} />
+                  <View style={styles.productInfo}>
+                    <Text style={styles.productName} numberOfLines={2}>
+                      {item.name}
+                    </Text>
+                    <Text style={styles.productPrice}>
+                      {formatCurrencyVND(item.finalPrice ?? item.price)}
+                    </Text>
+                  </View>
+                  <MaterialCommunityIcons name="chevron-right" size={20} color="#999" />
+                </TouchableOpacity>
+              )}
+              ListEmptyComponent={
+                <View style={styles.centered}>
+                  <Text style={styles.emptyText}>Không còn sản phẩm nào đang bán</Text>
+                </View>
+              }
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default VoucherProductsModal;
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  sheet: {
+    maxHeight: '75%',
+    minHeight: 240,
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#222',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: ORANGE,
+    marginTop: 2,
+  },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  list: {
+    padding: 12,
+  },
+  productRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  productImage: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    backgroundColor: '#F5F5F5',
+  },
+  productInfo: {
+    flex: 1,
+  },
+  productName: {
+    fontSize: 14,
+    color: '#222',
+  },
+  productPrice: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: ORANGE,
+    marginTop: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+  },
+});
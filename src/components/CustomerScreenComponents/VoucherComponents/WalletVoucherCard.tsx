@@ -0,0 +1,214 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { CustomerVoucher, VoucherWalletGroup } from '../../../types/voucher';
+import { formatVoucherDiscount, formatVoucherMinOrder } from '../../../utils/voucherWallet';
+
+const ORANGE = '#FF6A00';
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('vi-VN', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+type Props = {
+  voucher: CustomerVoucher;
+  group: VoucherWalletGroup;
+  onUse: () => void;
+  // Voucher dành riêng cho hạng chưa lưu trong ví thì không có nút xóa
+  onRemove?: () => void;
+  // Tên hạng yêu cầu của voucher dành riêng cho hạng, locked khi khách chưa đạt hạng
+  requiredTierName?: string | null;
+  locked?: boolean;
+};
+
+const getScopeLabel = (voucher: CustomerVoucher) => {
+  if (voucher.source === 'PLATFORM') {
+    return 'Áp dụng toàn sàn';
+  }
+  if (voucher.scope === 'PRODUCT') {
+    const count = voucher.productIds?.length ?? 0;
+    return count > 0 ? `Áp dụng cho ${count} sản phẩm` : 'Sản phẩm chọn lọc';
+  }
+  return 'Áp dụng toàn shop';
+};
+
+const WalletVoucherCard: React.FC<Props> = ({
+  voucher,
+  group,
+  onUse,
+  onRemove,
+  requiredTierName,
+  locked = false,
+}) => {
+  const isUsable = group === 'USABLE' || group === 'EXPIRING_SOON';
+  const isPlatform = voucher.source === 'PLATFORM';
+  const isLocked = isUsable && locked;
+
+  return (
+    <View style={[styles.card, (!isUsable || isLocked) && styles.cardInactive]}>
+      <View style={[styles.badge, isPlatform ? styles.badgePlatform : styles.badgeShop]}>
+        <MaterialCommunityIcons
+          name={isPlatform ? 'ticket-confirmation-outline' : 'storefront-outline'}
+          size={22}
+          color="#FFFFFF"
+        />
+        <Text style={styles.badgeText} numberOfLines={2}>
+          {isPlatform ? 'Toàn sàn' : voucher.storeName || 'Shop'}
+        </Text>
+      </View>
+
+      <View style={styles.body}>
+        <Text style={styles.discount}>{formatVoucherDiscount(voucher)}</Text>
+        <Text style={styles.name} numberOfLines={1}>
+          {voucher.name} · {voucher.code}
+        </Text>
+        <Text style={styles.meta}>{formatVoucherMinOrder(voucher)}</Text>
+        <Text style={styles.meta}>{getScopeLabel(voucher)}</Text>
+        {voucher.requiredTier ? (
+          <View style={styles.tierRow}>
+            <MaterialCommunityIcons
+              name={isLocked ? 'lock-outline' : 'lock-open-variant-outline'}
+              size={14}
+              color={isLocked ? '#757575' : ORANGE}
+            />
+            <Text style={[styles.tierText, isLocked && styles.tierTextLocked]}>
+              Dành riêng hạng {requiredTierName || voucher.requiredTier}
+            </Text>
+          </View>
+        ) : null}
+        {group === 'USED' && voucher.usedAt ? (
+          <Text style={styles.meta}>Đã dùng lúc {formatDate(voucher.usedAt)}</Text>
+        ) : voucher.endTime ? (
+          <Text style={[styles.meta, group === 'EXPIRING_SOON' && styles.expiringText]}>
+            {group === 'EXPIRED' ? 'Hết hạn' : 'HSD'}: {formatDate(voucher.endTime)}
+          </Text>
+        ) : null}
+
+        <View style={styles.actions}>
+          {isLocked ? (
+            <Text style={styles.stateText}>Đạt hạng {requiredTierName || voucher.requiredTier} để mở khóa</Text>
+          ) : isUsable ? (
+            <TouchableOpacity style={styles.useButton} onPress={onUse}>
+              <Text style={styles.useButtonText}>Dùng ngay</Text>
+            </TouchableOpacity>
+          ) : (
+            <Text style={styles.stateText}>
+              {group === 'USED' ? 'Đã sử dụng' : 'Không còn hiệu lực'}
+            </Text>
+          )}
+          {onRemove && (
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={onRemove}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <MaterialCommunityIcons name="trash-can-outline" size={20} color="#999" />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+};
+
+export default WalletVoucherCard;
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  cardInactive: {
+    opacity: 0.6,
+  },
+  badge: {
+    width: 88,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    padding: 8,
+  },
+  badgeShop: {
+    backgroundColor: ORANGE,
+  },
+  badgePlatform: {
+    backgroundColor: '#1565C0',
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  body: {
+    flex: 1,
+    padding: 12,
+  },
+  discount: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#222',
+  },
+  name: {
+    fontSize: 12,
+    color: '#555',
+    marginTop: 2,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  tierRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  tierText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: ORANGE,
+  },
+  tierTextLocked: {
+    color: '#757575',
+  },
+  expiringText: {
+    color: '#D84315',
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  useButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: ORANGE,
+  },
+  useButtonText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  stateText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#757575',
+  },
+  removeButton: {
+    padding: 4,
+  },
+});
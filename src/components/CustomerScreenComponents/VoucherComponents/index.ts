@@ -0,0 +1,4 @@
+export { default as VoucherCodeInput } from './VoucherCodeInput';
+export { default as VoucherCollectList } from './VoucherCollectList';
+export { default as VoucherProductsModal } from './VoucherProductsModal';
+export { default as WalletVoucherCard } from './WalletVoucherCard';
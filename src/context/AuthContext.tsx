@@ -1,5 +1,7 @@
-import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
-import { loginCustomer } from '../services/authService';
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { registerSessionProvider } from '../api/authenticatedClient';
+import { registerAuthRefreshHandlers } from '../api/httpClient';
+import { loginCustomer, refreshAccessToken } from '../services/authService';
 import { CustomerAuthService } from '../services/customerAuthService';
 import { getCustomerById } from '../services/customerService';
 import { DecodedToken, LoginRequest, LoginResponse } from '../types/auth';
@@ -105,6 +107,13 @@ const readPersistedAuthState = async (): Promise<AuthState> => {
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [authState, setAuthState] = useState<AuthState>(initialState);
   const [isHydrating, setIsHydrating] = useState(true);
+  // Latest auth state for the httpClient refresh handlers (registered once)
+  const authStateRef = useRef<AuthState>(initialState);
+
+  const applyAuthState = (next: AuthState) => {
+    authStateRef.current = next;
+    setAuthState(next);
+  };
 
   useEffect(() => {
     const hydrate = async () => {
@@ -118,6 +127,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             console.warn('[AuthContext] decode persisted token failed', err);
           }
 
+          // Expose persisted tokens to the refresh handlers before the first request
+          authStateRef.current = {
+            ...persisted,
+            decodedToken: decoded,
+          };
+
           let customerProfile: CustomerProfile | null = null;
           if (decoded?.customerId && persisted.accessToken) {
             try {
@@ -130,11 +145,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             }
           }
 
-          setAuthState({
-            accessToken: persisted.accessToken,
-            refreshToken: persisted.refreshToken,
-            user: persisted.user,
-            decodedToken: decoded,
+          // Tokens may have been refreshed (or cleared) while the profile was loading
+          if (!authStateRef.current.accessToken) {
+            return;
+          }
+          applyAuthState({
+            ...authStateRef.current,
             customerProfile,
           });
         }
@@ -163,7 +179,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       });
     }
 
-    setAuthState({
+    applyAuthState({
       accessToken,
       refreshToken: refreshTokenValue,
       user,
@@ -186,30 +202,73 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const logout = async () => {
     try {
-      setAuthState(initialState);
+      applyAuthState(initialState);
       await clearPersistedAuthState();
       console.log('[AuthContext] logout success');
     } catch (error) {
       // Even if clearing storage fails, reset state
-      setAuthState(initialState);
+      applyAuthState(initialState);
       console.warn('[AuthContext] logout error (state cleared anyway):', error);
     }
   };
 
   const updateCustomerProfile = (profile: CustomerProfile) => {
-    setAuthState((prev) => ({
-      ...prev,
+    const next = {
+      ...authStateRef.current,
       customerProfile: profile,
-    }));
+    };
+    applyAuthState(next);
     // Also persist to storage
-    persistAuthState({
-      ...authState,
-      customerProfile: profile,
-    }).catch((err) => {
+    persistAuthState(next).catch((err) => {
       console.warn('[AuthContext] Failed to persist updated profile:', err);
     });
   };
 
+  /**
+   * Exchange the stored refresh token for a new access token.
+   * Called by the httpClient response interceptor on 401.
+   */
+  const refreshSession = async (): Promise<string> => {
+    const current = authStateRef.current;
+    if (!current.refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    const response = await refreshAccessToken(current.refreshToken);
+    const { accessToken, refreshToken } = response.data;
+
+    const next: AuthState = {
+      ...authStateRef.current,
+      accessToken,
+      // Backend may rotate the refresh token; keep the old one otherwise
+      refreshToken: refreshToken ?? current.refreshToken,
+      decodedToken: decodeJwt(accessToken) ?? current.decodedToken,
+    };
+    applyAuthState(next);
+    await persistAuthState(next);
+
+    console.log('[AuthContext] access token refreshed');
+    return accessToken;
+  };
+
+  useEffect(() => {
+    registerAuthRefreshHandlers({
+      refreshSession,
+      onSessionExpired: logout,
+    });
+    registerSessionProvider(() => {
+      const { accessToken, decodedToken, customerProfile } = authStateRef.current;
+      const customerId = decodedToken?.customerId ?? customerProfile?.id;
+      return accessToken && customerId ? { customerId, accessToken } : null;
+    });
+    return () => {
+      registerAuthRefreshHandlers(null);
+      registerSessionProvider(null);
+    };
+    // Handlers read the latest state through authStateRef
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   const value = useMemo<AuthContextValue>(
     () => ({
       authState,
@@ -0,0 +1,454 @@
+import NetInfo from '@react-native-community/netinfo';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { ApiError } from '../api/authenticatedClient';
+import {
+  getLocalCart,
+  mergeGuestCart,
+  refreshSavedCartItem,
+  saveLocalCart,
+  syncCart,
+  toAddCartItemRequest,
+  toSavedCartItem,
+} from '../services/cartService';
+import {
+  AddCartItemRequest,
+  Cart,
+  CartItemPreview,
+  CartMutation,
+  CartSyncResult,
+  GuestCartMergeReport,
+  LocalCart,
+  SavedCartItem,
+} from '../types/cart';
+import {
+  applyCartQueue,
+  clampCartQuantity,
+  createLocalId,
+  enqueueCartMutation,
+  findMatchingCartItem,
+  remapCartMutation,
+} from '../utils/offlineCart';
+import { useAuth } from './AuthContext';
+
+// Gom các lần bấm +/- liên tiếp thành một lần gửi
+const SYNC_DELAY_MS = 600;
+
+const EMPTY_LOCAL_CART: LocalCart = { ownerId: null, serverCart: null, queue: [], savedItems: [] };
+
+interface CartContextValue {
+  // Giỏ hiển thị: giỏ server gần nhất + thay đổi chưa đồng bộ
+  cart: Cart;
+  itemCount: number;
+  pendingCount: number;
+  isLoaded: boolean;
+  isOnline: boolean;
+  isSyncing: boolean;
+  syncError: string | null;
+  // Thông báo khi có thay đổi bị server từ chối lúc đồng bộ
+  syncNotice: string | null;
+  clearSyncNotice: () => void;
+  // Báo cáo gộp giỏ khách sau khi đăng nhập (hết hàng / đổi giá)
+  mergeReport: GuestCartMergeReport | null;
+  clearMergeReport: () => void;
+  refreshCart: () => Promise<void>;
+  addItem: (item: AddCartItemRequest, preview: CartItemPreview) => void;
+  updateQuantity: (cartItemId: string, quantity: number) => void;
+  removeItems: (cartItemIds: string[]) => void;
+  // Lưu để mua sau: không tính vào tạm tính / voucher
+  savedItems: SavedCartItem[];
+  saveForLater: (cartItemId: string) => void;
+  moveToCart: (savedItemId: string) => void;
+  removeSavedItem: (savedItemId: string) => void;
+  refreshSavedItems: () => Promise<void>;
+}
+
+const CartContext = createContext<CartContextValue | undefined>(undefined);
+
+export const useCart = () => {
+  const context = useContext(CartContext);
+  if (!context) {
+    throw new Error('useCart must be used within CartProvider');
+  }
+  return context;
+};
+
+interface CartProviderProps {
+  children: React.ReactNode;
+}
+
+export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
+  const { authState, isAuthenticated } = useAuth();
+  const customerId = isAuthenticated ? authState.decodedToken?.customerId ?? null : null;
+
+  const [local, setLocal] = useState<LocalCart>(EMPTY_LOCAL_CART);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isOnline, setIsOnline] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+  const [mergeReport, setMergeReport] = useState<GuestCartMergeReport | null>(null);
+
+  // Latest values for async callbacks
+  const localRef = useRef(local);
+  const customerIdRef = useRef(customerId);
+  const wasAuthenticatedRef = useRef(false);
+  const isSyncingRef = useRef(false);
+  // Mutation đang gửi lên server - không gộp thay đổi mới vào
+  const lockedIdsRef = useRef<Set<string>>(new Set());
+  const syncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const syncRef = useRef<(mergeGuest?: boolean) => Promise<void>>(async () => {});
+
+  const applyLocal = useCallback((next: LocalCart) => {
+    localRef.current = next;
+    setLocal(next);
+    saveLocalCart(next).catch((error) => {
+      console.warn('[CartContext] Failed to persist cart', error);
+    });
+  }, []);
+
+  const scheduleSync = useCallback((delay = SYNC_DELAY_MS) => {
+    if (syncTimerRef.current) {
+      clearTimeout(syncTimerRef.current);
+    }
+    syncTimerRef.current = setTimeout(() => {
+      syncTimerRef.current = null;
+      syncRef.current();
+    }, delay);
+  }, []);
+
+  // mergeGuest: giỏ khách vừa đăng nhập - gộp một lần và kiểm tra hết hàng / đổi giá
+  const sync = useCallback(async (mergeGuest = false) => {
+    const ownerId = customerIdRef.current;
+    if (!ownerId || isSyncingRef.current) {
+      return;
+    }
+
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+    const snapshot = localRef.current.queue;
+    const sentIds = new Set(snapshot.map((mutation) => mutation.id));
+    lockedIdsRef.current = sentIds;
+
+    try {
+      let result: CartSyncResult;
+      if (mergeGuest) {
+        const merged = await mergeGuestCart(snapshot);
+        setMergeReport(merged.report);
+        result = merged;
+      } else {
+        result = await syncCart(snapshot);
+      }
+      // Đã đăng xuất / đổi tài khoản trong lúc chờ
+      if (customerIdRef.current !== ownerId) {
+        return;
+      }
+
+      const queuedDuringSync = localRef.current.queue.filter((mutation) => !sentIds.has(mutation.id));
+      applyLocal({
+        ...localRef.current,
+        ownerId,
+        serverCart: result.serverCart,
+        queue: [...result.queue, ...queuedDuringSync].map((mutation) =>
+          remapCartMutation(mutation, result.resolvedIds),
+        ),
+      });
+      setSyncError(null);
+
+      if (result.dropped.length > 0) {
+        setSyncNotice(
+          `${result.dropped.length} thay đổi trong giỏ hàng không thể cập nhật (sản phẩm có thể đã hết hàng hoặc không còn trong giỏ) và đã được hoàn tác.`,
+        );
+      }
+      if (queuedDuringSync.length > 0) {
+        scheduleSync();
+      }
+    } catch (error) {
+      // Giữ nguyên hàng đợi, sẽ gửi lại khi có mạng / mở lại giỏ hàng
+      console.warn('[CartContext] Failed to sync cart', error);
+      setSyncError(ApiError.from(error, 'Không thể đồng bộ giỏ hàng.').message);
+    } finally {
+      lockedIdsRef.current = new Set();
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, [applyLocal, scheduleSync]);
+
+  useEffect(() => {
+    syncRef.current = sync;
+  }, [sync]);
+
+  useEffect(() => {
+    customerIdRef.current = customerId;
+  }, [customerId]);
+
+  // Load cart from storage
+  useEffect(() => {
+    let cancelled = false;
+
+    getLocalCart().then((stored) => {
+      if (cancelled) {
+        return;
+      }
+      localRef.current = stored;
+      setLocal(stored);
+      setIsLoaded(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Có mạng trở lại: phát lại các thay đổi đã lưu
+  useEffect(() => {
+    let wasOnline = true;
+    const unsubscribe = NetInfo.addEventListener((state) => {
+      const online = state.isConnected !== false && state.isInternetReachable !== false;
+      setIsOnline(online);
+      if (online && !wasOnline && localRef.current.queue.length > 0) {
+        scheduleSync(0);
+      }
+      wasOnline = online;
+    });
+
+    return () => {
+      unsubscribe();
+      if (syncTimerRef.current) {
+        clearTimeout(syncTimerRef.current);
+      }
+    };
+  }, [scheduleSync]);
+
+  // Login: gộp giỏ khách vào giỏ tài khoản. Logout: xóa giỏ trên máy
+  // Chờ load xong để không ghi đè giỏ khách bằng giỏ rỗng
+  useEffect(() => {
+    if (!isLoaded) {
+      return;
+    }
+
+    const wasAuthenticated = wasAuthenticatedRef.current;
+    wasAuthenticatedRef.current = isAuthenticated;
+
+    if (isAuthenticated && !wasAuthenticated && customerId) {
+      const current = localRef.current;
+      const isGuestCart = !current.ownerId && current.queue.length > 0;
+      if (current.ownerId && current.ownerId !== customerId) {
+        // Giỏ của tài khoản khác còn sót lại trên máy
+        applyLocal({ ...EMPTY_LOCAL_CART, ownerId: customerId });
+      } else if (!current.ownerId) {
+        applyLocal({ ...current, ownerId: customerId });
+      }
+      sync(isGuestCart);
+    } else if (!isAuthenticated && wasAuthenticated) {
+      applyLocal(EMPTY_LOCAL_CART);
+      setSyncError(null);
+      setSyncNotice(null);
+      setMergeReport(null);
+    }
+  }, [isLoaded, isAuthenticated, customerId, sync, applyLocal]);
+
+  const cart = useMemo(() => applyCartQueue(local.serverCart, local.queue), [local]);
+
+  const enqueue = useCallback(
+    (mutation: CartMutation) => {
+      const current = localRef.current;
+      applyLocal({
+        ...current,
+        queue: enqueueCartMutation(current.queue, mutation, lockedIdsRef.current),
+      });
+      if (customerIdRef.current) {
+        scheduleSync();
+      }
+    },
+    [applyLocal, scheduleSync],
+  );
+
+  const updateQuantity = useCallback(
+    (cartItemId: string, quantity: number) => {
+      const current = localRef.current;
+      const item = applyCartQueue(current.serverCart, current.queue).items.find(
+        (cartItem) => cartItem.cartItemId === cartItemId,
+      );
+      const nextQuantity = clampCartQuantity(quantity);
+      if (!item || item.quantity === nextQuantity) {
+        return;
+      }
+      enqueue({
+        id: createLocalId(),
+        type: 'UPDATE_QUANTITY',
+        cartItemId,
+        quantity: nextQuantity,
+        createdAt: new Date().toISOString(),
+      });
+    },
+    [enqueue],
+  );
+
+  const removeItems = useCallback(
+    (cartItemIds: string[]) => {
+      if (cartItemIds.length === 0) {
+        return;
+      }
+      enqueue({
+        id: createLocalId(),
+        type: 'REMOVE',
+        cartItemIds,
+        createdAt: new Date().toISOString(),
+      });
+    },
+    [enqueue],
+  );
+
+  // Sản phẩm đã có trong giỏ thì tăng số lượng, chưa có thì thêm dòng mới
+  const addItem = useCallback(
+    (item: AddCartItemRequest, preview: CartItemPreview) => {
+      const current = localRef.current;
+      const existing = findMatchingCartItem(
+        applyCartQueue(current.serverCart, current.queue),
+        item,
+        preview.productId,
+      );
+      if (existing) {
+        updateQuantity(existing.cartItemId, existing.quantity + item.quantity);
+        return;
+      }
+      enqueue({
+        id: createLocalId(),
+        type: 'ADD',
+        item: { ...item, quantity: clampCartQuantity(item.quantity) },
+        preview,
+        createdAt: new Date().toISOString(),
+      });
+    },
+    [enqueue, updateQuantity],
+  );
+
+  const saveForLater = useCallback(
+    (cartItemId: string) => {
+      const current = localRef.current;
+      const item = applyCartQueue(current.serverCart, current.queue).items.find(
+        (cartItem) => cartItem.cartItemId === cartItemId,
+      );
+      if (!item) {
+        return;
+      }
+      applyLocal({ ...current, savedItems: [toSavedCartItem(item), ...current.savedItems] });
+      removeItems([cartItemId]);
+    },
+    [applyLocal, removeItems],
+  );
+
+  const removeSavedItem = useCallback(
+    (savedItemId: string) => {
+      const current = localRef.current;
+      applyLocal({
+        ...current,
+        savedItems: current.savedItems.filter((item) => item.id !== savedItemId),
+      });
+    },
+    [applyLocal],
+  );
+
+  const moveToCart = useCallback(
+    (savedItemId: string) => {
+      const saved = localRef.current.savedItems.find((item) => item.id === savedItemId);
+      if (!saved) {
+        return;
+      }
+      removeSavedItem(savedItemId);
+      addItem(toAddCartItemRequest(saved), {
+        productId: saved.productId,
+        name: saved.name,
+        image: saved.image,
+        unitPrice: saved.currentPrice ?? saved.savedPrice,
+        variantOptionName: saved.variantOptionName,
+        variantOptionValue: saved.variantOptionValue,
+      });
+    },
+    [addItem, removeSavedItem],
+  );
+
+  // Cập nhật giá / kho mới nhất để báo thay đổi giá từ lúc lưu
+  const refreshSavedItems = useCallback(async () => {
+    const items = localRef.current.savedItems;
+    if (items.length === 0) {
+      return;
+    }
+
+    const results = await Promise.allSettled(items.map((item) => refreshSavedCartItem(item)));
+    const refreshedById = new Map<string, SavedCartItem>();
+    results.forEach((result) => {
+      if (result.status === 'fulfilled') {
+        refreshedById.set(result.value.id, result.value);
+      }
+    });
+
+    // Áp dụng lên danh sách mới nhất (user có thể đã chuyển sản phẩm vào giỏ trong lúc chờ)
+    const current = localRef.current;
+    applyLocal({
+      ...current,
+      savedItems: current.savedItems.map((item) => refreshedById.get(item.id) ?? item),
+    });
+  }, [applyLocal]);
+
+  // Đồng bộ ngay (kéo để làm mới, mở giỏ hàng) - khách chỉ dùng giỏ trên máy
+  const refreshCart = useCallback(async () => {
+    if (syncTimerRef.current) {
+      clearTimeout(syncTimerRef.current);
+      syncTimerRef.current = null;
+    }
+    await sync();
+  }, [sync]);
+
+  const clearSyncNotice = useCallback(() => setSyncNotice(null), []);
+
+  const clearMergeReport = useCallback(() => setMergeReport(null), []);
+
+  const value = useMemo<CartContextValue>(
+    () => ({
+      cart,
+      itemCount: cart.items.length,
+      pendingCount: local.queue.length,
+      isLoaded,
+      isOnline,
+      isSyncing,
+      syncError,
+      syncNotice,
+      clearSyncNotice,
+      mergeReport,
+      clearMergeReport,
+      refreshCart,
+      addItem,
+      updateQuantity,
+      removeItems,
+      savedItems: local.savedItems,
+      saveForLater,
+      moveToCart,
+      removeSavedItem,
+      refreshSavedItems,
+    }),
+    [
+      cart,
+      local.queue.length,
+      isLoaded,
+      isOnline,
+      isSyncing,
+      syncError,
+      syncNotice,
+      clearSyncNotice,
+      mergeReport,
+      clearMergeReport,
+      refreshCart,
+      addItem,
+      updateQuantity,
+      removeItems,
+      local.savedItems,
+      saveForLater,
+      moveToCart,
+      removeSavedItem,
+      refreshSavedItems,
+    ],
+  );
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+};
@@ -1,7 +1,23 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
-import { getCurrentCustomerId, getMessages, markAsRead, sendMessage as sendMessageAPI } from '../services/chatService';
-import { subscribeToMessages as subscribeToFirestoreMessages } from '../services/firestoreChatService';
-import { Message, MessageType, SendMessageRequest } from '../types/chat';
+import {
+  getCurrentCustomerId,
+  getCustomerConversations,
+  getMessages,
+  markAsRead,
+  sendMessage as sendMessageAPI,
+} from '../services/chatService';
+import { getChatRealtimeTransport } from '../services/chatSocketService';
+import {
+  ChatConnectionStatus,
+  ChatMessage,
+  ChatPreferences,
+  Conversation,
+  getConversationUnreadCount,
+  Message,
+  MessageType,
+  SendMessageRequest,
+} from '../types/chat';
 import { filterMessages } from '../utils/messageFilter';
 import { useAuth } from './AuthContext';
 
@@ -12,9 +28,17 @@ interface ChatContextValue {
   storeId: string | null;
   storeName: string | null;
   messages: Message[];
+  connectionStatus: ChatConnectionStatus;
   isLoading: boolean;
   isSending: boolean;
   inputMessage: string;
+
+  // Inbox state
+  conversations: Conversation[];
+  isLoadingConversations: boolean;
+  totalUnread: number;
+  pinnedStoreIds: string[];
+  mutedStoreIds: string[];
   
   // Actions
   openChat: (mode: 'store', storeId: string, storeName?: string) => void;
@@ -22,8 +46,62 @@ interface ChatContextValue {
   setInputMessage: (message: string) => void;
   sendMessage: (content: string, mediaUrls?: Array<{ url: string; type?: string }>) => Promise<void>;
   loadMessages: () => Promise<void>;
+  loadConversations: () => Promise<void>;
+  togglePinConversation: (storeId: string) => void;
+  toggleMuteConversation: (storeId: string) => void;
 }
 
+const CHAT_PREFERENCES_KEY = 'chat:preferences:v1';
+const CONVERSATIONS_POLL_INTERVAL_MS = 30000;
+const EMPTY_PREFERENCES: ChatPreferences = { pinnedStoreIds: [], mutedStoreIds: [] };
+
+const loadChatPreferences = async (): Promise<ChatPreferences> => {
+  try {
+    const raw = await AsyncStorage.getItem(CHAT_PREFERENCES_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return {
+      pinnedStoreIds: Array.isArray(parsed?.pinnedStoreIds) ? parsed.pinnedStoreIds : [],
+      mutedStoreIds: Array.isArray(parsed?.mutedStoreIds) ? parsed.mutedStoreIds : [],
+    };
+  } catch (error) {
+    console.warn('[ChatContext] Failed to read chat preferences', error);
+    return EMPTY_PREFERENCES;
+  }
+};
+
+const saveChatPreferences = async (preferences: ChatPreferences): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(CHAT_PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.warn('[ChatContext] Failed to persist chat preferences', error);
+  }
+};
+
+// Convert ChatMessage (API/socket) to Message
+const toMessage = (msg: ChatMessage): Message => ({
+  id: msg.id || `${msg.senderId}_${msg.createdAt}`,
+  role: msg.senderType === 'CUSTOMER' ? 'user' : 'assistant',
+  content: msg.content,
+  messageType: msg.messageType,
+  mediaUrl: msg.mediaUrl,
+  timestamp: msg.createdAt ? new Date(msg.createdAt) : new Date(),
+  read: msg.read,
+});
+
+// Merge and deduplicate by ID, sorted by timestamp
+const mergeMessages = (prev: Message[], incoming: Message[]): Message[] => {
+  const merged = [...prev];
+  incoming.forEach((newMsg) => {
+    const existingIndex = merged.findIndex((m) => m.id === newMsg.id);
+    if (existingIndex >= 0) {
+      merged[existingIndex] = newMsg;
+    } else {
+      merged.push(newMsg);
+    }
+  });
+  return merged.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+};
+
 const ChatContext = createContext<ChatContextValue | undefined>(undefined);
 
 export const useChat = () => {
@@ -46,20 +124,44 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
   const [storeId, setStoreId] = useState<string | null>(null);
   const [storeName, setStoreName] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [connectionStatus, setConnectionStatus] = useState<ChatConnectionStatus>('disconnected');
   const [isLoading, setIsLoading] = useState(false);
   const [isSending, setIsSending] = useState(false);
   const [inputMessage, setInputMessage] = useState('');
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [isLoadingConversations, setIsLoadingConversations] = useState(false);
+  const [preferences, setPreferences] = useState<ChatPreferences>(EMPTY_PREFERENCES);
+
+  // Realtime unsubscribe function
+  const realtimeUnsubscribeRef = React.useRef<(() => void) | null>(null);
+
+  // Customer ID kept as a plain string so token refreshes / profile updates don't resubscribe
+  const [customerId, setCustomerId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setCustomerId(null);
+      return;
+    }
 
-  // Firestore unsubscribe function
-  const firestoreUnsubscribeRef = React.useRef<(() => void) | null>(null);
+    let cancelled = false;
+    getCurrentCustomerId(authState).then((id) => {
+      if (!cancelled) {
+        setCustomerId(id);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, authState]);
 
   // Get customer ID
   const getCustomerId = useCallback(async (): Promise<string | null> => {
     if (!isAuthenticated) {
       return null;
     }
-    return await getCurrentCustomerId(authState);
-  }, [isAuthenticated, authState]);
+    return customerId;
+  }, [isAuthenticated, customerId]);
 
   // Load messages
   const loadMessages = useCallback(async () => {
@@ -75,31 +177,82 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
         return;
       }
 
-      const chatMessages = await getMessages(customerId, storeId, authState, 100);
+      const chatMessages = await getMessages(storeId, 100);
       
       // Convert ChatMessage[] to Message[]
-      const convertedMessages: Message[] = chatMessages.map((msg) => ({
-        id: msg.id || `${msg.senderId}_${msg.createdAt}`,
-        role: msg.senderType === 'CUSTOMER' ? 'user' : 'assistant',
-        content: msg.content,
-        messageType: msg.messageType,
-        mediaUrl: msg.mediaUrl,
-        timestamp: msg.createdAt ? new Date(msg.createdAt) : new Date(),
-        read: msg.read,
-      }));
+      const convertedMessages: Message[] = chatMessages.map(toMessage);
 
       // Filter messages
       const filtered = filterMessages(convertedMessages);
-      setMessages(filtered);
+      setMessages((prev) => mergeMessages(prev, filtered));
 
       // Mark as read
-      await markAsRead(customerId, storeId, customerId, authState);
+      await markAsRead(storeId, customerId);
     } catch (error) {
       console.error('[ChatContext] Failed to load messages:', error);
     } finally {
       setIsLoading(false);
     }
-  }, [isOpen, storeId, isAuthenticated, authState, getCustomerId]);
+  }, [isOpen, storeId, isAuthenticated, getCustomerId]);
+
+  // Load inbox conversations
+  const loadConversations = useCallback(async () => {
+    if (!isAuthenticated) {
+      setConversations([]);
+      return;
+    }
+
+    try {
+      setIsLoadingConversations(true);
+      const data = await getCustomerConversations();
+      setConversations(data);
+    } catch (error) {
+      console.error('[ChatContext] Failed to load conversations:', error);
+    } finally {
+      setIsLoadingConversations(false);
+    }
+  }, [isAuthenticated]);
+
+  const updatePreferences = useCallback((updater: (prev: ChatPreferences) => ChatPreferences) => {
+    setPreferences((prev) => {
+      const next = updater(prev);
+      saveChatPreferences(next);
+      return next;
+    });
+  }, []);
+
+  const togglePinConversation = useCallback(
+    (storeIdParam: string) => {
+      updatePreferences((prev) => ({
+        ...prev,
+        pinnedStoreIds: prev.pinnedStoreIds.includes(storeIdParam)
+          ? prev.pinnedStoreIds.filter((id) => id !== storeIdParam)
+          : [...prev.pinnedStoreIds, storeIdParam],
+      }));
+    },
+    [updatePreferences],
+  );
+
+  const toggleMuteConversation = useCallback(
+    (storeIdParam: string) => {
+      updatePreferences((prev) => ({
+        ...prev,
+        mutedStoreIds: prev.mutedStoreIds.includes(storeIdParam)
+          ? prev.mutedStoreIds.filter((id) => id !== storeIdParam)
+          : [...prev.mutedStoreIds, storeIdParam],
+      }));
+    },
+    [updatePreferences],
+  );
+
+  // Muted conversations do not count towards the tab badge
+  const totalUnread = useMemo(
+    () =>
+      conversations
+        .filter((conversation) => !preferences.mutedStoreIds.includes(conversation.storeId))
+        .reduce((sum, conversation) => sum + getConversationUnreadCount(conversation), 0),
+    [conversations, preferences.mutedStoreIds],
+  );
 
   // Open chat
   const openChat = useCallback(async (mode: 'store', storeIdParam: string, storeNameParam?: string) => {
@@ -113,14 +266,23 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     setChatMode(mode);
     setIsOpen(true);
     setMessages([]);
+
+    // Thread is being read, clear its badge right away
+    setConversations((prev) =>
+      prev.map((conversation) =>
+        conversation.storeId === storeIdParam
+          ? { ...conversation, customerUnreadCount: 0, unreadCount: 0 }
+          : conversation,
+      ),
+    );
   }, [isAuthenticated]);
 
   // Close chat
   const closeChat = useCallback(() => {
-    // Unsubscribe from Firestore
-    if (firestoreUnsubscribeRef.current) {
-      firestoreUnsubscribeRef.current();
-      firestoreUnsubscribeRef.current = null;
+    // Unsubscribe from realtime updates
+    if (realtimeUnsubscribeRef.current) {
+      realtimeUnsubscribeRef.current();
+      realtimeUnsubscribeRef.current = null;
     }
 
     setIsOpen(false);
@@ -129,7 +291,10 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     setStoreName(null);
     setMessages([]);
     setInputMessage('');
-  }, []);
+
+    // Refresh last message / unread counts for the inbox
+    loadConversations();
+  }, [loadConversations]);
 
   // Send message
   const sendMessage = useCallback(
@@ -171,24 +336,14 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
         };
 
         // Send to API
-        const sentMessage = await sendMessageAPI(customerId, storeId, messageRequest, authState);
+        const sentMessage = await sendMessageAPI(storeId, messageRequest);
 
         // Convert to Message format and add to state
-        const newMessage: Message = {
-          id: sentMessage.id || `${sentMessage.senderId}_${sentMessage.createdAt}`,
-          role: 'user',
-          content: sentMessage.content,
-          messageType: sentMessage.messageType,
-          mediaUrl: sentMessage.mediaUrl,
-          timestamp: sentMessage.createdAt ? new Date(sentMessage.createdAt) : new Date(),
-          read: sentMessage.read,
-        };
+        // (the socket may have already delivered the same message)
+        const newMessage: Message = { ...toMessage(sentMessage), role: 'user' };
 
-        setMessages((prev) => [...prev, newMessage]);
+        setMessages((prev) => mergeMessages(prev, [newMessage]));
         setInputMessage('');
-
-        // TODO: Send to Firestore if configured
-        // await sendMessageToFirestore(customerId, storeId, messageRequest);
       } catch (error) {
         console.error('[ChatContext] Failed to send message:', error);
         throw error;
@@ -196,7 +351,7 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
         setIsSending(false);
       }
     },
-    [isOpen, storeId, isAuthenticated, authState, getCustomerId],
+    [isOpen, storeId, isAuthenticated, getCustomerId],
   );
 
   // Load messages when chat opens
@@ -206,75 +361,74 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     }
   }, [isOpen, storeId, loadMessages]);
 
-  // Subscribe to Firestore when messages are loaded
+  // Keep latest loader for the socket callbacks without resubscribing
+  const loadMessagesRef = React.useRef(loadMessages);
+  loadMessagesRef.current = loadMessages;
+
+  // Subscribe to realtime updates while the conversation is open
   useEffect(() => {
-    if (!isOpen || !storeId || messages.length === 0) {
+    if (!isOpen || !storeId || !customerId) {
       return;
     }
 
-    // Unsubscribe previous listener
-    if (firestoreUnsubscribeRef.current) {
-      firestoreUnsubscribeRef.current();
-    }
-
-    // Subscribe to Firestore (if configured)
-    const setupFirestoreSubscription = async () => {
-      const customerId = await getCustomerId();
-      if (!customerId) {
-        return;
-      }
+    let hasDisconnected = false;
 
-      const unsubscribe = subscribeToFirestoreMessages(
-        customerId,
-        storeId,
-        (firestoreMessages) => {
-          // Convert Firestore messages to Message format
-          const newMessages: Message[] = firestoreMessages.map((msg) => ({
-            id: msg.id,
-            role: msg.senderType === 'CUSTOMER' ? 'user' : 'assistant',
-            content: msg.content,
-            messageType: msg.messageType,
-            mediaUrl: msg.mediaUrl,
-            timestamp: msg.createdAt
-              ? typeof msg.createdAt === 'string'
-                ? new Date(msg.createdAt)
-                : new Date(msg.createdAt)
-              : new Date(),
-            read: msg.read,
-          }));
-
-          // Filter and merge with existing messages
-          const filtered = filterMessages(newMessages);
-          setMessages((prev) => {
-            // Merge and deduplicate by ID
-            const merged = [...prev];
-            filtered.forEach((newMsg) => {
-              const existingIndex = merged.findIndex((m) => m.id === newMsg.id);
-              if (existingIndex >= 0) {
-                merged[existingIndex] = newMsg;
-              } else {
-                merged.push(newMsg);
-              }
-            });
-            // Sort by timestamp
-            return merged.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-          });
-        },
-      );
-
-      firestoreUnsubscribeRef.current = unsubscribe;
-    };
+    realtimeUnsubscribeRef.current = getChatRealtimeTransport().subscribe(customerId, storeId, {
+      onMessage: (chatMessage) => {
+        const filtered = filterMessages([toMessage(chatMessage)]);
+        setMessages((prev) => mergeMessages(prev, filtered));
 
-    setupFirestoreSubscription();
+        // Chat is open, so store messages are read right away
+        if (chatMessage.senderType === 'STORE') {
+          markAsRead(storeId, customerId);
+        }
+      },
+      onRead: (event) => {
+        if (event.viewerType !== 'STORE') {
+          return;
+        }
+        setMessages((prev) =>
+          prev.map((msg) => (msg.role === 'user' && !msg.read ? { ...msg, read: true } : msg)),
+        );
+      },
+      onStatusChange: (status) => {
+        setConnectionStatus(status);
+        if (status === 'reconnecting') {
+          hasDisconnected = true;
+        } else if (status === 'connected' && hasDisconnected) {
+          // Fetch anything missed while the socket was down
+          hasDisconnected = false;
+          loadMessagesRef.current();
+        }
+      },
+    });
 
     // Cleanup
     return () => {
-      if (firestoreUnsubscribeRef.current) {
-        firestoreUnsubscribeRef.current();
-        firestoreUnsubscribeRef.current = null;
+      if (realtimeUnsubscribeRef.current) {
+        realtimeUnsubscribeRef.current();
+        realtimeUnsubscribeRef.current = null;
       }
+      setConnectionStatus('disconnected');
     };
-  }, [isOpen, storeId, getCustomerId]);
+  }, [isOpen, storeId, customerId]);
+
+  // Restore pinned/muted conversations
+  useEffect(() => {
+    loadChatPreferences().then(setPreferences);
+  }, []);
+
+  // Keep inbox and tab badge up to date while logged in
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setConversations([]);
+      return;
+    }
+
+    loadConversations();
+    const interval = setInterval(loadConversations, CONVERSATIONS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isAuthenticated, loadConversations]);
 
   const value = useMemo<ChatContextValue>(
     () => ({
@@ -283,14 +437,23 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
       storeId,
       storeName,
       messages,
+      connectionStatus,
       isLoading,
       isSending,
       inputMessage,
+      conversations,
+      isLoadingConversations,
+      totalUnread,
+      pinnedStoreIds: preferences.pinnedStoreIds,
+      mutedStoreIds: preferences.mutedStoreIds,
       openChat,
       closeChat,
       setInputMessage,
       sendMessage,
       loadMessages,
+      loadConversations,
+      togglePinConversation,
+      toggleMuteConversation,
     }),
     [
       isOpen,
@@ -298,13 +461,21 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
       storeId,
       storeName,
       messages,
+      connectionStatus,
       isLoading,
       isSending,
       inputMessage,
+      conversations,
+      isLoadingConversations,
+      totalUnread,
+      preferences,
       openChat,
       closeChat,
       sendMessage,
       loadMessages,
+      loadConversations,
+      togglePinConversation,
+      toggleMuteConversation,
     ],
   );
 
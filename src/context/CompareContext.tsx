@@ -0,0 +1,108 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { CompareItem } from '../types/compare';
+
+const COMPARE_STORAGE_KEY = 'compare:items:v1';
+export const MAX_COMPARE_ITEMS = 4;
+
+export type ToggleCompareResult = 'added' | 'removed' | 'full';
+
+const loadCompareItems = async (): Promise<CompareItem[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(COMPARE_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.slice(0, MAX_COMPARE_ITEMS) : [];
+  } catch (error) {
+    console.warn('[CompareContext] Failed to read compare tray', error);
+    return [];
+  }
+};
+
+const saveCompareItems = async (items: CompareItem[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(COMPARE_STORAGE_KEY, JSON.stringify(items));
+  } catch (error) {
+    console.warn('[CompareContext] Failed to persist compare tray', error);
+  }
+};
+
+interface CompareContextValue {
+  items: CompareItem[];
+  isInCompare: (productId: string) => boolean;
+  toggleCompare: (item: CompareItem) => ToggleCompareResult;
+  removeFromCompare: (productId: string) => void;
+  clearCompare: () => void;
+}
+
+const CompareContext = createContext<CompareContextValue | undefined>(undefined);
+
+export const useCompare = () => {
+  const context = useContext(CompareContext);
+  if (!context) {
+    throw new Error('useCompare must be used within CompareProvider');
+  }
+  return context;
+};
+
+interface CompareProviderProps {
+  children: React.ReactNode;
+}
+
+export const CompareProvider: React.FC<CompareProviderProps> = ({ children }) => {
+  const [items, setItems] = useState<CompareItem[]>([]);
+  const itemsRef = useRef(items);
+
+  const applyItems = useCallback((next: CompareItem[]) => {
+    itemsRef.current = next;
+    setItems(next);
+    saveCompareItems(next);
+  }, []);
+
+  // Khôi phục khay so sánh từ lần mở app trước
+  useEffect(() => {
+    loadCompareItems().then((restored) => {
+      // Không ghi đè nếu người dùng đã thêm sản phẩm trong lúc chờ đọc
+      if (restored.length > 0 && itemsRef.current.length === 0) {
+        itemsRef.current = restored;
+        setItems(restored);
+      }
+    });
+  }, []);
+
+  const isInCompare = useCallback(
+    (productId: string) => items.some((item) => item.productId === productId),
+    [items],
+  );
+
+  const removeFromCompare = useCallback(
+    (productId: string) => {
+      applyItems(itemsRef.current.filter((item) => item.productId !== productId));
+    },
+    [applyItems],
+  );
+
+  const toggleCompare = useCallback(
+    (item: CompareItem): ToggleCompareResult => {
+      const current = itemsRef.current;
+      if (current.some((i) => i.productId === item.productId)) {
+        applyItems(current.filter((i) => i.productId !== item.productId));
+        return 'removed';
+      }
+      if (current.length >= MAX_COMPARE_ITEMS) {
+        return 'full';
+      }
+      applyItems([...current, item]);
+      return 'added';
+    },
+    [applyItems],
+  );
+
+  const clearCompare = useCallback(() => applyItems([]), [applyItems]);
+
+  const value = useMemo<CompareContextValue>(
+    () => ({ items, isInCompare, toggleCompare, removeFromCompare, clearCompare }),
+    [items, isInCompare, toggleCompare, removeFromCompare, clearCompare],
+  );
+
+  return <CompareContext.Provider value={value}>{children}</CompareContext.Provider>;
+};
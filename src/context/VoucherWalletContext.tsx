@@ -0,0 +1,111 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { ApiError } from '../api/authenticatedClient';
+import {
+  collectVoucher as collectVoucherRequest,
+  getMyVouchers,
+  removeMyVoucher,
+  toCustomerVoucher,
+} from '../services/voucherService';
+import { CustomerVoucher, ShopVoucher } from '../types/voucher';
+import { useAuth } from './AuthContext';
+
+interface VoucherWalletContextValue {
+  vouchers: CustomerVoucher[];
+  isLoading: boolean;
+  isCollected: (voucherId: string) => boolean;
+  // Lưu voucher shop vào ví, lỗi server được ném lại để màn hình báo cho người dùng
+  collectVoucher: (voucher: ShopVoucher) => Promise<void>;
+  removeVoucher: (voucherId: string) => Promise<void>;
+  refreshVouchers: () => Promise<void>;
+}
+
+const VoucherWalletContext = createContext<VoucherWalletContextValue | undefined>(undefined);
+
+export const useVoucherWallet = () => {
+  const context = useContext(VoucherWalletContext);
+  if (!context) {
+    throw new Error('useVoucherWallet must be used within VoucherWalletProvider');
+  }
+  return context;
+};
+
+interface VoucherWalletProviderProps {
+  children: React.ReactNode;
+}
+
+export const VoucherWalletProvider: React.FC<VoucherWalletProviderProps> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
+  const [vouchers, setVouchers] = useState<CustomerVoucher[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Latest vouchers for async callbacks
+  const vouchersRef = useRef(vouchers);
+
+  const applyVouchers = useCallback((next: CustomerVoucher[]) => {
+    vouchersRef.current = next;
+    setVouchers(next);
+  }, []);
+
+  const refreshVouchers = useCallback(async () => {
+    if (!isAuthenticated) {
+      return;
+    }
+    try {
+      setIsLoading(true);
+      applyVouchers(await getMyVouchers());
+    } catch (error) {
+      console.warn('[VoucherWalletContext] Failed to load voucher wallet', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isAuthenticated, applyVouchers]);
+
+  // Ví voucher chỉ có trên server: tải khi đăng nhập, xóa khi đăng xuất
+  useEffect(() => {
+    if (isAuthenticated) {
+      refreshVouchers();
+    } else {
+      applyVouchers([]);
+    }
+  }, [isAuthenticated, refreshVouchers, applyVouchers]);
+
+  const isCollected = useCallback(
+    (voucherId: string) => vouchers.some((voucher) => voucher.voucherId === voucherId),
+    [vouchers],
+  );
+
+  const collectVoucher = useCallback(
+    async (voucher: ShopVoucher) => {
+      if (vouchersRef.current.some((item) => item.voucherId === voucher.voucherId)) {
+        return;
+      }
+      try {
+        const saved = await collectVoucherRequest({ voucherId: voucher.voucherId, source: 'SHOP' });
+        applyVouchers([saved ?? toCustomerVoucher(voucher), ...vouchersRef.current]);
+      } catch (error) {
+        // Đã lưu từ thiết bị khác - lấy lại ví từ server
+        if (ApiError.from(error).status === 409) {
+          await refreshVouchers();
+          return;
+        }
+        throw error;
+      }
+    },
+    [applyVouchers, refreshVouchers],
+  );
+
+  const removeVoucher = useCallback(
+    async (voucherId: string) => {
+      await removeMyVoucher(voucherId);
+      applyVouchers(vouchersRef.current.filter((voucher) => voucher.voucherId !== voucherId));
+    },
+    [applyVouchers],
+  );
+
+  const value = useMemo<VoucherWalletContextValue>(
+    () => ({ vouchers, isLoading, isCollected, collectVoucher, removeVoucher, refreshVouchers }),
+    [vouchers, isLoading, isCollected, collectVoucher, removeVoucher, refreshVouchers],
+  );
+
+  return <VoucherWalletContext.Provider value={value}>{children}</VoucherWalletContext.Provider>;
+};
@@ -0,0 +1,217 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  addWishlistItem,
+  getLocalWishlist,
+  LocalWishlist,
+  refreshWishlistItem,
+  removeWishlistItem,
+  saveLocalWishlist,
+  syncWishlist,
+  toWishlistItem,
+} from '../services/wishlistService';
+import { WishlistItem, WishlistProductInput } from '../types/wishlist';
+import { useAuth } from './AuthContext';
+
+interface WishlistContextValue {
+  items: WishlistItem[];
+  isSyncing: boolean;
+  isWishlisted: (productId: string) => boolean;
+  // Trả về true nếu sản phẩm vừa được thêm, false nếu vừa bị bỏ
+  toggleWishlist: (product: WishlistProductInput) => Promise<boolean>;
+  removeFromWishlist: (productId: string) => Promise<void>;
+  refreshWishlist: () => Promise<void>;
+}
+
+const WishlistContext = createContext<WishlistContextValue | undefined>(undefined);
+
+export const useWishlist = () => {
+  const context = useContext(WishlistContext);
+  if (!context) {
+    throw new Error('useWishlist must be used within WishlistProvider');
+  }
+  return context;
+};
+
+interface WishlistProviderProps {
+  children: React.ReactNode;
+}
+
+export const WishlistProvider: React.FC<WishlistProviderProps> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
+  const [wishlist, setWishlist] = useState<LocalWishlist>({ items: [], pendingRemovals: [] });
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Latest wishlist for async callbacks
+  const wishlistRef = useRef(wishlist);
+  const wasAuthenticatedRef = useRef(false);
+
+  const applyWishlist = useCallback((next: LocalWishlist) => {
+    wishlistRef.current = next;
+    setWishlist(next);
+    saveLocalWishlist(next).catch((error) => {
+      console.warn('[WishlistContext] Failed to persist wishlist', error);
+    });
+  }, []);
+
+  const sync = useCallback(async () => {
+    try {
+      setIsSyncing(true);
+      const synced = await syncWishlist(wishlistRef.current);
+      wishlistRef.current = synced;
+      setWishlist(synced);
+    } catch (error) {
+      console.warn('[WishlistContext] Failed to sync wishlist', error);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  // Load wishlist from storage
+  useEffect(() => {
+    let cancelled = false;
+
+    getLocalWishlist().then((local) => {
+      if (cancelled) {
+        return;
+      }
+      wishlistRef.current = local;
+      setWishlist(local);
+      setIsLoaded(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Login: đẩy wishlist khách lên tài khoản. Logout: xóa wishlist trên máy
+  // Chờ load xong để không ghi đè wishlist khách bằng danh sách rỗng
+  useEffect(() => {
+    if (!isLoaded) {
+      return;
+    }
+
+    const wasAuthenticated = wasAuthenticatedRef.current;
+    wasAuthenticatedRef.current = isAuthenticated;
+
+    if (isAuthenticated && !wasAuthenticated) {
+      sync();
+    } else if (!isAuthenticated && wasAuthenticated) {
+      applyWishlist({ items: [], pendingRemovals: [] });
+    }
+  }, [isLoaded, isAuthenticated, sync, applyWishlist]);
+
+  const isWishlisted = useCallback(
+    (productId: string) => wishlist.items.some((item) => item.productId === productId),
+    [wishlist.items],
+  );
+
+  const removeFromWishlist = useCallback(
+    async (productId: string) => {
+      const current = wishlistRef.current;
+      const removed = current.items.find((item) => item.productId === productId);
+      const withoutItem = current.items.filter((item) => item.productId !== productId);
+      const pendingRemovals = current.pendingRemovals.filter((id) => id !== productId);
+
+      if (!isAuthenticated) {
+        // Chỉ xóa trên server khi sản phẩm đã từng sync - sản phẩm chỉ có trên máy thì bỏ luôn,
+        // tránh xóa nhầm sản phẩm tài khoản đã lưu từ thiết bị khác
+        applyWishlist({
+          items: withoutItem,
+          pendingRemovals: removed?.synced ? [...pendingRemovals, productId] : pendingRemovals,
+        });
+        return;
+      }
+
+      applyWishlist({ items: withoutItem, pendingRemovals });
+      try {
+        await removeWishlistItem(productId);
+      } catch (error) {
+        console.warn('[WishlistContext] Failed to remove on server, will retry', error);
+        applyWishlist({
+          items: wishlistRef.current.items,
+          pendingRemovals: [...wishlistRef.current.pendingRemovals, productId],
+        });
+      }
+    },
+    [isAuthenticated, applyWishlist],
+  );
+
+  const toggleWishlist = useCallback(
+    async (product: WishlistProductInput) => {
+      const current = wishlistRef.current;
+      if (current.items.some((item) => item.productId === product.productId)) {
+        await removeFromWishlist(product.productId);
+        return false;
+      }
+
+      const item = toWishlistItem(product);
+      applyWishlist({
+        items: [item, ...current.items],
+        pendingRemovals: current.pendingRemovals.filter((id) => id !== product.productId),
+      });
+
+      if (isAuthenticated) {
+        try {
+          await addWishlistItem({
+            productId: item.productId,
+            variantId: item.variantId,
+            priceAtAdd: item.savedPrice,
+          });
+          applyWishlist({
+            ...wishlistRef.current,
+            items: wishlistRef.current.items.map((entry) =>
+              entry.productId === item.productId ? { ...entry, synced: true } : entry,
+            ),
+          });
+        } catch (error) {
+          // Giữ trên máy, lần sync sau sẽ đẩy lên server
+          console.warn('[WishlistContext] Failed to add on server, will retry', error);
+        }
+      }
+      return true;
+    },
+    [isAuthenticated, applyWishlist, removeFromWishlist],
+  );
+
+  // Đồng bộ với server rồi cập nhật giá / kho / trạng thái mới nhất
+  const refreshWishlist = useCallback(async () => {
+    if (isAuthenticated) {
+      await sync();
+    }
+
+    const items = wishlistRef.current.items;
+    if (items.length === 0) {
+      return;
+    }
+
+    const results = await Promise.allSettled(items.map((item) => refreshWishlistItem(item)));
+    const refreshedById = new Map<string, WishlistItem>();
+    results.forEach((result) => {
+      if (result.status === 'fulfilled') {
+        refreshedById.set(result.value.productId, result.value);
+      }
+    });
+
+    // Áp dụng lên danh sách mới nhất (user có thể đã bỏ thích trong lúc chờ)
+    applyWishlist({
+      ...wishlistRef.current,
+      items: wishlistRef.current.items.map((item) => refreshedById.get(item.productId) ?? item),
+    });
+  }, [isAuthenticated, sync, applyWishlist]);
+
+  const value = useMemo<WishlistContextValue>(
+    () => ({
+      items: wishlist.items,
+      isSyncing,
+      isWishlisted,
+      toggleWishlist,
+      removeFromWishlist,
+      refreshWishlist,
+    }),
+    [wishlist.items, isSyncing, isWishlisted, toggleWishlist, removeFromWishlist, refreshWishlist],
+  );
+
+  return <WishlistContext.Provider value={value}>{children}</WishlistContext.Provider>;
+};
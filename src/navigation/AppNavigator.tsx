@@ -8,12 +8,17 @@ const linking = {
     screens: {
       Profile: {
         screens: {
-          Orders: {
-            path: 'checkout/success',
+          // PayOS redirect về checkout/success hoặc checkout/cancel
+          PaymentStatus: {
+            path: 'checkout/:result',
             parse: {
               orderId: (orderId: string) => orderId,
             },
           },
+          // Link trong email đặt lại mật khẩu / xác thực tài khoản
+          // Có ở cả AuthStack và CustomerStack nên mở được dù đã đăng nhập hay chưa
+          ResetPassword: 'reset-password',
+          VerifyEmail: 'verify-email',
         },
       },
     },
@@ -2,10 +2,15 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import React from 'react';
 import RegisterScreen from '../screens/CommonScreens/CommonRegisterScreen/RegisterScreen';
 import LoginScreen from '../screens/CommonScreens/ComonLoginScreen/LoginScreen';
+import ResetPasswordScreen from '../screens/CommonScreens/ResetPasswordScreen/ResetPasswordScreen';
+import VerifyEmailScreen from '../screens/CommonScreens/VerifyEmailScreen/VerifyEmailScreen';
 
 export type AuthStackParamList = {
   Login: undefined;
   Register: undefined;
+  // Mở từ deep link trong email: mobdoan://reset-password?token=... / mobdoan://verify-email?token=...
+  ResetPassword: { token?: string } | undefined;
+  VerifyEmail: { token?: string } | undefined;
 };
 
 const Stack = createNativeStackNavigator<AuthStackParamList>();
@@ -15,6 +20,8 @@ export default function AuthStackNavigator() {
     <Stack.Navigator screenOptions={{ headerShown: false }}>
       <Stack.Screen name="Login" component={LoginScreen} />
       <Stack.Screen name="Register" component={RegisterScreen} />
+      <Stack.Screen name="ResetPassword" component={ResetPasswordScreen} />
+      <Stack.Screen name="VerifyEmail" component={VerifyEmailScreen} />
     </Stack.Navigator>
   );
 }
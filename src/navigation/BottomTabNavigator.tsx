@@ -1,14 +1,23 @@
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
-import { CommonActions } from '@react-navigation/native';
+import { CommonActions, NavigatorScreenParams } from '@react-navigation/native';
 import React from 'react';
 import { useAuth } from '../context/AuthContext';
+import { useChat } from '../context/ChatContext';
+import { MessagesScreen } from '../screens/CustomerScreens/MessagesScreen';
 import { NotificationsScreen } from '../screens/CustomerScreens/NotificationsScreen';
 import AuthStackNavigator from './AuthStackNavigator';
-import CustomerStackNavigator from './CustomerStackNavigator';
-import ProductStackNavigator from './ProductStackNavigator';
+import CustomerStackNavigator, { CustomerStackParamList } from './CustomerStackNavigator';
+import ProductStackNavigator, { ProductStackParamList } from './ProductStackNavigator';
 
-const Tab = createBottomTabNavigator();
+export type BottomTabParamList = {
+  Home: NavigatorScreenParams<ProductStackParamList> | undefined;
+  Notifications: undefined;
+  Messages: undefined;
+  Profile: NavigatorScreenParams<CustomerStackParamList> | undefined;
+};
+
+const Tab = createBottomTabNavigator<BottomTabParamList>();
 
 const ORANGE = '#FF6A00';
 
@@ -21,6 +30,8 @@ const ProfileTab = () => {
 };
 
 export default function BottomTabNavigator() {
+  const { totalUnread } = useChat();
+
   return (
     <Tab.Navigator
       screenOptions={{
@@ -93,6 +104,17 @@ export default function BottomTabNavigator() {
           ),
         }}
       />
+      <Tab.Screen
+        name="Messages"
+        component={MessagesScreen}
+        options={{
+          tabBarLabel: 'Tin nhắn',
+          tabBarIcon: ({ color, size }) => (
+            <MaterialCommunityIcons name="message-text-outline" size={size} color={color} />
+          ),
+          tabBarBadge: totalUnread > 0 ? (totalUnread > 99 ? '99+' : totalUnread) : undefined,
+        }}
+      />
       <Tab.Screen
         name="Profile"
         component={ProfileTab}
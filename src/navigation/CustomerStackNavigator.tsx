@@ -1,13 +1,22 @@
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import React from 'react';
+import ResetPasswordScreen from '../screens/CommonScreens/ResetPasswordScreen/ResetPasswordScreen';
+import VerifyEmailScreen from '../screens/CommonScreens/VerifyEmailScreen/VerifyEmailScreen';
 import AddressScreen from '../screens/CustomerScreens/AddressScreen/AddressScreen';
 import { CartScreen } from '../screens/CustomerScreens/CartScreen';
 import { CheckoutScreen } from '../screens/CustomerScreens/CheckoutScreen';
 import { CreateAddressScreen } from '../screens/CustomerScreens/CreateAddressScreen';
 import { EditAddressScreen } from '../screens/CustomerScreens/EditAddressScreen';
+import { LoyaltyPointsScreen } from '../screens/CustomerScreens/LoyaltyPointsScreen';
+import { MembershipScreen } from '../screens/CustomerScreens/MembershipScreen';
 import NotificationsScreen from '../screens/CustomerScreens/NotificationsScreen/NotificationsScreen';
 import OrderScreen from '../screens/CustomerScreens/OrderScreen';
+import { PaymentStatusScreen } from '../screens/CustomerScreens/PaymentStatusScreen';
 import ProfileScreen from '../screens/CustomerScreens/ProfileScreen/ProfileScreen';
+import { ReturnsScreen } from '../screens/CustomerScreens/ReturnsScreen';
+import { ShipmentTrackingScreen } from '../screens/CustomerScreens/ShipmentTrackingScreen';
+import { VoucherWalletScreen } from '../screens/CustomerScreens/VoucherWalletScreen';
+import { WishlistScreen } from '../screens/CustomerScreens/WishlistScreen';
 import { Cart } from '../types/cart';
 import { CustomerAddress } from '../types/customer';
 
@@ -32,6 +41,22 @@ export type CustomerStackParamList = {
     | undefined;
   Orders: { orderId?: string } | undefined;
   Notifications: undefined;
+  PaymentStatus:
+    | {
+        orderId?: string;
+        orderCode?: string;
+        result?: 'success' | 'cancel';
+      }
+    | undefined;
+  Wishlist: undefined;
+  ShipmentTracking: { storeOrderId: string; storeName?: string };
+  Returns: { returnId?: string } | undefined;
+  VoucherWallet: undefined;
+  LoyaltyPoints: undefined;
+  Membership: undefined;
+  // Link trong email vẫn mở được khi đã đăng nhập (AuthStack không được mount)
+  ResetPassword: { token?: string } | undefined;
+  VerifyEmail: { token?: string } | undefined;
 };
 
 const Stack = createNativeStackNavigator<CustomerStackParamList>();
@@ -52,6 +77,15 @@ export default function CustomerStackNavigator() {
       <Stack.Screen name="Checkout" component={CheckoutScreen} />
       <Stack.Screen name="Orders" component={OrderScreen} />
       <Stack.Screen name="Notifications" component={NotificationsScreen} />
+      <Stack.Screen name="PaymentStatus" component={PaymentStatusScreen} />
+      <Stack.Screen name="Wishlist" component={WishlistScreen} />
+      <Stack.Screen name="ShipmentTracking" component={ShipmentTrackingScreen} />
+      <Stack.Screen name="Returns" component={ReturnsScreen} />
+      <Stack.Screen name="VoucherWallet" component={VoucherWalletScreen} />
+      <Stack.Screen name="LoyaltyPoints" component={LoyaltyPointsScreen} />
+      <Stack.Screen name="Membership" component={MembershipScreen} />
+      <Stack.Screen name="ResetPassword" component={ResetPasswordScreen} />
+      <Stack.Screen name="VerifyEmail" component={VerifyEmailScreen} />
     </Stack.Navigator>
   );
 }
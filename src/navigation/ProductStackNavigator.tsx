@@ -4,17 +4,20 @@ import { HomeScreen } from '../screens/CommonScreens/ComonHomeScreen';
 import { ProductListScreen } from '../screens/CommonScreens/ProductListScreen';
 import { CartScreen } from '../screens/CustomerScreens/CartScreen';
 import { CheckoutScreen } from '../screens/CustomerScreens/CheckoutScreen';
+import { CompareScreen } from '../screens/CustomerScreens/CompareScreen';
 import { ProductDetailScreen } from '../screens/CustomerScreens/ProductDetailScreen';
 import StorePage from '../screens/CustomerScreens/StorePage';
-import { Cart } from '../types/cart';
+import { AddCartItemRequest, Cart } from '../types/cart';
 
 export type ProductStackParamList = {
   Home: undefined;
   ProductList: undefined;
   ProductDetail: { productId: string };
   Store: { storeId: string };
-  Cart: undefined;
+  // selectItems: chỉ chọn sẵn các sản phẩm này (mua lại từ đơn cũ)
+  Cart: { selectItems?: AddCartItemRequest[] } | undefined;
   Checkout: { cart?: Cart } | undefined;
+  Compare: undefined;
 };
 
 const Stack = createNativeStackNavigator<ProductStackParamList>();
@@ -32,6 +35,7 @@ export default function ProductStackNavigator() {
       <Stack.Screen name="Store" component={StorePage} />
       <Stack.Screen name="Cart" component={CartScreen} />
       <Stack.Screen name="Checkout" component={CheckoutScreen} />
+      <Stack.Screen name="Compare" component={CompareScreen} />
     </Stack.Navigator>
   );
 }
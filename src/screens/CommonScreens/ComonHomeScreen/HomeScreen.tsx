@@ -13,6 +13,7 @@ import {
 import { Snackbar } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import httpClient from '../../../api/httpClient';
+import { CompareTray } from '../../../components/CommonScreenComponents/CompareComponents';
 import {
   BannerCarousel,
   CategorySection,
@@ -911,6 +912,8 @@ const HomeScreen = () => {
           {renderContent()}
         </ScrollView>
 
+        <CompareTray onCompare={() => navigation.navigate('Compare')} />
+
         {/* Welcome Message Snackbar */}
         <Snackbar
           visible={welcomeSnackbarVisible}
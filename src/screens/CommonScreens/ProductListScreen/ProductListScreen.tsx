@@ -17,7 +17,19 @@ import {
 import { Button, Menu, Portal, Searchbar, Snackbar } from 'react-native-paper';
 import httpClient from '../../../api/httpClient';
 import { getActiveProvinces } from '../../../services/ghnService';
-import { ProductStatus } from '../../../types/product';
+import {
+  ProductSpecFacetDefinition,
+  ProductSpecFacets,
+  ProductSpecFacetValue,
+  ProductStatus,
+} from '../../../types/product';
+import {
+  buildSpecFacetDefinitions,
+  buildSpecFacetParams,
+  getActiveFacetChips,
+  isSameFacetValue,
+  SpecFacetSource,
+} from '../../../utils/productFacets';
 
 const FALLBACK_IMAGE = 'https://placehold.co/600x400?text=Audio+Product';
 const PAGE_SIZE = 20;
@@ -35,7 +47,8 @@ type ProductViewVariant = {
   imageUrl?: string;
 };
 
-type ProductViewItem = {
+// Thông số (trường có kiểu / attributeValues) nếu backend trả kèm, dùng để dựng facet
+type ProductViewItem = SpecFacetSource & {
   productId: string;
   name: string;
   brandName?: string;
@@ -147,6 +160,7 @@ interface ProductListFilters {
   provinceCode?: string;
   sortBy?: 'name' | 'price';
   sortDir?: 'asc' | 'desc';
+  specFacets?: ProductSpecFacets;
 }
 
 const formatCurrencyVND = (value: number) =>
@@ -207,6 +221,9 @@ const ProductListScreen = () => {
   const [snackbarVisible, setSnackbarVisible] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState('');
 
+  // Facet thông số dựng từ danh sách đang tải
+  const [specFacetDefinitions, setSpecFacetDefinitions] = useState<ProductSpecFacetDefinition[]>([]);
+
   // Load categories
   const loadCategories = useCallback(async () => {
     try {
@@ -512,6 +529,10 @@ const ProductListScreen = () => {
       params.sortDir = filters.sortDir;
     }
 
+    if (filters.specFacets) {
+      Object.assign(params, buildSpecFacetParams(filters.specFacets));
+    }
+
     return params;
   }, [filters]);
 
@@ -804,6 +825,33 @@ const ProductListScreen = () => {
     }
   }, []);
 
+  const handleSpecFacetToggle = useCallback(
+    (definition: ProductSpecFacetDefinition, value: ProductSpecFacetValue) => {
+      setFilters((prev) => {
+        const { [definition.key]: current, ...restFacets } = prev.specFacets ?? {};
+        // Chọn lại cùng giá trị thì bỏ lọc
+        const specFacets = isSameFacetValue(current, value)
+          ? restFacets
+          : { ...restFacets, [definition.key]: value };
+        return {
+          ...prev,
+          specFacets: Object.keys(specFacets).length > 0 ? specFacets : undefined,
+        };
+      });
+    },
+    [],
+  );
+
+  const handleSpecFacetRemove = useCallback((key: string) => {
+    setFilters((prev) => {
+      const { [key]: _, ...restFacets } = prev.specFacets ?? {};
+      return {
+        ...prev,
+        specFacets: Object.keys(restFacets).length > 0 ? restFacets : undefined,
+      };
+    });
+  }, []);
+
   const handleSearch = useCallback(() => {
     setFilters((prev) => ({
       ...prev,
@@ -831,9 +879,43 @@ const ProductListScreen = () => {
     if (filters.provinceCode) count++;
     if (filters.keyword) count++;
     if (filters.sortBy) count++;
+    count += Object.keys(filters.specFacets ?? {}).length;
     return count;
   }, [filters]);
 
+  // Chỉ dựng lại facet khi chưa lọc theo thông số, để các lựa chọn khác không biến mất khi đang lọc
+  useEffect(() => {
+    if (filters.specFacets) return;
+    setSpecFacetDefinitions(buildSpecFacetDefinitions(products));
+  }, [products, filters.specFacets]);
+
+  const activeFacetChips = useMemo(
+    () => getActiveFacetChips(filters.specFacets ?? {}, specFacetDefinitions),
+    [filters.specFacets, specFacetDefinitions],
+  );
+
+  const valueFacets = specFacetDefinitions.filter((facet) => facet.dataType !== 'BOOLEAN');
+  const featureFacets = specFacetDefinitions.filter((facet) => facet.dataType === 'BOOLEAN');
+
+  const renderFacetChip = (
+    definition: ProductSpecFacetDefinition,
+    value: ProductSpecFacetValue,
+    label: string,
+  ) => {
+    const isActive = isSameFacetValue(filters.specFacets?.[definition.key], value);
+    return (
+      <TouchableOpacity
+        key={`${definition.key}-${label}`}
+        style={[styles.categoryChip, isActive && styles.categoryChipActive]}
+        onPress={() => handleSpecFacetToggle(definition, value)}
+      >
+        <Text style={[styles.categoryChipText, isActive && styles.categoryChipTextActive]}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
   const productCards = useMemo(
     () =>
       products.map((product) => {
@@ -950,6 +1032,27 @@ const ProductListScreen = () => {
         </TouchableOpacity>
       </View>
 
+      {/* Active spec facets */}
+      {activeFacetChips.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.activeFacetBar}
+          contentContainerStyle={styles.activeFacetBarContent}
+        >
+          {activeFacetChips.map((chip) => (
+            <TouchableOpacity
+              key={chip.key}
+              style={styles.activeFacetChip}
+              onPress={() => handleSpecFacetRemove(chip.key)}
+            >
+              <Text style={styles.activeFacetChipText}>{chip.label}</Text>
+              <MaterialCommunityIcons name="close" size={14} color={ORANGE} />
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
       {/* Filter Panel Modal */}
       <Portal>
         <Modal
@@ -1134,6 +1237,31 @@ const ProductListScreen = () => {
                 </Menu>
               </View>
 
+              {/* Spec facets */}
+              {specFacetDefinitions.length > 0 && (
+                <View style={styles.filterSection}>
+                  <Text style={styles.filterSectionTitle}>Thông số kỹ thuật</Text>
+                  {valueFacets.map((facet) => (
+                    <View key={facet.key} style={styles.facetGroup}>
+                      <Text style={styles.facetGroupTitle}>{facet.label}</Text>
+                      <View style={styles.categoryGrid}>
+                        {facet.dataType === 'NUMBER'
+                          ? facet.ranges?.map((range) => renderFacetChip(facet, range, range.label))
+                          : facet.options?.map((option) => renderFacetChip(facet, option, option))}
+                      </View>
+                    </View>
+                  ))}
+                  {featureFacets.length > 0 && (
+                    <View style={styles.facetGroup}>
+                      <Text style={styles.facetGroupTitle}>Tính năng</Text>
+                      <View style={styles.categoryGrid}>
+                        {featureFacets.map((facet) => renderFacetChip(facet, true, facet.label))}
+                      </View>
+                    </View>
+                  )}
+                </View>
+              )}
+
               {/* Reset Button */}
               <View style={styles.filterActions}>
                 <Button
@@ -1280,6 +1408,31 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontWeight: '700',
   },
+  activeFacetBar: {
+    flexGrow: 0,
+    backgroundColor: '#FFFFFF',
+  },
+  activeFacetBarContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  activeFacetChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#FFF3EB',
+    borderWidth: 1,
+    borderColor: ORANGE,
+  },
+  activeFacetChipText: {
+    fontSize: 12,
+    color: ORANGE,
+    fontWeight: '600',
+  },
   filterModalContent: {
     backgroundColor: '#FFFFFF',
     margin: 20,
@@ -1340,6 +1493,14 @@ const styles = StyleSheet.create({
     color: ORANGE,
     fontWeight: '600',
   },
+  facetGroup: {
+    marginBottom: 8,
+  },
+  facetGroupTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#444',
+  },
   sortButton: {
     flexDirection: 'row',
     justifyContent: 'space-between',
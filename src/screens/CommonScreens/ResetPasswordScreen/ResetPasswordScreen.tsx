@@ -0,0 +1,457 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import React, { useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useAuth } from '../../../context/AuthContext';
+import { AuthStackParamList } from '../../../navigation/AuthStackNavigator';
+import { CustomerStackParamList } from '../../../navigation/CustomerStackNavigator';
+import { forgotPassword, isInvalidTokenResult, resetPassword } from '../../../services/authService';
+
+const ORANGE = '#FF6A00';
+const MIN_PASSWORD_LENGTH = 8;
+
+type ResetPasswordRouteProp = RouteProp<AuthStackParamList, 'ResetPassword'>;
+// Mount ở cả AuthStack (chưa đăng nhập) và CustomerStack (mở link khi đã đăng nhập)
+type ResetPasswordNavigationProp = NativeStackNavigationProp<
+  AuthStackParamList & CustomerStackParamList,
+  'ResetPassword'
+>;
+
+type ScreenState = 'form' | 'success' | 'invalid-token';
+
+const PASSWORD_RULES = [
+  { key: 'length', label: `Ít nhất ${MIN_PASSWORD_LENGTH} ký tự`, test: (value: string) => value.length >= MIN_PASSWORD_LENGTH },
+  { key: 'letter', label: 'Có chữ cái', test: (value: string) => /[a-zA-Z]/.test(value) },
+  { key: 'number', label: 'Có chữ số', test: (value: string) => /\d/.test(value) },
+  { key: 'mixed', label: 'Có chữ hoa và chữ thường', test: (value: string) => /[a-z]/.test(value) && /[A-Z]/.test(value) },
+  { key: 'special', label: 'Có ký tự đặc biệt', test: (value: string) => /[^a-zA-Z0-9]/.test(value) },
+];
+
+// 3 rule đầu là bắt buộc, 2 rule sau nâng độ mạnh
+const REQUIRED_RULE_COUNT = 3;
+
+const STRENGTH_LEVELS = [
+  { label: 'Yếu', color: '#D32F2F' },
+  { label: 'Trung bình', color: '#FFA000' },
+  { label: 'Mạnh', color: '#4CAF50' },
+];
+
+const getPasswordStrength = (password: string) => {
+  const passed = PASSWORD_RULES.map((rule) => rule.test(password));
+  const meetsRequired = passed.slice(0, REQUIRED_RULE_COUNT).every(Boolean);
+  const score = passed.filter(Boolean).length;
+  const level = !meetsRequired ? 0 : score >= PASSWORD_RULES.length ? 2 : 1;
+  return { passed, meetsRequired, level };
+};
+
+export default function ResetPasswordScreen() {
+  const navigation = useNavigation<ResetPasswordNavigationProp>();
+  const { isAuthenticated } = useAuth();
+  const route = useRoute<ResetPasswordRouteProp>();
+  const token = route.params?.token?.trim() || '';
+
+  // Đã đăng nhập thì không có màn Login, quay về trang cá nhân
+  const leaveScreen = () => {
+    if (isAuthenticated) {
+      navigation.navigate('ProfileMain');
+    } else {
+      navigation.navigate('Login');
+    }
+  };
+
+  const [screenState, setScreenState] = useState<ScreenState>(token ? 'form' : 'invalid-token');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [confirmError, setConfirmError] = useState<string | null>(null);
+
+  // Gửi lại link khi token hết hạn
+  const [resendEmail, setResendEmail] = useState('');
+  const [isResending, setIsResending] = useState(false);
+  const [resendMessage, setResendMessage] = useState<string | null>(null);
+
+  const strength = useMemo(() => getPasswordStrength(password), [password]);
+
+  const handleSubmit = async () => {
+    setErrorMessage(null);
+
+    if (!strength.meetsRequired) {
+      setErrorMessage('Mật khẩu chưa đủ mạnh');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setConfirmError('Mật khẩu xác nhận không khớp');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const res = await resetPassword(token, password);
+
+      if (res.status === 200) {
+        setScreenState('success');
+      } else if (isInvalidTokenResult(res)) {
+        setScreenState('invalid-token');
+      } else {
+        setErrorMessage(res.message || 'Không thể đặt lại mật khẩu. Vui lòng thử lại.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleResend = async () => {
+    if (!resendEmail.trim()) {
+      setResendMessage('Vui lòng nhập email.');
+      return;
+    }
+
+    try {
+      setIsResending(true);
+      const res = await forgotPassword(resendEmail.trim());
+      setResendMessage(
+        res.status === 200 ? 'Đã gửi link mới. Vui lòng kiểm tra hộp thư của bạn.' : res.message,
+      );
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const renderForm = () => (
+    <>
+      <Text style={styles.description}>Nhập mật khẩu mới cho tài khoản của bạn.</Text>
+
+      <Text style={styles.label}>Mật khẩu mới</Text>
+      <View style={styles.passwordContainer}>
+        <TextInput
+          style={styles.passwordInput}
+          placeholder="Nhập mật khẩu mới"
+          value={password}
+          onChangeText={(text) => {
+            setPassword(text);
+            setErrorMessage(null);
+          }}
+          secureTextEntry={!showPassword}
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!isSubmitting}
+        />
+        <TouchableOpacity style={styles.eyeButton} onPress={() => setShowPassword((prev) => !prev)}>
+          <MaterialCommunityIcons
+            name={showPassword ? 'eye-off-outline' : 'eye-outline'}
+            size={22}
+            color="#666"
+          />
+        </TouchableOpacity>
+      </View>
+
+      {password.length > 0 && (
+        <View style={styles.strengthContainer}>
+          <View style={styles.strengthBar}>
+            {STRENGTH_LEVELS.map((level, index) => (
+              <View
+                key={level.label}
+                style={[
+                  styles.strengthSegment,
+                  index <= strength.level && {
+                    backgroundColor: STRENGTH_LEVELS[strength.level].color,
+                  },
+                ]}
+              />
+            ))}
+          </View>
+          <Text style={[styles.strengthLabel, { color: STRENGTH_LEVELS[strength.level].color }]}>
+            {STRENGTH_LEVELS[strength.level].label}
+          </Text>
+        </View>
+      )}
+
+      <View style={styles.rules}>
+        {PASSWORD_RULES.map((rule, index) => (
+          <View key={rule.key} style={styles.ruleRow}>
+            <MaterialCommunityIcons
+              name={strength.passed[index] ? 'check-circle' : 'circle-outline'}
+              size={16}
+              color={strength.passed[index] ? '#4CAF50' : '#BDBDBD'}
+            />
+            <Text style={[styles.ruleText, strength.passed[index] && styles.ruleTextPassed]}>
+              {rule.label}
+              {index >= REQUIRED_RULE_COUNT ? ' (khuyến nghị)' : ''}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Xác nhận mật khẩu</Text>
+      <TextInput
+        style={[styles.input, confirmError && styles.inputError]}
+        placeholder="Nhập lại mật khẩu mới"
+        value={confirmPassword}
+        onChangeText={(text) => {
+          setConfirmPassword(text);
+          setConfirmError(null);
+        }}
+        secureTextEntry={!showPassword}
+        autoCapitalize="none"
+        autoCorrect={false}
+        editable={!isSubmitting}
+      />
+      {confirmError && <Text style={styles.errorText}>{confirmError}</Text>}
+      {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
+
+      <TouchableOpacity
+        style={[styles.primaryButton, isSubmitting && styles.buttonDisabled]}
+        onPress={handleSubmit}
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text style={styles.primaryButtonText}>Đặt lại mật khẩu</Text>
+        )}
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderSuccess = () => (
+    <View style={styles.statusContainer}>
+      <MaterialCommunityIcons name="check-circle-outline" size={64} color="#4CAF50" />
+      <Text style={styles.statusTitle}>Đặt lại mật khẩu thành công</Text>
+      <Text style={styles.statusDescription}>Bạn có thể đăng nhập bằng mật khẩu mới.</Text>
+      <TouchableOpacity style={styles.primaryButton} onPress={leaveScreen}>
+        <Text style={styles.primaryButtonText}>
+          {isAuthenticated ? 'Về trang cá nhân' : 'Đăng nhập'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderInvalidToken = () => (
+    <View style={styles.statusContainer}>
+      <MaterialCommunityIcons name="link-variant-off" size={64} color="#D32F2F" />
+      <Text style={styles.statusTitle}>Liên kết không còn hiệu lực</Text>
+      <Text style={styles.statusDescription}>
+        Liên kết đặt lại mật khẩu đã hết hạn hoặc đã được sử dụng. Nhập email để nhận liên kết mới.
+      </Text>
+      <TextInput
+        style={[styles.input, styles.fullWidth]}
+        placeholder="Nhập email"
+        value={resendEmail}
+        onChangeText={(text) => {
+          setResendEmail(text);
+          setResendMessage(null);
+        }}
+        keyboardType="email-address"
+        autoCapitalize="none"
+        autoCorrect={false}
+        editable={!isResending}
+      />
+      {resendMessage && <Text style={styles.resendMessage}>{resendMessage}</Text>}
+      <TouchableOpacity
+        style={[styles.primaryButton, styles.fullWidth, isResending && styles.buttonDisabled]}
+        onPress={handleResend}
+        disabled={isResending}
+      >
+        {isResending ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text style={styles.primaryButtonText}>Gửi lại liên kết</Text>
+        )}
+      </TouchableOpacity>
+      <TouchableOpacity onPress={leaveScreen}>
+        <Text style={styles.linkText}>
+          {isAuthenticated ? 'Về trang cá nhân' : 'Quay lại đăng nhập'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+        <View style={styles.headerArea}>
+          <Text style={styles.screenTitle}>Đặt lại mật khẩu</Text>
+        </View>
+        <View style={styles.card}>
+          {screenState === 'form' && renderForm()}
+          {screenState === 'success' && renderSuccess()}
+          {screenState === 'invalid-token' && renderInvalidToken()}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: {
+    flex: 1,
+    backgroundColor: '#F7F7F7',
+  },
+  container: {
+    padding: 16,
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  headerArea: {
+    marginBottom: 8,
+  },
+  screenTitle: {
+    fontSize: 28,
+    fontWeight: '800',
+    color: '#111',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#EFEFEF',
+  },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 16,
+    lineHeight: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#444',
+    marginBottom: 8,
+  },
+  input: {
+    height: 48,
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    backgroundColor: '#FFFFFF',
+    fontSize: 16,
+  },
+  inputError: {
+    borderColor: '#D32F2F',
+  },
+  fullWidth: {
+    alignSelf: 'stretch',
+  },
+  passwordContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 48,
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    borderRadius: 10,
+    backgroundColor: '#FFFFFF',
+  },
+  passwordInput: {
+    flex: 1,
+    height: '100%',
+    paddingHorizontal: 14,
+    fontSize: 16,
+  },
+  eyeButton: {
+    paddingHorizontal: 12,
+  },
+  strengthContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+    gap: 8,
+  },
+  strengthBar: {
+    flex: 1,
+    flexDirection: 'row',
+    gap: 4,
+  },
+  strengthSegment: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#E0E0E0',
+  },
+  strengthLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  rules: {
+    marginTop: 10,
+    marginBottom: 16,
+    gap: 4,
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  ruleText: {
+    fontSize: 13,
+    color: '#888',
+  },
+  ruleTextPassed: {
+    color: '#2E7D32',
+  },
+  errorText: {
+    marginTop: 6,
+    fontSize: 13,
+    color: '#D32F2F',
+  },
+  primaryButton: {
+    marginTop: 20,
+    height: 48,
+    borderRadius: 10,
+    backgroundColor: ORANGE,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  statusContainer: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  statusTitle: {
+    marginTop: 12,
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111',
+    textAlign: 'center',
+  },
+  statusDescription: {
+    marginTop: 8,
+    marginBottom: 16,
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  resendMessage: {
+    marginTop: 8,
+    fontSize: 13,
+    color: '#444',
+    textAlign: 'center',
+  },
+  linkText: {
+    marginTop: 16,
+    color: ORANGE,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1 @@
+export { default as ResetPasswordScreen } from './ResetPasswordScreen';
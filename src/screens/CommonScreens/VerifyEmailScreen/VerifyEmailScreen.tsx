@@ -0,0 +1,261 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useAuth } from '../../../context/AuthContext';
+import { AuthStackParamList } from '../../../navigation/AuthStackNavigator';
+import { CustomerStackParamList } from '../../../navigation/CustomerStackNavigator';
+import { isInvalidTokenResult, resendVerifyEmail, verifyEmail } from '../../../services/authService';
+
+const ORANGE = '#FF6A00';
+
+type VerifyEmailRouteProp = RouteProp<AuthStackParamList, 'VerifyEmail'>;
+// Mount ở cả AuthStack (chưa đăng nhập) và CustomerStack (mở link khi đã đăng nhập)
+type VerifyEmailNavigationProp = NativeStackNavigationProp<
+  AuthStackParamList & CustomerStackParamList,
+  'VerifyEmail'
+>;
+
+type ScreenState = 'verifying' | 'success' | 'invalid-token' | 'error';
+
+export default function VerifyEmailScreen() {
+  const navigation = useNavigation<VerifyEmailNavigationProp>();
+  const { isAuthenticated } = useAuth();
+  const route = useRoute<VerifyEmailRouteProp>();
+  const token = route.params?.token?.trim() || '';
+
+  // Đã đăng nhập thì không có màn Login, quay về trang cá nhân
+  const leaveScreen = () => {
+    if (isAuthenticated) {
+      navigation.navigate('ProfileMain');
+    } else {
+      navigation.navigate('Login');
+    }
+  };
+
+  const [screenState, setScreenState] = useState<ScreenState>(token ? 'verifying' : 'invalid-token');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [resendEmail, setResendEmail] = useState('');
+  const [isResending, setIsResending] = useState(false);
+  const [resendMessage, setResendMessage] = useState<string | null>(null);
+
+  const runVerification = async (value: string) => {
+    setScreenState('verifying');
+    const res = await verifyEmail(value);
+    if (res.status === 200) {
+      setScreenState('success');
+    } else if (isInvalidTokenResult(res)) {
+      setScreenState('invalid-token');
+    } else {
+      setErrorMessage(res.message);
+      setScreenState('error');
+    }
+  };
+
+  useEffect(() => {
+    if (token) {
+      runVerification(token);
+    }
+  }, [token]);
+
+  const handleResend = async () => {
+    if (!resendEmail.trim()) {
+      setResendMessage('Vui lòng nhập email.');
+      return;
+    }
+
+    try {
+      setIsResending(true);
+      const res = await resendVerifyEmail(resendEmail.trim(), 'CUSTOMER');
+      setResendMessage(
+        res.status === 200 ? 'Đã gửi lại email xác nhận. Vui lòng kiểm tra hộp thư của bạn.' : res.message,
+      );
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const renderContent = () => {
+    switch (screenState) {
+      case 'verifying':
+        return (
+          <>
+            <ActivityIndicator size="large" color={ORANGE} />
+            <Text style={styles.statusDescription}>Đang xác thực email...</Text>
+          </>
+        );
+      case 'success':
+        return (
+          <>
+            <MaterialCommunityIcons name="email-check-outline" size={64} color="#4CAF50" />
+            <Text style={styles.statusTitle}>Xác thực email thành công</Text>
+            <Text style={styles.statusDescription}>Tài khoản của bạn đã sẵn sàng để đăng nhập.</Text>
+            <TouchableOpacity style={styles.primaryButton} onPress={leaveScreen}>
+              <Text style={styles.primaryButtonText}>
+                {isAuthenticated ? 'Về trang cá nhân' : 'Đăng nhập'}
+              </Text>
+            </TouchableOpacity>
+          </>
+        );
+      case 'error':
+        return (
+          <>
+            <MaterialCommunityIcons name="alert-circle-outline" size={64} color="#D32F2F" />
+            <Text style={styles.statusTitle}>Không thể xác thực email</Text>
+            <Text style={styles.statusDescription}>{errorMessage}</Text>
+            <TouchableOpacity style={styles.primaryButton} onPress={() => runVerification(token)}>
+              <Text style={styles.primaryButtonText}>Thử lại</Text>
+            </TouchableOpacity>
+          </>
+        );
+      default:
+        return (
+          <>
+            <MaterialCommunityIcons name="link-variant-off" size={64} color="#D32F2F" />
+            <Text style={styles.statusTitle}>Liên kết không còn hiệu lực</Text>
+            <Text style={styles.statusDescription}>
+              Liên kết xác thực đã hết hạn hoặc đã được sử dụng. Nhập email để nhận liên kết mới.
+            </Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Nhập email"
+              value={resendEmail}
+              onChangeText={(text) => {
+                setResendEmail(text);
+                setResendMessage(null);
+              }}
+              keyboardType="email-address"
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!isResending}
+            />
+            {resendMessage && <Text style={styles.resendMessage}>{resendMessage}</Text>}
+            <TouchableOpacity
+              style={[styles.primaryButton, styles.fullWidth, isResending && styles.buttonDisabled]}
+              onPress={handleResend}
+              disabled={isResending}
+            >
+              {isResending ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Gửi lại email xác nhận</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity onPress={leaveScreen}>
+              <Text style={styles.linkText}>
+                {isAuthenticated ? 'Về trang cá nhân' : 'Quay lại đăng nhập'}
+              </Text>
+            </TouchableOpacity>
+          </>
+        );
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safe}>
+      <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+        <View style={styles.headerArea}>
+          <Text style={styles.screenTitle}>Xác thực email</Text>
+        </View>
+        <View style={[styles.card, styles.statusContainer]}>{renderContent()}</View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: {
+    flex: 1,
+    backgroundColor: '#F7F7F7',
+  },
+  container: {
+    padding: 16,
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  headerArea: {
+    marginBottom: 8,
+  },
+  screenTitle: {
+    fontSize: 28,
+    fontWeight: '800',
+    color: '#111',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#EFEFEF',
+  },
+  statusContainer: {
+    alignItems: 'center',
+    paddingVertical: 24,
+  },
+  statusTitle: {
+    marginTop: 12,
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#111',
+    textAlign: 'center',
+  },
+  statusDescription: {
+    marginTop: 8,
+    marginBottom: 16,
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  input: {
+    alignSelf: 'stretch',
+    height: 48,
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    backgroundColor: '#FFFFFF',
+    fontSize: 16,
+  },
+  fullWidth: {
+    alignSelf: 'stretch',
+  },
+  primaryButton: {
+    marginTop: 20,
+    height: 48,
+    borderRadius: 10,
+    backgroundColor: ORANGE,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  resendMessage: {
+    marginTop: 8,
+    fontSize: 13,
+    color: '#444',
+    textAlign: 'center',
+  },
+  linkText: {
+    marginTop: 16,
+    color: ORANGE,
+    fontWeight: '600',
+  },
+});
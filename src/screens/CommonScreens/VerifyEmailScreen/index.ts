@@ -0,0 +1 @@
+export { default as VerifyEmailScreen } from './VerifyEmailScreen';
@@ -53,7 +53,7 @@ const AddressScreen: React.FC = () => {
           setIsLoading(true);
         }
         setErrorMessage(null);
-        const data = await getCustomerAddresses({ customerId, accessToken });
+        const data = await getCustomerAddresses();
         setAddresses(data);
       } catch (error: any) {
         console.log('[AddressScreen] loadAddresses failed', error);
@@ -105,11 +105,7 @@ const AddressScreen: React.FC = () => {
 
     try {
       setIsDeleting(true);
-      await deleteCustomerAddress({
-        customerId,
-        addressId: addressToDelete.id,
-        accessToken,
-      });
+      await deleteCustomerAddress(addressToDelete.id);
       setSnackbarMessage('Địa chỉ đã được xóa thành công');
       setSnackbarVisible(true);
       setDeleteDialogVisible(false);
@@ -165,9 +161,7 @@ const AddressScreen: React.FC = () => {
       };
 
       await updateCustomerAddress({
-        customerId,
         addressId: address.id,
-        accessToken,
         payload,
       });
       setSnackbarMessage('Đã đặt làm địa chỉ mặc định');
@@ -226,7 +220,7 @@ const AddressScreen: React.FC = () => {
               }
               setIsLoading(true);
               setErrorMessage(null);
-              getCustomerAddresses({ customerId, accessToken })
+              getCustomerAddresses()
                 .then(setAddresses)
                 .catch((error) => {
                   console.log('[AddressScreen] retry loadAddresses failed', error);
@@ -1,6 +1,6 @@
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { RouteProp, useFocusEffect, useNavigation, useRoute } from '@react-navigation/native';
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
@@ -13,16 +13,21 @@ import {
   View,
 } from 'react-native';
 import { Button } from 'react-native-paper';
-import { CartItemList } from '../../../components/CustomerScreenComponents/CartComponents';
-import { useAuth } from '../../../context/AuthContext';
 import {
-  deleteCartItems,
-  getCustomerCart,
-  updateQuantityWithVouchers,
-} from '../../../services/cartService';
+  CartItemList,
+  GuestCartMergeReportCard,
+  SavedForLaterList,
+} from '../../../components/CustomerScreenComponents/CartComponents';
+import { useAuth } from '../../../context/AuthContext';
+import { useCart } from '../../../context/CartContext';
+import { ProductStackParamList } from '../../../navigation/ProductStackNavigator';
 import { getProductById, getProductVouchers } from '../../../services/productService';
-import { Cart, CartItem } from '../../../types/cart';
+import { AddCartItemRequest, CartItem } from '../../../types/cart';
+import { AppliedVoucherCode } from '../../../types/checkout';
 import { ProductDetail } from '../../../types/product';
+import { StoreVoucherPlan, VoucherCandidate } from '../../../types/voucher';
+import { findMatchingCartItem, isLocalCartItemId } from '../../../utils/offlineCart';
+import { optimizeStoreVouchers, toVoucherCandidate } from '../../../utils/voucherOptimizer';
 
 const CHECKOUT_SESSION_KEY = 'checkout:payload:v1';
 
@@ -77,16 +82,43 @@ type SelectedVoucher = {
   code: string;
 };
 
+const isSameVoucherSelection = (
+  a: Map<string, SelectedVoucher>,
+  b: Map<string, SelectedVoucher>,
+) =>
+  a.size === b.size &&
+  Array.from(a.entries()).every(([key, voucher]) => b.get(key)?.shopVoucherId === voucher.shopVoucherId);
+
 const CartScreen: React.FC = () => {
   const navigation = useNavigation();
-  const { authState, isAuthenticated } = useAuth();
-  const [cart, setCart] = useState<Cart | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const route = useRoute<RouteProp<ProductStackParamList, 'Cart'>>();
+  const { isAuthenticated } = useAuth();
+  // Giỏ hàng lưu trên máy, thay đổi được đồng bộ nền qua CartContext
+  const {
+    cart,
+    isLoaded,
+    isOnline,
+    pendingCount,
+    syncError,
+    syncNotice,
+    clearSyncNotice,
+    mergeReport,
+    clearMergeReport,
+    refreshCart,
+    updateQuantity,
+    removeItems,
+    savedItems,
+    saveForLater,
+    moveToCart,
+    removeSavedItem,
+    refreshSavedItems,
+  } = useCart();
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
   
   // Selection state: null = all selected (default), Set<string> = explicit selection
   const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
+  // Danh sách chọn sẵn từ route đã áp dụng xong (tránh ghi đè lựa chọn của người dùng)
+  const appliedSelectionRef = useRef<AddCartItemRequest[] | null>(null);
   
   // Product cache để lấy storeId/storeName
   const [productCache, setProductCache] = useState<Map<string, ProductDetail>>(new Map());
@@ -108,71 +140,31 @@ const CartScreen: React.FC = () => {
   const [selectedProductVouchers, setSelectedProductVouchers] = useState<
     Map<string, SelectedVoucher>
   >(new Map());
+
+  // Shop người dùng đã tự chọn voucher - không tự áp dụng gợi ý tốt nhất nữa
+  const [manualVoucherStoreIds, setManualVoucherStoreIds] = useState<Set<string>>(new Set());
   
   // Cache refs để tránh re-fetch
   const shopVouchersCacheByStoreIdRef = useRef<Map<string, ShopVoucherFromAPI[]>>(new Map());
   const productVouchersCacheByProductIdRef = useRef<Map<string, ShopVoucherFromAPI[]>>(new Map());
 
-  // Check authentication when screen is focused
-  useEffect(() => {
-    if (!isAuthenticated) {
-      const tabNavigator = navigation.getParent();
-      if (tabNavigator) {
-        // @ts-ignore - navigate to Profile tab
-        tabNavigator.navigate('Profile');
-      }
-    }
-  }, [isAuthenticated, navigation]);
-
   const loadCart = useCallback(
     async (isPullRefresh = false) => {
-      const customerId = authState.decodedToken?.customerId;
-      const accessToken = authState.accessToken;
-
-      if (!customerId || !accessToken) {
+      if (!isAuthenticated) {
         return;
       }
-
+      if (isPullRefresh) {
+        setIsRefreshing(true);
+      }
       try {
-        if (isPullRefresh) {
-          setIsRefreshing(true);
-        } else {
-          setIsLoading(true);
-        }
-        setErrorMessage(null);
-        const data = await getCustomerCart({ customerId, accessToken });
-        setCart(data);
-      } catch (error: any) {
-        console.error('[CartScreen] loadCart failed', error);
-        
-        // Error handling based on status code
-        let message = 'Không thể tải giỏ hàng. Vui lòng thử lại.';
-        
-        if (error?.response) {
-          const status = error.response.status;
-          if (status === 401) {
-            message = 'Phiên đăng nhập đã hết hạn. Vui lòng đăng nhập lại.';
-          } else if (status === 404) {
-            message = 'Giỏ hàng trống';
-          } else if (status === 403) {
-            message = 'Bạn không có quyền truy cập giỏ hàng này';
-          } else if (status === 500) {
-            message = 'Lỗi server. Vui lòng thử lại sau.';
-          }
-        } else if (error?.message?.includes('Network') || error?.code === 'NETWORK_ERROR') {
-          message = 'Không có kết nối mạng. Vui lòng kiểm tra internet và thử lại.';
-        }
-        
-        setErrorMessage(message);
+        await refreshCart();
       } finally {
         if (isPullRefresh) {
           setIsRefreshing(false);
-        } else {
-          setIsLoading(false);
         }
       }
     },
-    [authState.accessToken, authState.decodedToken?.customerId],
+    [isAuthenticated, refreshCart],
   );
 
   // Fetch product details để lấy storeId/storeName
@@ -496,116 +488,71 @@ const CartScreen: React.FC = () => {
   /**
    * Handle update quantity
    * Logic:
-   * - Clamp quantity (1-99)
-   * - Call API với simplified payload (không có vouchers)
-   * - Update cart state sau khi thành công
+   * - Cập nhật giỏ trên máy ngay (optimistic)
+   * - CartContext gom các lần bấm liên tiếp rồi mới gửi lên server
    */
   const handleUpdateQuantity = useCallback(
-    async (cartItemId: string, quantity: number) => {
-      const customerId = authState.decodedToken?.customerId;
-      const accessToken = authState.accessToken;
-      if (!customerId || !accessToken) return;
-      try {
-        setIsLoading(true);
-        setErrorMessage(null);
-        const updatedCart = await updateQuantityWithVouchers({
-          customerId,
-          accessToken,
-          payload: {
-            cartItemId,
-            quantity: Math.max(1, Math.min(quantity, 99)),
-            storeVouchers: null,
-            platformVouchers: null,
-            serviceTypeIds: null,
-          },
-        });
-
-        if (!updatedCart || !Array.isArray(updatedCart.items)) {
-          await loadCart(true);
-          return;
-        }
+    (cartItemId: string, quantity: number) => {
+      updateQuantity(cartItemId, quantity);
+    },
+    [updateQuantity],
+  );
 
-        setCart(updatedCart);
-      } catch (error: any) {
-        console.error('[CartScreen] update quantity failed', error);
-        const message =
-          error?.response?.status === 401
-            ? 'Phiên đăng nhập đã hết hạn. Vui lòng đăng nhập lại.'
-            : error?.response?.data?.message || 'Không thể cập nhật số lượng. Vui lòng thử lại.';
-        setErrorMessage(message);
-        await loadCart(true);
-      } finally {
-        setIsLoading(false);
+  /**
+   * Bỏ item khỏi selectedIds và product voucher selection
+   */
+  const clearItemSelection = useCallback(
+    (cartItemId: string) => {
+      if (selectedIds) {
+        const newSelected = new Set(selectedIds);
+        newSelected.delete(cartItemId);
+        setSelectedIds(newSelected.size > 0 ? newSelected : null);
       }
+      // Clean up product voucher selection
+      setSelectedProductVouchers((prev) => {
+        const next = new Map(prev);
+        next.delete(cartItemId);
+        return next;
+      });
     },
-    [authState.accessToken, authState.decodedToken?.customerId, loadCart],
+    [selectedIds],
   );
 
   /**
    * Handle remove item
    * Logic:
-   * - Call API để xóa item
-   * - Update cart state
+   * - Xóa khỏi giỏ trên máy, đồng bộ nền lên server
    * - Clean up selectedIds và product voucher selection
    */
   const handleRemoveItem = useCallback(
-    async (cartItemId: string) => {
-      const customerId = authState.decodedToken?.customerId;
-      const accessToken = authState.accessToken;
-      if (!customerId || !accessToken) return;
-      try {
-        setIsLoading(true);
-        setErrorMessage(null);
-        const updatedCart = await deleteCartItems({
-          customerId,
-          accessToken,
-          cartItemIds: [cartItemId],
-        });
-        setCart(updatedCart);
-        if (selectedIds) {
-          const newSelected = new Set(selectedIds);
-          newSelected.delete(cartItemId);
-          setSelectedIds(newSelected.size > 0 ? newSelected : null);
-        }
-        // Clean up product voucher selection
-        setSelectedProductVouchers((prev) => {
-          const next = new Map(prev);
-          next.delete(cartItemId);
-          return next;
-        });
-      } catch (error: any) {
-        console.error('[CartScreen] delete item failed', error);
-        const message =
-          error?.response?.status === 401
-            ? 'Phiên đăng nhập đã hết hạn. Vui lòng đăng nhập lại.'
-            : error?.response?.data?.message || 'Không thể xóa sản phẩm. Vui lòng thử lại.';
-        setErrorMessage(message);
-      } finally {
-        setIsLoading(false);
-      }
+    (cartItemId: string) => {
+      removeItems([cartItemId]);
+      clearItemSelection(cartItemId);
+    },
+    [removeItems, clearItemSelection],
+  );
+
+  /**
+   * Handle save for later
+   * - Chuyển item xuống danh sách "Lưu để mua sau" (giữ biến thể và giá lúc lưu)
+   * - Item không còn trong giỏ nên không tính vào tạm tính / voucher
+   */
+  const handleSaveForLater = useCallback(
+    (cartItemId: string) => {
+      saveForLater(cartItemId);
+      clearItemSelection(cartItemId);
     },
-    [authState.accessToken, authState.decodedToken?.customerId, selectedIds],
+    [saveForLater, clearItemSelection],
   );
 
+  // Đồng bộ khi mở giỏ hàng (không còn poll định kỳ)
   useFocusEffect(
     useCallback(() => {
-      if (isAuthenticated) {
-        loadCart();
-      }
-    }, [loadCart, isAuthenticated]),
+      loadCart();
+      refreshSavedItems();
+    }, [loadCart, refreshSavedItems]),
   );
 
-  // Poll cart every 30s when authenticated (tăng từ 10s lên 30s để giảm request)
-  useEffect(() => {
-    if (!isAuthenticated || isLoading) return;
-    const id = setInterval(() => {
-      if (!isLoading) {
-        loadCart(true);
-      }
-    }, 30000); // Tăng từ 10s lên 30s
-    return () => clearInterval(id);
-  }, [isAuthenticated, isLoading, loadCart]);
-
   /**
    * Sync selectedIds when cart items change
    * Logic:
@@ -644,6 +591,28 @@ const CartScreen: React.FC = () => {
     }
   }, [cart?.items, selectedIds]);
 
+  /**
+   * Chọn sẵn các sản phẩm truyền qua route (mua lại từ đơn cũ)
+   * Sản phẩm vừa thêm còn mang id tạm - chọn lại theo id server sau khi đồng bộ xong
+   */
+  const selectItems = route.params?.selectItems;
+  useEffect(() => {
+    if (!selectItems || selectItems.length === 0 || appliedSelectionRef.current === selectItems) {
+      return;
+    }
+    const matchedIds = selectItems
+      .map((item) => findMatchingCartItem(cart, item)?.cartItemId)
+      .filter((id): id is string => !!id);
+    if (matchedIds.length === 0) {
+      return;
+    }
+    setSelectedIds(new Set(matchedIds));
+    // Khách chưa đăng nhập không đồng bộ nên id tạm giữ nguyên
+    if (!isAuthenticated || !matchedIds.some(isLocalCartItemId)) {
+      appliedSelectionRef.current = selectItems;
+    }
+  }, [cart, selectItems, isAuthenticated]);
+
   /**
    * Computed: Selected items
    * Logic:
@@ -1077,45 +1046,89 @@ const CartScreen: React.FC = () => {
     cart,
   ]);
 
-  // Show login required message if not authenticated
-  if (!isAuthenticated) {
-    return (
-      <View style={styles.container}>
-        <View style={styles.header}>
-          <TouchableOpacity
-            style={styles.backButton}
-            onPress={() => navigation.goBack()}
-            activeOpacity={0.7}
-          >
-            <MaterialCommunityIcons name="arrow-left" size={22} color="#FFFFFF" />
-          </TouchableOpacity>
-          <Text style={styles.headerTitle}>Giỏ hàng</Text>
-          <View style={styles.placeholder} />
-        </View>
-        <View style={styles.emptyContainer}>
-          <MaterialCommunityIcons name="lock-outline" size={80} color="#CCCCCC" />
-          <Text style={styles.emptyTitle}>Yêu cầu đăng nhập</Text>
-          <Text style={styles.emptySubtitle}>
-            Vui lòng đăng nhập để xem giỏ hàng của bạn
-          </Text>
-          <TouchableOpacity
-            style={styles.shopButton}
-            onPress={() => {
-              const tabNavigator = navigation.getParent();
-              if (tabNavigator) {
-                // @ts-ignore - navigate to Profile tab
-                tabNavigator.navigate('Profile');
-              }
-            }}
-          >
-            <Text style={styles.shopButtonText}>Đăng nhập</Text>
-          </TouchableOpacity>
-        </View>
-      </View>
-    );
-  }
+  /**
+   * Gợi ý voucher tốt nhất theo từng shop cho các sản phẩm đang chọn
+   */
+  const voucherPlans = useMemo(() => {
+    const plans = new Map<string, StoreVoucherPlan>();
+    const selectedCartItemIds = new Set(selectedItems.map((item) => item.cartItemId));
+
+    storeGroups.forEach((group) => {
+      const items = group.items.filter((item) => selectedCartItemIds.has(item.cartItemId));
+      const itemVouchers: Record<string, VoucherCandidate[]> = {};
+      items.forEach((item) => {
+        const vouchers = productVouchers.get(item.cartItemId);
+        if (vouchers && vouchers.length > 0) {
+          itemVouchers[item.cartItemId] = vouchers.map((voucher) => toVoucherCandidate(voucher));
+        }
+      });
+      plans.set(
+        group.storeId,
+        optimizeStoreVouchers({
+          storeId: group.storeId,
+          items,
+          shopVouchers: (storeVouchers.get(group.storeId) || []).map((voucher) =>
+            toVoucherCandidate(voucher),
+          ),
+          productVouchers: itemVouchers,
+        }),
+      );
+    });
+    return plans;
+  }, [storeGroups, selectedItems, storeVouchers, productVouchers]);
+
+  /**
+   * Chọn sẵn voucher theo gợi ý cho các shop người dùng chưa tự chọn
+   * Chạy lại khi đổi sản phẩm được chọn / số lượng để luôn giữ tổ hợp tốt nhất
+   */
+  useEffect(() => {
+    const autoGroups = storeGroups.filter((group) => !manualVoucherStoreIds.has(group.storeId));
+    if (autoGroups.length === 0) return;
+
+    setSelectedShopVouchers((prev) => {
+      const next = new Map(prev);
+      autoGroups.forEach((group) => {
+        const shopVoucher = voucherPlans.get(group.storeId)?.shopVoucher;
+        if (shopVoucher) {
+          next.set(group.storeId, { shopVoucherId: shopVoucher.voucherId, code: shopVoucher.code });
+        } else {
+          next.delete(group.storeId);
+        }
+      });
+      return isSameVoucherSelection(prev, next) ? prev : next;
+    });
+
+    setSelectedProductVouchers((prev) => {
+      const next = new Map(prev);
+      autoGroups.forEach((group) => {
+        const plan = voucherPlans.get(group.storeId);
+        group.items.forEach((item) => {
+          const voucher = plan?.productVouchers[item.cartItemId];
+          if (voucher) {
+            next.set(item.cartItemId, { shopVoucherId: voucher.voucherId, code: voucher.code });
+          } else {
+            next.delete(item.cartItemId);
+          }
+        });
+      });
+      return isSameVoucherSelection(prev, next) ? prev : next;
+    });
+  }, [storeGroups, voucherPlans, manualVoucherStoreIds]);
+
+  const markVoucherStoreManual = useCallback((storeId: string) => {
+    setManualVoucherStoreIds((prev) => (prev.has(storeId) ? prev : new Set(prev).add(storeId)));
+  }, []);
+
+  // Bỏ lựa chọn tay, quay lại dùng gợi ý tốt nhất của shop
+  const handleUseBestVouchers = useCallback((storeId: string) => {
+    setManualVoucherStoreIds((prev) => {
+      const next = new Set(prev);
+      next.delete(storeId);
+      return next;
+    });
+  }, []);
 
-  if (isLoading && !cart) {
+  if (!isLoaded) {
     return (
       <View style={styles.loaderContainer}>
         <ActivityIndicator size="large" color={ORANGE} />
@@ -1124,11 +1137,11 @@ const CartScreen: React.FC = () => {
     );
   }
 
-  if (errorMessage && !cart) {
+  if (syncError && cart.items.length === 0 && pendingCount === 0) {
     return (
       <View style={styles.errorContainer}>
         <MaterialCommunityIcons name="alert-circle-outline" size={64} color="#B3261E" />
-        <Text style={styles.errorText}>{errorMessage}</Text>
+        <Text style={styles.errorText}>{syncError}</Text>
         <TouchableOpacity style={styles.retryButton} onPress={() => loadCart()}>
           <Text style={styles.retryText}>Thử lại</Text>
         </TouchableOpacity>
@@ -1150,6 +1163,9 @@ const CartScreen: React.FC = () => {
           <Text style={styles.headerTitle}>Giỏ hàng</Text>
           <View style={styles.placeholder} />
         </View>
+        {mergeReport && (
+          <GuestCartMergeReportCard report={mergeReport} onDismiss={clearMergeReport} />
+        )}
         <View style={styles.emptyContainer}>
           <MaterialCommunityIcons name="cart-outline" size={80} color="#CCCCCC" />
           <Text style={styles.emptyTitle}>Giỏ hàng trống</Text>
@@ -1166,6 +1182,15 @@ const CartScreen: React.FC = () => {
             <Text style={styles.shopButtonText}>Tiếp tục mua sắm</Text>
           </TouchableOpacity>
         </View>
+        {savedItems.length > 0 && (
+          <ScrollView style={styles.emptySavedList} contentContainerStyle={styles.savedSection}>
+            <SavedForLaterList
+              items={savedItems}
+              onMoveToCart={moveToCart}
+              onRemove={removeSavedItem}
+            />
+          </ScrollView>
+        )}
       </View>
     );
   }
@@ -1209,11 +1234,38 @@ const CartScreen: React.FC = () => {
         {(!cart || cart.items.length === 0) && <View style={styles.placeholder} />}
       </View>
 
+      {(!isOnline || pendingCount > 0) && (
+        <View style={styles.syncBanner}>
+          <MaterialCommunityIcons
+            name={isOnline ? 'cloud-sync-outline' : 'cloud-off-outline'}
+            size={18}
+            color="#8A5A00"
+          />
+          <Text style={styles.syncBannerText}>
+            {!isOnline
+              ? 'Bạn đang offline. Thay đổi được lưu trên máy và sẽ đồng bộ khi có mạng.'
+              : isAuthenticated
+              ? `Đang đồng bộ ${pendingCount} thay đổi...`
+              : 'Giỏ hàng được lưu trên máy và sẽ gộp vào tài khoản khi bạn đăng nhập.'}
+          </Text>
+        </View>
+      )}
+      {syncNotice && (
+        <TouchableOpacity style={styles.syncNotice} onPress={clearSyncNotice} activeOpacity={0.8}>
+          <MaterialCommunityIcons name="alert-circle-outline" size={18} color="#B3261E" />
+          <Text style={styles.syncNoticeText}>{syncNotice}</Text>
+          <MaterialCommunityIcons name="close" size={16} color="#999" />
+        </TouchableOpacity>
+      )}
+
       <ScrollView
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
         refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={() => loadCart(true)} />}
       >
+        {mergeReport && (
+          <GuestCartMergeReportCard report={mergeReport} onDismiss={clearMergeReport} />
+        )}
         <CartItemList
           items={cart.items}
           storeGroups={storeGroups}
@@ -1224,8 +1276,12 @@ const CartScreen: React.FC = () => {
           selectedIds={selectedIds}
           onCartChange={loadCart}
           onRemoveItem={handleRemoveItem}
+          onSaveForLater={handleSaveForLater}
           onQuantityChange={handleUpdateQuantity}
           onToggleItem={handleToggleItem}
+          voucherPlans={voucherPlans}
+          manualVoucherStoreIds={manualVoucherStoreIds}
+          onUseBestVouchers={handleUseBestVouchers}
           onSelectShopVoucher={(storeId, shopVoucherId, code) => {
             // Kiểm tra voucher eligibility trước khi chọn
             if (shopVoucherId) {
@@ -1255,6 +1311,7 @@ const CartScreen: React.FC = () => {
               }
             }
             
+            markVoucherStoreManual(storeId);
             setSelectedShopVouchers((prev) => {
               const next = new Map(prev);
               if (shopVoucherId) {
@@ -1266,6 +1323,12 @@ const CartScreen: React.FC = () => {
             });
           }}
           onSelectProductVoucher={(cartItemId, shopVoucherId, code) => {
+            const group = storeGroups.find((storeGroup) =>
+              storeGroup.items.some((item) => item.cartItemId === cartItemId),
+            );
+            if (group) {
+              markVoucherStoreManual(group.storeId);
+            }
             setSelectedProductVouchers((prev) => {
               const next = new Map(prev);
               if (shopVoucherId) {
@@ -1277,6 +1340,14 @@ const CartScreen: React.FC = () => {
             });
           }}
         />
+
+        <View style={styles.savedSection}>
+          <SavedForLaterList
+            items={savedItems}
+            onMoveToCart={moveToCart}
+            onRemove={removeSavedItem}
+          />
+        </View>
       </ScrollView>
 
       {/* Bottom Summary Bar */}
@@ -1350,6 +1421,32 @@ const CartScreen: React.FC = () => {
               return;
             }
 
+            if (!isAuthenticated) {
+              Alert.alert('Yêu cầu đăng nhập', 'Vui lòng đăng nhập để thanh toán giỏ hàng.', [
+                { text: 'Hủy', style: 'cancel' },
+                {
+                  text: 'Đăng nhập',
+                  onPress: () => {
+                    // @ts-ignore - navigate to Profile tab
+                    navigation.getParent()?.navigate('Profile');
+                  },
+                },
+              ]);
+              return;
+            }
+
+            // Thanh toán dùng giỏ server - cần đồng bộ hết thay đổi trên máy trước
+            if (pendingCount > 0) {
+              Alert.alert(
+                'Giỏ hàng chưa đồng bộ',
+                isOnline
+                  ? 'Đang cập nhật giỏ hàng, vui lòng thử lại sau giây lát.'
+                  : 'Bạn đang offline. Vui lòng kết nối mạng để thanh toán.',
+              );
+              loadCart();
+              return;
+            }
+
             // 2. Build storeVouchers payload: Map<storeId, { shopVoucherId, code }>
             const storeVouchersPayload: Record<string, SelectedVoucher> = {};
             selectedShopVouchers.forEach((voucherInfo, storeId) => {
@@ -1365,20 +1462,32 @@ const CartScreen: React.FC = () => {
               }
             });
 
-            // 4. Build payload
+            // 4. Giữ mã voucher đã nhập tay ở lần thanh toán trước
+            let manualVoucherCodes: AppliedVoucherCode[] = [];
+            try {
+              const previousRaw = await AsyncStorage.getItem(CHECKOUT_SESSION_KEY);
+              manualVoucherCodes = previousRaw
+                ? JSON.parse(previousRaw).manualVoucherCodes ?? []
+                : [];
+            } catch (err) {
+              console.warn('[CartScreen] Failed to read previous checkout session:', err);
+            }
+
+            // 5. Build payload
             const payload = {
               selectedCartItemIds,
               storeVouchers: storeVouchersPayload,
               productVouchers: productVouchersPayload,
+              manualVoucherCodes,
               selectedAddressId: null,
               createdAt: Date.now(),
             };
 
-            // 5. Save to AsyncStorage
+            // 6. Save to AsyncStorage
             try {
               await AsyncStorage.setItem(CHECKOUT_SESSION_KEY, JSON.stringify(payload));
               
-              // 6. Navigate to Checkout
+              // 7. Navigate to Checkout
               // @ts-ignore
               navigation.navigate('Checkout', {
                 cart,
@@ -1494,6 +1603,32 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: '700',
   },
+  syncBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#FFF4D6',
+  },
+  syncBannerText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#8A5A00',
+  },
+  syncNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#FDECEA',
+  },
+  syncNoticeText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#B3261E',
+  },
   emptyContainer: {
     flex: 1,
     alignItems: 'center',
@@ -1529,6 +1664,13 @@ const styles = StyleSheet.create({
   scrollContent: {
     paddingBottom: 200,
   },
+  savedSection: {
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+  },
+  emptySavedList: {
+    maxHeight: '50%',
+  },
   summaryBar: {
     backgroundColor: '#FFFFFF',
     padding: 16,
@@ -15,7 +15,6 @@ import {
     View,
 } from 'react-native';
 import { Avatar, Button, Modal, Portal, Snackbar } from 'react-native-paper';
-import { useAuth } from '../../../context/AuthContext';
 import { useChat } from '../../../context/ChatContext';
 import { uploadImage, uploadVideo } from '../../../services/uploadService';
 import { MediaItem } from '../../../types/chat';
@@ -25,12 +24,12 @@ const { width } = Dimensions.get('window');
 const ORANGE = '#FF6A00';
 
 const ChatScreen: React.FC = () => {
-  const { authState } = useAuth();
   const {
     isOpen,
     storeId,
     storeName,
     messages,
+    connectionStatus,
     isLoading,
     isSending,
     inputMessage,
@@ -147,22 +146,16 @@ const ChatScreen: React.FC = () => {
           try {
             if (file.type === 'video') {
               const result = await uploadVideo({
-                accessToken: authState.accessToken!,
-                file: {
-                  uri: file.uri,
-                  type: 'video/mp4',
-                  name: file.name,
-                },
+                uri: file.uri,
+                type: 'video/mp4',
+                name: file.name,
               });
               mediaUrls.push({ url: result.url, type: 'video' });
             } else {
               const result = await uploadImage({
-                accessToken: authState.accessToken!,
-                file: {
-                  uri: file.uri,
-                  type: 'image/jpeg',
-                  name: file.name,
-                },
+                uri: file.uri,
+                type: 'image/jpeg',
+                name: file.name,
               });
               mediaUrls.push({ url: result.url, type: 'image' });
             }
@@ -189,7 +182,7 @@ const ChatScreen: React.FC = () => {
     } finally {
       setIsUploading(false);
     }
-  }, [inputMessage, selectedFiles, authState, sendMessage, setInputMessage]);
+  }, [inputMessage, selectedFiles, sendMessage, setInputMessage]);
 
   // Render message bubble
   const renderMessage = useCallback((message: any, index: number) => {
@@ -277,7 +270,14 @@ const ChatScreen: React.FC = () => {
                 style={styles.storeAvatar}
                 labelStyle={styles.storeAvatarLabel}
               />
-              <Text style={styles.storeName}>{storeName || 'Cửa hàng'}</Text>
+              <View style={styles.storeNameContainer}>
+                <Text style={styles.storeName}>{storeName || 'Cửa hàng'}</Text>
+                {(connectionStatus === 'connecting' || connectionStatus === 'reconnecting') && (
+                  <Text style={styles.connectionStatusText}>
+                    {connectionStatus === 'connecting' ? 'Đang kết nối...' : 'Mất kết nối, đang thử lại...'}
+                  </Text>
+                )}
+              </View>
             </View>
             <View style={styles.headerRight} />
           </View>
@@ -430,12 +430,19 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: '600',
   },
-  storeName: {
+  storeNameContainer: {
     marginLeft: 12,
+  },
+  storeName: {
     fontSize: 16,
     fontWeight: '600',
     color: '#272727',
   },
+  connectionStatusText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
   headerRight: {
     width: 32,
   },
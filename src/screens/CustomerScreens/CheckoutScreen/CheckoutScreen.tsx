@@ -10,16 +10,20 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
-import { Button, RadioButton, Snackbar } from 'react-native-paper';
+import { Button, RadioButton, Snackbar, Switch } from 'react-native-paper';
+import { ApiError } from '../../../api/authenticatedClient';
+import { VoucherCodeInput } from '../../../components/CustomerScreenComponents/VoucherComponents';
 import { useAuth } from '../../../context/AuthContext';
+import { useCart } from '../../../context/CartContext';
 import { CustomerStackParamList } from '../../../navigation/CustomerStackNavigator';
 import {
   checkoutCod,
+  checkoutPayOS,
   checkoutPreview,
-  deleteCartItems,
-  getCustomerCart,
+  validateVoucherCode,
 } from '../../../services/cartService';
-import { getCustomerAddresses } from '../../../services/customerService';
+import { getCustomerAddresses, getCustomerById } from '../../../services/customerService';
+import { getLoyaltyRedemptionRule } from '../../../services/loyaltyService';
 import { getProductById, getProductVouchers } from '../../../services/productService';
 import {
   buildGHNItems,
@@ -30,13 +34,16 @@ import {
 } from '../../../services/shippingService';
 import { getStoreDefaultAddressByProduct } from '../../../services/storeService';
 import { getShopVouchersByStore } from '../../../services/voucherService';
-import { Cart } from '../../../types/cart';
 import {
+  AppliedVoucherCode,
   CheckoutItemPayload,
   CheckoutPreviewRequest,
   CheckoutPreviewResponse,
+  PaymentMethod,
+  VoucherCodeScope,
 } from '../../../types/checkout';
 import { CustomerAddress } from '../../../types/customer';
+import { LoyaltyRedemptionRule } from '../../../types/loyalty';
 import { PlatformCampaign, PlatformVoucherItem } from '../../../types/product';
 import {
   AppliedStoreVoucher,
@@ -44,6 +51,14 @@ import {
   PlatformVoucherDiscount,
   ShopVoucher,
 } from '../../../types/voucher';
+import {
+  getPayOSCancelUrl,
+  getPayOSReturnUrl,
+  openPayOSCheckout,
+  savePaymentSession,
+} from '../../../utils/paymentSession';
+import { calculateLoyaltyRedemption, describeLoyaltyRule } from '../../../utils/loyaltyPoints';
+import { normalizeVoucherCode } from '../../../utils/voucherCode';
 
 const AsyncStorage: any =
   // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -72,11 +87,11 @@ const throttledLog = (key: string, logFn: () => void) => {
 const CheckoutScreen: React.FC = () => {
   const navigation = useNavigation();
   const route = useRoute<RouteProp<CustomerStackParamList, 'Checkout'>>();
-  const { authState, isAuthenticated } = useAuth();
-  const [cart, setCart] = useState<Cart | null>(null);
+  const { authState, isAuthenticated, updateCustomerProfile } = useAuth();
+  const { cart, refreshCart, removeItems } = useCart();
   const [addresses, setAddresses] = useState<CustomerAddress[]>([]);
   const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
-  // Chỉ sử dụng COD, không cần state cho payment method nữa
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('COD');
   const [isLoading, setIsLoading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -104,6 +119,11 @@ const CheckoutScreen: React.FC = () => {
   const [selectedProductVouchers, setSelectedProductVouchers] = useState<
     Map<string, { shopVoucherId: string; code: string }>
   >(new Map());
+  // Mã voucher khách tự nhập (đã kiểm tra qua preview), lưu cùng checkout session
+  const [manualVoucherCodes, setManualVoucherCodes] = useState<AppliedVoucherCode[]>([]);
+  // Dùng điểm thưởng trừ vào tổng thanh toán (quy tắc quy đổi lấy từ backend)
+  const [loyaltyRule, setLoyaltyRule] = useState<LoyaltyRedemptionRule | null>(null);
+  const [useLoyaltyPoints, setUseLoyaltyPoints] = useState(false);
 
   // Voucher states (legacy - giữ lại để tương thích)
   const [availableVouchers, setAvailableVouchers] = useState<ShopVoucher[]>([]);
@@ -231,17 +251,11 @@ const CheckoutScreen: React.FC = () => {
       log.log('[CheckoutScreen] loadData: Starting...', { customerId });
       setIsLoading(true);
       setErrorMessage(null);
-      const [cartData, addressData] = await Promise.all([
-        getCustomerCart({ customerId, accessToken }),
-        getCustomerAddresses({ customerId, accessToken }),
-      ]);
+      // Giỏ lấy từ CartContext để badge và màn giỏ hàng cùng cập nhật
+      const [, addressData] = await Promise.all([refreshCart(), getCustomerAddresses()]);
       log.log('[CheckoutScreen] loadData: Success', {
-        cartItemsCount: cartData.items.length,
         addressesCount: addressData.length,
-        cartSubtotal: cartData.subtotal,
-        cartGrandTotal: cartData.grandTotal,
       });
-      setCart(cartData);
       setAddresses(addressData);
       if (!selectedAddressId && addressData.length > 0) {
         const defaultAddress = addressData.find((a) => a.default) ?? addressData[0];
@@ -265,7 +279,7 @@ const CheckoutScreen: React.FC = () => {
       setIsLoading(false);
       log.log('[CheckoutScreen] loadData: Completed');
     }
-  }, [authState.accessToken, authState.decodedToken?.customerId, selectedAddressId]);
+  }, [authState.accessToken, authState.decodedToken?.customerId, selectedAddressId, refreshCart]);
 
   // Load vouchers for products (only once when cart is loaded)
   // Load platform vouchers để build platformVouchers payload
@@ -876,7 +890,7 @@ const CheckoutScreen: React.FC = () => {
             // });
 
             // f. Gọi GHN API
-            const fee = await calculateGHNFee(ghnRequest, accessToken);
+            const fee = await calculateGHNFee(ghnRequest);
             
             // log.log(`[CheckoutScreen] calculateShippingFee: Store ${storeId} - GHN API response`, {
             //   fee,
@@ -1020,6 +1034,19 @@ const CheckoutScreen: React.FC = () => {
             setSelectedProductVouchers(productVouchersMap);
           }
           
+          // Load mã voucher nhập tay
+          if (Array.isArray(payload.manualVoucherCodes)) {
+            setManualVoucherCodes(
+              payload.manualVoucherCodes.filter(
+                (voucherCode: AppliedVoucherCode) =>
+                  voucherCode &&
+                  typeof voucherCode.code === 'string' &&
+                  voucherCode.scope === 'STORE' &&
+                  !!voucherCode.storeId,
+              ),
+            );
+          }
+          
           // Load selectedAddressId
           if (payload.selectedAddressId) {
             setSelectedAddressId(payload.selectedAddressId);
@@ -1038,8 +1065,6 @@ const CheckoutScreen: React.FC = () => {
   useEffect(() => {
     const params = route.params;
     if (params?.cart) {
-      setCart(params.cart);
-      
       // Restore selectedCartItemIds từ params (nếu có)
       if (params.selectedCartItemIds && Array.isArray(params.selectedCartItemIds)) {
         setSelectedCartItemIds(params.selectedCartItemIds);
@@ -1118,7 +1143,7 @@ const CheckoutScreen: React.FC = () => {
         const customerId = authState.decodedToken?.customerId;
         const accessToken = authState.accessToken;
         if (customerId && accessToken) {
-          getCustomerAddresses({ customerId, accessToken })
+          getCustomerAddresses()
             .then((addressData) => {
               setAddresses(addressData);
               if (!selectedAddressId && addressData.length > 0) {
@@ -1502,8 +1527,9 @@ const CheckoutScreen: React.FC = () => {
         0,
       );
       
-      // Sử dụng overallGrandTotal từ preview API làm total (chính xác nhất)
+      // Sử dụng overallGrandTotal từ preview API làm total (chính xác nhất, đã trừ điểm thưởng)
       const calculatedTotal = previewData.overallGrandTotal;
+      const loyaltyDiscount = previewData.overallLoyaltyDiscount ?? 0;
       
       return {
         subtotalBeforePlatformDiscount: previewData.overallSubtotal,
@@ -1517,6 +1543,9 @@ const CheckoutScreen: React.FC = () => {
         storeDiscountFromPreview: previewStoreDiscount,
         voucherDiscount: previewData.overallDiscount, // Tổng discount từ API (platform + store)
         shippingFee: previewData.overallShipping,
+        loyaltyDiscount,
+        redeemedPoints: previewData.redeemedPoints ?? 0,
+        totalBeforeLoyalty: calculatedTotal + loyaltyDiscount,
         total: calculatedTotal,
       };
     }
@@ -1534,6 +1563,9 @@ const CheckoutScreen: React.FC = () => {
         storeDiscountFromPreview: 0,
         voucherDiscount: 0,
         shippingFee: 0,
+        loyaltyDiscount: 0,
+        redeemedPoints: 0,
+        totalBeforeLoyalty: 0,
         total: 0,
       };
     }
@@ -1661,6 +1693,10 @@ const CheckoutScreen: React.FC = () => {
       storeDiscountFromPreview: 0, // Không có preview data, không có giá trị từ backend
       voucherDiscount,
       shippingFee,
+      // Chưa có preview thì chưa trừ điểm - backend xác nhận số điểm qua preview
+      loyaltyDiscount: 0,
+      redeemedPoints: 0,
+      totalBeforeLoyalty: total,
       total,
     };
   }, [
@@ -1716,6 +1752,57 @@ const CheckoutScreen: React.FC = () => {
   //   });
   // }, [pricing, previewData, appliedStoreVouchers, appliedStoreWideVouchers]);
 
+  // Mã voucher nhập tay theo shop (chỉ giữ shop còn sản phẩm trong đơn)
+  const manualVoucherPayload = useMemo(() => {
+    const storeCodes: Record<string, string[]> = {};
+    manualVoucherCodes.forEach((voucherCode) => {
+      const storeId = voucherCode.storeId;
+      if (!storeId || !cartItems.some((item) => productCache[item.refId]?.storeId === storeId)) {
+        return;
+      }
+      storeCodes[storeId] = [...(storeCodes[storeId] || []), voucherCode.code];
+    });
+    return { storeCodes };
+  }, [manualVoucherCodes, cartItems, productCache]);
+  const manualVoucherPayloadKey = JSON.stringify(manualVoucherPayload);
+
+  // Số điểm dùng cho đơn tính trên tổng trước khi trừ điểm, nên không đổi khi preview trả về
+  const loyaltyBalance = authState.customerProfile?.loyaltyPoints ?? 0;
+  const loyaltyRedemption = useMemo(
+    () => calculateLoyaltyRedemption(loyaltyRule, loyaltyBalance, pricing.totalBeforeLoyalty),
+    [loyaltyRule, loyaltyBalance, pricing.totalBeforeLoyalty],
+  );
+  const redeemPoints = useLoyaltyPoints ? loyaltyRedemption.points : 0;
+
+  // Tải quy tắc dùng điểm thưởng (lỗi thì ẩn lựa chọn dùng điểm)
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+    let cancelled = false;
+    getLoyaltyRedemptionRule()
+      .then((rule) => {
+        if (!cancelled) {
+          setLoyaltyRule(rule);
+        }
+      })
+      .catch((error) => {
+        console.warn('[CheckoutScreen] getLoyaltyRedemptionRule failed', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated]);
+
+  // Số dư điểm đổi sau khi đặt đơn có dùng điểm - tải lại hồ sơ khách hàng
+  const refreshLoyaltyBalance = useCallback(async () => {
+    try {
+      updateCustomerProfile(await getCustomerById());
+    } catch (error) {
+      console.warn('[CheckoutScreen] refreshLoyaltyBalance failed', error);
+    }
+  }, [updateCustomerProfile]);
+
   // Build preview payload for checkout preview API
   const buildPreviewPayload = useCallback((): CheckoutPreviewRequest | null => {
     if (!cart || cartItems.length === 0) {
@@ -1806,6 +1893,11 @@ const CheckoutScreen: React.FC = () => {
       });
     }
 
+    // 4. Mã voucher shop khách tự nhập
+    Object.entries(manualVoucherPayload.storeCodes).forEach(([storeId, codes]) => {
+      storeVouchersMap[storeId] = Array.from(new Set([...(storeVouchersMap[storeId] || []), ...codes]));
+    });
+
     const storeVouchers = Object.entries(storeVouchersMap)
       .filter(([_, codes]) => codes.length > 0)
       .map(([storeId, codes]) => ({
@@ -1875,6 +1967,7 @@ const CheckoutScreen: React.FC = () => {
       message,
       storeVouchers: storeVouchers.length > 0 ? storeVouchers : null,
       platformVouchers: platformVouchers.length > 0 ? platformVouchers : null,
+      redeemPoints: redeemPoints > 0 ? redeemPoints : null,
       serviceTypeIds: Object.keys(serviceTypeIds).length > 0 ? serviceTypeIds : null,
     };
   }, [
@@ -1890,6 +1983,8 @@ const CheckoutScreen: React.FC = () => {
     JSON.stringify(Object.keys(platformVoucherDiscounts).sort()),
     JSON.stringify(Object.keys(productCache).sort()),
     productCache, // Cần productCache để convert cartItemId -> storeId
+    manualVoucherPayload,
+    redeemPoints,
   ]);
 
   // Load checkout preview data - chỉ gọi khi thực sự cần thiết
@@ -1927,10 +2022,8 @@ const CheckoutScreen: React.FC = () => {
     // Throttle: chỉ gọi nếu đã qua 3 giây kể từ lần gọi trước
     const now = Date.now();
     const timeSinceLastCall = now - lastPreviewCallRef.current;
-    if (timeSinceLastCall < PREVIEW_THROTTLE_MS) {
-      // Chưa đủ thời gian, bỏ qua
-      return;
-    }
+    // Chưa đủ thời gian thì lùi lại thay vì bỏ qua, để thay đổi (vd. số điểm dùng) không bị mất
+    const debounceMs = Math.max(2000, PREVIEW_THROTTLE_MS - timeSinceLastCall);
 
     const timeoutId = setTimeout(async () => {
       try {
@@ -1947,7 +2040,7 @@ const CheckoutScreen: React.FC = () => {
         // Update last call time
         lastPreviewCallRef.current = Date.now();
 
-        const preview = await checkoutPreview({ customerId, accessToken, payload });
+        const preview = await checkoutPreview(payload);
         
         setPreviewData(preview);
 
@@ -1972,7 +2065,7 @@ const CheckoutScreen: React.FC = () => {
       } finally {
         setIsLoadingPreview(false);
       }
-    }, 2000); // Debounce 2 seconds
+    }, debounceMs); // Debounce 2 seconds (lâu hơn nếu chưa hết throttle)
 
     return () => clearTimeout(timeoutId);
   }, [
@@ -1984,6 +2077,8 @@ const CheckoutScreen: React.FC = () => {
     JSON.stringify(Array.from(selectedShopVouchers.keys()).sort()),
     JSON.stringify(Array.from(selectedProductVouchers.keys()).sort()),
     JSON.stringify(Object.keys(productCache).sort()),
+    manualVoucherPayloadKey,
+    redeemPoints,
     // Không thêm productCache vào dependencies vì đã serialize keys
     // Không thêm buildPreviewPayload vào dependencies để tránh infinite loop
     authState.decodedToken?.customerId,
@@ -2089,6 +2184,11 @@ const CheckoutScreen: React.FC = () => {
         }
       });
     }
+
+    // 4. Mã voucher shop khách tự nhập
+    Object.entries(manualVoucherPayload.storeCodes).forEach(([storeId, codes]) => {
+      storeVouchersMap[storeId] = Array.from(new Set([...(storeVouchersMap[storeId] || []), ...codes]));
+    });
     
     const storeVouchers = Object.entries(storeVouchersMap)
       .filter(([_, codes]) => codes.length > 0)
@@ -2292,6 +2392,7 @@ const CheckoutScreen: React.FC = () => {
       message,
       storeVouchers: storeVouchers.length > 0 ? storeVouchers : undefined,
       platformVouchers: platformVouchers.length > 0 ? platformVouchers : undefined,
+      redeemPoints: redeemPoints > 0 ? redeemPoints : undefined,
       serviceTypeIds: Object.keys(serviceTypeIds).length > 0 ? serviceTypeIds : undefined,
     };
 
@@ -2323,11 +2424,97 @@ const CheckoutScreen: React.FC = () => {
     appliedStoreWideVouchers,
     productCache,
     platformVoucherDiscounts,
+    manualVoucherPayload,
+    redeemPoints,
     addresses,
     authState.decodedToken?.customerId,
     authState.accessToken,
   ]);
 
+  // Lưu mã voucher nhập tay vào checkout session (giữ nguyên các field khác)
+  const saveManualVoucherCodes = useCallback(async (codes: AppliedVoucherCode[]) => {
+    try {
+      const raw = await AsyncStorage.getItem(CHECKOUT_SESSION_KEY);
+      const payload = raw ? JSON.parse(raw) : {};
+      await AsyncStorage.setItem(
+        CHECKOUT_SESSION_KEY,
+        JSON.stringify({ ...payload, manualVoucherCodes: codes }),
+      );
+    } catch (error) {
+      console.error('[CheckoutScreen] Failed to save manual voucher codes', error);
+    }
+  }, []);
+
+  /**
+   * Kiểm tra mã voucher nhập tay qua checkout preview
+   * Trả về lý do lỗi để hiển thị dưới ô nhập, null nếu đã áp dụng
+   */
+  const handleApplyVoucherCode = useCallback(
+    async (scope: VoucherCodeScope, storeId: string | null, rawCode: string) => {
+      const code = normalizeVoucherCode(rawCode);
+      const selectedCodes = [
+        ...Array.from(selectedShopVouchers.values()),
+        ...Array.from(selectedProductVouchers.values()),
+      ].map((voucher) => normalizeVoucherCode(voucher.code));
+      if (
+        selectedCodes.includes(code) ||
+        manualVoucherCodes.some((voucherCode) => voucherCode.code === code)
+      ) {
+        return 'Mã này đã được áp dụng cho đơn hàng';
+      }
+
+      const payload = buildPreviewPayload();
+      if (!payload) {
+        return 'Không có sản phẩm nào để áp dụng mã';
+      }
+
+      try {
+        const result = await validateVoucherCode(payload, { code, scope, storeId }, previewData);
+        if (!result.valid) {
+          return result.message;
+        }
+        const nextCodes = [...manualVoucherCodes, result.voucherCode];
+        setManualVoucherCodes(nextCodes);
+        void saveManualVoucherCodes(nextCodes);
+        setPreviewData(result.preview);
+        setSnackbarMessage(`Đã áp dụng mã ${code}`);
+        setSnackbarVisible(true);
+        return null;
+      } catch (error) {
+        return ApiError.from(error, 'Không thể kiểm tra mã voucher. Vui lòng thử lại.').message;
+      }
+    },
+    [
+      selectedShopVouchers,
+      selectedProductVouchers,
+      manualVoucherCodes,
+      buildPreviewPayload,
+      previewData,
+      saveManualVoucherCodes,
+    ],
+  );
+
+  const handleRemoveVoucherCode = useCallback(
+    (code: string) => {
+      const nextCodes = manualVoucherCodes.filter((voucherCode) => voucherCode.code !== code);
+      setManualVoucherCodes(nextCodes);
+      void saveManualVoucherCodes(nextCodes);
+    },
+    [manualVoucherCodes, saveManualVoucherCodes],
+  );
+
+  // Các shop trong đơn (để hiển thị ô nhập mã theo shop)
+  const checkoutStores = useMemo(() => {
+    const stores = new Map<string, string>();
+    cartItems.forEach((item) => {
+      const cache = productCache[item.refId];
+      if (cache?.storeId && !stores.has(cache.storeId)) {
+        stores.set(cache.storeId, storeNames[cache.storeId] || cache.storeName || 'Cửa hàng');
+      }
+    });
+    return Array.from(stores.entries()).map(([storeId, storeName]) => ({ storeId, storeName }));
+  }, [cartItems, productCache, storeNames]);
+
   // Handle checkout with validation
   const handleCheckout = useCallback(async () => {
     const customerId = authState.decodedToken?.customerId;
@@ -2359,7 +2546,6 @@ const CheckoutScreen: React.FC = () => {
       return;
     }
 
-    // Chỉ sử dụng COD, không cần validation payment method
 
     if (shippingFeeError) {
       // log.log('[CheckoutScreen] handleCheckout: Validation failed - Shipping fee error');
@@ -2382,8 +2568,52 @@ const CheckoutScreen: React.FC = () => {
     try {
       setIsSubmitting(true);
       
-      // Chỉ sử dụng COD
-      const result = await checkoutCod({ customerId, accessToken, payload });
+      if (paymentMethod === 'PAYOS') {
+        const payosResult = await checkoutPayOS({
+          ...payload,
+          returnUrl: getPayOSReturnUrl(),
+          cancelUrl: getPayOSCancelUrl(),
+        });
+
+        if (!payosResult?.checkoutUrl) {
+          setSnackbarMessage('Không nhận được liên kết thanh toán PayOS. Vui lòng thử lại.');
+          setSnackbarVisible(true);
+          return;
+        }
+
+        // Đơn đã được tạo (UNPAID) - xóa checkout session, lưu payment session để đối soát
+        try {
+          await AsyncStorage.removeItem(CHECKOUT_SESSION_KEY);
+        } catch (storageError) {
+          log.error('[CheckoutScreen] handleCheckout: Failed to clear storage', storageError);
+        }
+        if (payload.redeemPoints) {
+          refreshLoyaltyBalance();
+        }
+        await savePaymentSession({
+          orderId: payosResult.orderId,
+          orderCode: payosResult.orderCode,
+          checkoutUrl: payosResult.checkoutUrl,
+        });
+
+        const browserResult = await openPayOSCheckout(payosResult.checkoutUrl);
+        // Sản phẩm đã đặt được backend xóa khỏi giỏ - đồng bộ lại giỏ và badge
+        refreshCart();
+
+        // PaymentStatus screen poll đơn hàng cho đến khi rời UNPAID
+        // @ts-ignore - nested navigation
+        navigation.navigate('Profile', {
+          screen: 'PaymentStatus',
+          params: {
+            orderId: payosResult.orderId,
+            orderCode: payosResult.orderCode,
+            result: browserResult === 'cancel' ? 'cancel' : 'success',
+          },
+        });
+        return;
+      }
+
+      const result = await checkoutCod(payload);
       
       // Response là array của orders
       if (result && Array.isArray(result) && result.length > 0) {
@@ -2396,12 +2626,17 @@ const CheckoutScreen: React.FC = () => {
         } catch (storageError) {
           log.error('[CheckoutScreen] handleCheckout: Failed to clear storage', storageError);
         }
+        if (payload.redeemPoints) {
+          refreshLoyaltyBalance();
+        }
 
         setSnackbarMessage(`Đặt hàng thành công! Mã đơn: ${firstOrder.orderCode}`);
         setSnackbarVisible(true);
 
         // Navigate to Profile (orders screen)
         setTimeout(() => {
+          // Sản phẩm đã đặt được backend xóa khỏi giỏ - đồng bộ lại giỏ và badge
+          refreshCart();
           // @ts-ignore
           navigation.navigate('Profile');
         }, 2000);
@@ -2466,37 +2701,21 @@ const CheckoutScreen: React.FC = () => {
     authState.decodedToken?.customerId,
     authState.accessToken,
     navigation,
+    paymentMethod,
     cartItems.length,
     selectedAddressId,
     shippingFeeError,
+    refreshLoyaltyBalance,
+    refreshCart,
   ]);
 
   // Handle remove item
+  // Xóa qua CartContext (hàng đợi offline) - lỗi đồng bộ hiển thị ở màn giỏ hàng
   const handleRemoveItem = useCallback(
-    async (cartItemId: string) => {
-      const customerId = authState.decodedToken?.customerId;
-      const accessToken = authState.accessToken;
-      if (!customerId || !accessToken) {
-        // log.log('[CheckoutScreen] handleRemoveItem: Skipped - No customerId or accessToken');
-        return;
-      }
-      // log.log('[CheckoutScreen] handleRemoveItem: Removing item', { cartItemId });
-      try {
-        await deleteCartItems({ customerId, accessToken, cartItemIds: [cartItemId] });
-        // log.log('[CheckoutScreen] handleRemoveItem: Item removed successfully', { cartItemId });
-        await loadData();
-      } catch (error: any) {
-        // log.error('[CheckoutScreen] handleRemoveItem: Failed', {
-        //   cartItemId,
-        //   status: error?.response?.status,
-        //   message: error?.response?.data?.message || error?.message,
-        //   error,
-        // });
-        setSnackbarMessage('Không thể xóa sản phẩm. Vui lòng thử lại.');
-        setSnackbarVisible(true);
-      }
+    (cartItemId: string) => {
+      removeItems([cartItemId]);
     },
-    [authState.decodedToken?.customerId, authState.accessToken, loadData],
+    [removeItems],
   );
 
   const renderAddressSection = () => {
@@ -2643,13 +2862,97 @@ const CheckoutScreen: React.FC = () => {
     </View>
   );
 
+  const renderVoucherCodeSection = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Mã giảm giá</Text>
+      {checkoutStores.map((store) => (
+        <VoucherCodeInput
+          key={store.storeId}
+          label={`Mã của ${store.storeName}`}
+          appliedCodes={manualVoucherCodes.filter((voucherCode) => voucherCode.storeId === store.storeId)}
+          onApply={(code) => handleApplyVoucherCode('STORE', store.storeId, code)}
+          onRemove={handleRemoveVoucherCode}
+          disabled={isSubmitting}
+        />
+      ))}
+    </View>
+  );
+
+  const renderLoyaltySection = () => {
+    if (!loyaltyRule?.enabled) {
+      return null;
+    }
+    const { points, discount, unavailableReason } = loyaltyRedemption;
+    return (
+      <View style={styles.section}>
+        <View style={styles.loyaltyRow}>
+          <MaterialCommunityIcons name="star-circle-outline" size={24} color={ORANGE} />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.paymentLabel}>
+              {unavailableReason
+                ? `Điểm thưởng (${loyaltyBalance} điểm)`
+                : `Dùng ${points} điểm, giảm ${formatCurrencyVND(discount)}`}
+            </Text>
+            <Text style={styles.paymentDescription}>
+              {unavailableReason ??
+                `Bạn có ${loyaltyBalance} điểm · ${describeLoyaltyRule(loyaltyRule)}`}
+            </Text>
+          </View>
+          <Switch
+            value={useLoyaltyPoints && !unavailableReason}
+            onValueChange={setUseLoyaltyPoints}
+            color={ORANGE}
+            disabled={!!unavailableReason || isSubmitting}
+          />
+        </View>
+      </View>
+    );
+  };
+
+  const paymentOptions: {
+    value: PaymentMethod;
+    label: string;
+    description: string;
+    icon: string;
+  }[] = [
+    {
+      value: 'COD',
+      label: 'Thanh toán khi nhận hàng (COD)',
+      description: 'Trả tiền mặt khi nhận hàng',
+      icon: 'cash-multiple',
+    },
+    {
+      value: 'PAYOS',
+      label: 'Thanh toán online (PayOS)',
+      description: 'Chuyển khoản ngân hàng / quét mã QR',
+      icon: 'qrcode-scan',
+    },
+  ];
+
   const renderPaymentSection = () => (
     <View style={styles.section}>
       <Text style={styles.sectionTitle}>Phương thức thanh toán</Text>
-      <View style={styles.paymentRow}>
-        <MaterialCommunityIcons name="cash-multiple" size={24} color={ORANGE} />
-        <Text style={styles.paymentLabel}>Thanh toán khi nhận hàng (COD)</Text>
-      </View>
+      {paymentOptions.map((option) => (
+        <TouchableOpacity
+          key={option.value}
+          style={styles.paymentRow}
+          onPress={() => setPaymentMethod(option.value)}
+          disabled={isSubmitting}
+        >
+          <RadioButton
+            value={option.value}
+            status={paymentMethod === option.value ? 'checked' : 'unchecked'}
+            color={ORANGE}
+            onPress={() => setPaymentMethod(option.value)}
+            disabled={isSubmitting}
+          />
+          <MaterialCommunityIcons name={option.icon as any} size={24} color={ORANGE} />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.paymentLabel}>{option.label}</Text>
+            <Text style={styles.paymentDescription}>{option.description}</Text>
+          </View>
+        </TouchableOpacity>
+      ))}
     </View>
   );
 
@@ -2688,6 +2991,8 @@ const CheckoutScreen: React.FC = () => {
       <ScrollView style={styles.scroll} contentContainerStyle={{ paddingBottom: 16 }}>
         {renderAddressSection()}
         {renderItems()}
+        {renderVoucherCodeSection()}
+        {renderLoyaltySection()}
         {renderPaymentSection()}
 
         <View style={styles.section}>
@@ -2741,6 +3046,16 @@ const CheckoutScreen: React.FC = () => {
                 -{formatCurrencyVND(pricing.storeDiscountFromPreview)}
               </Text>
             </View>
+          )}
+          {pricing.loyaltyDiscount > 0 && (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>
+                Dùng {pricing.redeemedPoints || redeemPoints} điểm thưởng
+              </Text>
+              <Text style={[styles.summaryValue, styles.summaryDiscount]}>
+                -{formatCurrencyVND(pricing.loyaltyDiscount)}
+              </Text>
+            </View>
           )}
            <View style={styles.summaryRow}>
              <Text style={styles.summaryLabel}>Phí vận chuyển</Text>
@@ -2782,7 +3097,7 @@ const CheckoutScreen: React.FC = () => {
           }
           loading={isSubmitting}
         >
-          Đặt hàng
+          {paymentMethod === 'PAYOS' ? 'Thanh toán' : 'Đặt hàng'}
         </Button>
       </View>
 
@@ -2890,6 +3205,11 @@ const styles = StyleSheet.create({
     borderBottomColor: '#F0F0F0',
   },
   paymentLabel: { fontSize: 14, color: '#222', marginLeft: 8 },
+  paymentDescription: { fontSize: 12, color: '#777', marginLeft: 8, marginTop: 2 },
+  loyaltyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   summaryRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,317 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Image,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Switch } from 'react-native-paper';
+import { useCompare } from '../../../context/CompareContext';
+import { ProductStackParamList } from '../../../navigation/ProductStackNavigator';
+import { getProductById } from '../../../services/productService';
+import { ProductDetail } from '../../../types/product';
+import { buildCompareSections } from '../../../utils/compareSpecs';
+import { calculateProductPrice } from '../../../utils/productPriceCalculator';
+
+const ORANGE = '#FF6A00';
+const LABEL_WIDTH = 110;
+const COLUMN_WIDTH = 140;
+
+const formatCurrencyVND = (value: number) =>
+  new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+
+type CompareNavigationProp = NativeStackNavigationProp<ProductStackParamList, 'Compare'>;
+
+const CompareScreen: React.FC = () => {
+  const navigation = useNavigation<CompareNavigationProp>();
+  const { items, removeFromCompare } = useCompare();
+  const [products, setProducts] = useState<ProductDetail[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+
+  const productIdsKey = items.map((item) => item.productId).join(',');
+
+  const loadProducts = useCallback(async () => {
+    const productIds = productIdsKey ? productIdsKey.split(',') : [];
+    if (productIds.length === 0) {
+      setProducts([]);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const results = await Promise.allSettled(productIds.map((id) => getProductById(id)));
+      setProducts(
+        results
+          .filter((result): result is PromiseFulfilledResult<ProductDetail> => result.status === 'fulfilled')
+          .map((result) => result.value),
+      );
+    } catch (error) {
+      console.error('[CompareScreen] Failed to load products:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [productIdsKey]);
+
+  useEffect(() => {
+    loadProducts();
+  }, [loadProducts]);
+
+  const sections = useMemo(() => {
+    const all = buildCompareSections(products);
+    if (!onlyDifferences) {
+      return all;
+    }
+    return all
+      .map((section) => ({ ...section, rows: section.rows.filter((row) => row.isDifferent) }))
+      .filter((section) => section.rows.length > 0);
+  }, [products, onlyDifferences]);
+
+  const prices = useMemo(
+    () => products.map((product) => calculateProductPrice(product, []).displayPrice),
+    [products],
+  );
+  const lowestPrice = prices.length > 1 ? Math.min(...prices) : null;
+
+  const handleOpenProduct = (productId: string) => {
+    navigation.navigate('ProductDetail', { productId });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialCommunityIcons name="arrow-left" size={22} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>So sánh sản phẩm</Text>
+        <View style={{ width: 30 }} />
+      </View>
+
+      {isLoading && products.length === 0 ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={ORANGE} />
+          <Text style={styles.loadingText}>Đang tải thông số...</Text>
+        </View>
+      ) : products.length < 2 ? (
+        <View style={styles.centerContainer}>
+          <MaterialCommunityIcons name="compare-horizontal" size={64} color="#CCC" />
+          <Text style={styles.emptyText}>Chọn ít nhất 2 sản phẩm để so sánh</Text>
+        </View>
+      ) : (
+        <>
+          <View style={styles.toolbar}>
+            <Text style={styles.toolbarText}>Chỉ hiện điểm khác biệt</Text>
+            <Switch value={onlyDifferences} onValueChange={setOnlyDifferences} color={ORANGE} />
+          </View>
+
+          <ScrollView>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <View>
+                {/* Product header row */}
+                <View style={styles.row}>
+                  <View style={[styles.labelCell, styles.headerLabelCell]} />
+                  {products.map((product, index) => (
+                    <View key={product.productId} style={styles.productCell}>
+                      <TouchableOpacity
+                        style={styles.removeButton}
+                        onPress={() => removeFromCompare(product.productId)}
+                      >
+                        <MaterialCommunityIcons name="close" size={16} color="#666" />
+                      </TouchableOpacity>
+                      <TouchableOpacity onPress={() => handleOpenProduct(product.productId)}>
+                        <Image source={{ uri: product.images?.[0] }} style={styles.productImage} />
+                        <Text style={styles.productName} numberOfLines={2}>
+                          {product.name}
+                        </Text>
+                      </TouchableOpacity>
+                      <Text
+                        style={[
+                          styles.productPrice,
+                          lowestPrice !== null && prices[index] === lowestPrice && styles.lowestPrice,
+                        ]}
+                      >
+                        {formatCurrencyVND(prices[index])}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+
+                {sections.map((section) => (
+                  <View key={section.key}>
+                    <View style={styles.sectionHeader}>
+                      <Text style={styles.sectionTitle}>{section.title}</Text>
+                    </View>
+                    {section.rows.map((row) => (
+                      <View
+                        key={`${section.key}-${row.key}`}
+                        style={[styles.row, row.isDifferent && styles.rowDifferent]}
+                      >
+                        <View style={styles.labelCell}>
+                          <Text style={styles.labelText}>{row.label}</Text>
+                        </View>
+                        {row.values.map((value, index) => (
+                          <View key={index} style={styles.valueCell}>
+                            <Text style={[styles.valueText, !value && styles.valueEmpty]}>
+                              {value || '—'}
+                            </Text>
+                          </View>
+                        ))}
+                      </View>
+                    ))}
+                  </View>
+                ))}
+
+                {sections.length === 0 && (
+                  <Text style={styles.noDifferenceText}>Các sản phẩm có thông số giống nhau</Text>
+                )}
+              </View>
+            </ScrollView>
+          </ScrollView>
+        </>
+      )}
+    </View>
+  );
+};
+
+export default CompareScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F7F7',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    paddingTop: 50,
+    backgroundColor: ORANGE,
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    color: '#FFF',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  centerContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingHorizontal: 32,
+  },
+  loadingText: {
+    color: '#666',
+    fontSize: 14,
+  },
+  emptyText: {
+    color: '#9E9E9E',
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#FFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  toolbarText: {
+    fontSize: 14,
+    color: '#222',
+  },
+  row: {
+    flexDirection: 'row',
+    backgroundColor: '#FFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  rowDifferent: {
+    backgroundColor: '#FFF3E0',
+  },
+  labelCell: {
+    width: LABEL_WIDTH,
+    padding: 10,
+    justifyContent: 'center',
+  },
+  headerLabelCell: {
+    backgroundColor: '#FFF',
+  },
+  labelText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#666',
+  },
+  productCell: {
+    width: COLUMN_WIDTH,
+    padding: 10,
+    alignItems: 'center',
+  },
+  removeButton: {
+    alignSelf: 'flex-end',
+    padding: 2,
+  },
+  productImage: {
+    width: 80,
+    height: 80,
+    alignSelf: 'center',
+    borderRadius: 8,
+    backgroundColor: '#F5F5F5',
+  },
+  productName: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#222',
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  productPrice: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#222',
+    marginTop: 4,
+  },
+  lowestPrice: {
+    color: ORANGE,
+  },
+  sectionHeader: {
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    backgroundColor: '#F0F0F0',
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#222',
+  },
+  valueCell: {
+    width: COLUMN_WIDTH,
+    padding: 10,
+    justifyContent: 'center',
+  },
+  valueText: {
+    fontSize: 12,
+    color: '#222',
+  },
+  valueEmpty: {
+    color: '#BBB',
+  },
+  noDifferenceText: {
+    padding: 16,
+    fontSize: 14,
+    color: '#666',
+  },
+});
@@ -0,0 +1 @@
+export { default as CompareScreen } from './CompareScreen';
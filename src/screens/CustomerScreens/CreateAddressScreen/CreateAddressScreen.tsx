@@ -67,7 +67,7 @@ const CreateAddressScreen: React.FC = () => {
       setIsSubmitting(true);
       setErrorMessage(null);
       console.log('[CreateAddressScreen] Creating address with payload:', JSON.stringify(payload, null, 2));
-      const result = await createCustomerAddress({ customerId, accessToken, payload });
+      const result = await createCustomerAddress(payload);
       console.log('[CreateAddressScreen] address created successfully:', result);
       setSuccessVisible(true);
       // Navigate back after 1.5s (theo tài liệu: reload danh sách, reset form, đóng form)
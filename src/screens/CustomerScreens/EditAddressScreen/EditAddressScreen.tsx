@@ -56,9 +56,7 @@ const EditAddressScreen: React.FC = () => {
       setIsSubmitting(true);
       setErrorMessage(null);
       await updateCustomerAddress({
-        customerId,
         addressId: address.id,
-        accessToken,
         payload,
       });
       console.log('[EditAddressScreen] address updated successfully');
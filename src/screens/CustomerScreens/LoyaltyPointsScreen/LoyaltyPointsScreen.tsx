@@ -0,0 +1,302 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Button } from 'react-native-paper';
+import { ApiError } from '../../../api/authenticatedClient';
+import { useAuth } from '../../../context/AuthContext';
+import { CustomerStackParamList } from '../../../navigation/CustomerStackNavigator';
+import { getCustomerById } from '../../../services/customerService';
+import {
+  getLoyaltyRedemptionRule,
+  getLoyaltyTransactions,
+} from '../../../services/loyaltyService';
+import {
+  LoyaltyOrderHistory,
+  LoyaltyRedemptionRule,
+  LoyaltyTransaction,
+} from '../../../types/loyalty';
+import {
+  describeLoyaltyRule,
+  groupLoyaltyTransactionsByOrder,
+  LOYALTY_TRANSACTION_LABELS,
+} from '../../../utils/loyaltyPoints';
+
+const ORANGE = '#FF6A00';
+const PAGE_SIZE = 20;
+
+type LoyaltyPointsNavigationProp = NativeStackNavigationProp<CustomerStackParamList, 'LoyaltyPoints'>;
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('vi-VN', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const formatPoints = (points: number) => new Intl.NumberFormat('vi-VN').format(points);
+
+// Số dư điểm thưởng và lịch sử cộng/trừ điểm theo từng đơn hàng
+const LoyaltyPointsScreen: React.FC = () => {
+  const navigation = useNavigation<LoyaltyPointsNavigationProp>();
+  const { authState, updateCustomerProfile } = useAuth();
+  const [transactions, setTransactions] = useState<LoyaltyTransaction[]>([]);
+  const [rule, setRule] = useState<LoyaltyRedemptionRule | null>(null);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const profile = authState.customerProfile;
+
+  const loadTransactions = useCallback(async (pageNum: number, append: boolean) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await getLoyaltyTransactions(pageNum, PAGE_SIZE);
+      const content = response.content || [];
+      setTransactions((prev) => (append ? [...prev, ...content] : content));
+      setPage(pageNum);
+      setHasMore(!response.last && content.length > 0);
+    } catch (err) {
+      console.error('[LoyaltyPointsScreen] loadTransactions failed', err);
+      setError(ApiError.from(err, 'Không thể tải lịch sử điểm. Vui lòng thử lại.').message);
+      if (!append) {
+        setTransactions([]);
+      }
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  // Số dư trong hồ sơ có thể đã cũ (vừa đặt / hủy đơn) - tải lại cùng lịch sử
+  const refreshBalance = useCallback(async () => {
+    try {
+      updateCustomerProfile(await getCustomerById());
+    } catch (err) {
+      console.warn('[LoyaltyPointsScreen] refreshBalance failed', err);
+    }
+  }, [updateCustomerProfile]);
+
+  useEffect(() => {
+    loadTransactions(0, false);
+    refreshBalance();
+    getLoyaltyRedemptionRule()
+      .then(setRule)
+      .catch((err) => console.warn('[LoyaltyPointsScreen] getLoyaltyRedemptionRule failed', err));
+    // Chỉ tải khi mở màn hình
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const history = useMemo(() => groupLoyaltyTransactionsByOrder(transactions), [transactions]);
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadTransactions(0, false);
+    refreshBalance();
+  };
+
+  const handleLoadMore = () => {
+    if (!isLoading && hasMore) {
+      loadTransactions(page + 1, true);
+    }
+  };
+
+  const openOrder = (orderId: string) => {
+    navigation.navigate('Orders', { orderId });
+  };
+
+  const renderBalanceCard = () => (
+    <View style={styles.balanceCard}>
+      <Text style={styles.balanceLabel}>Điểm hiện có</Text>
+      <View style={styles.balanceRow}>
+        <MaterialCommunityIcons name="star-circle" size={32} color="#FFFFFF" />
+        <Text style={styles.balanceValue}>{formatPoints(profile?.loyaltyPoints ?? 0)}</Text>
+      </View>
+      {profile?.loyaltyLevel ? (
+        <Text style={styles.balanceMeta}>Hạng thành viên: {profile.loyaltyLevel}</Text>
+      ) : null}
+      {rule?.enabled ? (
+        <Text style={styles.balanceMeta}>Dùng khi thanh toán: {describeLoyaltyRule(rule)}</Text>
+      ) : null}
+    </View>
+  );
+
+  const renderHistoryItem = ({ item }: { item: LoyaltyOrderHistory }) => (
+    <TouchableOpacity
+      style={styles.historyCard}
+      onPress={() => item.orderId && openOrder(item.orderId)}
+      disabled={!item.orderId}
+      activeOpacity={0.7}
+    >
+      <View style={styles.historyHeader}>
+        <MaterialCommunityIcons
+          name={item.orderId ? 'shopping-outline' : 'star-outline'}
+          size={20}
+          color={ORANGE}
+        />
+        <View style={{ flex: 1 }}>
+          <Text style={styles.historyTitle} numberOfLines={1}>
+            {item.orderId
+              ? `Đơn ${item.orderCode || item.orderId}`
+              : LOYALTY_TRANSACTION_LABELS[item.transactions[0].type] ?? 'Điểm thưởng'}
+          </Text>
+          <Text style={styles.historyDate}>{formatDate(item.createdAt)}</Text>
+        </View>
+        <View style={styles.historyTotals}>
+          {item.earned > 0 && (
+            <Text style={styles.earnedText}>+{formatPoints(item.earned)} điểm</Text>
+          )}
+          {item.spent > 0 && (
+            <Text style={styles.spentText}>-{formatPoints(item.spent)} điểm</Text>
+          )}
+        </View>
+        {item.orderId && <MaterialCommunityIcons name="chevron-right" size={20} color="#999" />}
+      </View>
+      {item.transactions.map((transaction) => (
+        <View key={transaction.id} style={styles.transactionRow}>
+          <Text style={styles.transactionLabel} numberOfLines={1}>
+            {LOYALTY_TRANSACTION_LABELS[transaction.type] ?? transaction.type}
+            {transaction.description ? ` · ${transaction.description}` : ''}
+          </Text>
+          <Text style={transaction.points >= 0 ? styles.earnedSmall : styles.spentSmall}>
+            {transaction.points >= 0 ? '+' : ''}
+            {formatPoints(transaction.points)}
+          </Text>
+        </View>
+      ))}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialCommunityIcons name="arrow-left" size={22} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Điểm thưởng</Text>
+        <View style={{ width: 30 }} />
+      </View>
+
+      <FlatList
+        data={history}
+        keyExtractor={(item) => item.key}
+        renderItem={renderHistoryItem}
+        ListHeaderComponent={
+          <>
+            {renderBalanceCard()}
+            <Text style={styles.sectionTitle}>Lịch sử điểm</Text>
+          </>
+        }
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} colors={[ORANGE]} />
+        }
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          isLoading && history.length > 0 ? (
+            <ActivityIndicator size="small" color={ORANGE} style={styles.footerLoader} />
+          ) : null
+        }
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator size="large" color={ORANGE} style={styles.footerLoader} />
+          ) : error ? (
+            <View style={styles.emptyState}>
+              <MaterialCommunityIcons name="alert-circle-outline" size={64} color="#CCC" />
+              <Text style={styles.emptyDescription}>{error}</Text>
+              <Button
+                mode="contained"
+                onPress={() => loadTransactions(0, false)}
+                buttonColor={ORANGE}
+                style={{ marginTop: 16 }}
+              >
+                Thử lại
+              </Button>
+            </View>
+          ) : (
+            <View style={styles.emptyState}>
+              <MaterialCommunityIcons name="star-outline" size={64} color="#CCC" />
+              <Text style={styles.emptyTitle}>Chưa có lịch sử điểm</Text>
+              <Text style={styles.emptyDescription}>
+                Hoàn tất đơn hàng để tích điểm và dùng điểm khi thanh toán.
+              </Text>
+            </View>
+          )
+        }
+      />
+    </View>
+  );
+};
+
+export default LoyaltyPointsScreen;
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#F5F5F5' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    paddingTop: 50,
+    backgroundColor: ORANGE,
+  },
+  backButton: { padding: 4 },
+  headerTitle: { color: '#FFF', fontSize: 18, fontWeight: '700' },
+  listContent: { padding: 12, gap: 12, flexGrow: 1 },
+  balanceCard: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: ORANGE,
+  },
+  balanceLabel: { fontSize: 13, color: '#FFE0CC' },
+  balanceRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 4 },
+  balanceValue: { fontSize: 28, fontWeight: '700', color: '#FFFFFF' },
+  balanceMeta: { fontSize: 12, color: '#FFFFFF', marginTop: 6 },
+  sectionTitle: { fontSize: 16, fontWeight: '700', color: '#222', marginTop: 16 },
+  historyCard: {
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+  },
+  historyHeader: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  historyTitle: { fontSize: 14, fontWeight: '700', color: '#222' },
+  historyDate: { fontSize: 12, color: '#888', marginTop: 2 },
+  historyTotals: { alignItems: 'flex-end' },
+  earnedText: { fontSize: 13, fontWeight: '700', color: '#2E7D32' },
+  spentText: { fontSize: 13, fontWeight: '700', color: '#D32F2F' },
+  transactionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  transactionLabel: { flex: 1, fontSize: 12, color: '#555' },
+  earnedSmall: { fontSize: 12, fontWeight: '600', color: '#2E7D32' },
+  spentSmall: { fontSize: 12, fontWeight: '600', color: '#D32F2F' },
+  footerLoader: { paddingVertical: 16 },
+  emptyState: { alignItems: 'center', paddingHorizontal: 32, paddingTop: 32 },
+  emptyTitle: { fontSize: 16, fontWeight: '600', color: '#444', marginTop: 12 },
+  emptyDescription: { fontSize: 13, color: '#888', textAlign: 'center', marginTop: 6 },
+});
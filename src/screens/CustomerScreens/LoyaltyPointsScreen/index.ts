@@ -0,0 +1 @@
+export { default as LoyaltyPointsScreen } from './LoyaltyPointsScreen';
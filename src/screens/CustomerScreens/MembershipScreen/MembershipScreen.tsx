@@ -0,0 +1,332 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Button, ProgressBar } from 'react-native-paper';
+import { ApiError } from '../../../api/authenticatedClient';
+import { useAuth } from '../../../context/AuthContext';
+import { CustomerStackParamList } from '../../../navigation/CustomerStackNavigator';
+import { getLoyaltyMembership } from '../../../services/loyaltyService';
+import { getAllCustomerOrders } from '../../../services/orderService';
+import { LoyaltyMembership } from '../../../types/loyalty';
+import { CustomerOrder } from '../../../types/order';
+import {
+  calculateQualifyingSpend,
+  calculateTierProgress,
+  describeTierBenefits,
+  findLoyaltyTier,
+  getUpcomingExpiringPoints,
+  isTierVoucherUnlocked,
+  sortLoyaltyTiers,
+} from '../../../utils/loyaltyTier';
+import { formatVoucherDiscount } from '../../../utils/voucherWallet';
+
+const ORANGE = '#FF6A00';
+
+type MembershipNavigationProp = NativeStackNavigationProp<CustomerStackParamList, 'Membership'>;
+
+const formatCurrencyVND = (value: number) =>
+  new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('vi-VN', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  });
+};
+
+// Hạng thành viên: tiến độ lên hạng theo chi tiêu, quyền lợi, điểm sắp hết hạn và voucher dành riêng
+const MembershipScreen: React.FC = () => {
+  const navigation = useNavigation<MembershipNavigationProp>();
+  const { authState } = useAuth();
+  const [membership, setMembership] = useState<LoyaltyMembership | null>(null);
+  const [orders, setOrders] = useState<CustomerOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const profile = authState.customerProfile;
+
+  const loadData = useCallback(async () => {
+    try {
+      setError(null);
+      const [membershipResult, allOrders] = await Promise.all([
+        getLoyaltyMembership(),
+        // Chi tiêu tính hạng lấy từ toàn bộ lịch sử đơn
+        getAllCustomerOrders(),
+      ]);
+      setMembership(membershipResult);
+      setOrders(allOrders);
+    } catch (err) {
+      console.error('[MembershipScreen] loadData failed', err);
+      setError(ApiError.from(err, 'Không thể tải thông tin hạng thành viên.').message);
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const tiers = useMemo(() => sortLoyaltyTiers(membership?.tiers ?? []), [membership]);
+  const spend = useMemo(
+    () => calculateQualifyingSpend(orders, membership?.spendWindowMonths),
+    [orders, membership],
+  );
+  const progress = useMemo(
+    () => calculateTierProgress(tiers, spend, profile?.loyaltyLevel),
+    [tiers, spend, profile?.loyaltyLevel],
+  );
+  const expiringPoints = useMemo(
+    () => getUpcomingExpiringPoints(membership?.expiringPoints ?? []),
+    [membership],
+  );
+  const exclusiveVouchers = membership?.exclusiveVouchers ?? [];
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadData();
+  };
+
+  const renderProgressCard = () => {
+    const { currentTier, nextTier, remainingSpend, percent } = progress;
+    const spendLabel = membership?.spendWindowMonths
+      ? `Chi tiêu ${membership.spendWindowMonths} tháng gần nhất`
+      : 'Chi tiêu tích lũy';
+    return (
+      <View style={styles.tierCard}>
+        <Text style={styles.tierLabel}>Hạng hiện tại</Text>
+        <View style={styles.tierNameRow}>
+          <MaterialCommunityIcons name="crown" size={28} color="#FFFFFF" />
+          <Text style={styles.tierName}>
+            {currentTier?.name || profile?.loyaltyLevel || 'Thành viên'}
+          </Text>
+        </View>
+        <Text style={styles.tierMeta}>
+          {spendLabel}: {formatCurrencyVND(spend)}
+        </Text>
+        <ProgressBar progress={percent / 100} color="#FFFFFF" style={styles.progressBar} />
+        <Text style={styles.tierMeta}>
+          {nextTier
+            ? `Chi tiêu thêm ${formatCurrencyVND(remainingSpend)} để lên hạng ${nextTier.name}`
+            : 'Bạn đang ở hạng cao nhất'}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderExpiringPoints = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Điểm sắp hết hạn</Text>
+      {expiringPoints.length === 0 ? (
+        <Text style={styles.muted}>Không có điểm sắp hết hạn</Text>
+      ) : (
+        expiringPoints.map((item) => (
+          <View key={item.expiresAt} style={styles.row}>
+            <MaterialCommunityIcons name="timer-sand" size={18} color="#D84315" />
+            <Text style={styles.rowText}>{item.points} điểm</Text>
+            <Text style={styles.expiringDate}>Hết hạn {formatDate(item.expiresAt)}</Text>
+          </View>
+        ))
+      )}
+      <TouchableOpacity onPress={() => navigation.navigate('LoyaltyPoints')}>
+        <Text style={styles.linkText}>Xem lịch sử điểm</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderTierBenefits = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Quyền lợi theo hạng</Text>
+      {tiers.map((tier) => {
+        const isCurrent = progress.currentTier?.code === tier.code;
+        const isReached =
+          !!progress.currentTier && progress.currentTier.minSpend >= tier.minSpend;
+        const voucherCount = exclusiveVouchers.filter(
+          (voucher) => findLoyaltyTier([tier], voucher.requiredTier) !== null,
+        ).length;
+        const benefits = describeTierBenefits(tier, voucherCount);
+        return (
+          <View key={tier.code} style={[styles.benefitCard, isCurrent && styles.benefitCardCurrent]}>
+            <View style={styles.benefitHeader}>
+              <MaterialCommunityIcons
+                name={isReached ? 'crown' : 'lock-outline'}
+                size={18}
+                color={isReached ? ORANGE : '#999'}
+              />
+              <Text style={styles.benefitTitle}>{tier.name}</Text>
+              <Text style={styles.benefitThreshold}>
+                {isCurrent ? 'Hạng của bạn' : `Từ ${formatCurrencyVND(tier.minSpend)}`}
+              </Text>
+            </View>
+            {benefits.length === 0 ? (
+              <Text style={styles.muted}>Chưa có quyền lợi riêng</Text>
+            ) : (
+              benefits.map((benefit) => (
+                <View key={benefit} style={styles.row}>
+                  <MaterialCommunityIcons name="check" size={16} color="#2E7D32" />
+                  <Text style={styles.rowText}>{benefit}</Text>
+                </View>
+              ))
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  const renderExclusiveVouchers = () => {
+    if (exclusiveVouchers.length === 0) {
+      return null;
+    }
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Voucher dành riêng</Text>
+        {exclusiveVouchers.map((voucher) => {
+          const unlocked = isTierVoucherUnlocked(voucher, tiers, progress.currentTier);
+          const tierName =
+            findLoyaltyTier(tiers, voucher.requiredTier)?.name || voucher.requiredTier;
+          return (
+            <TouchableOpacity
+              key={voucher.voucherId}
+              style={[styles.row, !unlocked && styles.lockedRow]}
+              onPress={() => navigation.navigate('VoucherWallet')}
+            >
+              <MaterialCommunityIcons
+                name={unlocked ? 'lock-open-variant-outline' : 'lock-outline'}
+                size={18}
+                color={unlocked ? ORANGE : '#999'}
+              />
+              <View style={{ flex: 1 }}>
+                <Text style={styles.rowText}>{formatVoucherDiscount(voucher)}</Text>
+                <Text style={styles.muted}>
+                  {voucher.code} · {unlocked ? 'Đã mở khóa' : `Đạt hạng ${tierName} để mở khóa`}
+                </Text>
+              </View>
+              <MaterialCommunityIcons name="chevron-right" size={20} color="#999" />
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialCommunityIcons name="arrow-left" size={22} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Hạng thành viên</Text>
+        <View style={{ width: 30 }} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={ORANGE} />
+        </View>
+      ) : error && !membership ? (
+        <View style={styles.centered}>
+          <MaterialCommunityIcons name="alert-circle-outline" size={64} color="#CCC" />
+          <Text style={styles.muted}>{error}</Text>
+          <Button
+            mode="contained"
+            onPress={() => {
+              setIsLoading(true);
+              loadData();
+            }}
+            buttonColor={ORANGE}
+            style={{ marginTop: 16 }}
+          >
+            Thử lại
+          </Button>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} colors={[ORANGE]} />
+          }
+        >
+          {renderProgressCard()}
+          {renderExpiringPoints()}
+          {renderTierBenefits()}
+          {renderExclusiveVouchers()}
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+export default MembershipScreen;
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#F5F5F5' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    paddingTop: 50,
+    backgroundColor: ORANGE,
+  },
+  backButton: { padding: 4 },
+  headerTitle: { color: '#FFF', fontSize: 18, fontWeight: '700' },
+  centered: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 32 },
+  content: { padding: 12, gap: 12 },
+  tierCard: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: ORANGE,
+  },
+  tierLabel: { fontSize: 13, color: '#FFE0CC' },
+  tierNameRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 4 },
+  tierName: { fontSize: 24, fontWeight: '700', color: '#FFFFFF' },
+  tierMeta: { fontSize: 12, color: '#FFFFFF', marginTop: 8 },
+  progressBar: {
+    height: 8,
+    borderRadius: 4,
+    marginTop: 8,
+    backgroundColor: 'rgba(255,255,255,0.35)',
+  },
+  section: {
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+  },
+  sectionTitle: { fontSize: 16, fontWeight: '700', color: '#222', marginBottom: 8 },
+  muted: { fontSize: 12, color: '#888' },
+  linkText: { color: ORANGE, fontWeight: '700', marginTop: 12 },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 8, paddingVertical: 6 },
+  rowText: { flex: 1, fontSize: 13, color: '#333' },
+  lockedRow: { opacity: 0.6 },
+  expiringDate: { fontSize: 12, fontWeight: '600', color: '#D84315' },
+  benefitCard: {
+    padding: 12,
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#F0F0F0',
+    borderRadius: 8,
+  },
+  benefitCardCurrent: {
+    borderColor: ORANGE,
+    backgroundColor: '#FFF3EB',
+  },
+  benefitHeader: { flexDirection: 'row', alignItems: 'center', gap: 6, marginBottom: 4 },
+  benefitTitle: { flex: 1, fontSize: 14, fontWeight: '700', color: '#222' },
+  benefitThreshold: { fontSize: 12, color: '#757575' },
+});
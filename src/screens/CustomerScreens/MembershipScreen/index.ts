@@ -0,0 +1 @@
+export { default as MembershipScreen } from './MembershipScreen';
@@ -0,0 +1,345 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Avatar, Button, Searchbar } from 'react-native-paper';
+import { useAuth } from '../../../context/AuthContext';
+import { useChat } from '../../../context/ChatContext';
+import { Conversation, getConversationUnreadCount } from '../../../types/chat';
+
+const ORANGE = '#FF6A00';
+
+const formatConversationTime = (value: string | Date) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return '';
+  }
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString('vi-VN', { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit' });
+};
+
+const MessagesScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { isAuthenticated } = useAuth();
+  const {
+    conversations,
+    isLoadingConversations,
+    pinnedStoreIds,
+    mutedStoreIds,
+    openChat,
+    loadConversations,
+    togglePinConversation,
+    toggleMuteConversation,
+  } = useChat();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadConversations();
+    }, [loadConversations]),
+  );
+
+  // Ghim lên đầu, còn lại theo tin nhắn mới nhất
+  const visibleConversations = useMemo(() => {
+    const keyword = searchQuery.trim().toLowerCase();
+    return conversations
+      .filter(
+        (conversation) =>
+          !keyword ||
+          conversation.storeName?.toLowerCase().includes(keyword) ||
+          conversation.lastMessage?.toLowerCase().includes(keyword),
+      )
+      .sort((a, b) => {
+        const pinnedDiff =
+          Number(pinnedStoreIds.includes(b.storeId)) - Number(pinnedStoreIds.includes(a.storeId));
+        if (pinnedDiff !== 0) {
+          return pinnedDiff;
+        }
+        return new Date(b.lastMessageTime).getTime() - new Date(a.lastMessageTime).getTime();
+      });
+  }, [conversations, searchQuery, pinnedStoreIds]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadConversations();
+    setIsRefreshing(false);
+  };
+
+  const handleOpenConversation = (conversation: Conversation) => {
+    openChat('store', conversation.storeId, conversation.storeName);
+  };
+
+  const handleConversationOptions = (conversation: Conversation) => {
+    const isPinned = pinnedStoreIds.includes(conversation.storeId);
+    const isMuted = mutedStoreIds.includes(conversation.storeId);
+    Alert.alert(conversation.storeName || 'Cửa hàng', undefined, [
+      {
+        text: isPinned ? 'Bỏ ghim' : 'Ghim cuộc trò chuyện',
+        onPress: () => togglePinConversation(conversation.storeId),
+      },
+      {
+        text: isMuted ? 'Bật thông báo' : 'Tắt thông báo',
+        onPress: () => toggleMuteConversation(conversation.storeId),
+      },
+      { text: 'Hủy', style: 'cancel' },
+    ]);
+  };
+
+  const renderConversation = ({ item }: { item: Conversation }) => {
+    const unreadCount = getConversationUnreadCount(item);
+    const isPinned = pinnedStoreIds.includes(item.storeId);
+    const isMuted = mutedStoreIds.includes(item.storeId);
+    const isUnread = unreadCount > 0;
+
+    return (
+      <TouchableOpacity
+        style={[styles.conversationItem, isPinned && styles.conversationItemPinned]}
+        onPress={() => handleOpenConversation(item)}
+        onLongPress={() => handleConversationOptions(item)}
+        activeOpacity={0.7}
+      >
+        <Avatar.Text
+          size={48}
+          label={item.storeName ? item.storeName.substring(0, 2).toUpperCase() : 'ST'}
+          style={styles.avatar}
+          labelStyle={styles.avatarLabel}
+        />
+        <View style={styles.conversationContent}>
+          <View style={styles.conversationHeader}>
+            <View style={styles.storeNameRow}>
+              <Text style={[styles.storeName, isUnread && styles.textUnread]} numberOfLines={1}>
+                {item.storeName || 'Cửa hàng'}
+              </Text>
+              {isPinned && <MaterialCommunityIcons name="pin" size={14} color={ORANGE} />}
+              {isMuted && <MaterialCommunityIcons name="bell-off-outline" size={14} color="#999" />}
+            </View>
+            <Text style={styles.conversationTime}>{formatConversationTime(item.lastMessageTime)}</Text>
+          </View>
+          <View style={styles.conversationFooter}>
+            <Text
+              style={[styles.lastMessage, isUnread && styles.textUnread]}
+              numberOfLines={1}
+            >
+              {item.lastMessageSenderType === 'CUSTOMER' ? 'Bạn: ' : ''}
+              {item.lastMessage || 'Chưa có tin nhắn'}
+            </Text>
+            {isUnread && (
+              <View style={[styles.unreadBadge, isMuted && styles.unreadBadgeMuted]}>
+                <Text style={styles.unreadBadgeText}>{unreadCount > 99 ? '99+' : unreadCount}</Text>
+              </View>
+            )}
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (!isAuthenticated) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Tin nhắn</Text>
+        </View>
+        <View style={styles.emptyContainer}>
+          <MaterialCommunityIcons name="message-text-outline" size={64} color="#9E9E9E" />
+          <Text style={styles.emptyText}>Vui lòng đăng nhập để xem tin nhắn của bạn.</Text>
+          <Button
+            mode="contained"
+            buttonColor={ORANGE}
+            onPress={() => {
+              // @ts-ignore - navigate to Profile tab (login)
+              navigation.navigate('Profile');
+            }}
+          >
+            Đăng nhập
+          </Button>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Tin nhắn</Text>
+      </View>
+
+      <View style={styles.searchContainer}>
+        <Searchbar
+          placeholder="Tìm cửa hàng hoặc tin nhắn..."
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          style={styles.searchBar}
+          inputStyle={styles.searchInput}
+        />
+      </View>
+
+      {isLoadingConversations && conversations.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <ActivityIndicator size="large" color={ORANGE} />
+        </View>
+      ) : (
+        <FlatList
+          data={visibleConversations}
+          keyExtractor={(item) => item.id || item.storeId}
+          renderItem={renderConversation}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor={ORANGE} />
+          }
+          contentContainerStyle={visibleConversations.length === 0 && styles.listEmpty}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <MaterialCommunityIcons name="message-text-outline" size={64} color="#9E9E9E" />
+              <Text style={styles.emptyText}>
+                {searchQuery.trim()
+                  ? 'Không tìm thấy cuộc trò chuyện phù hợp'
+                  : 'Bạn chưa có cuộc trò chuyện nào'}
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+export default MessagesScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F7F7',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    paddingTop: 50,
+    backgroundColor: ORANGE,
+  },
+  headerTitle: {
+    color: '#FFF',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  searchContainer: {
+    padding: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  searchBar: {
+    backgroundColor: '#F7F7F7',
+    elevation: 0,
+  },
+  searchInput: {
+    fontSize: 14,
+  },
+  conversationItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  conversationItemPinned: {
+    backgroundColor: '#FFF8F2',
+  },
+  avatar: {
+    backgroundColor: ORANGE,
+  },
+  avatarLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  conversationContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  conversationHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  storeNameRow: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginRight: 8,
+  },
+  storeName: {
+    flexShrink: 1,
+    fontSize: 15,
+    color: '#272727',
+  },
+  conversationTime: {
+    fontSize: 12,
+    color: '#999',
+  },
+  conversationFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  lastMessage: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+    marginRight: 8,
+  },
+  textUnread: {
+    fontWeight: '700',
+    color: '#272727',
+  },
+  unreadBadge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    backgroundColor: '#D32F2F',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  unreadBadgeMuted: {
+    backgroundColor: '#BDBDBD',
+  },
+  unreadBadgeText: {
+    color: '#FFFFFF',
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  listEmpty: {
+    flexGrow: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingHorizontal: 32,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#9E9E9E',
+    textAlign: 'center',
+  },
+});
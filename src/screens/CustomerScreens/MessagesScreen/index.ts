@@ -0,0 +1 @@
+export { default as MessagesScreen } from './MessagesScreen';
@@ -57,7 +57,7 @@ const NotificationsScreen: React.FC<NotificationScreenProps> = () => {
         }
         setError(null);
 
-        const response = await getNotifications(authState, pageNum, 20);
+        const response = await getNotifications(pageNum, 20);
 
         // Sort notifications theo createdAt descending (mới nhất trước)
         // Nếu createdAt là null, coi như timestamp = 0 (sẽ ở cuối)
@@ -108,7 +108,7 @@ const NotificationsScreen: React.FC<NotificationScreenProps> = () => {
     }
 
     try {
-      const count = await getUnreadCount(authState);
+      const count = await getUnreadCount();
       setUnreadCount(count);
     } catch (err) {
       console.error('Error loading unread notification count:', err);
@@ -235,7 +235,7 @@ const NotificationsScreen: React.FC<NotificationScreenProps> = () => {
         );
         setUnreadCount((prev) => Math.max(0, prev - 1));
 
-        await markNotificationAsRead(authState, notification.id);
+        await markNotificationAsRead(notification.id);
       } catch (error) {
         console.error('Error marking notification as read:', error);
         // Revert optimistic update
@@ -271,7 +271,7 @@ const NotificationsScreen: React.FC<NotificationScreenProps> = () => {
 
       // Call API parallel
       await Promise.all(
-        unreadNotifications.map((n) => markNotificationAsRead(authState, n.id)),
+        unreadNotifications.map((n) => markNotificationAsRead(n.id)),
       );
 
       setSnackbarMessage('Đã đánh dấu tất cả là đã đọc');
@@ -1,8 +1,10 @@
 import { MaterialCommunityIcons } from '@expo/vector-icons';
 import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
-import React, { useCallback, useEffect, useState } from 'react';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   FlatList,
   RefreshControl,
   ScrollView,
@@ -14,17 +16,47 @@ import {
 import { Chip, Snackbar } from 'react-native-paper';
 import OrderDetailModal from '../../../components/CustomerScreenComponents/OrderScreenComponents/OrderDetailModal';
 import OrderItemCard from '../../../components/CustomerScreenComponents/OrderScreenComponents/OrderItemCard';
+import ReviewComposerModal, {
+  ReviewComposerPayload,
+} from '../../../components/CustomerScreenComponents/OrderScreenComponents/ReviewComposerModal';
 import { useAuth } from '../../../context/AuthContext';
+import { useCart } from '../../../context/CartContext';
 import { CustomerStackParamList } from '../../../navigation/CustomerStackNavigator';
+import { checkBuyAgainItems } from '../../../services/cartService';
 import {
   cancelOrder,
+  confirmOrderReceipt,
+  createOrderPaymentLink,
   createReturnRequest,
   getCustomerOrderById,
   getCustomerOrders,
   getGhnOrderByStoreOrderId,
+  getMyReturnRequests,
   requestCancelOrder,
+  switchOrderToCod,
 } from '../../../services/orderService';
-import { CustomerOrder, GHNOrderResponse, OrderStatus, ReturnReasonType } from '../../../types/order';
+import {
+  createReview,
+  deleteReview,
+  getMyReviews,
+  updateReview,
+} from '../../../services/reviewService';
+import {
+  CreateReturnRequest,
+  CustomerOrder,
+  GHNOrderResponse,
+  OrderItem,
+  OrderStatus,
+  ReturnRequest,
+} from '../../../types/order';
+import { BuyAgainUnavailableReason } from '../../../types/cart';
+import { Review } from '../../../types/review';
+import {
+  getPayOSCancelUrl,
+  getPayOSReturnUrl,
+  openPayOSCheckout,
+  savePaymentSession,
+} from '../../../utils/paymentSession';
 
 const ORANGE = '#FF6A00';
 
@@ -92,12 +124,21 @@ const getStatusColor = (status: OrderStatus): string => {
   return colors[status] || '#9E9E9E';
 };
 
+const BUY_AGAIN_REASON_LABELS: Record<BuyAgainUnavailableReason, string> = {
+  NOT_FOUND: 'Sản phẩm không còn tồn tại',
+  INACTIVE: 'Ngừng kinh doanh',
+  VARIANT_UNAVAILABLE: 'Phân loại không còn bán',
+  OUT_OF_STOCK: 'Hết hàng',
+};
+
 type OrderScreenRouteProp = RouteProp<CustomerStackParamList, 'Orders'>;
+type OrderScreenNavigationProp = NativeStackNavigationProp<CustomerStackParamList, 'Orders'>;
 
 const OrderScreen: React.FC = () => {
-  const navigation = useNavigation();
+  const navigation = useNavigation<OrderScreenNavigationProp>();
   const route = useRoute<OrderScreenRouteProp>();
-  const { authState, isAuthenticated } = useAuth();
+  const { isAuthenticated } = useAuth();
+  const { addItem } = useCart();
   const [orders, setOrders] = useState<CustomerOrder[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -109,12 +150,15 @@ const OrderScreen: React.FC = () => {
   const [snackbarVisible, setSnackbarVisible] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState('');
   const [ghnOrderData, setGhnOrderData] = useState<Record<string, GHNOrderResponse['data']>>({});
+  const [payingOrderId, setPayingOrderId] = useState<string | null>(null);
+  const [myReviews, setMyReviews] = useState<Review[]>([]);
+  const [reviewingItem, setReviewingItem] = useState<OrderItem | null>(null);
+  const [myReturns, setMyReturns] = useState<ReturnRequest[]>([]);
+  const [buyingAgainOrderId, setBuyingAgainOrderId] = useState<string | null>(null);
 
   const loadOrders = useCallback(
     async (pageNum: number = 0, append: boolean = false) => {
-      const customerId = authState.decodedToken?.customerId;
-      const accessToken = authState.accessToken;
-      if (!customerId || !accessToken || !isAuthenticated) {
+      if (!isAuthenticated) {
         return;
       }
 
@@ -123,13 +167,9 @@ const OrderScreen: React.FC = () => {
           setIsLoading(true);
         }
         const res = await getCustomerOrders({
-          customerId,
-          accessToken,
-          params: {
-            page: pageNum,
-            size: 20,
-            status: selectedStatus === 'ALL' ? undefined : selectedStatus,
-          },
+          page: pageNum,
+          size: 20,
+          status: selectedStatus === 'ALL' ? undefined : selectedStatus,
         });
 
         if (append) {
@@ -148,7 +188,7 @@ const OrderScreen: React.FC = () => {
             if (!storeOrder.id || storeOrder.id.includes('-store-')) return;
             if (!ghnOrderData[storeOrder.id]) {
               ghnDataPromises.push(
-                getGhnOrderByStoreOrderId({ accessToken, storeOrderId: storeOrder.id })
+                getGhnOrderByStoreOrderId(storeOrder.id)
                   .then((ghnOrder) => {
                     if (ghnOrder && ghnOrder.data) {
                       setGhnOrderData((prev) => ({
@@ -175,7 +215,7 @@ const OrderScreen: React.FC = () => {
         setIsRefreshing(false);
       }
     },
-    [authState.decodedToken?.customerId, authState.accessToken, isAuthenticated, selectedStatus, ghnOrderData],
+    [isAuthenticated, selectedStatus, ghnOrderData],
   );
 
   // Reset pagination khi filter thay đổi
@@ -189,19 +229,149 @@ const OrderScreen: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isAuthenticated, selectedStatus]);
 
+  // Review của khách hàng để biết sản phẩm nào đã/chưa đánh giá
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setMyReviews([]);
+      return;
+    }
+
+    getMyReviews()
+      .then(setMyReviews)
+      .catch((error) => {
+        console.warn('[OrderScreen] Failed to load reviews:', error);
+      });
+  }, [isAuthenticated]);
+
+  // Yêu cầu hoàn trả để liên kết từng sản phẩm với trạng thái hoàn trả
+  const loadReturns = useCallback(() => {
+    getMyReturnRequests()
+      .then(setMyReturns)
+      .catch((error) => {
+        console.warn('[OrderScreen] Failed to load returns:', error);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setMyReturns([]);
+      return;
+    }
+    loadReturns();
+  }, [isAuthenticated, loadReturns]);
+
+  // Danh sách đã sắp xếp mới nhất trước nên lấy yêu cầu đầu tiên khớp
+  const getItemReturn = useCallback(
+    (item: OrderItem) =>
+      myReturns.find(
+        (request) =>
+          request.orderItemId === item.id ||
+          request.items?.some((returnItem) => returnItem.orderItemId === item.id),
+      ),
+    [myReturns],
+  );
+
+  const handleViewReturn = useCallback(
+    (request: ReturnRequest) => {
+      navigation.navigate('Returns', { returnId: request.id });
+    },
+    [navigation],
+  );
+
+  /**
+   * Mua lại: kiểm tra tồn kho / trạng thái bán, thêm các dòng còn mua được vào giỏ
+   * rồi mở giỏ hàng chỉ chọn sẵn các sản phẩm đó
+   */
+  const handleBuyAgain = useCallback(
+    async (items: OrderItem[]) => {
+      const { available, unavailable } = await checkBuyAgainItems(items);
+      available.forEach((line) => addItem(line.request, line.preview));
+
+      const openCart = () => {
+        setSelectedOrder(null);
+        // @ts-ignore - nested navigation
+        navigation.navigate('Home', {
+          screen: 'Cart',
+          params: { selectItems: available.map((line) => line.request) },
+        });
+      };
+
+      if (unavailable.length === 0) {
+        openCart();
+        return;
+      }
+
+      const unavailableText = unavailable
+        .map(
+          ({ orderItem, reason }) =>
+            `• ${orderItem.name}${orderItem.variantOptionValue ? ` (${orderItem.variantOptionValue})` : ''}: ${BUY_AGAIN_REASON_LABELS[reason]}`,
+        )
+        .join('\n');
+
+      if (available.length === 0) {
+        Alert.alert('Không thể mua lại', `Không sản phẩm nào còn mua được:\n${unavailableText}`);
+        return;
+      }
+
+      Alert.alert(
+        'Một số sản phẩm không thể mua lại',
+        `Đã thêm ${available.length} sản phẩm vào giỏ hàng. Không thể thêm:\n${unavailableText}`,
+        [
+          { text: 'Để sau', style: 'cancel' },
+          { text: 'Xem giỏ hàng', onPress: openCart },
+        ],
+      );
+    },
+    [addItem, navigation],
+  );
+
+  const handleBuyAgainOrder = useCallback(
+    async (order: CustomerOrder) => {
+      if (buyingAgainOrderId) {
+        return;
+      }
+      try {
+        setBuyingAgainOrderId(order.id);
+        await handleBuyAgain(order.storeOrders.flatMap((storeOrder) => storeOrder.items));
+      } finally {
+        setBuyingAgainOrderId(null);
+      }
+    },
+    [buyingAgainOrderId, handleBuyAgain],
+  );
+
+  const reviewsByItemId = useMemo(() => {
+    const map: Record<string, Review> = {};
+    myReviews.forEach((review) => {
+      if (review.orderItemId) {
+        map[review.orderItemId] = review;
+      }
+    });
+    return map;
+  }, [myReviews]);
+
+  // Ưu tiên khớp theo orderItemId, backend cũ không trả về thì khớp theo sản phẩm + biến thể
+  const getItemReview = useCallback(
+    (item: OrderItem) =>
+      reviewsByItemId[item.id] ||
+      myReviews.find(
+        (review) =>
+          !review.orderItemId &&
+          review.productId === item.refId &&
+          (review.variantId ?? null) === (item.variantId ?? null),
+      ),
+    [reviewsByItemId, myReviews],
+  );
+
   // Xử lý orderId từ route params (khi navigate từ notification)
   useEffect(() => {
     const orderId = route.params?.orderId;
-    if (orderId && isAuthenticated && authState.decodedToken?.customerId && authState.accessToken) {
+    if (orderId && isAuthenticated) {
       // Tự động load và mở order detail khi có orderId từ params
       const loadAndOpenOrder = async () => {
         try {
-          const customerId = authState.decodedToken?.customerId;
-          const accessToken = authState.accessToken;
-          if (!customerId || !accessToken) return;
-
           setIsLoading(true);
-          const orderDetail = await getCustomerOrderById({ customerId, accessToken, orderId });
+          const orderDetail = await getCustomerOrderById(orderId);
           if (orderDetail) {
             setSelectedOrder(orderDetail);
           } else {
@@ -219,7 +389,7 @@ const OrderScreen: React.FC = () => {
 
       loadAndOpenOrder();
     }
-  }, [route.params?.orderId, isAuthenticated, authState.decodedToken?.customerId, authState.accessToken]);
+  }, [route.params?.orderId, isAuthenticated]);
 
   const handleRefresh = useCallback(() => {
     setIsRefreshing(true);
@@ -237,15 +407,13 @@ const OrderScreen: React.FC = () => {
 
   const handleOrderPress = useCallback(
     async (order: CustomerOrder) => {
-      const customerId = authState.decodedToken?.customerId;
-      const accessToken = authState.accessToken;
-      if (!customerId || !accessToken) {
+      if (!isAuthenticated) {
         return;
       }
 
       try {
         setIsLoading(true);
-        const orderDetail = await getCustomerOrderById({ customerId, accessToken, orderId: order.id });
+        const orderDetail = await getCustomerOrderById(order.id);
         if (orderDetail) {
           setSelectedOrder(orderDetail);
         } else {
@@ -259,21 +427,17 @@ const OrderScreen: React.FC = () => {
         setIsLoading(false);
       }
     },
-    [authState.decodedToken?.customerId, authState.accessToken],
+    [isAuthenticated],
   );
 
   const handleCancelOrder = useCallback(
     async (orderId: string, reason: string, note?: string) => {
-      const customerId = authState.decodedToken?.customerId;
-      const accessToken = authState.accessToken;
-      if (!customerId || !accessToken) {
+      if (!isAuthenticated) {
         return;
       }
 
       try {
         await cancelOrder({
-          customerId,
-          accessToken,
           orderId,
           reason: reason as any,
           note,
@@ -289,21 +453,17 @@ const OrderScreen: React.FC = () => {
         setSnackbarVisible(true);
       }
     },
-    [authState.decodedToken?.customerId, authState.accessToken, handleRefresh],
+    [isAuthenticated, handleRefresh],
   );
 
   const handleRequestCancel = useCallback(
     async (orderId: string, reason: string, note?: string) => {
-      const customerId = authState.decodedToken?.customerId;
-      const accessToken = authState.accessToken;
-      if (!customerId || !accessToken) {
+      if (!isAuthenticated) {
         return;
       }
 
       try {
         await requestCancelOrder({
-          customerId,
-          accessToken,
           orderId,
           reason: reason as any,
           note,
@@ -319,30 +479,22 @@ const OrderScreen: React.FC = () => {
         setSnackbarVisible(true);
       }
     },
-    [authState.decodedToken?.customerId, authState.accessToken, handleRefresh],
+    [isAuthenticated, handleRefresh],
   );
 
   const handleReturnRequest = useCallback(
-    async (payload: {
-      orderId: string;
-      storeOrderId: string;
-      orderItemId: string;
-      reasonType: ReturnReasonType;
-      reason: string;
-      images?: string[];
-      video?: string;
-    }) => {
-      const accessToken = authState.accessToken;
-      if (!accessToken) {
+    async (payload: CreateReturnRequest) => {
+      if (!isAuthenticated) {
         return;
       }
 
       try {
-        await createReturnRequest({ accessToken, payload });
+        await createReturnRequest(payload);
         setSnackbarMessage('Yêu cầu hoàn trả đã được gửi thành công');
         setSnackbarVisible(true);
         setSelectedOrder(null);
         handleRefresh();
+        loadReturns();
       } catch (error: any) {
         const message =
           error?.response?.data?.message || 'Không thể tạo yêu cầu hoàn trả. Vui lòng thử lại.';
@@ -350,9 +502,193 @@ const OrderScreen: React.FC = () => {
         setSnackbarVisible(true);
       }
     },
-    [authState.accessToken, handleRefresh],
+    [isAuthenticated, handleRefresh, loadReturns],
   );
 
+  // Tạo link PayOS mới cho đơn UNPAID và mở trang thanh toán
+  const handlePayNow = useCallback(
+    async (order: CustomerOrder) => {
+      if (payingOrderId) {
+        return;
+      }
+
+      try {
+        setPayingOrderId(order.id);
+        const paymentLink = await createOrderPaymentLink({
+          orderId: order.id,
+          returnUrl: getPayOSReturnUrl(),
+          cancelUrl: getPayOSCancelUrl(),
+        });
+
+        await savePaymentSession({
+          orderId: order.id,
+          orderCode: paymentLink.orderCode || order.orderCode || undefined,
+          checkoutUrl: paymentLink.checkoutUrl,
+        });
+
+        setSelectedOrder(null);
+        const browserResult = await openPayOSCheckout(paymentLink.checkoutUrl);
+
+        navigation.navigate('PaymentStatus', {
+          orderId: order.id,
+          result: browserResult === 'cancel' ? 'cancel' : 'success',
+        });
+      } catch (error: any) {
+        const message =
+          error?.response?.data?.message || 'Không thể tạo link thanh toán. Vui lòng thử lại.';
+        setSnackbarMessage(message);
+        setSnackbarVisible(true);
+      } finally {
+        setPayingOrderId(null);
+      }
+    },
+    [payingOrderId, navigation],
+  );
+
+  const handleTrackShipment = useCallback(
+    (storeOrderId: string, storeName: string) => {
+      setSelectedOrder(null);
+      navigation.navigate('ShipmentTracking', { storeOrderId, storeName });
+    },
+    [navigation],
+  );
+
+  const handleSwitchToCod = useCallback(
+    (order: CustomerOrder) =>
+      new Promise<void>((resolve) => {
+        Alert.alert(
+          'Chuyển sang COD',
+          'Đơn hàng sẽ được thanh toán bằng tiền mặt khi nhận hàng. Bạn có chắc chắn?',
+          [
+            { text: 'Không', style: 'cancel', onPress: () => resolve() },
+            {
+              text: 'Đồng ý',
+              onPress: async () => {
+                try {
+                  setPayingOrderId(order.id);
+                  const { order: updatedOrder, message } = await switchOrderToCod(order.id);
+                  setSnackbarMessage(message || 'Đã chuyển đơn hàng sang thanh toán khi nhận hàng.');
+                  setSnackbarVisible(true);
+                  // Backend không trả đơn mới thì tải lại, lỗi thì giữ đơn đang mở
+                  const latestOrder =
+                    updatedOrder ?? (await getCustomerOrderById(order.id).catch(() => null));
+                  if (latestOrder) {
+                    setSelectedOrder(latestOrder);
+                  }
+                  handleRefresh();
+                } catch (error: any) {
+                  const message =
+                    error?.response?.data?.message ||
+                    'Đơn hàng này không thể chuyển sang COD. Vui lòng thanh toán online.';
+                  setSnackbarMessage(message);
+                  setSnackbarVisible(true);
+                } finally {
+                  setPayingOrderId(null);
+                  resolve();
+                }
+              },
+            },
+          ],
+          { cancelable: true, onDismiss: () => resolve() },
+        );
+      }),
+    [handleRefresh],
+  );
+
+  // Sau khi xác nhận nhận hàng, gợi ý đánh giá sản phẩm đầu tiên chưa được đánh giá
+  const promptReviewAfterReceipt = useCallback(
+    (order: CustomerOrder) => {
+      const itemToReview = order.storeOrders
+        .flatMap((storeOrder) => storeOrder.items)
+        .find((item) => item.type === 'PRODUCT' && !getItemReview(item));
+      if (!itemToReview) {
+        return;
+      }
+
+      Alert.alert('Đánh giá sản phẩm', `Bạn có hài lòng với "${itemToReview.name}"? Hãy để lại đánh giá nhé!`, [
+        { text: 'Để sau', style: 'cancel' },
+        { text: 'Đánh giá ngay', onPress: () => setReviewingItem(itemToReview) },
+      ]);
+    },
+    [getItemReview],
+  );
+
+  const handleConfirmReceipt = useCallback(
+    (order: CustomerOrder) =>
+      new Promise<void>((resolve) => {
+        Alert.alert(
+          'Xác nhận đã nhận hàng',
+          'Bạn đã nhận được hàng và hài lòng với sản phẩm? Sau khi xác nhận, bạn sẽ không thể yêu cầu hoàn trả.',
+          [
+            { text: 'Chưa nhận', style: 'cancel', onPress: () => resolve() },
+            {
+              text: 'Đã nhận',
+              onPress: async () => {
+                try {
+                  const updatedOrder = await confirmOrderReceipt(order.id);
+                  setSnackbarMessage('Đã xác nhận nhận hàng. Cảm ơn bạn đã mua sắm!');
+                  setSnackbarVisible(true);
+                  setSelectedOrder(null);
+                  handleRefresh();
+                  promptReviewAfterReceipt(updatedOrder ?? order);
+                } catch (error: any) {
+                  const message =
+                    error?.response?.data?.message || 'Không thể xác nhận đã nhận hàng. Vui lòng thử lại.';
+                  setSnackbarMessage(message);
+                  setSnackbarVisible(true);
+                } finally {
+                  resolve();
+                }
+              },
+            },
+          ],
+          { cancelable: true, onDismiss: () => resolve() },
+        );
+      }),
+    [handleRefresh, promptReviewAfterReceipt],
+  );
+
+  const handleSubmitReview = useCallback(
+    async (payload: ReviewComposerPayload) => {
+      if (!reviewingItem) {
+        return;
+      }
+
+      const existingReview = getItemReview(reviewingItem);
+      const savedReview = existingReview
+        ? await updateReview(existingReview.id, payload)
+        : await createReview({
+            orderItemId: reviewingItem.id,
+            productId: reviewingItem.refId,
+            variantId: reviewingItem.variantId,
+            ...payload,
+          });
+
+      const reviewWithItem: Review = {
+        ...(existingReview || {}),
+        ...payload,
+        ...savedReview,
+        orderItemId: savedReview?.orderItemId ?? reviewingItem.id,
+      };
+      setMyReviews((prev) => [
+        reviewWithItem,
+        ...prev.filter((review) => review.id !== reviewWithItem.id),
+      ]);
+      setReviewingItem(null);
+      setSnackbarMessage(existingReview ? 'Đã cập nhật đánh giá' : 'Cảm ơn bạn đã đánh giá sản phẩm!');
+      setSnackbarVisible(true);
+    },
+    [reviewingItem, getItemReview],
+  );
+
+  const handleDeleteReview = useCallback(async (review: Review) => {
+    await deleteReview(review.id);
+    setMyReviews((prev) => prev.filter((r) => r.id !== review.id));
+    setReviewingItem(null);
+    setSnackbarMessage('Đã xóa đánh giá');
+    setSnackbarVisible(true);
+  }, []);
+
   const statusFilters: Array<{ label: string; value: OrderStatus | 'ALL' }> = [
     { label: 'Tất cả', value: 'ALL' },
     { label: 'Chưa thanh toán', value: 'UNPAID' },
@@ -443,6 +779,15 @@ const OrderScreen: React.FC = () => {
               order={item}
               ghnOrderData={ghnOrderData}
               onPress={() => handleOrderPress(item)}
+              onPayNow={() => handlePayNow(item)}
+              isPaying={payingOrderId === item.id}
+              onPaymentExpire={handleRefresh}
+              getItemReview={getItemReview}
+              onReviewItem={setReviewingItem}
+              getItemReturn={getItemReturn}
+              onViewReturn={handleViewReturn}
+              onBuyAgain={() => handleBuyAgainOrder(item)}
+              isBuyingAgain={buyingAgainOrderId === item.id}
             />
           )}
           contentContainerStyle={styles.listContent}
@@ -469,6 +814,23 @@ const OrderScreen: React.FC = () => {
           onCancel={handleCancelOrder}
           onRequestCancel={handleRequestCancel}
           onReturn={handleReturnRequest}
+          onPayNow={handlePayNow}
+          onSwitchToCod={handleSwitchToCod}
+          onTrackShipment={handleTrackShipment}
+          onConfirmReceipt={handleConfirmReceipt}
+          onBuyAgain={handleBuyAgain}
+          getItemReturn={getItemReturn}
+          isPaying={payingOrderId === selectedOrder.id}
+        />
+      )}
+
+      {reviewingItem && (
+        <ReviewComposerModal
+          item={reviewingItem}
+          review={getItemReview(reviewingItem)}
+          onClose={() => setReviewingItem(null)}
+          onSubmit={handleSubmitReview}
+          onDelete={handleDeleteReview}
         />
       )}
 
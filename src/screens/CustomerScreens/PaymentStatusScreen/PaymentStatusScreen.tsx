@@ -0,0 +1,378 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Button } from 'react-native-paper';
+import { BottomTabParamList } from '../../../navigation/BottomTabNavigator';
+import { CustomerStackParamList } from '../../../navigation/CustomerStackNavigator';
+import { getCustomerOrderById } from '../../../services/orderService';
+import { CustomerOrder } from '../../../types/order';
+import {
+  clearPaymentSession,
+  getPaymentSession,
+  openPayOSCheckout,
+} from '../../../utils/paymentSession';
+
+const ORANGE = '#FF6A00';
+
+// Poll mỗi 3 giây, tối đa ~2 phút
+const POLL_INTERVAL_MS = 3000;
+const MAX_POLL_ATTEMPTS = 40;
+
+const formatCurrencyVND = (value: number) =>
+  new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+
+type PaymentState = 'checking' | 'paid' | 'failed' | 'cancelled' | 'timeout' | 'error';
+
+type PaymentStatusRouteProp = RouteProp<CustomerStackParamList, 'PaymentStatus'>;
+type PaymentStatusNavigationProp = NativeStackNavigationProp<
+  CustomerStackParamList,
+  'PaymentStatus'
+>;
+
+const STATE_CONTENT: Record<
+  PaymentState,
+  {
+    icon: keyof typeof MaterialCommunityIcons.glyphMap;
+    color: string;
+    title: string;
+    description: string;
+  }
+> = {
+  checking: {
+    icon: 'timer-sand',
+    color: ORANGE,
+    title: 'Đang xác nhận thanh toán',
+    description: 'Vui lòng chờ trong giây lát, chúng tôi đang kiểm tra kết quả từ PayOS.',
+  },
+  paid: {
+    icon: 'check-circle',
+    color: '#4CAF50',
+    title: 'Thanh toán thành công',
+    description: 'Đơn hàng của bạn đã được thanh toán và đang được xử lý.',
+  },
+  failed: {
+    icon: 'close-circle',
+    color: '#B3261E',
+    title: 'Đơn hàng đã bị hủy',
+    description: 'Thanh toán không thành công và đơn hàng đã bị hủy.',
+  },
+  cancelled: {
+    icon: 'cancel',
+    color: '#B3261E',
+    title: 'Bạn đã hủy thanh toán',
+    description: 'Đơn hàng vẫn đang chờ thanh toán. Bạn có thể thanh toán lại trước khi đơn bị hủy.',
+  },
+  timeout: {
+    icon: 'clock-alert-outline',
+    color: '#F57C00',
+    title: 'Chưa nhận được kết quả',
+    description:
+      'Hệ thống chưa ghi nhận thanh toán. Nếu bạn đã thanh toán, vui lòng kiểm tra lại sau ít phút.',
+  },
+  error: {
+    icon: 'alert-circle-outline',
+    color: '#B3261E',
+    title: 'Không tìm thấy đơn hàng',
+    description: 'Không thể xác định đơn hàng cần kiểm tra. Vui lòng xem lại trong danh sách đơn hàng.',
+  },
+};
+
+const PaymentStatusScreen: React.FC = () => {
+  const navigation = useNavigation<PaymentStatusNavigationProp>();
+  const route = useRoute<PaymentStatusRouteProp>();
+  const [paymentState, setPaymentState] = useState<PaymentState>('checking');
+  const [order, setOrder] = useState<CustomerOrder | null>(null);
+  const [orderId, setOrderId] = useState<string | null>(route.params?.orderId ?? null);
+  const [checkoutUrl, setCheckoutUrl] = useState<string | null>(null);
+  const [isReopening, setIsReopening] = useState(false);
+
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const attemptsRef = useRef(0);
+  const isMountedRef = useRef(true);
+  // Mỗi lần bắt đầu / dừng poll tăng run - request đang chạy của vòng cũ tự bỏ kết quả
+  const pollRunRef = useRef(0);
+
+  const stopPolling = useCallback(() => {
+    pollRunRef.current += 1;
+    if (pollTimerRef.current) {
+      clearTimeout(pollTimerRef.current);
+      pollTimerRef.current = null;
+    }
+  }, []);
+
+  // Kiểm tra trạng thái đơn, lặp lại cho đến khi đơn rời UNPAID
+  const pollOrder = useCallback(
+    async (targetOrderId: string, stopWhenUnpaid: boolean, runId: number) => {
+      attemptsRef.current += 1;
+      const isStale = () => !isMountedRef.current || pollRunRef.current !== runId;
+
+      try {
+        const latest = await getCustomerOrderById(targetOrderId);
+        if (isStale()) {
+          return;
+        }
+
+        if (!latest) {
+          setPaymentState('error');
+          return;
+        }
+
+        setOrder(latest);
+
+        if (latest.status === 'CANCELLED') {
+          setPaymentState('failed');
+          await clearPaymentSession();
+          return;
+        }
+
+        if (latest.status !== 'UNPAID') {
+          setPaymentState('paid');
+          await clearPaymentSession();
+          return;
+        }
+
+        // User đã hủy trên PayOS - không cần poll tiếp
+        if (stopWhenUnpaid) {
+          setPaymentState('cancelled');
+          return;
+        }
+      } catch (error) {
+        console.error('[PaymentStatusScreen] Failed to load order:', error);
+        if (isStale()) {
+          return;
+        }
+      }
+
+      if (attemptsRef.current >= MAX_POLL_ATTEMPTS) {
+        setPaymentState('timeout');
+        return;
+      }
+
+      pollTimerRef.current = setTimeout(() => {
+        pollTimerRef.current = null;
+        pollOrder(targetOrderId, false, runId);
+      }, POLL_INTERVAL_MS);
+    },
+    [],
+  );
+
+  const startPolling = useCallback(
+    (targetOrderId: string, stopWhenUnpaid = false) => {
+      // Dừng vòng cũ (kể cả request đang chờ) trước khi bắt đầu vòng mới
+      stopPolling();
+      const runId = pollRunRef.current;
+      attemptsRef.current = 0;
+      setPaymentState('checking');
+      pollOrder(targetOrderId, stopWhenUnpaid, runId);
+    },
+    [pollOrder, stopPolling],
+  );
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  // Lấy orderId từ params hoặc từ phiên thanh toán đã lưu
+  useEffect(() => {
+    let cancelled = false;
+
+    const resolveOrder = async () => {
+      const session = await getPaymentSession();
+      if (cancelled) {
+        return;
+      }
+
+      const targetOrderId = route.params?.orderId ?? session?.orderId ?? null;
+      setOrderId(targetOrderId);
+      setCheckoutUrl(session?.checkoutUrl ?? null);
+
+      if (!targetOrderId) {
+        setPaymentState('error');
+        return;
+      }
+
+      startPolling(targetOrderId, route.params?.result === 'cancel');
+    };
+
+    resolveOrder();
+
+    return () => {
+      cancelled = true;
+      stopPolling();
+    };
+  }, [route.params?.orderId, route.params?.result, startPolling, stopPolling]);
+
+  const handleRetryPayment = useCallback(async () => {
+    if (!checkoutUrl || !orderId) {
+      return;
+    }
+
+    try {
+      setIsReopening(true);
+      const result = await openPayOSCheckout(checkoutUrl);
+      if (!isMountedRef.current) {
+        return;
+      }
+      startPolling(orderId, result === 'cancel');
+    } catch (error) {
+      console.error('[PaymentStatusScreen] Failed to open PayOS:', error);
+    } finally {
+      if (isMountedRef.current) {
+        setIsReopening(false);
+      }
+    }
+  }, [checkoutUrl, orderId, startPolling]);
+
+  const handleViewOrder = useCallback(() => {
+    navigation.navigate('Orders', orderId ? { orderId } : undefined);
+  }, [navigation, orderId]);
+
+  const handleContinueShopping = useCallback(() => {
+    navigation.getParent<BottomTabNavigationProp<BottomTabParamList>>()?.navigate('Home');
+  }, [navigation]);
+
+  const content = STATE_CONTENT[paymentState];
+  const canRetryPayment =
+    !!checkoutUrl && (paymentState === 'cancelled' || paymentState === 'timeout');
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialCommunityIcons name="arrow-left" size={22} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Kết quả thanh toán</Text>
+        <View style={{ width: 30 }} />
+      </View>
+
+      <View style={styles.content}>
+        {paymentState === 'checking' ? (
+          <ActivityIndicator size="large" color={ORANGE} style={styles.statusIcon} />
+        ) : (
+          <MaterialCommunityIcons
+            name={content.icon}
+            size={72}
+            color={content.color}
+            style={styles.statusIcon}
+          />
+        )}
+        <Text style={styles.title}>{content.title}</Text>
+        <Text style={styles.description}>{content.description}</Text>
+
+        {order && (
+          <View style={styles.orderCard}>
+            <View style={styles.orderRow}>
+              <Text style={styles.orderLabel}>Mã đơn hàng</Text>
+              <Text style={styles.orderValue}>{order.orderCode || order.id}</Text>
+            </View>
+            <View style={styles.orderRow}>
+              <Text style={styles.orderLabel}>Tổng thanh toán</Text>
+              <Text style={[styles.orderValue, styles.orderTotal]}>
+                {formatCurrencyVND(order.grandTotal)}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        <View style={styles.actions}>
+          {canRetryPayment && (
+            <Button
+              mode="contained"
+              onPress={handleRetryPayment}
+              loading={isReopening}
+              disabled={isReopening}
+              style={styles.primaryButton}
+              labelStyle={styles.primaryButtonLabel}
+            >
+              Thanh toán lại
+            </Button>
+          )}
+          {paymentState === 'timeout' && orderId && (
+            <Button
+              mode="outlined"
+              onPress={() => startPolling(orderId)}
+              style={styles.secondaryButton}
+              textColor={ORANGE}
+            >
+              Kiểm tra lại
+            </Button>
+          )}
+          {paymentState !== 'checking' && (
+            <Button
+              mode={canRetryPayment ? 'outlined' : 'contained'}
+              onPress={handleViewOrder}
+              style={canRetryPayment ? styles.secondaryButton : styles.primaryButton}
+              textColor={canRetryPayment ? ORANGE : undefined}
+              labelStyle={canRetryPayment ? undefined : styles.primaryButtonLabel}
+            >
+              Xem đơn hàng
+            </Button>
+          )}
+          {paymentState === 'paid' && (
+            <Button mode="text" onPress={handleContinueShopping} textColor={ORANGE}>
+              Tiếp tục mua sắm
+            </Button>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+};
+
+export default PaymentStatusScreen;
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#F7F7F7' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    paddingTop: 50,
+    backgroundColor: ORANGE,
+  },
+  backButton: { padding: 4 },
+  headerTitle: { color: '#FFF', fontSize: 18, fontWeight: '700' },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingTop: 48,
+  },
+  statusIcon: { marginBottom: 16 },
+  title: { fontSize: 20, fontWeight: '700', color: '#222', textAlign: 'center' },
+  description: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 8,
+    lineHeight: 20,
+  },
+  orderCard: {
+    alignSelf: 'stretch',
+    backgroundColor: '#FFF',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 24,
+  },
+  orderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  orderLabel: { fontSize: 14, color: '#666' },
+  orderValue: { fontSize: 14, fontWeight: '600', color: '#222' },
+  orderTotal: { color: ORANGE, fontWeight: '700' },
+  actions: { alignSelf: 'stretch', marginTop: 32, gap: 12 },
+  primaryButton: { backgroundColor: ORANGE, borderRadius: 12 },
+  primaryButtonLabel: { fontWeight: '700', fontSize: 16 },
+  secondaryButton: { borderColor: ORANGE, borderRadius: 12 },
+});
@@ -0,0 +1 @@
+export { default as PaymentStatusScreen } from './PaymentStatusScreen';
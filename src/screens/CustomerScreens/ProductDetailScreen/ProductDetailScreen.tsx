@@ -16,24 +16,40 @@ import {
 } from 'react-native';
 import { Chip, Snackbar } from 'react-native-paper';
 import RenderHTML from 'react-native-render-html';
+import {
+  CompareButton,
+  CompareTray,
+} from '../../../components/CommonScreenComponents/CompareComponents';
+import { WishlistButton } from '../../../components/CommonScreenComponents/WishlistComponents';
+import RatingHistogram from '../../../components/CustomerScreenComponents/ProductDetailComponents/RatingHistogram';
+import ReviewFilterBar from '../../../components/CustomerScreenComponents/ProductDetailComponents/ReviewFilterBar';
+import ReviewMediaGallery from '../../../components/CustomerScreenComponents/ProductDetailComponents/ReviewMediaGallery';
 import StoreInfo from '../../../components/CustomerScreenComponents/ProductDetailComponents/StoreInfo';
-import { useAuth } from '../../../context/AuthContext';
+import { VoucherCollectList } from '../../../components/CustomerScreenComponents/VoucherComponents';
+import { useCart } from '../../../context/CartContext';
+import { MAX_COMPARE_ITEMS } from '../../../context/CompareContext';
 import { ProductStackParamList } from '../../../navigation/ProductStackNavigator';
-import {
-  addItemsToCart,
-  getCustomerCart,
-  updateQuantityWithVouchers,
-} from '../../../services/cartService';
 import { getProductById, getProductVouchers } from '../../../services/productService';
-import { getProductReviews } from '../../../services/reviewService';
-import { CartItem } from '../../../types/cart';
+import { getProductReviews, getReviewSummary } from '../../../services/reviewService';
+import { getShopVouchersByStore } from '../../../services/voucherService';
 import { PlatformCampaign, ProductDetail, ProductVariant } from '../../../types/product';
-import { Review } from '../../../types/review';
+import {
+  Review,
+  ReviewFilter,
+  ReviewMedia,
+  ReviewSort,
+  ReviewSummary,
+} from '../../../types/review';
+import { ShopVoucher } from '../../../types/voucher';
+import { WishlistProductInput } from '../../../types/wishlist';
 import { cleanHtmlContent } from '../../../utils/htmlUtils';
 import { calculateProductPrice } from '../../../utils/productPriceCalculator';
+import { DEFAULT_REVIEW_FILTER, getReviewVariantOptions } from '../../../utils/reviewUtils';
+import { isVoucherApplicableToProduct } from '../../../utils/voucherWallet';
 
 const { width } = Dimensions.get('window');
 const ORANGE = '#FF6A00';
+const REVIEWS_PAGE_SIZE = 10;
 
 type ProductDetailRouteProp = RouteProp<ProductStackParamList, 'ProductDetail'>;
 
@@ -54,9 +70,9 @@ const ProductDetailScreen: React.FC = () => {
   const route = useRoute<ProductDetailRouteProp>();
   const { productId } = route.params;
 
-  const { authState } = useAuth();
   const [product, setProduct] = useState<ProductDetail | null>(null);
   const [platformCampaigns, setPlatformCampaigns] = useState<PlatformCampaign[]>([]);
+  const [shopVouchers, setShopVouchers] = useState<ShopVoucher[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -69,13 +85,17 @@ const ProductDetailScreen: React.FC = () => {
   const [snackbarMessage, setSnackbarMessage] = useState('');
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [showAnimation, setShowAnimation] = useState(false);
-  const [cartItemsCount, setCartItemsCount] = useState(0);
-  const { isAuthenticated } = useAuth();
+  const { itemCount: cartItemsCount, addItem } = useCart();
   const [reviews, setReviews] = useState<Review[]>([]);
   const [isLoadingReviews, setIsLoadingReviews] = useState(false);
-  const [reviewsPage, setReviewsPage] = useState(0);
-  const [reviewsTotalPages, setReviewsTotalPages] = useState(0);
-  const [hasMoreReviews, setHasMoreReviews] = useState(true);
+  const [reviewPage, setReviewPage] = useState(0);
+  const [hasMoreReviews, setHasMoreReviews] = useState(false);
+  const [reviewSummary, setReviewSummary] = useState<ReviewSummary | null>(null);
+  const [reviewFilter, setReviewFilter] = useState<ReviewFilter>(DEFAULT_REVIEW_FILTER);
+  const [reviewSort, setReviewSort] = useState<ReviewSort>('newest');
+  const [galleryMedia, setGalleryMedia] = useState<{ media: ReviewMedia[]; index: number } | null>(
+    null,
+  );
   
   // Animation refs
   const animatedValue = useRef(new Animated.Value(0)).current;
@@ -204,78 +224,101 @@ const ProductDetailScreen: React.FC = () => {
     loadProduct();
   }, [loadProduct]);
 
-  // Load cart count
-  const loadCartCount = useCallback(async () => {
-    const customerId = authState.decodedToken?.customerId;
-    const accessToken = authState.accessToken;
+  // Request mới nhất - bỏ kết quả của bộ lọc / sắp xếp cũ trả về muộn
+  const reviewRequestRef = useRef(0);
 
-    if (!customerId || !accessToken || !isAuthenticated) {
-      setCartItemsCount(0);
-      return;
-    }
-
-    try {
-      const cart = await getCustomerCart({ customerId, accessToken });
-      const count = cart?.items?.length ?? 0;
-      setCartItemsCount(count);
-    } catch (error) {
-      console.error('[ProductDetailScreen] Failed to load cart count:', error);
-      setCartItemsCount(0);
-    }
-  }, [authState.decodedToken?.customerId, authState.accessToken, isAuthenticated]);
-
-  useEffect(() => {
-    if (isAuthenticated) {
-      loadCartCount();
-      // Reload cart count after adding to cart
-      const intervalId = setInterval(() => {
-        loadCartCount();
-      }, 30000);
-      return () => clearInterval(intervalId);
-    } else {
-      setCartItemsCount(0);
-    }
-  }, [isAuthenticated, loadCartCount]);
-
-  // Load reviews
+  // Load reviews theo từng trang, lọc và sắp xếp phía server
   const loadReviews = useCallback(
-    async (pageNum: number = 0, append: boolean = false) => {
+    async (page: number) => {
       if (!productId) return;
 
+      const requestId = ++reviewRequestRef.current;
       try {
         setIsLoadingReviews(true);
         const response = await getProductReviews(productId, {
-          page: pageNum,
-          size: 10,
+          page,
+          size: REVIEWS_PAGE_SIZE,
+          ...reviewFilter,
+          sort: reviewSort,
         });
-
-        if (append) {
-          setReviews((prev) => [...prev, ...response.content]);
-        } else {
-          setReviews(response.content);
-        }
-
-        setReviewsPage(response.number);
-        setReviewsTotalPages(response.totalPages);
-        setHasMoreReviews(!response.last);
+        if (requestId !== reviewRequestRef.current) return;
+        const content = response.content || [];
+        setReviews((prev) => (page === 0 ? content : [...prev, ...content]));
+        setReviewPage(page);
+        setHasMoreReviews(!response.last && content.length > 0);
       } catch (error) {
         console.error('[ProductDetailScreen] Failed to load reviews:', error);
-        if (!append) {
+        if (requestId !== reviewRequestRef.current) return;
+        // Trang sau lỗi thì giữ các trang đã tải
+        if (page === 0) {
           setReviews([]);
+          setHasMoreReviews(false);
+        } else {
+          setSnackbarMessage('Không thể tải thêm đánh giá. Vui lòng thử lại.');
+          setSnackbarVisible(true);
         }
       } finally {
-        setIsLoadingReviews(false);
+        if (requestId === reviewRequestRef.current) {
+          setIsLoadingReviews(false);
+        }
       }
     },
-    [productId],
+    [productId, reviewFilter, reviewSort],
   );
 
+  // Đổi bộ lọc / sắp xếp thì tải lại từ trang đầu
   useEffect(() => {
     if (productId) {
-      loadReviews(0, false);
+      loadReviews(0);
     }
   }, [productId, loadReviews]);
 
+  // Thống kê số sao / số review có media - lỗi thì chỉ ẩn biểu đồ
+  useEffect(() => {
+    if (!productId) return;
+    let cancelled = false;
+    setReviewSummary(null);
+    getReviewSummary(productId)
+      .then((summary) => {
+        if (!cancelled) {
+          setReviewSummary(summary);
+        }
+      })
+      .catch((error) => {
+        console.warn('[ProductDetailScreen] Failed to load review summary:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [productId]);
+
+  // Voucher shop áp dụng cho sản phẩm này (để lưu vào ví)
+  const productStoreId = product?.storeId;
+  useEffect(() => {
+    if (!productStoreId) {
+      setShopVouchers([]);
+      return;
+    }
+    let cancelled = false;
+    getShopVouchersByStore(productStoreId).then((vouchers) => {
+      if (!cancelled) {
+        setShopVouchers(
+          vouchers.filter((voucher) => isVoucherApplicableToProduct(voucher, productId)),
+        );
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [productStoreId, productId]);
+
+  const reviewVariantOptions = useMemo(
+    () => getReviewVariantOptions(product?.variants),
+    [product?.variants],
+  );
+  const hasAnyReviews =
+    (reviewSummary?.histogram.total ?? 0) > 0 || (product?.reviewCount ?? 0) > 0 || reviews.length > 0;
+
   // Calculate pricing using utility function (must be before early returns)
   const pricing = useMemo(() => {
     if (!product) {
@@ -315,6 +358,29 @@ const ProductDetailScreen: React.FC = () => {
     return product.images?.[selectedImageIndex] || product.images?.[0] || '';
   }, [product, hoveredVariantImage, selectedVariant, selectedImageIndex]);
 
+  // Snapshot lưu vào wishlist (giá/kho hiện tại để báo giảm giá, có hàng lại)
+  const wishlistProduct = useMemo<WishlistProductInput | null>(() => {
+    if (!product) return null;
+    const hasVariants = !!product.variants && product.variants.length > 0;
+    const inStock = selectedVariant
+      ? selectedVariant.variantStock > 0
+      : hasVariants
+        ? product.variants.some((variant) => variant.variantStock > 0)
+        : product.stockQuantity > 0;
+
+    return {
+      productId: product.productId,
+      variantId: selectedVariant?.variantId ?? null,
+      name: product.name,
+      image: selectedVariant?.variantUrl || product.images?.[0] || '',
+      price: pricing.displayPrice,
+      inStock,
+      storeId: product.storeId,
+      storeName: product.storeName,
+      status: product.status,
+    };
+  }, [product, selectedVariant, pricing.displayPrice]);
+
   /**
    * Handle variant selection
    * Logic:
@@ -410,24 +476,9 @@ const ProductDetailScreen: React.FC = () => {
     ]).start();
   };
 
-  const handleAddToCart = async () => {
+  const handleAddToCart = () => {
     if (!product) return;
 
-    const customerId = authState.decodedToken?.customerId;
-    const accessToken = authState.accessToken;
-
-    if (!customerId || !accessToken) {
-      // Navigate to Profile tab (which will show Login screen if not authenticated)
-      const tabNavigator = navigation.getParent();
-      if (tabNavigator) {
-        // @ts-ignore - navigate to Profile tab
-        tabNavigator.navigate('Profile');
-      }
-      setSnackbarMessage('Vui lòng đăng nhập để thêm sản phẩm vào giỏ hàng');
-      setSnackbarVisible(true);
-      return;
-    }
-
     // Validate variant selection
     if (product.variants && product.variants.length > 0 && !selectedVariant) {
       setSnackbarMessage('Vui lòng chọn biến thể trước khi thêm vào giỏ hàng');
@@ -435,97 +486,48 @@ const ProductDetailScreen: React.FC = () => {
       return;
     }
 
-    try {
-      setIsAddingToCart(true);
-
-      // Step 1: Load current cart to check if item already exists
-      let existingCartItem = null;
-      try {
-        const currentCart = await getCustomerCart({ customerId, accessToken });
-
-        // Find existing item with same productId/variantId
-        existingCartItem = currentCart.items.find((item: CartItem) => {
-          // Match by variantId if both have variantId
-          if (selectedVariant?.variantId && item.variantId) {
-            return item.variantId === selectedVariant.variantId && item.refId === product.productId;
-          }
-          // Match by productId if no variant
-          if (!selectedVariant && !item.variantId) {
-            return item.refId === product.productId;
-          }
-          return false;
-        });
-      } catch (error) {
-        console.warn('[ProductDetailScreen] Failed to load cart, will add new item', error);
-        // Continue to add new item if cart load fails
-      }
+    setIsAddingToCart(true);
+
+    // Cập nhật giỏ trên máy ngay, CartContext đồng bộ nền (đã có trong giỏ thì tăng số lượng)
+    // Khách chưa đăng nhập: giữ trên máy, gộp vào giỏ tài khoản khi đăng nhập
+    addItem(
+      {
+        type: selectedComboId ? 'COMBO' : 'PRODUCT',
+        productId:
+          product.variants && product.variants.length > 0
+            ? ''
+            : selectedComboId
+            ? ''
+            : product.productId,
+        variantId: selectedVariant?.variantId || '',
+        comboId: selectedComboId || '',
+        quantity: 1,
+      },
+      {
+        productId: product.productId,
+        name: product.name,
+        image: selectedVariant?.variantUrl || product.images?.[0] || '',
+        unitPrice: pricing.displayPrice,
+        baseUnitPrice: pricing.hasDiscount ? pricing.originalPrice : null,
+        variantOptionName: selectedVariant?.optionName ?? null,
+        variantOptionValue: selectedVariant?.optionValue ?? null,
+      },
+    );
 
-      // Step 2: If item exists, update quantity; otherwise add new item
-      if (existingCartItem) {
-        // Item already exists, update quantity
-        const newQuantity = existingCartItem.quantity + 1;
-        await updateQuantityWithVouchers({
-          customerId,
-          accessToken,
-          payload: {
-            cartItemId: existingCartItem.cartItemId,
-            quantity: Math.min(newQuantity, 99), // Clamp to max 99
-            storeVouchers: null,
-            platformVouchers: null,
-            serviceTypeIds: null,
-          },
-        });
-      } else {
-        // Item doesn't exist, add new item
-        const items = [
-          {
-            type: 'PRODUCT' as const,
-            productId:
-              product.variants && product.variants.length > 0
-                ? ''
-                : selectedComboId
-                ? ''
-                : product.productId,
-            variantId: selectedVariant?.variantId || '',
-            comboId: selectedComboId || '',
-            quantity: 1,
-          },
-        ];
-
-        await addItemsToCart({
-          customerId,
-          accessToken,
-          payload: { items },
-        });
-      }
+    // Start animation
+    startAddToCartAnimation();
 
-      // Reload cart count after adding
-      await loadCartCount();
-
-      // Start animation
-      startAddToCartAnimation();
-      
-      // Show success modal after animation
-      setTimeout(() => {
-        setShowSuccessModal(true);
-        setShowAnimation(false);
-        // Reset animation values
-        animatedValue.setValue(0);
-        scaleAnim.setValue(1);
-        translateX.setValue(0);
-        translateY.setValue(0);
-      }, 1000);
-    } catch (error: any) {
-      console.error('[ProductDetailScreen] addToCart failed', error);
-      const message =
-        error?.response?.status === 401
-          ? 'Phiên đăng nhập đã hết hạn. Vui lòng đăng nhập lại.'
-          : error?.response?.data?.message || 'Không thể thêm vào giỏ hàng. Vui lòng thử lại.';
-      setSnackbarMessage(message);
-      setSnackbarVisible(true);
-    } finally {
+    // Show success modal after animation
+    setTimeout(() => {
+      setShowSuccessModal(true);
+      setShowAnimation(false);
       setIsAddingToCart(false);
-    }
+      // Reset animation values
+      animatedValue.setValue(0);
+      scaleAnim.setValue(1);
+      translateX.setValue(0);
+      translateY.setValue(0);
+    }, 1000);
   };
 
   // Loading state - show skeleton/loader
@@ -605,6 +607,39 @@ const ProductDetailScreen: React.FC = () => {
         {product.images && product.images.length > 0 && (
           <View style={styles.imageSection}>
             <Image source={{ uri: mainImage }} style={styles.mainImage} resizeMode="contain" />
+            {wishlistProduct && (
+              <WishlistButton
+                product={wishlistProduct}
+                size={24}
+                style={styles.wishlistButton}
+                onToggled={(added) => {
+                  setSnackbarMessage(
+                    added ? 'Đã thêm vào danh sách yêu thích' : 'Đã bỏ khỏi danh sách yêu thích',
+                  );
+                  setSnackbarVisible(true);
+                }}
+              />
+            )}
+            <CompareButton
+              product={{
+                productId: product.productId,
+                name: product.name,
+                image: product.images?.[0] || '',
+                categoryName: product.categoryName,
+              }}
+              size={22}
+              style={styles.compareButton}
+              onToggled={(result) => {
+                setSnackbarMessage(
+                  result === 'full'
+                    ? `Chỉ so sánh được tối đa ${MAX_COMPARE_ITEMS} sản phẩm`
+                    : result === 'added'
+                      ? 'Đã thêm vào danh sách so sánh'
+                      : 'Đã bỏ khỏi danh sách so sánh',
+                );
+                setSnackbarVisible(true);
+              }}
+            />
             {product.images.length > 1 && (
               <ScrollView
                 horizontal
@@ -736,6 +771,20 @@ const ProductDetailScreen: React.FC = () => {
           )}
         </View>
 
+        {/* Shop Vouchers */}
+        <VoucherCollectList
+          vouchers={shopVouchers}
+          style={styles.voucherSection}
+          onRequireLogin={() => {
+            // @ts-ignore
+            navigation.navigate('Auth', { screen: 'Login' });
+          }}
+          onMessage={(message) => {
+            setSnackbarMessage(message);
+            setSnackbarVisible(true);
+          }}
+        />
+
         {/* Variants Selector */}
         {product.variants && product.variants.length > 0 && (
           <View style={styles.section}>
@@ -1469,8 +1518,27 @@ const ProductDetailScreen: React.FC = () => {
         {/* Reviews Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>
-            Đánh giá ({product.reviewCount || reviews.length})
+            Đánh giá ({product.reviewCount || reviewSummary?.histogram.total || reviews.length})
           </Text>
+          {hasAnyReviews && (
+            <>
+              {reviewSummary && reviewSummary.histogram.total > 0 && (
+                <RatingHistogram
+                  histogram={reviewSummary.histogram}
+                  selectedRating={reviewFilter.rating}
+                  onSelectRating={(rating) => setReviewFilter((prev) => ({ ...prev, rating }))}
+                />
+              )}
+              <ReviewFilterBar
+                filter={reviewFilter}
+                sort={reviewSort}
+                variantOptions={reviewVariantOptions}
+                mediaCount={reviewSummary?.mediaCount ?? 0}
+                onChangeFilter={setReviewFilter}
+                onChangeSort={setReviewSort}
+              />
+            </>
+          )}
           {isLoadingReviews && reviews.length === 0 ? (
             <View style={styles.reviewsLoadingContainer}>
               <ActivityIndicator size="small" color={ORANGE} />
@@ -1479,7 +1547,9 @@ const ProductDetailScreen: React.FC = () => {
           ) : reviews.length === 0 ? (
             <View style={styles.reviewsEmptyContainer}>
               <MaterialCommunityIcons name="comment-outline" size={48} color="#CCCCCC" />
-              <Text style={styles.reviewsEmptyText}>Chưa có đánh giá nào</Text>
+              <Text style={styles.reviewsEmptyText}>
+                {hasAnyReviews ? 'Không có đánh giá phù hợp' : 'Chưa có đánh giá nào'}
+              </Text>
             </View>
           ) : (
             <>
@@ -1541,7 +1611,11 @@ const ProductDetailScreen: React.FC = () => {
                       contentContainerStyle={styles.reviewMediaContent}
                     >
                       {review.media.map((media, index) => (
-                        <View key={index} style={styles.reviewMediaItem}>
+                        <TouchableOpacity
+                          key={index}
+                          style={styles.reviewMediaItem}
+                          onPress={() => setGalleryMedia({ media: review.media || [], index })}
+                        >
                           {media.type === 'IMAGE' ? (
                             <Image source={{ uri: media.url }} style={styles.reviewMediaImage} />
                           ) : (
@@ -1549,7 +1623,7 @@ const ProductDetailScreen: React.FC = () => {
                               <MaterialCommunityIcons name="play-circle" size={32} color="#FFF" />
                             </View>
                           )}
-                        </View>
+                        </TouchableOpacity>
                       ))}
                     </ScrollView>
                   )}
@@ -1580,11 +1654,7 @@ const ProductDetailScreen: React.FC = () => {
               {hasMoreReviews && (
                 <TouchableOpacity
                   style={styles.loadMoreReviewsButton}
-                  onPress={() => {
-                    if (!isLoadingReviews) {
-                      loadReviews(reviewsPage + 1, true);
-                    }
-                  }}
+                  onPress={() => loadReviews(reviewPage + 1)}
                   disabled={isLoadingReviews}
                 >
                   {isLoadingReviews ? (
@@ -1599,6 +1669,14 @@ const ProductDetailScreen: React.FC = () => {
         </View>
       </ScrollView>
 
+      <CompareTray
+        style={styles.compareTray}
+        onCompare={() => {
+          // @ts-ignore - navigate to Compare
+          navigation.navigate('Compare');
+        }}
+      />
+
       {/* Bottom Action Bar */}
       <View style={styles.bottomBar}>
         <TouchableOpacity
@@ -1694,6 +1772,14 @@ const ProductDetailScreen: React.FC = () => {
         </View>
       </Modal>
 
+      {galleryMedia && (
+        <ReviewMediaGallery
+          media={galleryMedia.media}
+          initialIndex={galleryMedia.index}
+          onClose={() => setGalleryMedia(null)}
+        />
+      )}
+
       <Snackbar
         visible={snackbarVisible}
         onDismiss={() => setSnackbarVisible(false)}
@@ -1826,6 +1912,25 @@ const styles = StyleSheet.create({
     height: width,
     backgroundColor: '#F5F5F5',
   },
+  wishlistButton: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+  },
+  compareButton: {
+    position: 'absolute',
+    top: 60,
+    right: 12,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+  },
+  compareTray: {
+    bottom: 84,
+  },
   thumbnailContainer: {
     paddingVertical: 12,
     paddingHorizontal: 16,
@@ -1951,6 +2056,9 @@ const styles = StyleSheet.create({
     padding: 16,
     marginBottom: 8,
   },
+  voucherSection: {
+    marginBottom: 8,
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '700',
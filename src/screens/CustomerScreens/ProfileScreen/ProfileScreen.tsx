@@ -55,6 +55,11 @@ const ProfileScreen = () => {
     { icon: 'account-outline', label: 'Thông tin cá nhân', key: 'profile' },
     { icon: 'map-marker-outline', label: 'Địa chỉ', key: 'address' },
     { icon: 'shopping-outline', label: 'Đơn hàng của tôi', key: 'orders' },
+    { icon: 'keyboard-return', label: 'Trả hàng / Hoàn tiền', key: 'returns' },
+    { icon: 'heart-outline', label: 'Sản phẩm yêu thích', key: 'wishlist' },
+    { icon: 'ticket-percent-outline', label: 'Ví voucher', key: 'vouchers' },
+    { icon: 'crown-outline', label: 'Hạng thành viên', key: 'membership' },
+    { icon: 'star-circle-outline', label: 'Điểm thưởng', key: 'loyalty' },
     { icon: 'cog-outline', label: 'Cài đặt', key: 'settings' },
   ];
 
@@ -87,12 +92,8 @@ const ProfileScreen = () => {
       setIsLoadingOrders(true);
       // Fetch page đầu tiên để biết tổng số pages
       const firstPageResult = await getCustomerOrders({
-        customerId,
-        accessToken,
-        params: {
-          page: 0,
-          size: 100, // Fetch 100 orders mỗi page để giảm số lần gọi API
-        },
+        page: 0,
+        size: 100, // Fetch 100 orders mỗi page để giảm số lần gọi API
       });
 
       let allOrders: CustomerOrder[] = [...firstPageResult.data];
@@ -106,12 +107,8 @@ const ProfileScreen = () => {
         
         const remainingPromises = remainingPages.map((page) =>
           getCustomerOrders({
-            customerId,
-            accessToken,
-            params: {
-              page,
-              size: 100,
-            },
+            page,
+            size: 100,
           }),
         );
 
@@ -291,11 +288,7 @@ const ProfileScreen = () => {
         preferredCategory: profile.preferredCategory,
       };
 
-      const updatedProfile = await updateCustomerProfile({
-        customerId,
-        accessToken,
-        payload,
-      });
+      const updatedProfile = await updateCustomerProfile(payload);
 
       // Update context
       updateProfileInContext(updatedProfile);
@@ -345,6 +338,17 @@ const ProfileScreen = () => {
                     {profile.phoneNumber}
                   </Text>
                 )}
+                {profile?.loyaltyLevel && (
+                  <Chip
+                    icon="crown-outline"
+                    compact
+                    style={styles.tierChip}
+                    textStyle={{ fontWeight: '700' }}
+                    onPress={() => navigation.navigate('Membership' as never)}
+                  >
+                    Hạng {profile.loyaltyLevel}
+                  </Chip>
+                )}
           </View>
         </View>
             {isAuthenticated && (
@@ -643,6 +647,15 @@ const ProfileScreen = () => {
               <React.Fragment key={item.key}>
                 <List.Item
                   title={item.label}
+                  description={
+                    item.key === 'vouchers' && profile?.voucherCount
+                      ? `${profile.voucherCount} voucher trong ví`
+                      : item.key === 'membership' && profile?.loyaltyLevel
+                        ? profile.loyaltyLevel
+                        : item.key === 'loyalty' && profile
+                          ? `${profile.loyaltyPoints} điểm`
+                          : undefined
+                  }
                   left={(props) => <List.Icon {...props} icon={item.icon as any} />}
                   right={(props) => <List.Icon {...props} icon="chevron-right" />}
                   onPress={() => {
@@ -650,6 +663,16 @@ const ProfileScreen = () => {
                       navigation.navigate('AddressList' as never);
                     } else if (item.key === 'orders') {
                       navigation.navigate('Orders' as never);
+                    } else if (item.key === 'returns') {
+                      navigation.navigate('Returns' as never);
+                    } else if (item.key === 'wishlist') {
+                      navigation.navigate('Wishlist' as never);
+                    } else if (item.key === 'vouchers') {
+                      navigation.navigate('VoucherWallet' as never);
+                    } else if (item.key === 'membership') {
+                      navigation.navigate('Membership' as never);
+                    } else if (item.key === 'loyalty') {
+                      navigation.navigate('LoyaltyPoints' as never);
                     }
                   }}
                 />
@@ -716,6 +739,11 @@ const styles = StyleSheet.create({
   chip: {
     backgroundColor: '#FFF3EB',
   },
+  tierChip: {
+    alignSelf: 'flex-start',
+    marginTop: 6,
+    backgroundColor: '#FFF3EB',
+  },
   logoutButton: {
     marginTop: 16,
     borderRadius: 10,
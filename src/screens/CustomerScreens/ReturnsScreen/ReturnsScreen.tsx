@@ -0,0 +1,647 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { RouteProp, useFocusEffect, useNavigation, useRoute } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Image,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Button, Chip, Snackbar } from 'react-native-paper';
+import ReviewMediaGallery from '../../../components/CustomerScreenComponents/ProductDetailComponents/ReviewMediaGallery';
+import ReturnShippingProofModal from '../../../components/CustomerScreenComponents/ReturnComponents/ReturnShippingProofModal';
+import { CustomerStackParamList } from '../../../navigation/CustomerStackNavigator';
+import {
+  cancelReturnRequest,
+  getMyReturnRequests,
+  submitReturnShippingProof,
+} from '../../../services/orderService';
+import { ReturnReasonType, ReturnRequest, ReturnShippingProofRequest } from '../../../types/order';
+import { ReviewMedia } from '../../../types/review';
+import {
+  buildReturnProgress,
+  getReturnStatusColor,
+  getReturnStatusLabel,
+  ReturnStep,
+} from '../../../utils/returnStatus';
+
+const ORANGE = '#FF6A00';
+
+const formatCurrencyVND = (value: number) =>
+  new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('vi-VN', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const reasonLabels: Record<ReturnReasonType, string> = {
+  DEFECTIVE: 'Sản phẩm bị lỗi',
+  WRONG_ITEM: 'Sai sản phẩm',
+  NOT_AS_DESCRIBED: 'Không đúng mô tả',
+  DAMAGED: 'Sản phẩm bị hỏng',
+  OTHER: 'Lý do khác',
+};
+
+const STEP_COLORS: Record<ReturnStep['state'], string> = {
+  done: '#4CAF50',
+  current: ORANGE,
+  upcoming: '#BDBDBD',
+  failed: '#F44336',
+};
+
+// Chỉ nhập/sửa thông tin gửi trả khi cửa hàng đã chấp nhận và chưa nhận lại hàng
+const canSubmitShippingProof = (request: ReturnRequest) =>
+  request.status === 'APPROVED' || request.status === 'SHIPPING_BACK';
+
+const getReturnTitle = (request: ReturnRequest) => {
+  const firstName =
+    request.itemName || request.items?.[0]?.itemName || `Sản phẩm #${request.orderItemId.slice(0, 8)}`;
+  const otherCount = (request.items?.length ?? 1) - 1;
+  return otherCount > 0 ? `${firstName} và ${otherCount} sản phẩm khác` : firstName;
+};
+
+const getEvidenceMedia = (request: ReturnRequest): ReviewMedia[] => [
+  ...(request.images ?? []).map((url) => ({ type: 'IMAGE' as const, url })),
+  ...(request.video ? [{ type: 'VIDEO' as const, url: request.video }] : []),
+];
+
+type ReturnsScreenRouteProp = RouteProp<CustomerStackParamList, 'Returns'>;
+type ReturnsScreenNavigationProp = NativeStackNavigationProp<CustomerStackParamList, 'Returns'>;
+
+const ReturnsScreen: React.FC = () => {
+  const navigation = useNavigation<ReturnsScreenNavigationProp>();
+  const route = useRoute<ReturnsScreenRouteProp>();
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(route.params?.returnId ?? null);
+  const [proofRequest, setProofRequest] = useState<ReturnRequest | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [gallery, setGallery] = useState<{ media: ReviewMedia[]; index: number } | null>(null);
+  const [snackbarMessage, setSnackbarMessage] = useState('');
+
+  const loadReturns = useCallback(async () => {
+    try {
+      const data = await getMyReturnRequests();
+      setReturns(data);
+    } catch (error: any) {
+      console.error('[ReturnsScreen] Failed to load returns:', error);
+      setSnackbarMessage(error?.message || 'Không thể tải danh sách hoàn trả');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadReturns();
+    }, [loadReturns]),
+  );
+
+  // Mở sẵn yêu cầu được chọn từ màn hình đơn hàng
+  useEffect(() => {
+    if (route.params?.returnId) {
+      setExpandedId(route.params.returnId);
+    }
+  }, [route.params?.returnId]);
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadReturns();
+  };
+
+  const replaceReturn = (updated: ReturnRequest) => {
+    setReturns((prev) => prev.map((item) => (item.id === updated.id ? { ...item, ...updated } : item)));
+  };
+
+  const handleCancel = (request: ReturnRequest) => {
+    Alert.alert('Hủy yêu cầu hoàn trả', 'Bạn có chắc chắn muốn hủy yêu cầu hoàn trả này?', [
+      { text: 'Không', style: 'cancel' },
+      {
+        text: 'Hủy yêu cầu',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setCancellingId(request.id);
+            const updated = await cancelReturnRequest(request.id);
+            replaceReturn(updated ?? { ...request, status: 'CANCELLED' });
+            setSnackbarMessage('Đã hủy yêu cầu hoàn trả');
+          } catch (error: any) {
+            setSnackbarMessage(error?.message || 'Không thể hủy yêu cầu hoàn trả. Vui lòng thử lại.');
+          } finally {
+            setCancellingId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleSubmitProof = async (payload: ReturnShippingProofRequest) => {
+    if (!proofRequest) {
+      return;
+    }
+    const updated = await submitReturnShippingProof(proofRequest.id, payload);
+    replaceReturn(
+      updated ?? {
+        ...proofRequest,
+        status: 'SHIPPING_BACK',
+        shippingProof: { ...payload, submittedAt: new Date().toISOString() },
+      },
+    );
+    setProofRequest(null);
+    setSnackbarMessage('Đã gửi thông tin vận chuyển cho cửa hàng');
+  };
+
+  const renderProgress = (request: ReturnRequest) => {
+    const steps = buildReturnProgress(request);
+    return (
+      <View style={styles.progress}>
+        {steps.map((step, index) => {
+          const color = STEP_COLORS[step.state];
+          return (
+            <View key={step.status} style={styles.stepRow}>
+              <View style={styles.stepIndicator}>
+                <View style={[styles.stepDot, { backgroundColor: color }]} />
+                {index < steps.length - 1 && (
+                  <View style={[styles.stepLine, step.state === 'done' && styles.stepLineDone]} />
+                )}
+              </View>
+              <View style={styles.stepContent}>
+                <Text style={[styles.stepTitle, { color: step.state === 'upcoming' ? '#9E9E9E' : color }]}>
+                  {step.title}
+                </Text>
+                {step.time && <Text style={styles.stepTime}>{formatDate(step.time)}</Text>}
+              </View>
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderDetails = (request: ReturnRequest) => {
+    const evidence = getEvidenceMedia(request);
+    return (
+      <View style={styles.details}>
+        {renderProgress(request)}
+
+        {request.items && request.items.length > 0 ? (
+          <>
+            <Text style={styles.detailLabel}>Sản phẩm hoàn trả</Text>
+            {request.items.map((returnItem) => (
+              <View key={returnItem.orderItemId} style={styles.returnItemRow}>
+                <View style={styles.returnItemHeader}>
+                  <Text style={styles.returnItemName} numberOfLines={1}>
+                    {returnItem.itemName || `Sản phẩm #${returnItem.orderItemId.slice(0, 8)}`}
+                  </Text>
+                  <Text style={styles.returnItemQuantity}>x{returnItem.quantity}</Text>
+                </View>
+                <Text style={styles.metaText}>
+                  {reasonLabels[returnItem.reasonType] || returnItem.reasonType}: {returnItem.reason}
+                </Text>
+              </View>
+            ))}
+          </>
+        ) : (
+          <>
+            <Text style={styles.detailLabel}>Lý do</Text>
+            <Text style={styles.detailText}>{request.reason}</Text>
+          </>
+        )}
+
+        {evidence.length > 0 && (
+          <>
+            <Text style={styles.detailLabel}>Bằng chứng đã gửi</Text>
+            <View style={styles.mediaGrid}>
+              {evidence.map((media, index) => (
+                <TouchableOpacity
+                  key={`${media.url}-${index}`}
+                  style={styles.mediaItem}
+                  onPress={() => setGallery({ media: evidence, index })}
+                >
+                  {media.type === 'VIDEO' ? (
+                    <View style={styles.videoPlaceholder}>
+                      <MaterialCommunityIcons name="play-circle-outline" size={28} color="#FFF" />
+                    </View>
+                  ) : (
+                    <Image source={{ uri: media.url }} style={styles.mediaImage} />
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+
+        {request.storeResponse && (
+          <View style={styles.responseBox}>
+            <View style={styles.responseHeader}>
+              <MaterialCommunityIcons name="storefront-outline" size={16} color={ORANGE} />
+              <Text style={styles.responseTitle}>Phản hồi từ cửa hàng</Text>
+            </View>
+            <Text style={styles.detailText}>{request.storeResponse}</Text>
+            {request.storeRespondedAt && (
+              <Text style={styles.stepTime}>{formatDate(request.storeRespondedAt)}</Text>
+            )}
+          </View>
+        )}
+
+        {request.shippingProof && (
+          <View style={styles.proofBox}>
+            <Text style={styles.detailLabel}>Thông tin gửi trả</Text>
+            <Text style={styles.detailText}>
+              {request.shippingProof.carrier ? `${request.shippingProof.carrier} - ` : ''}
+              {request.shippingProof.trackingCode}
+            </Text>
+            {request.shippingProof.submittedAt && (
+              <Text style={styles.stepTime}>Gửi lúc {formatDate(request.shippingProof.submittedAt)}</Text>
+            )}
+            {(request.shippingProof.images?.length ?? 0) > 0 && (
+              <View style={styles.mediaGrid}>
+                {request.shippingProof.images!.map((url, index, urls) => (
+                  <TouchableOpacity
+                    key={`${url}-${index}`}
+                    style={styles.mediaItem}
+                    onPress={() =>
+                      setGallery({ media: urls.map((u) => ({ type: 'IMAGE' as const, url: u })), index })
+                    }
+                  >
+                    <Image source={{ uri: url }} style={styles.mediaImage} />
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
+
+        {request.refundAmount != null && request.refundAmount > 0 && (
+          <View style={styles.refundRow}>
+            <Text style={styles.detailLabel}>Số tiền hoàn</Text>
+            <Text style={styles.refundValue}>{formatCurrencyVND(request.refundAmount)}</Text>
+          </View>
+        )}
+
+        <View style={styles.actionRow}>
+          {request.status === 'PENDING' && (
+            <Button
+              mode="outlined"
+              onPress={() => handleCancel(request)}
+              textColor="#F44336"
+              style={styles.cancelButton}
+              loading={cancellingId === request.id}
+              disabled={cancellingId === request.id}
+            >
+              Hủy yêu cầu
+            </Button>
+          )}
+          {canSubmitShippingProof(request) && (
+            <Button mode="contained" onPress={() => setProofRequest(request)} buttonColor={ORANGE}>
+              {request.shippingProof ? 'Cập nhật vận đơn' : 'Nhập mã vận đơn'}
+            </Button>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderReturn = ({ item }: { item: ReturnRequest }) => {
+    const isExpanded = expandedId === item.id;
+    const statusColor = getReturnStatusColor(item.status);
+    return (
+      <View style={styles.card}>
+        <TouchableOpacity
+          style={styles.cardHeader}
+          onPress={() => setExpandedId(isExpanded ? null : item.id)}
+          activeOpacity={0.7}
+        >
+          {item.itemImage ? (
+            <Image source={{ uri: item.itemImage }} style={styles.itemImage} />
+          ) : (
+            <View style={[styles.itemImage, styles.itemImagePlaceholder]}>
+              <MaterialCommunityIcons name="package-variant" size={24} color="#BDBDBD" />
+            </View>
+          )}
+          <View style={styles.cardInfo}>
+            <Text style={styles.itemName} numberOfLines={2}>
+              {getReturnTitle(item)}
+            </Text>
+            <Text style={styles.metaText}>
+              {item.storeName ? `${item.storeName} · ` : ''}
+              {item.items && item.items.length > 1
+                ? `${item.items.reduce((sum, returnItem) => sum + returnItem.quantity, 0)} sản phẩm`
+                : reasonLabels[item.reasonType] || item.reasonType}
+            </Text>
+            <Text style={styles.metaText}>
+              {item.orderCode ? `Đơn ${item.orderCode} · ` : ''}
+              {formatDate(item.createdAt)}
+            </Text>
+            <Chip
+              style={[styles.statusChip, { backgroundColor: statusColor + '20' }]}
+              textStyle={[styles.statusText, { color: statusColor }]}
+            >
+              {getReturnStatusLabel(item.status)}
+            </Chip>
+          </View>
+          <MaterialCommunityIcons name={isExpanded ? 'chevron-up' : 'chevron-down'} size={22} color="#999" />
+        </TouchableOpacity>
+        {isExpanded && renderDetails(item)}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialCommunityIcons name="arrow-left" size={22} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Trả hàng / Hoàn tiền</Text>
+        <View style={{ width: 30 }} />
+      </View>
+
+      {isLoading && returns.length === 0 ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={ORANGE} />
+          <Text style={styles.emptyText}>Đang tải yêu cầu hoàn trả...</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={returns}
+          keyExtractor={(item) => item.id}
+          renderItem={renderReturn}
+          extraData={{ expandedId, cancellingId }}
+          contentContainerStyle={returns.length === 0 ? styles.emptyList : styles.listContent}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor={ORANGE} />
+          }
+          ListEmptyComponent={
+            <View style={styles.centerContainer}>
+              <MaterialCommunityIcons name="keyboard-return" size={64} color="#CCC" />
+              <Text style={styles.emptyText}>Bạn chưa có yêu cầu hoàn trả nào</Text>
+            </View>
+          }
+        />
+      )}
+
+      {proofRequest && (
+        <ReturnShippingProofModal
+          request={proofRequest}
+          onClose={() => setProofRequest(null)}
+          onSubmit={handleSubmitProof}
+        />
+      )}
+
+      {gallery && (
+        <ReviewMediaGallery media={gallery.media} initialIndex={gallery.index} onClose={() => setGallery(null)} />
+      )}
+
+      <Snackbar visible={!!snackbarMessage} onDismiss={() => setSnackbarMessage('')} duration={3000}>
+        {snackbarMessage}
+      </Snackbar>
+    </View>
+  );
+};
+
+export default ReturnsScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F7F7',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    paddingTop: 50,
+    backgroundColor: ORANGE,
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    color: '#FFF',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  centerContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingHorizontal: 32,
+  },
+  emptyText: {
+    color: '#9E9E9E',
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  emptyList: {
+    flexGrow: 1,
+  },
+  listContent: {
+    padding: 12,
+  },
+  card: {
+    backgroundColor: '#FFF',
+    borderRadius: 12,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 12,
+    gap: 12,
+  },
+  itemImage: {
+    width: 60,
+    height: 60,
+    borderRadius: 8,
+    backgroundColor: '#F5F5F5',
+  },
+  itemImagePlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cardInfo: {
+    flex: 1,
+    alignItems: 'flex-start',
+    gap: 2,
+  },
+  itemName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#222',
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#888',
+  },
+  statusChip: {
+    marginTop: 4,
+    height: 28,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  details: {
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+  progress: {
+    paddingTop: 12,
+  },
+  stepRow: {
+    flexDirection: 'row',
+  },
+  stepIndicator: {
+    alignItems: 'center',
+    width: 16,
+  },
+  stepDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginTop: 3,
+  },
+  stepLine: {
+    flex: 1,
+    width: 2,
+    minHeight: 16,
+    backgroundColor: '#E0E0E0',
+  },
+  stepLineDone: {
+    backgroundColor: '#4CAF50',
+  },
+  stepContent: {
+    flex: 1,
+    marginLeft: 10,
+    paddingBottom: 12,
+  },
+  stepTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  stepTime: {
+    marginTop: 2,
+    fontSize: 12,
+    color: '#888',
+  },
+  detailLabel: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#222',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  detailText: {
+    fontSize: 13,
+    color: '#555',
+    lineHeight: 18,
+  },
+  returnItemRow: {
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F5F5F5',
+  },
+  returnItemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  returnItemName: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#222',
+  },
+  returnItemQuantity: {
+    fontSize: 13,
+    color: '#666',
+  },
+  mediaGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+  },
+  mediaItem: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  mediaImage: {
+    width: '100%',
+    height: '100%',
+    backgroundColor: '#F5F5F5',
+  },
+  videoPlaceholder: {
+    flex: 1,
+    backgroundColor: '#333',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  responseBox: {
+    marginTop: 12,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#FFF3EB',
+  },
+  responseHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  responseTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: ORANGE,
+  },
+  proofBox: {
+    marginTop: 4,
+  },
+  refundRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  refundValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: ORANGE,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  cancelButton: {
+    borderColor: '#F44336',
+  },
+});
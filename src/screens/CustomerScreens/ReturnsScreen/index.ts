@@ -0,0 +1 @@
+export { default as ReturnsScreen } from './ReturnsScreen';
@@ -0,0 +1,586 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import * as Clipboard from 'expo-clipboard';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Linking,
+  RefreshControl,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Button, Divider, Snackbar } from 'react-native-paper';
+import { CustomerStackParamList } from '../../../navigation/CustomerStackNavigator';
+import { getGhnOrderTracking } from '../../../services/orderService';
+import { GHNFeeBreakdown, GHNOrderTracking } from '../../../types/order';
+import {
+  buildTrackingTimeline,
+  isTrackingIssueStatus,
+  TrackingStep,
+} from '../../../utils/shipmentTracking';
+
+const ORANGE = '#FF6A00';
+
+const formatCurrencyVND = (value: number) =>
+  new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('vi-VN', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const getTrackingUrl = (orderGhn: string) => `https://donhang.ghn.vn/?order_code=${orderGhn}`;
+
+const STATUS_LABELS: Record<string, string> = {
+  GHN_CREATED: 'Đã tạo vận đơn',
+  AWAITING_SHIPMENT: 'Chờ giao cho đơn vị vận chuyển',
+  READY_FOR_PICKUP: 'Chờ lấy hàng',
+  SHIPPING: 'Đang vận chuyển',
+  READY_FOR_DELIVERY: 'Đã đến kho giao',
+  OUT_FOR_DELIVERY: 'Đang giao hàng',
+  DELIVERED_WAITING_CONFIRM: 'Đã giao, chờ xác nhận',
+  DELIVERY_SUCCESS: 'Giao hàng thành công',
+  COMPLETED: 'Hoàn thành',
+  DELIVERY_FAIL: 'Giao hàng thất bại',
+  DELIVERY_DENIED: 'Từ chối nhận hàng',
+  EXCEPTION: 'Đơn hàng gặp sự cố',
+  RETURNING: 'Đang hoàn hàng',
+  RETURNED: 'Đã hoàn hàng',
+  CANCELLED: 'Đã hủy',
+};
+
+const FEE_LABELS: { key: keyof GHNFeeBreakdown; label: string }[] = [
+  { key: 'mainService', label: 'Phí dịch vụ' },
+  { key: 'insurance', label: 'Phí bảo hiểm' },
+  { key: 'codFee', label: 'Phí thu hộ (COD)' },
+  { key: 'stationPu', label: 'Phí gửi tại bưu cục' },
+  { key: 'stationDo', label: 'Phí nhận tại bưu cục' },
+  { key: 'returnFee', label: 'Phí hoàn hàng' },
+  { key: 'r2s', label: 'Phí giao lại' },
+];
+
+type ShipmentTrackingRouteProp = RouteProp<CustomerStackParamList, 'ShipmentTracking'>;
+type ShipmentTrackingNavigationProp = NativeStackNavigationProp<CustomerStackParamList, 'ShipmentTracking'>;
+
+const STEP_COLORS: Record<TrackingStep['state'], string> = {
+  done: '#4CAF50',
+  current: ORANGE,
+  upcoming: '#BDBDBD',
+  failed: '#F44336',
+};
+
+const ShipmentTrackingScreen: React.FC = () => {
+  const navigation = useNavigation<ShipmentTrackingNavigationProp>();
+  const route = useRoute<ShipmentTrackingRouteProp>();
+  const { storeOrderId, storeName } = route.params;
+
+  const [tracking, setTracking] = useState<GHNOrderTracking | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [snackbarMessage, setSnackbarMessage] = useState('');
+
+  const loadTracking = useCallback(async () => {
+    try {
+      setErrorMessage(null);
+      const data = await getGhnOrderTracking(storeOrderId);
+      setTracking(data);
+    } catch (error: any) {
+      console.error('[ShipmentTrackingScreen] Failed to load tracking:', error);
+      setErrorMessage(error?.message || 'Không thể tải hành trình đơn hàng');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, [storeOrderId]);
+
+  useEffect(() => {
+    loadTracking();
+  }, [loadTracking]);
+
+  const timeline = useMemo(
+    () => (tracking ? buildTrackingTimeline(tracking.status, tracking.logs) : []),
+    [tracking],
+  );
+
+  const sortedLogs = useMemo(
+    () =>
+      [...(tracking?.logs ?? [])].sort(
+        (a, b) => new Date(b.updatedDate).getTime() - new Date(a.updatedDate).getTime(),
+      ),
+    [tracking],
+  );
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    loadTracking();
+  };
+
+  const handleCopyCode = async () => {
+    if (!tracking) return;
+    await Clipboard.setStringAsync(tracking.orderGhn);
+    setSnackbarMessage('Đã sao chép mã vận đơn');
+  };
+
+  const handleShareCode = async () => {
+    if (!tracking) return;
+    try {
+      await Share.share({
+        message: `Mã vận đơn GHN: ${tracking.orderGhn}\nTra cứu: ${getTrackingUrl(tracking.orderGhn)}`,
+      });
+    } catch (error) {
+      console.error('[ShipmentTrackingScreen] Failed to share tracking code:', error);
+    }
+  };
+
+  const handleOpenGhn = () => {
+    if (!tracking) return;
+    Linking.openURL(getTrackingUrl(tracking.orderGhn));
+  };
+
+  const renderTimelineStep = (step: TrackingStep, index: number) => {
+    const color = STEP_COLORS[step.state];
+    const isLast = index === timeline.length - 1;
+    return (
+      <View key={step.key} style={styles.stepRow}>
+        <View style={styles.stepIndicator}>
+          <View style={[styles.stepIcon, { borderColor: color }, step.state !== 'upcoming' && { backgroundColor: color }]}>
+            <MaterialCommunityIcons
+              name={step.icon as any}
+              size={16}
+              color={step.state === 'upcoming' ? color : '#FFFFFF'}
+            />
+          </View>
+          {!isLast && <View style={[styles.stepLine, step.state === 'done' && styles.stepLineDone]} />}
+        </View>
+        <View style={styles.stepContent}>
+          <Text style={[styles.stepTitle, step.state === 'upcoming' && styles.stepTitleUpcoming, { color: step.state === 'upcoming' ? '#9E9E9E' : color }]}>
+            {step.title}
+          </Text>
+          {step.time && <Text style={styles.stepTime}>{formatDate(step.time)}</Text>}
+          {step.description ? <Text style={styles.stepDescription}>{step.description}</Text> : null}
+          {step.location ? (
+            <Text style={styles.stepLocation}>
+              <MaterialCommunityIcons name="map-marker-outline" size={12} color="#999" /> {step.location}
+            </Text>
+          ) : null}
+        </View>
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={ORANGE} />
+          <Text style={styles.mutedText}>Đang tải hành trình...</Text>
+        </View>
+      );
+    }
+
+    if (errorMessage) {
+      return (
+        <View style={styles.centerContainer}>
+          <MaterialCommunityIcons name="alert-circle-outline" size={56} color="#F44336" />
+          <Text style={styles.mutedText}>{errorMessage}</Text>
+          <Button mode="contained" buttonColor={ORANGE} onPress={handleRefresh}>
+            Thử lại
+          </Button>
+        </View>
+      );
+    }
+
+    if (!tracking) {
+      return (
+        <View style={styles.centerContainer}>
+          <MaterialCommunityIcons name="truck-outline" size={56} color="#BDBDBD" />
+          <Text style={styles.mutedText}>Đơn hàng chưa được bàn giao cho đơn vị vận chuyển</Text>
+        </View>
+      );
+    }
+
+    const isIssue = isTrackingIssueStatus(tracking.status);
+    const feeRows = FEE_LABELS.filter(({ key }) => (tracking.fee?.[key] ?? 0) > 0);
+    const etaHistory = tracking.etaHistory ?? [];
+
+    return (
+      <>
+        {/* Status & ETA */}
+        <View style={styles.section}>
+          <View style={styles.statusRow}>
+            <MaterialCommunityIcons
+              name={isIssue ? 'alert-circle' : 'truck-delivery'}
+              size={28}
+              color={isIssue ? '#F44336' : ORANGE}
+            />
+            <View style={styles.statusInfo}>
+              <Text style={[styles.statusText, isIssue && styles.statusTextIssue]}>
+                {STATUS_LABELS[tracking.status] || tracking.status}
+              </Text>
+              {storeName && <Text style={styles.mutedText}>{storeName}</Text>}
+            </View>
+          </View>
+          {tracking.expectedDeliveryTime && (
+            <View style={styles.etaBox}>
+              <Text style={styles.etaLabel}>Dự kiến giao</Text>
+              <Text style={styles.etaValue}>{formatDate(tracking.expectedDeliveryTime)}</Text>
+            </View>
+          )}
+          {etaHistory.length > 0 && (
+            <View style={styles.etaHistory}>
+              <Text style={styles.etaHistoryTitle}>Thời gian giao dự kiến đã thay đổi</Text>
+              {etaHistory.map((change) => (
+                <View key={change.changedAt} style={styles.etaHistoryRow}>
+                  <MaterialCommunityIcons name="clock-alert-outline" size={14} color="#FF9800" />
+                  <Text style={styles.etaHistoryText}>
+                    {formatDate(change.changedAt)}: dự kiến {formatDate(change.expectedDeliveryTime)}
+                    {change.reason ? ` (${change.reason})` : ''}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+
+        {/* Tracking code */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Mã vận đơn GHN</Text>
+          <View style={styles.codeRow}>
+            <Text style={styles.codeText} selectable>
+              {tracking.orderGhn}
+            </Text>
+            <TouchableOpacity style={styles.codeAction} onPress={handleCopyCode}>
+              <MaterialCommunityIcons name="content-copy" size={20} color={ORANGE} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.codeAction} onPress={handleShareCode}>
+              <MaterialCommunityIcons name="share-variant" size={20} color={ORANGE} />
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity onPress={handleOpenGhn}>
+            <Text style={styles.linkText}>Xem trên trang GHN</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Timeline */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Hành trình đơn hàng</Text>
+          {timeline.map(renderTimelineStep)}
+        </View>
+
+        {/* Full log */}
+        {sortedLogs.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Chi tiết vận chuyển</Text>
+            {sortedLogs.map((log, index) => (
+              <View key={`${log.status}-${log.updatedDate}-${index}`} style={styles.logRow}>
+                <Text style={styles.logTime}>{formatDate(log.updatedDate)}</Text>
+                <View style={styles.logInfo}>
+                  <Text style={styles.logStatus}>{STATUS_LABELS[log.status] || log.status}</Text>
+                  {log.description ? <Text style={styles.logDescription}>{log.description}</Text> : null}
+                  {log.location ? <Text style={styles.logDescription}>{log.location}</Text> : null}
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Fee breakdown */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Chi phí vận chuyển</Text>
+          {feeRows.map(({ key, label }) => (
+            <View key={key} style={styles.feeRow}>
+              <Text style={styles.feeLabel}>{label}</Text>
+              <Text style={styles.feeValue}>{formatCurrencyVND(tracking.fee?.[key] ?? 0)}</Text>
+            </View>
+          ))}
+          {(tracking.fee?.coupon ?? 0) > 0 && (
+            <View style={styles.feeRow}>
+              <Text style={styles.feeLabel}>Giảm giá vận chuyển</Text>
+              <Text style={[styles.feeValue, styles.feeDiscount]}>
+                -{formatCurrencyVND(tracking.fee?.coupon ?? 0)}
+              </Text>
+            </View>
+          )}
+          {feeRows.length > 0 && <Divider style={styles.divider} />}
+          <View style={styles.feeRow}>
+            <Text style={styles.feeTotalLabel}>Tổng phí</Text>
+            <Text style={styles.feeTotalValue}>{formatCurrencyVND(tracking.totalFee)}</Text>
+          </View>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialCommunityIcons name="arrow-left" size={22} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Theo dõi đơn hàng</Text>
+        <View style={{ width: 30 }} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor={ORANGE} />
+        }
+      >
+        {renderContent()}
+      </ScrollView>
+
+      <Snackbar visible={!!snackbarMessage} onDismiss={() => setSnackbarMessage('')} duration={2000}>
+        {snackbarMessage}
+      </Snackbar>
+    </View>
+  );
+};
+
+export default ShipmentTrackingScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F7F7',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    paddingTop: 50,
+    backgroundColor: ORANGE,
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    color: '#FFF',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  scrollContent: {
+    paddingBottom: 24,
+    flexGrow: 1,
+  },
+  centerContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingHorizontal: 32,
+    paddingVertical: 48,
+  },
+  mutedText: {
+    fontSize: 13,
+    color: '#888',
+    textAlign: 'center',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    marginTop: 12,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#222',
+    marginBottom: 12,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  statusInfo: {
+    flex: 1,
+    alignItems: 'flex-start',
+  },
+  statusText: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: '#222',
+  },
+  statusTextIssue: {
+    color: '#F44336',
+  },
+  etaBox: {
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#FFF3EB',
+  },
+  etaLabel: {
+    fontSize: 12,
+    color: '#888',
+  },
+  etaValue: {
+    marginTop: 2,
+    fontSize: 15,
+    fontWeight: '700',
+    color: ORANGE,
+  },
+  etaHistory: {
+    marginTop: 12,
+    gap: 6,
+  },
+  etaHistoryTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FF9800',
+  },
+  etaHistoryRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 6,
+  },
+  etaHistoryText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#666',
+  },
+  codeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#F7F7F7',
+  },
+  codeText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#222',
+    letterSpacing: 1,
+  },
+  codeAction: {
+    padding: 6,
+  },
+  linkText: {
+    marginTop: 10,
+    color: ORANGE,
+    fontWeight: '600',
+  },
+  stepRow: {
+    flexDirection: 'row',
+  },
+  stepIndicator: {
+    alignItems: 'center',
+    width: 32,
+  },
+  stepIcon: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FFFFFF',
+  },
+  stepLine: {
+    flex: 1,
+    width: 2,
+    minHeight: 24,
+    backgroundColor: '#E0E0E0',
+  },
+  stepLineDone: {
+    backgroundColor: '#4CAF50',
+  },
+  stepContent: {
+    flex: 1,
+    marginLeft: 12,
+    paddingBottom: 20,
+  },
+  stepTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    marginTop: 4,
+  },
+  stepTitleUpcoming: {
+    fontWeight: '500',
+  },
+  stepTime: {
+    marginTop: 2,
+    fontSize: 12,
+    color: '#888',
+  },
+  stepDescription: {
+    marginTop: 2,
+    fontSize: 13,
+    color: '#555',
+  },
+  stepLocation: {
+    marginTop: 2,
+    fontSize: 12,
+    color: '#999',
+  },
+  logRow: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+    gap: 12,
+  },
+  logTime: {
+    width: 110,
+    fontSize: 12,
+    color: '#888',
+  },
+  logInfo: {
+    flex: 1,
+  },
+  logStatus: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#222',
+  },
+  logDescription: {
+    marginTop: 2,
+    fontSize: 12,
+    color: '#666',
+  },
+  feeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  feeLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  feeValue: {
+    fontSize: 14,
+    color: '#222',
+  },
+  feeDiscount: {
+    color: '#4CAF50',
+  },
+  divider: {
+    marginVertical: 8,
+  },
+  feeTotalLabel: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#222',
+  },
+  feeTotalValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: ORANGE,
+  },
+});
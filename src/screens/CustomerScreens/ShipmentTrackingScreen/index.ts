@@ -0,0 +1 @@
+export { default as ShipmentTrackingScreen } from './ShipmentTrackingScreen';
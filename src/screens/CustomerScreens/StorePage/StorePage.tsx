@@ -15,10 +15,13 @@ import {
 } from 'react-native';
 import { Button, Chip, Searchbar, Snackbar } from 'react-native-paper';
 import httpClient from '../../../api/httpClient';
+import { VoucherCollectList } from '../../../components/CustomerScreenComponents/VoucherComponents';
 import { useAuth } from '../../../context/AuthContext';
 import { useChat } from '../../../context/ChatContext';
 import { ProductStackParamList } from '../../../navigation/ProductStackNavigator';
 import { getStoreById, StoreDetailResponse } from '../../../services/storeService';
+import { getShopVouchersByStore } from '../../../services/voucherService';
+import { ShopVoucher } from '../../../types/voucher';
 
 const { width } = Dimensions.get('window');
 const ORANGE = '#FF6A00';
@@ -37,6 +40,7 @@ const StorePage: React.FC = () => {
 
   const [storeData, setStoreData] = useState<StoreDetailResponse | null>(null);
   const [products, setProducts] = useState<any[]>([]);
+  const [vouchers, setVouchers] = useState<ShopVoucher[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [storeLoading, setStoreLoading] = useState(false);
@@ -110,6 +114,12 @@ const StorePage: React.FC = () => {
     }
   }, [storeId]);
 
+  // Load shop vouchers (lỗi đã được xử lý trong service, trả về mảng rỗng)
+  const loadVouchers = useCallback(async () => {
+    if (!storeId) return;
+    setVouchers(await getShopVouchersByStore(storeId));
+  }, [storeId]);
+
   // Load store products
   const loadProducts = useCallback(
     async (pageNum: number = 0, append: boolean = false) => {
@@ -198,8 +208,9 @@ const StorePage: React.FC = () => {
   // Initial load
   useEffect(() => {
     loadStore();
+    loadVouchers();
     loadProducts(0, false);
-  }, [storeId, loadStore, loadProducts]);
+  }, [storeId, loadStore, loadVouchers, loadProducts]);
 
   // Handle refresh
   const handleRefresh = useCallback(() => {
@@ -207,8 +218,9 @@ const StorePage: React.FC = () => {
     setPage(0);
     setHasMore(true);
     loadStore();
+    loadVouchers();
     loadProducts(0, false);
-  }, [loadStore, loadProducts]);
+  }, [loadStore, loadVouchers, loadProducts]);
 
   // Handle load more
   const handleLoadMore = useCallback(() => {
@@ -230,6 +242,16 @@ const StorePage: React.FC = () => {
     [navigation],
   );
 
+  const handleRequireLogin = useCallback(() => {
+    // @ts-ignore
+    navigation.navigate('Auth', { screen: 'Login' });
+  }, [navigation]);
+
+  const showMessage = useCallback((message: string) => {
+    setSnackbarMessage(message);
+    setSnackbarVisible(true);
+  }, []);
+
   // Handle chat with store
   const handleChatWithStore = useCallback(() => {
     if (!isAuthenticated) {
@@ -361,6 +383,13 @@ const StorePage: React.FC = () => {
           </View>
         </View>
 
+        {/* Shop Vouchers */}
+        <VoucherCollectList
+          vouchers={vouchers}
+          onRequireLogin={handleRequireLogin}
+          onMessage={showMessage}
+        />
+
         {/* Category Tabs */}
         {categories.length > 0 && (
           <View style={styles.categoryTabsContainer}>
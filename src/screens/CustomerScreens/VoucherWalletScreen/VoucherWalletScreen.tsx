@@ -0,0 +1,283 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  FlatList,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Chip, Snackbar } from 'react-native-paper';
+import { ApiError } from '../../../api/authenticatedClient';
+import {
+  VoucherProductsModal,
+  WalletVoucherCard,
+} from '../../../components/CustomerScreenComponents/VoucherComponents';
+import { useAuth } from '../../../context/AuthContext';
+import { useVoucherWallet } from '../../../context/VoucherWalletContext';
+import { CustomerStackParamList } from '../../../navigation/CustomerStackNavigator';
+import { getLoyaltyMembership } from '../../../services/loyaltyService';
+import { LoyaltyMembership } from '../../../types/loyalty';
+import { CustomerVoucher, VoucherWalletGroup } from '../../../types/voucher';
+import { findLoyaltyTier, isTierVoucherUnlocked } from '../../../utils/loyaltyTier';
+import {
+  groupWalletVouchers,
+  VOUCHER_WALLET_GROUP_LABELS,
+  VOUCHER_WALLET_GROUPS,
+} from '../../../utils/voucherWallet';
+
+const ORANGE = '#FF6A00';
+
+type VoucherWalletNavigationProp = NativeStackNavigationProp<CustomerStackParamList, 'VoucherWallet'>;
+
+const EMPTY_MESSAGES: Record<VoucherWalletGroup, string> = {
+  USABLE: 'Lưu voucher từ trang cửa hàng hoặc trang sản phẩm để dùng khi thanh toán.',
+  EXPIRING_SOON: 'Không có voucher nào sắp hết hạn.',
+  USED: 'Bạn chưa dùng voucher nào.',
+  EXPIRED: 'Không có voucher hết hạn.',
+};
+
+const VoucherWalletScreen: React.FC = () => {
+  const navigation = useNavigation<VoucherWalletNavigationProp>();
+  const { authState } = useAuth();
+  const { vouchers, isLoading, isCollected, refreshVouchers, removeVoucher } = useVoucherWallet();
+  const [membership, setMembership] = useState<LoyaltyMembership | null>(null);
+  const [selectedGroup, setSelectedGroup] = useState<VoucherWalletGroup>('USABLE');
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [productsVoucher, setProductsVoucher] = useState<CustomerVoucher | null>(null);
+  const [snackbarVisible, setSnackbarVisible] = useState(false);
+  const [snackbarMessage, setSnackbarMessage] = useState('');
+
+  const showMessage = (message: string) => {
+    setSnackbarMessage(message);
+    setSnackbarVisible(true);
+  };
+
+  // Voucher dành riêng cho hạng thành viên - lỗi thì chỉ hiển thị ví
+  const loadMembership = useCallback(async () => {
+    try {
+      setMembership(await getLoyaltyMembership());
+    } catch (error) {
+      console.warn('[VoucherWalletScreen] getLoyaltyMembership failed', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshVouchers();
+    loadMembership();
+    // Chỉ làm mới khi mở màn hình
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const tiers = useMemo(() => membership?.tiers ?? [], [membership]);
+  // Hạng hiện tại theo loyaltyLevel của hồ sơ, bậc hạng lấy từ endpoint membership
+  const currentTier = findLoyaltyTier(tiers, authState.customerProfile?.loyaltyLevel);
+
+  // Voucher hạng chưa lưu vẫn hiện trong ví (khóa nếu chưa đạt hạng)
+  const displayedVouchers = useMemo(() => {
+    const exclusive = (membership?.exclusiveVouchers ?? []).filter(
+      (voucher) => !vouchers.some((item) => item.voucherId === voucher.voucherId),
+    );
+    return [...vouchers, ...exclusive];
+  }, [vouchers, membership]);
+
+  const groups = useMemo(() => groupWalletVouchers(displayedVouchers), [displayedVouchers]);
+  const visibleVouchers = groups[selectedGroup];
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await Promise.all([refreshVouchers(), loadMembership()]);
+    setIsRefreshing(false);
+  };
+
+  const openProduct = useCallback(
+    (productId: string) => {
+      setProductsVoucher(null);
+      // @ts-ignore - nested navigation
+      navigation.navigate('Home', { screen: 'ProductDetail', params: { productId } });
+    },
+    [navigation],
+  );
+
+  // Dùng ngay: mở sản phẩm / cửa hàng mà voucher áp dụng
+  const handleUse = useCallback(
+    (voucher: CustomerVoucher) => {
+      const productIds = voucher.productIds ?? [];
+      if (voucher.scope === 'PRODUCT' && productIds.length === 1) {
+        openProduct(productIds[0]);
+        return;
+      }
+      if (voucher.scope === 'PRODUCT' && productIds.length > 1) {
+        setProductsVoucher(voucher);
+        return;
+      }
+      if (voucher.source === 'SHOP' && voucher.storeId) {
+        // @ts-ignore - nested navigation
+        navigation.navigate('Home', { screen: 'Store', params: { storeId: voucher.storeId } });
+        return;
+      }
+      // @ts-ignore - nested navigation
+      navigation.navigate('Home', { screen: 'Home' });
+    },
+    [navigation, openProduct],
+  );
+
+  const handleRemove = useCallback(
+    (voucher: CustomerVoucher) => {
+      Alert.alert('Xóa voucher', `Xóa voucher ${voucher.code} khỏi ví?`, [
+        { text: 'Hủy', style: 'cancel' },
+        {
+          text: 'Xóa',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeVoucher(voucher.voucherId);
+              showMessage('Đã xóa voucher khỏi ví');
+            } catch (error) {
+              showMessage(ApiError.from(error, 'Không thể xóa voucher. Vui lòng thử lại.').message);
+            }
+          },
+        },
+      ]);
+    },
+    [removeVoucher],
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialCommunityIcons name="arrow-left" size={22} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Ví voucher</Text>
+        <View style={{ width: 30 }} />
+      </View>
+
+      <View>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.filterContainer}
+          contentContainerStyle={styles.filterContent}
+        >
+          {VOUCHER_WALLET_GROUPS.map((group) => (
+            <Chip
+              key={group}
+              selected={selectedGroup === group}
+              onPress={() => setSelectedGroup(group)}
+              style={[styles.filterChip, selectedGroup === group && styles.filterChipSelected]}
+              textStyle={[
+                styles.filterChipText,
+                selectedGroup === group && styles.filterChipTextSelected,
+              ]}
+            >
+              {`${VOUCHER_WALLET_GROUP_LABELS[group]} (${groups[group].length})`}
+            </Chip>
+          ))}
+        </ScrollView>
+      </View>
+
+      <FlatList
+        data={visibleVouchers}
+        keyExtractor={(item) => item.voucherId}
+        renderItem={({ item }) => (
+          <WalletVoucherCard
+            voucher={item}
+            group={selectedGroup}
+            onUse={() => handleUse(item)}
+            onRemove={isCollected(item.voucherId) ? () => handleRemove(item) : undefined}
+            requiredTierName={findLoyaltyTier(tiers, item.requiredTier)?.name}
+            locked={!isTierVoucherUnlocked(item, tiers, currentTier)}
+          />
+        )}
+        contentContainerStyle={
+          visibleVouchers.length === 0 ? styles.emptyContainer : styles.listContent
+        }
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing || (isLoading && vouchers.length === 0)}
+            onRefresh={handleRefresh}
+            colors={[ORANGE]}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <MaterialCommunityIcons name="ticket-percent-outline" size={64} color="#CCC" />
+            <Text style={styles.emptyTitle}>Chưa có voucher</Text>
+            <Text style={styles.emptyDescription}>{EMPTY_MESSAGES[selectedGroup]}</Text>
+          </View>
+        }
+      />
+
+      {productsVoucher && (
+        <VoucherProductsModal
+          voucher={productsVoucher}
+          onClose={() => setProductsVoucher(null)}
+          onSelectProduct={openProduct}
+        />
+      )}
+
+      <Snackbar
+        visible={snackbarVisible}
+        onDismiss={() => setSnackbarVisible(false)}
+        duration={3000}
+      >
+        {snackbarMessage}
+      </Snackbar>
+    </View>
+  );
+};
+
+export default VoucherWalletScreen;
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#F5F5F5' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    paddingTop: 50,
+    backgroundColor: ORANGE,
+  },
+  backButton: { padding: 4 },
+  headerTitle: { color: '#FFF', fontSize: 18, fontWeight: '700' },
+  filterContainer: {
+    backgroundColor: '#FFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  filterContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  filterChip: {
+    backgroundColor: '#F5F5F5',
+    height: 40,
+    paddingHorizontal: 8,
+  },
+  filterChipSelected: {
+    backgroundColor: ORANGE,
+  },
+  filterChipText: {
+    color: '#666',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  filterChipTextSelected: {
+    color: '#FFF',
+    fontWeight: '700',
+  },
+  listContent: { padding: 12, gap: 12 },
+  emptyContainer: { flexGrow: 1, justifyContent: 'center' },
+  emptyState: { alignItems: 'center', paddingHorizontal: 32 },
+  emptyTitle: { fontSize: 16, fontWeight: '600', color: '#444', marginTop: 12 },
+  emptyDescription: { fontSize: 13, color: '#888', textAlign: 'center', marginTop: 6 },
+});
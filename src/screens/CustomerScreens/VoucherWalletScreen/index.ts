@@ -0,0 +1 @@
+export { default as VoucherWalletScreen } from './VoucherWalletScreen';
@@ -0,0 +1,291 @@
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  FlatList,
+  Image,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Button, Snackbar } from 'react-native-paper';
+import { useCart } from '../../../context/CartContext';
+import { useWishlist } from '../../../context/WishlistContext';
+import { CustomerStackParamList } from '../../../navigation/CustomerStackNavigator';
+import {
+  hasPriceDropped,
+  isBackInStock,
+  isWishlistItemUnavailable,
+} from '../../../services/wishlistService';
+import { WishlistItem } from '../../../types/wishlist';
+
+const ORANGE = '#FF6A00';
+
+const formatCurrencyVND = (value: number) =>
+  new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+
+type WishlistNavigationProp = NativeStackNavigationProp<CustomerStackParamList, 'Wishlist'>;
+
+const WishlistScreen: React.FC = () => {
+  const navigation = useNavigation<WishlistNavigationProp>();
+  const { items, isSyncing, removeFromWishlist, refreshWishlist } = useWishlist();
+  const { addItem } = useCart();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [addingProductId, setAddingProductId] = useState<string | null>(null);
+  const [snackbarVisible, setSnackbarVisible] = useState(false);
+  const [snackbarMessage, setSnackbarMessage] = useState('');
+
+  const showMessage = (message: string) => {
+    setSnackbarMessage(message);
+    setSnackbarVisible(true);
+  };
+
+  const loadWishlist = useCallback(async () => {
+    try {
+      await refreshWishlist();
+    } catch (error) {
+      console.error('[WishlistScreen] refresh failed', error);
+    }
+  }, [refreshWishlist]);
+
+  useEffect(() => {
+    loadWishlist();
+    // Chỉ làm mới khi mở màn hình
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadWishlist();
+    setIsRefreshing(false);
+  };
+
+  const handleOpenProduct = (item: WishlistItem) => {
+    // @ts-ignore - nested navigation
+    navigation.navigate('Home', {
+      screen: 'ProductDetail',
+      params: { productId: item.productId },
+    });
+  };
+
+  // Khách chưa đăng nhập cũng thêm được: giỏ giữ trên máy, gộp vào tài khoản khi đăng nhập
+  const handleAddToCart = async (item: WishlistItem) => {
+    try {
+      setAddingProductId(item.productId);
+      // Qua CartContext: cập nhật badge ngay và đồng bộ nền (kể cả khi mất mạng)
+      addItem(
+        {
+          type: 'PRODUCT',
+          productId: item.productId,
+          variantId: item.variantId ?? undefined,
+          quantity: 1,
+        },
+        {
+          productId: item.productId,
+          name: item.name,
+          image: item.image,
+          unitPrice: item.currentPrice ?? item.savedPrice,
+        },
+      );
+      await removeFromWishlist(item.productId);
+      showMessage('Đã thêm vào giỏ hàng');
+    } catch (error: any) {
+      console.error('[WishlistScreen] add to cart failed', error);
+      showMessage(error?.message || 'Không thể thêm vào giỏ hàng');
+    } finally {
+      setAddingProductId(null);
+    }
+  };
+
+  const handleRemove = async (item: WishlistItem) => {
+    await removeFromWishlist(item.productId);
+    showMessage('Đã bỏ khỏi danh sách yêu thích');
+  };
+
+  const renderItem = ({ item }: { item: WishlistItem }) => {
+    const unavailable = isWishlistItemUnavailable(item);
+    const outOfStock = item.inStock === false;
+    const priceDropped = hasPriceDropped(item);
+    const backInStock = isBackInStock(item);
+    const displayPrice = item.currentPrice ?? item.savedPrice;
+    const isAdding = addingProductId === item.productId;
+
+    return (
+      <TouchableOpacity
+        style={styles.card}
+        activeOpacity={0.8}
+        onPress={() => handleOpenProduct(item)}
+      >
+        <Image
+          source={{ uri: item.image || 'https://via.placeholder.com/80' }}
+          style={[styles.image, unavailable && styles.imageDisabled]}
+        />
+        <View style={styles.info}>
+          <Text style={styles.name} numberOfLines={2}>
+            {item.name}
+          </Text>
+          {item.storeName ? (
+            <Text style={styles.storeName} numberOfLines={1}>
+              {item.storeName}
+            </Text>
+          ) : null}
+
+          <View style={styles.priceRow}>
+            <Text style={styles.price}>{formatCurrencyVND(displayPrice)}</Text>
+            {priceDropped && (
+              <Text style={styles.savedPrice}>{formatCurrencyVND(item.savedPrice)}</Text>
+            )}
+          </View>
+
+          <View style={styles.badgeRow}>
+            {priceDropped && (
+              <View style={[styles.badge, styles.badgePriceDrop]}>
+                <MaterialCommunityIcons name="arrow-down-bold" size={12} color="#2E7D32" />
+                <Text style={[styles.badgeText, { color: '#2E7D32' }]}>Giảm giá</Text>
+              </View>
+            )}
+            {backInStock && !unavailable && (
+              <View style={[styles.badge, styles.badgeBackInStock]}>
+                <MaterialCommunityIcons name="package-variant" size={12} color="#1565C0" />
+                <Text style={[styles.badgeText, { color: '#1565C0' }]}>Có hàng trở lại</Text>
+              </View>
+            )}
+            {outOfStock && !unavailable && (
+              <View style={[styles.badge, styles.badgeMuted]}>
+                <Text style={[styles.badgeText, { color: '#757575' }]}>Hết hàng</Text>
+              </View>
+            )}
+          </View>
+
+          <View style={styles.actionRow}>
+            <Button
+              mode="contained"
+              compact
+              buttonColor={ORANGE}
+              textColor="#FFFFFF"
+              style={styles.addButton}
+              labelStyle={styles.addButtonLabel}
+              loading={isAdding}
+              disabled={unavailable || outOfStock || isAdding}
+              onPress={() => handleAddToCart(item)}
+            >
+              {unavailable ? 'Ngừng kinh doanh' : 'Thêm vào giỏ'}
+            </Button>
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => handleRemove(item)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <MaterialCommunityIcons name="trash-can-outline" size={20} color="#999" />
+            </TouchableOpacity>
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <MaterialCommunityIcons name="arrow-left" size={22} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Sản phẩm yêu thích</Text>
+        <View style={{ width: 30 }} />
+      </View>
+
+      <FlatList
+        data={items}
+        keyExtractor={(item) => item.productId}
+        renderItem={renderItem}
+        contentContainerStyle={items.length === 0 ? styles.emptyContainer : styles.listContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing || (isSyncing && items.length === 0)}
+            onRefresh={handleRefresh}
+            colors={[ORANGE]}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <MaterialCommunityIcons name="heart-outline" size={64} color="#CCC" />
+            <Text style={styles.emptyTitle}>Chưa có sản phẩm yêu thích</Text>
+            <Text style={styles.emptyDescription}>
+              Nhấn vào biểu tượng trái tim trên sản phẩm để lưu lại và theo dõi giá.
+            </Text>
+          </View>
+        }
+      />
+
+      <Snackbar
+        visible={snackbarVisible}
+        onDismiss={() => setSnackbarVisible(false)}
+        duration={3000}
+      >
+        {snackbarMessage}
+      </Snackbar>
+    </View>
+  );
+};
+
+export default WishlistScreen;
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#F5F5F5' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    paddingTop: 50,
+    backgroundColor: ORANGE,
+  },
+  backButton: { padding: 4 },
+  headerTitle: { color: '#FFF', fontSize: 18, fontWeight: '700' },
+  listContent: { padding: 12, gap: 12 },
+  emptyContainer: { flexGrow: 1, justifyContent: 'center' },
+  card: {
+    flexDirection: 'row',
+    backgroundColor: '#FFF',
+    borderRadius: 12,
+    padding: 12,
+    gap: 12,
+  },
+  image: { width: 88, height: 88, borderRadius: 8, backgroundColor: '#F5F5F5' },
+  imageDisabled: { opacity: 0.4 },
+  info: { flex: 1 },
+  name: { fontSize: 14, fontWeight: '600', color: '#222' },
+  storeName: { fontSize: 12, color: '#888', marginTop: 2 },
+  priceRow: { flexDirection: 'row', alignItems: 'baseline', gap: 8, marginTop: 6 },
+  price: { fontSize: 15, fontWeight: '700', color: ORANGE },
+  savedPrice: { fontSize: 12, color: '#999', textDecorationLine: 'line-through' },
+  badgeRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginTop: 6 },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  badgePriceDrop: { backgroundColor: '#E8F5E9' },
+  badgeBackInStock: { backgroundColor: '#E3F2FD' },
+  badgeMuted: { backgroundColor: '#EEEEEE' },
+  badgeText: { fontSize: 11, fontWeight: '600' },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  addButton: { borderRadius: 8 },
+  addButtonLabel: { fontSize: 12, marginVertical: 6 },
+  removeButton: { padding: 4 },
+  emptyState: { alignItems: 'center', paddingHorizontal: 32 },
+  emptyTitle: { fontSize: 16, fontWeight: '600', color: '#444', marginTop: 12 },
+  emptyDescription: { fontSize: 13, color: '#888', textAlign: 'center', marginTop: 6 },
+});
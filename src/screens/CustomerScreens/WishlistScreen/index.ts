@@ -0,0 +1 @@
+export { default as WishlistScreen } from './WishlistScreen';
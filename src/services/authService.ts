@@ -1,11 +1,22 @@
-import httpClient from '../api/httpClient';
-import { LoginRequest, LoginResponse, RegisterRequest, RegisterResponse } from '../types/auth';
+import httpClient, { REFRESH_TOKEN_ENDPOINT } from '../api/httpClient';
+import {
+  LoginRequest,
+  LoginResponse,
+  RefreshTokenResponse,
+  RegisterRequest,
+  RegisterResponse,
+} from '../types/auth';
 
 const LOGIN_ENDPOINT = '/account/login/customer';
 const REGISTER_ENDPOINT = '/account/register/customer';
 const RESEND_VERIFY_EMAIL_ENDPOINT = '/account/resend-verify-email';
 const FORGOT_PASSWORD_ENDPOINT = '/account/forgot-password';
 const RESET_PASSWORD_ENDPOINT = '/account/reset-password';
+const VERIFY_EMAIL_ENDPOINT = '/account/verify-email';
+
+// Backend trả các mã này khi token trong link đã hết hạn hoặc đã được dùng
+const INVALID_TOKEN_STATUSES = [404, 410];
+const INVALID_TOKEN_MESSAGE_PATTERN = /token|expired|hết hạn|đã được sử dụng|không hợp lệ/i;
 
 /**
  * Login customer
@@ -24,6 +35,28 @@ export const loginCustomer = async (payload: LoginRequest): Promise<LoginRespons
   }
 };
 
+/**
+ * POST /api/account/refresh
+ * Đổi refreshToken lấy accessToken mới
+ */
+export const refreshAccessToken = async (refreshToken: string): Promise<RefreshTokenResponse> => {
+  try {
+    const { data } = await httpClient.post<RefreshTokenResponse>(REFRESH_TOKEN_ENDPOINT, {
+      refreshToken,
+    });
+    if (!data?.data?.accessToken) {
+      throw new Error('Invalid response format from refresh token API');
+    }
+    return data;
+  } catch (error: any) {
+    throw {
+      status: error.response?.status || 0,
+      message: error.response?.data?.message || error.message || 'Phiên đăng nhập đã hết hạn',
+      response: error.response,
+    };
+  }
+};
+
 /**
  * Register customer
  */
@@ -133,3 +166,32 @@ export const resetPassword = async (
   }
 };
 
+/**
+ * GET /api/account/verify-email?token={token}
+ * Xác thực email từ link trong email đăng ký
+ */
+export const verifyEmail = async (
+  token: string,
+): Promise<{ status: number; message: string; data: any }> => {
+  try {
+    const { data } = await httpClient.get(VERIFY_EMAIL_ENDPOINT, { params: { token } });
+    return {
+      status: 200,
+      message: data?.message || 'Xác thực email thành công',
+      data: data?.data ?? null,
+    };
+  } catch (error: any) {
+    return {
+      status: error.response?.status || 0,
+      message: error.response?.data?.message || 'Không thể xác thực email',
+      data: null,
+    };
+  }
+};
+
+/**
+ * Token trong link reset mật khẩu / xác thực email không còn dùng được
+ */
+export const isInvalidTokenResult = (result: { status: number; message: string }): boolean =>
+  INVALID_TOKEN_STATUSES.includes(result.status) ||
+  (result.status === 400 && INVALID_TOKEN_MESSAGE_PATTERN.test(result.message));
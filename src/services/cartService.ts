@@ -1,11 +1,22 @@
-import httpClient from '../api/httpClient';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiError, authenticatedClient, getApiSession } from '../api/authenticatedClient';
 import {
+  AddCartItemRequest,
   AddCartItemsRequest,
-  AddCartItemsResponse,
+  BuyAgainCheckResult,
+  BuyAgainLine,
+  BuyAgainUnavailableReason,
   Cart,
-  CartResponse,
+  CartAddMutation,
+  CartItem,
+  CartMutation,
+  CartSyncResult,
+  GuestCartMergeIssue,
+  GuestCartMergeReport,
+  GuestCartMergeResult,
+  LocalCart,
+  SavedCartItem,
   UpdateQuantityRequest,
-  UpdateQuantityResponse,
 } from '../types/cart';
 import {
   CheckoutCodRequest,
@@ -14,12 +25,29 @@ import {
   CheckoutPayOSResponse,
   CheckoutPreviewRequest,
   CheckoutPreviewResponse,
+  VoucherCodeScope,
+  VoucherCodeValidationResult,
 } from '../types/checkout';
+import { OrderItem } from '../types/order';
+import {
+  clampCartQuantity,
+  createLocalId,
+  findMatchingCartItem,
+  isLocalCartItemId,
+  toLocalCartItemId,
+} from '../utils/offlineCart';
+import {
+  addVoucherCodeToPreviewRequest,
+  getVoucherCodeDiscount,
+  getVoucherCodeFailureReason,
+  normalizeVoucherCode,
+  VOUCHER_CODE_FAILURE_LABELS,
+} from '../utils/voucherCode';
+import { getProductAvailability, getProductById } from './productService';
 
-type AuthenticatedCustomerRequest = {
-  customerId: string;
-  accessToken: string;
-};
+const CART_STORAGE_KEY = 'cart:state:v1';
+
+const EMPTY_LOCAL_CART: LocalCart = { ownerId: null, serverCart: null, queue: [], savedItems: [] };
 
 // Throttle logging to once per 90 seconds per key
 const lastLogTimeRef: Record<string, number> = {};
@@ -35,19 +63,36 @@ const throttledLog = (key: string, logFn: () => void) => {
   }
 };
 
+/**
+ * Log a failed cart/checkout call with the normalized ApiError fields
+ */
+const logApiError = (label: string, error: unknown) => {
+  const apiError = ApiError.from(error);
+  console.error(`[CartService] ${label}: Error`, {
+    status: apiError.status,
+    message: apiError.message,
+    url: apiError.response?.config?.url,
+    method: apiError.response?.config?.method,
+    responseData: apiError.data,
+  });
+};
+
+/**
+ * Response of cart mutations must contain a Cart
+ */
+const assertCart = (data: unknown, label: string): Cart => {
+  if (data && typeof data === 'object' && 'cartId' in data && 'items' in data) {
+    return data as Cart;
+  }
+  throw new Error(`Invalid response format from ${label} API`);
+};
+
 /**
  * GET /api/v1/customers/{customerId}/cart
  * Lấy thông tin giỏ hàng của customer
  */
-export const getCustomerCart = async ({
-  customerId,
-  accessToken,
-}: AuthenticatedCustomerRequest): Promise<Cart> => {
-  const { data } = await httpClient.get<CartResponse>(`/v1/customers/${customerId}/cart`, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
+export const getCustomerCart = async (): Promise<Cart> => {
+  const { data } = await authenticatedClient.get<Cart>('/v1/customers/{customerId}/cart');
   return data;
 };
 
@@ -55,136 +100,388 @@ export const getCustomerCart = async ({
  * POST /api/v1/customers/{customerId}/cart/items
  * Thêm sản phẩm vào giỏ hàng
  */
-export const addItemsToCart = async ({
-  customerId,
-  accessToken,
-  payload,
-}: AuthenticatedCustomerRequest & {
-  payload: AddCartItemsRequest;
-}): Promise<Cart> => {
-  const { data } = await httpClient.post<AddCartItemsResponse>(
-    `/v1/customers/${customerId}/cart/items`,
+export const addItemsToCart = async (payload: AddCartItemsRequest): Promise<Cart> => {
+  const { data } = await authenticatedClient.post<Cart>(
+    '/v1/customers/{customerId}/cart/items',
     payload,
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-    },
   );
-  return data.data;
+  return data;
 };
 
 /**
  * POST /api/v1/customers/{customerId}/cart/items/quantity-with-vouchers
  * Cập nhật số lượng sản phẩm trong giỏ hàng (với voucher support)
  */
-export const updateQuantityWithVouchers = async ({
-  customerId,
-  accessToken,
-  payload,
-}: AuthenticatedCustomerRequest & {
-  payload: UpdateQuantityRequest;
-}): Promise<Cart> => {
+export const updateQuantityWithVouchers = async (payload: UpdateQuantityRequest): Promise<Cart> => {
   try {
-    const response = await httpClient.post<UpdateQuantityResponse | CartResponse>(
-      `/v1/customers/${customerId}/cart/items/quantity-with-vouchers`,
+    const { data } = await authenticatedClient.post<Cart>(
+      '/v1/customers/{customerId}/cart/items/quantity-with-vouchers',
       payload,
-      {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-      },
     );
+    return assertCart(data, 'updateQuantityWithVouchers');
+  } catch (error) {
+    logApiError('updateQuantityWithVouchers', error);
+    throw error;
+  }
+};
+
+/**
+ * DELETE /api/v1/customers/{customerId}/cart/items
+ * Xóa các item khỏi giỏ hàng
+ */
+export const deleteCartItems = async (cartItemIds: string[]): Promise<Cart> => {
+  const { data } = await authenticatedClient.delete<Cart>('/v1/customers/{customerId}/cart/items', {
+    data: { cartItemIds }, // axios supports body in DELETE via config.data
+  });
+  return data;
+};
+
+/**
+ * Đọc giỏ hàng và hàng đợi thay đổi đã lưu trong AsyncStorage
+ */
+export const getLocalCart = async (): Promise<LocalCart> => {
+  try {
+    const raw = await AsyncStorage.getItem(CART_STORAGE_KEY);
+    if (!raw) {
+      return EMPTY_LOCAL_CART;
+    }
+    const parsed = JSON.parse(raw);
+    return {
+      ownerId: typeof parsed?.ownerId === 'string' ? parsed.ownerId : null,
+      serverCart: parsed?.serverCart && Array.isArray(parsed.serverCart.items) ? parsed.serverCart : null,
+      queue: Array.isArray(parsed?.queue) ? parsed.queue : [],
+      savedItems: Array.isArray(parsed?.savedItems) ? parsed.savedItems : [],
+    };
+  } catch (error) {
+    console.warn('[CartService] Failed to read local cart', error);
+    return EMPTY_LOCAL_CART;
+  }
+};
+
+/**
+ * Lưu giỏ hàng và hàng đợi thay đổi vào AsyncStorage
+ */
+export const saveLocalCart = async (cart: LocalCart): Promise<void> => {
+  await AsyncStorage.setItem(CART_STORAGE_KEY, JSON.stringify(cart));
+};
 
-    const data = response.data;
+/**
+ * Tạo SavedCartItem từ dòng giỏ hàng, ghi nhận giá tại thời điểm lưu
+ */
+export const toSavedCartItem = (item: CartItem): SavedCartItem => ({
+  id: createLocalId(),
+  type: item.type === 'COMBO' ? 'COMBO' : 'PRODUCT',
+  productId: item.refId,
+  variantId: item.variantId ?? null,
+  comboId: item.type === 'COMBO' ? item.refId : null,
+  name: item.name,
+  image: item.image,
+  quantity: item.quantity,
+  variantOptionName: item.variantOptionName ?? null,
+  variantOptionValue: item.variantOptionValue ?? null,
+  savedPrice: item.unitPrice,
+  savedAt: new Date().toISOString(),
+  currentPrice: item.unitPrice,
+  inStock: true,
+});
 
-    // Handle different response formats
-    // Format 1: { status, message, data: Cart } - wrapped response
-    if (data && typeof data === 'object' && 'data' in data && (data as any).data) {
-      const wrappedData = (data as UpdateQuantityResponse).data;
-      if (wrappedData && 'cartId' in wrappedData && 'items' in wrappedData) {
-        return wrappedData;
+/**
+ * Yêu cầu thêm lại sản phẩm đã lưu vào giỏ (cùng biến thể, số lượng)
+ */
+export const toAddCartItemRequest = (item: SavedCartItem): AddCartItemRequest =>
+  item.type === 'COMBO'
+    ? { type: 'COMBO', comboId: item.comboId ?? item.productId, quantity: item.quantity }
+    : {
+        type: 'PRODUCT',
+        productId: item.productId,
+        variantId: item.variantId ?? undefined,
+        quantity: item.quantity,
+      };
+
+/**
+ * Cập nhật giá và tình trạng kho mới nhất cho sản phẩm đã lưu
+ */
+export const refreshSavedCartItem = async (item: SavedCartItem): Promise<SavedCartItem> => {
+  if (item.type === 'COMBO') {
+    return item;
+  }
+  const { product, currentPrice, inStock } = await getProductAvailability(
+    item.productId,
+    item.variantId,
+  );
+
+  return {
+    ...item,
+    name: product.name || item.name,
+    currentPrice,
+    inStock,
+  };
+};
+
+/**
+ * Lỗi tạm thời (mất mạng, hết phiên, lỗi server) - giữ thay đổi để gửi lại sau
+ * Lỗi khác (response sai định dạng...) gửi lại cũng không qua - bỏ thay đổi và báo lại,
+ * tránh hàng đợi kẹt mãi ở một thay đổi
+ */
+const isRetryableError = (error: unknown) => {
+  if (!(error instanceof ApiError)) {
+    return false;
+  }
+  return error.isNetworkError || error.status === 401 || error.status >= 500;
+};
+
+/**
+ * Phát lại hàng đợi thay đổi lên server theo thứ tự (gọi khi đã đăng nhập và có mạng)
+ * - Lấy giỏ server mới nhất trước, xung đột giải quyết theo giỏ server:
+ *   sản phẩm đã bị xóa ở nơi khác thì bỏ thay đổi, số lượng giống server thì bỏ qua
+ * - Server từ chối (hết hàng, ngừng bán...) thì bỏ thay đổi và báo lại qua `dropped`
+ * - Mất mạng giữa chừng thì dừng, phần còn lại giữ cho lần sau
+ */
+export const syncCart = async (queue: CartMutation[]): Promise<CartSyncResult> => {
+  let serverCart = await getCustomerCart();
+  const dropped: CartMutation[] = [];
+  const resolvedIds: Record<string, string> = {};
+
+  const resolveId = (cartItemId: string) =>
+    isLocalCartItemId(cartItemId) ? resolvedIds[cartItemId] : cartItemId;
+
+  for (let index = 0; index < queue.length; index += 1) {
+    const mutation = queue[index];
+    try {
+      if (mutation.type === 'ADD') {
+        serverCart = await addItemsToCart({ items: [mutation.item] });
+        const added = findMatchingCartItem(serverCart, mutation.item, mutation.preview.productId);
+        if (added) {
+          resolvedIds[toLocalCartItemId(mutation.id)] = added.cartItemId;
+        }
+      } else if (mutation.type === 'UPDATE_QUANTITY') {
+        const cartItemId = resolveId(mutation.cartItemId);
+        const serverItem = serverCart.items.find((item) => item.cartItemId === cartItemId);
+        if (!cartItemId || !serverItem) {
+          dropped.push(mutation);
+          continue;
+        }
+        const quantity = clampCartQuantity(mutation.quantity);
+        if (serverItem.quantity !== quantity) {
+          serverCart = await updateQuantityWithVouchers({
+            cartItemId,
+            quantity,
+            storeVouchers: null,
+            platformVouchers: null,
+            serviceTypeIds: null,
+          });
+        }
+      } else {
+        const serverIds = new Set(serverCart.items.map((item) => item.cartItemId));
+        const cartItemIds = mutation.cartItemIds
+          .map(resolveId)
+          .filter((id): id is string => !!id && serverIds.has(id));
+        if (cartItemIds.length > 0) {
+          serverCart = await deleteCartItems(cartItemIds);
+        }
+      }
+    } catch (error) {
+      if (isRetryableError(error)) {
+        console.warn('[CartService] Sync interrupted, keeping remaining changes', error);
+        return { serverCart, queue: queue.slice(index), dropped, resolvedIds };
       }
+      console.warn('[CartService] Server rejected cart change', mutation.type, error);
+      dropped.push(mutation);
+    }
+  }
+
+  return { serverCart, queue: [], dropped, resolvedIds };
+};
+
+/**
+ * Kiểm tra sản phẩm khách đã thêm còn bán và còn hàng không
+ */
+const isGuestItemAvailable = async (mutation: CartAddMutation): Promise<boolean> => {
+  try {
+    const product = await getProductById(mutation.preview.productId);
+    if (product.status && product.status !== 'ACTIVE') {
+      return false;
+    }
+    if (mutation.item.variantId) {
+      const variant = product.variants?.find((v) => v.variantId === mutation.item.variantId);
+      return !!variant && variant.variantStock > 0;
     }
-    
-    // Format 2: Direct Cart object (CartResponse) - same as getCustomerCart
-    if (data && typeof data === 'object' && 'cartId' in data && 'items' in data) {
-      return data as Cart;
+    if (mutation.item.comboId) {
+      return true;
     }
+    return product.stockQuantity > 0;
+  } catch (error) {
+    if (ApiError.from(error).status === 404) {
+      return false;
+    }
+    // Không kiểm tra được - để server quyết định khi thêm
+    return true;
+  }
+};
 
-    // Log warning for debugging
-    console.warn('[CartService] updateQuantityWithVouchers: Unexpected response format', {
-      hasData: 'data' in (data as any),
-      hasCartId: 'cartId' in (data as any),
-      hasItems: 'items' in (data as any),
-      hasStatus: 'status' in (data as any),
-      keys: data ? Object.keys(data as any) : [],
-      responseKeys: response ? Object.keys(response) : [],
-    });
+const toMergeIssue = (
+  mutation: CartAddMutation,
+  currentPrice?: number | null,
+): GuestCartMergeIssue => ({
+  name: mutation.preview.name,
+  image: mutation.preview.image,
+  variantOptionValue: mutation.preview.variantOptionValue,
+  quantity: mutation.item.quantity,
+  previousPrice: mutation.preview.unitPrice,
+  currentPrice,
+});
+
+/**
+ * Gộp giỏ của khách (các sản phẩm lưu trên máy) vào giỏ tài khoản sau khi đăng nhập
+ * - Sản phẩm đã hết hàng / ngừng bán thì không thêm, báo trong `report.outOfStock`
+ * - Thêm cả lô qua addItemsToCart, server từ chối thì thêm lần lượt để tách sản phẩm lỗi
+ * - So giá trong giỏ server với giá lúc khách thêm, khác thì báo trong `report.priceChanged`
+ */
+export const mergeGuestCart = async (queue: CartMutation[]): Promise<GuestCartMergeResult> => {
+  const guestItems = queue.filter((mutation): mutation is CartAddMutation => mutation.type === 'ADD');
+  const report: GuestCartMergeReport = { mergedCount: 0, outOfStock: [], priceChanged: [] };
+
+  const availability = await Promise.all(guestItems.map(isGuestItemAvailable));
+  const rejected = new Set(guestItems.filter((_, index) => !availability[index]));
+  const available = guestItems.filter((mutation) => !rejected.has(mutation));
 
-    // Fallback: try to extract from any nested structure
-    // @ts-ignore
-    const fallback = (data as any)?.data ?? data;
-    if (fallback && typeof fallback === 'object' && 'cartId' in fallback) {
-      return fallback as Cart;
+  let serverCart: Cart;
+  if (available.length === 0) {
+    serverCart = await getCustomerCart();
+  } else {
+    try {
+      serverCart = await addItemsToCart({ items: available.map((mutation) => mutation.item) });
+    } catch (error) {
+      if (isRetryableError(error)) {
+        throw error;
+      }
+      console.warn('[CartService] Guest cart batch merge rejected, adding items one by one', error);
+      serverCart = await getCustomerCart();
+      for (const mutation of available) {
+        try {
+          serverCart = await addItemsToCart({ items: [mutation.item] });
+        } catch (itemError) {
+          if (isRetryableError(itemError)) {
+            throw itemError;
+          }
+          rejected.add(mutation);
+        }
+      }
     }
+  }
 
-    throw new Error('Invalid response format from updateQuantityWithVouchers API');
-  } catch (error: any) {
-    console.error('[CartService] updateQuantityWithVouchers: Error', {
-      status: error?.response?.status,
-      statusText: error?.response?.statusText,
-      url: error?.config?.url,
-      method: error?.config?.method,
-      message: error?.message,
-      responseData: error?.response?.data,
-    });
-    throw error;
+  const resolvedIds: Record<string, string> = {};
+  guestItems.forEach((mutation) => {
+    if (rejected.has(mutation)) {
+      report.outOfStock.push(toMergeIssue(mutation));
+      return;
+    }
+    report.mergedCount += 1;
+    const serverItem = findMatchingCartItem(serverCart, mutation.item, mutation.preview.productId);
+    if (!serverItem) {
+      return;
+    }
+    resolvedIds[toLocalCartItemId(mutation.id)] = serverItem.cartItemId;
+    if (serverItem.unitPrice !== mutation.preview.unitPrice) {
+      report.priceChanged.push(toMergeIssue(mutation, serverItem.unitPrice));
+    }
+  });
+
+  return { serverCart, queue: [], dropped: [], resolvedIds, report };
+};
+
+const toBuyAgainLine = (orderItem: OrderItem, unitPrice: number, quantity: number): BuyAgainLine => ({
+  orderItem,
+  request:
+    orderItem.type === 'COMBO'
+      ? { type: 'COMBO', comboId: orderItem.refId, quantity }
+      : {
+          type: 'PRODUCT',
+          productId: orderItem.refId,
+          variantId: orderItem.variantId ?? undefined,
+          quantity,
+        },
+  preview: {
+    productId: orderItem.refId,
+    name: orderItem.name,
+    image: orderItem.image ?? '',
+    unitPrice,
+    variantOptionName: orderItem.variantOptionName ?? null,
+    variantOptionValue: orderItem.variantOptionValue ?? null,
+  },
+});
+
+/**
+ * Kiểm tra một dòng đơn cũ còn mua lại được không, trả về yêu cầu thêm giỏ theo giá hiện tại
+ * (số lượng giảm xuống bằng tồn kho nếu không còn đủ)
+ */
+const checkBuyAgainItem = async (
+  orderItem: OrderItem,
+): Promise<BuyAgainLine | BuyAgainUnavailableReason> => {
+  // Chưa có API chi tiết combo - để server quyết định khi thêm
+  if (orderItem.type === 'COMBO') {
+    return toBuyAgainLine(orderItem, orderItem.unitPrice, orderItem.quantity);
+  }
+  try {
+    const product = await getProductById(orderItem.refId);
+    if (product.status && product.status !== 'ACTIVE') {
+      return 'INACTIVE';
+    }
+    let stock = product.stockQuantity;
+    let unitPrice = product.finalPrice ?? product.price;
+    if (orderItem.variantId) {
+      const variant = product.variants?.find((v) => v.variantId === orderItem.variantId);
+      if (!variant) {
+        return 'VARIANT_UNAVAILABLE';
+      }
+      stock = variant.variantStock;
+      unitPrice = variant.variantPrice ?? unitPrice;
+    }
+    if (stock <= 0) {
+      return 'OUT_OF_STOCK';
+    }
+    return toBuyAgainLine(
+      orderItem,
+      unitPrice,
+      clampCartQuantity(Math.min(orderItem.quantity, stock)),
+    );
+  } catch (error) {
+    if (ApiError.from(error).status === 404) {
+      return 'NOT_FOUND';
+    }
+    // Không kiểm tra được - để server quyết định khi thêm
+    return toBuyAgainLine(orderItem, orderItem.unitPrice, orderItem.quantity);
   }
 };
 
 /**
- * DELETE /api/v1/customers/{customerId}/cart/items
- * Xóa các item khỏi giỏ hàng
+ * Chuẩn bị mua lại các sản phẩm trong đơn cũ: kiểm tra trạng thái bán, biến thể và tồn kho
+ * - `available`: yêu cầu thêm giỏ kèm thông tin hiển thị tạm
+ * - `unavailable`: dòng không thêm lại được và lý do
  */
-export const deleteCartItems = async ({
-  customerId,
-  accessToken,
-  cartItemIds,
-}: AuthenticatedCustomerRequest & { cartItemIds: string[] }): Promise<Cart> => {
-  const { data } = await httpClient.delete<CartResponse | { data: CartResponse }>(
-    `/v1/customers/${customerId}/cart/items`,
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      data: { cartItemIds }, // axios supports body in DELETE via config.data
-    },
-  );
-  // Some APIs wrap payload in { data, status, message }
-  // normalize to Cart shape
-  // @ts-ignore
-  return (data as any)?.data ?? (data as CartResponse);
+export const checkBuyAgainItems = async (items: OrderItem[]): Promise<BuyAgainCheckResult> => {
+  const results = await Promise.all(items.map(checkBuyAgainItem));
+  const result: BuyAgainCheckResult = { available: [], unavailable: [] };
+  results.forEach((line, index) => {
+    if (typeof line === 'string') {
+      result.unavailable.push({ orderItem: items[index], reason: line });
+    } else {
+      result.available.push(line);
+    }
+  });
+  return result;
 };
 
 /**
  * POST /api/v1/customers/{customerId}/cart/checkout-cod
  * Checkout với COD (Cash on Delivery)
  */
-export const checkoutCod = async ({
-  customerId,
-  accessToken,
-  payload,
-}: AuthenticatedCustomerRequest & {
-  payload: CheckoutCodRequest;
-}): Promise<CheckoutCodResponse['data']> => {
-  const endpoint = `/v1/customers/${customerId}/cart/checkout-cod`;
+export const checkoutCod = async (
+  payload: CheckoutCodRequest,
+): Promise<CheckoutCodResponse['data']> => {
+  const endpoint = '/v1/customers/{customerId}/cart/checkout-cod';
   throttledLog('checkoutCod_request', () => {
     console.log('[CartService] checkoutCod: Request', {
-      customerId,
       endpoint,
       payload: {
         itemsCount: payload.items.length,
@@ -199,43 +496,27 @@ export const checkoutCod = async ({
   });
 
   try {
-    const { data } = await httpClient.post<CheckoutCodResponse>(
-      endpoint,
-      payload,
-      {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-      },
-    );
+    const result = await authenticatedClient.post<CheckoutCodResponse['data']>(endpoint, payload);
 
     throttledLog('checkoutCod_response', () => {
       console.log('[CartService] checkoutCod: Response', {
-        status: data.status,
-        message: data.message,
-        ordersCount: Array.isArray(data.data) ? data.data.length : 0,
-        firstOrder: Array.isArray(data.data) && data.data.length > 0 ? {
-          orderCode: data.data[0].orderCode,
-          grandTotal: data.data[0].grandTotal,
+        status: result.status,
+        message: result.message,
+        ordersCount: Array.isArray(result.data) ? result.data.length : 0,
+        firstOrder: Array.isArray(result.data) && result.data.length > 0 ? {
+          orderCode: result.data[0].orderCode,
+          grandTotal: result.data[0].grandTotal,
         } : null,
       });
     });
 
     // Response is now an array of orders
-    if (data.data && Array.isArray(data.data)) {
-      return data.data;
+    if (Array.isArray(result.data)) {
+      return result.data;
     }
     throw new Error('Invalid response format from checkout API');
-  } catch (error: any) {
-    console.error('[CartService] checkoutCod: Error', {
-      status: error?.response?.status,
-      statusText: error?.response?.statusText,
-      url: error?.config?.url,
-      method: error?.config?.method,
-      message: error?.message,
-      responseData: error?.response?.data,
-    });
+  } catch (error) {
+    logApiError('checkoutCod', error);
     throw error;
   }
 };
@@ -244,17 +525,12 @@ export const checkoutCod = async ({
  * POST /api/v1/payos/checkout?customerId={customerId}
  * Checkout với PayOS
  */
-export const checkoutPayOS = async ({
-  customerId,
-  accessToken,
-  payload,
-}: AuthenticatedCustomerRequest & {
-  payload: CheckoutPayOSRequest;
-}): Promise<CheckoutPayOSResponse['data']> => {
-  const endpoint = `/v1/payos/checkout?customerId=${customerId}`;
+export const checkoutPayOS = async (
+  payload: CheckoutPayOSRequest,
+): Promise<CheckoutPayOSResponse['data']> => {
+  const endpoint = '/v1/payos/checkout?customerId={customerId}';
   throttledLog('checkoutPayOS_request', () => {
     console.log('[CartService] checkoutPayOS: Request', {
-      customerId,
       endpoint,
       payload: {
         itemsCount: payload.items.length,
@@ -269,44 +545,23 @@ export const checkoutPayOS = async ({
   });
 
   try {
-    const { data } = await httpClient.post<CheckoutPayOSResponse>(
-      endpoint,
-      payload,
-      {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-      },
-    );
+    const result = await authenticatedClient.post<CheckoutPayOSResponse['data']>(endpoint, payload);
 
     throttledLog('checkoutPayOS_response', () => {
       console.log('[CartService] checkoutPayOS: Response', {
-        status: data.status,
-        message: data.message,
-        hasData: !!data.data,
-        dataKeys: data.data ? Object.keys(data.data) : [],
+        status: result.status,
+        message: result.message,
+        hasData: !!result.data,
+        dataKeys: result.data ? Object.keys(result.data) : [],
       });
     });
 
-    // Handle different response formats
-    if (data.data) {
-      return data.data;
-    }
-    // If response is directly the data (unlikely but handle it)
-    if ((data as any).checkoutUrl || (data as any).orderId || (data as any).orderCode) {
-      return (data as any) as CheckoutPayOSResponse['data'];
+    if (result.data?.checkoutUrl || result.data?.orderId || result.data?.orderCode) {
+      return result.data;
     }
     throw new Error('Invalid response format from checkout API');
-  } catch (error: any) {
-    console.error('[CartService] checkoutPayOS: Error', {
-      status: error?.response?.status,
-      statusText: error?.response?.statusText,
-      url: error?.config?.url,
-      method: error?.config?.method,
-      message: error?.message,
-      responseData: error?.response?.data,
-    });
+  } catch (error) {
+    logApiError('checkoutPayOS', error);
     throw error;
   }
 };
@@ -315,62 +570,69 @@ export const checkoutPayOS = async ({
  * POST /api/v1/customers/{customerId}/cart/checkout/preview
  * Preview checkout để xem trước thông tin trước khi tạo đơn thực tế
  */
-export const checkoutPreview = async ({
-  customerId,
-  accessToken,
-  payload,
-}: AuthenticatedCustomerRequest & {
-  payload: CheckoutPreviewRequest;
-}): Promise<CheckoutPreviewResponse['data']> => {
-  const endpoint = `/v1/customers/${customerId}/cart/checkout/preview`;
-  // Logging disabled - called too frequently
-  // console.log('[CartService] checkoutPreview: Request', {
-  //   customerId,
-  //   endpoint,
-  //   payload: {
-  //     itemsCount: payload.items.length,
-  //     addressId: payload.addressId,
-  //     hasStoreVouchers: !!payload.storeVouchers,
-  //     hasPlatformVouchers: !!payload.platformVouchers,
-  //     hasServiceTypeIds: !!payload.serviceTypeIds,
-  //   },
-  // });
-
+export const checkoutPreview = async (
+  payload: CheckoutPreviewRequest,
+): Promise<CheckoutPreviewResponse['data']> => {
   try {
-    const { data } = await httpClient.post<CheckoutPreviewResponse>(endpoint, payload, {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'X-Customer-Id': customerId,
-        'Content-Type': 'application/json',
+    const { customerId } = getApiSession();
+    const { data } = await authenticatedClient.post<CheckoutPreviewResponse['data']>(
+      '/v1/customers/{customerId}/cart/checkout/preview',
+      payload,
+      {
+        headers: {
+          'X-Customer-Id': customerId,
+        },
       },
-    });
+    );
 
-    // Logging disabled - called too frequently
-    // console.log('[CartService] checkoutPreview: Response', {
-    //   status: data.status,
-    //   message: data.message,
-    //   hasData: !!data.data,
-    //   overallSubtotal: data.data?.overallSubtotal,
-    //   overallShipping: data.data?.overallShipping,
-    //   overallDiscount: data.data?.overallDiscount,
-    //   overallGrandTotal: data.data?.overallGrandTotal,
-    //   storesCount: data.data?.stores?.length,
-    // });
-
-    if (data.data) {
-      return data.data;
+    if (data) {
+      return data;
     }
 
     throw new Error('Invalid response format from checkout preview API');
-  } catch (error: any) {
-    console.error('[CartService] checkoutPreview: Error', {
-      status: error?.response?.status,
-      statusText: error?.response?.statusText,
-      url: error?.config?.url,
-      method: error?.config?.method,
-      message: error?.message,
-      responseData: error?.response?.data,
-    });
+  } catch (error) {
+    logApiError('checkoutPreview', error);
     throw error;
   }
 };
+
+/**
+ * POST /api/v1/customers/{customerId}/cart/checkout/preview
+ * Kiểm tra mã voucher nhập tay: preview lại đơn kèm mã và so với preview hiện tại.
+ * Lỗi mạng / lỗi server được ném lại, lỗi của mã trả về kèm lý do.
+ */
+export const validateVoucherCode = async (
+  payload: CheckoutPreviewRequest,
+  input: { code: string; scope: VoucherCodeScope; storeId?: string | null },
+  currentPreview: CheckoutPreviewResponse['data'] | null,
+): Promise<VoucherCodeValidationResult> => {
+  const voucherCode = {
+    code: normalizeVoucherCode(input.code),
+    scope: input.scope,
+    storeId: input.storeId ?? null,
+  };
+
+  try {
+    const preview = await checkoutPreview(addVoucherCodeToPreviewRequest(payload, voucherCode));
+    const discount = getVoucherCodeDiscount(voucherCode, preview, currentPreview);
+    if (discount === null) {
+      return {
+        valid: false,
+        reason: 'NOT_APPLICABLE',
+        message: VOUCHER_CODE_FAILURE_LABELS.NOT_APPLICABLE,
+      };
+    }
+    return { valid: true, voucherCode: { ...voucherCode, discount }, preview };
+  } catch (error) {
+    const apiError = ApiError.from(error);
+    if (apiError.isNetworkError || apiError.status >= 500 || apiError.status === 401) {
+      throw apiError;
+    }
+    const reason = getVoucherCodeFailureReason(apiError);
+    return {
+      valid: false,
+      reason,
+      message: reason === 'UNKNOWN' ? apiError.message : VOUCHER_CODE_FAILURE_LABELS[reason],
+    };
+  }
+};
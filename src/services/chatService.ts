@@ -1,4 +1,4 @@
-import httpClient from '../api/httpClient';
+import { ApiError, authenticatedClient } from '../api/authenticatedClient';
 import { AuthState } from '../context/AuthContext';
 import {
     ChatMessage,
@@ -55,12 +55,7 @@ export const getCurrentCustomerId = async (authState: AuthState): Promise<string
  * GET /api/chat/conversations/{customerId}/{storeId}/messages
  * Get messages between customer and store
  */
-export const getMessages = async (
-  customerId: string,
-  storeId: string,
-  authState: AuthState,
-  limit?: number,
-): Promise<ChatMessage[]> => {
+export const getMessages = async (storeId: string, limit?: number): Promise<ChatMessage[]> => {
   const params: Record<string, any> = {
     viewerType: 'CUSTOMER',
   };
@@ -70,24 +65,17 @@ export const getMessages = async (
   }
 
   try {
-    const { data } = await httpClient.get<ChatMessage[] | { data: ChatMessage[] }>(
-      `/chat/conversations/${customerId}/${storeId}/messages`,
-      {
-        params,
-        headers: {
-          Authorization: `Bearer ${authState.accessToken}`,
-        },
-      },
+    const { data } = await authenticatedClient.get<ChatMessage[]>(
+      `/chat/conversations/{customerId}/${storeId}/messages`,
+      { params },
     );
 
-    // Handle both array and wrapped response
-    const messages = Array.isArray(data) ? data : data.data || [];
-    return messages;
-  } catch (error: any) {
-    console.error('[ChatService] Failed to get messages:', error);
-    if (error?.response?.status === 404) {
+    return Array.isArray(data) ? data : [];
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
       return []; // No messages yet
     }
+    console.error('[ChatService] Failed to get messages:', error);
     throw error;
   }
 };
@@ -97,26 +85,17 @@ export const getMessages = async (
  * Send a message
  */
 export const sendMessage = async (
-  customerId: string,
   storeId: string,
   message: SendMessageRequest,
-  authState: AuthState,
 ): Promise<ChatMessage> => {
   try {
-    const { data } = await httpClient.post<ChatMessage | { data: ChatMessage }>(
-      `/chat/conversations/${customerId}/${storeId}/messages`,
+    const { data } = await authenticatedClient.post<ChatMessage | ChatMessage[]>(
+      `/chat/conversations/{customerId}/${storeId}/messages`,
       message,
-      {
-        headers: {
-          Authorization: `Bearer ${authState.accessToken}`,
-          'Content-Type': 'application/json',
-        },
-      },
     );
 
-    // Handle both direct and wrapped response
-    return Array.isArray(data) ? data[0] : (data as any).data || data;
-  } catch (error: any) {
+    return Array.isArray(data) ? data[0] : data;
+  } catch (error) {
     console.error('[ChatService] Failed to send message:', error);
     throw error;
   }
@@ -126,23 +105,14 @@ export const sendMessage = async (
  * GET /api/chat/customers/{customerId}/conversations
  * Get all conversations for a customer
  */
-export const getCustomerConversations = async (
-  customerId: string,
-  authState: AuthState,
-): Promise<Conversation[]> => {
+export const getCustomerConversations = async (): Promise<Conversation[]> => {
   try {
-    const { data } = await httpClient.get<Conversation[] | { data: Conversation[] }>(
-      `/chat/customers/${customerId}/conversations`,
-      {
-        headers: {
-          Authorization: `Bearer ${authState.accessToken}`,
-        },
-      },
+    const { data } = await authenticatedClient.get<Conversation[]>(
+      '/chat/customers/{customerId}/conversations',
     );
 
-    // Handle both array and wrapped response
-    return Array.isArray(data) ? data : data.data || [];
-  } catch (error: any) {
+    return Array.isArray(data) ? data : [];
+  } catch (error) {
     console.error('[ChatService] Failed to get conversations:', error);
     throw error;
   }
@@ -152,26 +122,18 @@ export const getCustomerConversations = async (
  * POST /api/chat/conversations/{customerId}/{storeId}/read?viewerId={viewerId}
  * Mark messages as read
  */
-export const markAsRead = async (
-  customerId: string,
-  storeId: string,
-  viewerId: string,
-  authState: AuthState,
-): Promise<void> => {
+export const markAsRead = async (storeId: string, viewerId: string): Promise<void> => {
   try {
-    await httpClient.post(
-      `/chat/conversations/${customerId}/${storeId}/read`,
+    await authenticatedClient.post(
+      `/chat/conversations/{customerId}/${storeId}/read`,
       {},
       {
         params: {
           viewerId,
         },
-        headers: {
-          Authorization: `Bearer ${authState.accessToken}`,
-        },
       },
     );
-  } catch (error: any) {
+  } catch (error) {
     console.error('[ChatService] Failed to mark as read:', error);
     // Don't throw - this is not critical
   }
@@ -0,0 +1,328 @@
+import { getApiSession } from '../api/authenticatedClient';
+import { refreshAccessToken } from '../api/httpClient';
+import {
+  ChatConnectionStatus,
+  ChatRealtimeHandlers,
+  ChatRealtimeTransport,
+  ChatSocketEvent,
+} from '../types/chat';
+
+/**
+ * Chat Socket Service
+ * Realtime chat over STOMP (WebSocket) against the backend broker.
+ *
+ * Set EXPO_PUBLIC_CHAT_WS_URL to override the endpoint,
+ * e.g. ws://localhost:8090/ws for `npm run mock:chat`.
+ */
+
+const DEFAULT_API_BASE_URL =
+  process.env.EXPO_PUBLIC_API_BASE_URL ?? 'https://audioe-commerce-production.up.railway.app/api';
+
+// https://host/api -> wss://host/ws
+const DEFAULT_CHAT_WS_URL =
+  process.env.EXPO_PUBLIC_CHAT_WS_URL ??
+  DEFAULT_API_BASE_URL.replace(/^http/, 'ws').replace(/\/api\/?$/, '/ws');
+
+const HEARTBEAT_MS = 10000;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const FRAME_TERMINATOR = '\u0000';
+const AUTH_ERROR_PATTERN = /401|403|unauthori[sz]ed|forbidden|expired|token|auth/i;
+
+type StompFrame = {
+  command: string;
+  headers: Record<string, string>;
+  body: string;
+};
+
+type Subscription = {
+  destination: string;
+  handlers: ChatRealtimeHandlers;
+};
+
+const encodeFrame = (command: string, headers: Record<string, string>, body = ''): string => {
+  const headerLines = Object.entries(headers).map(([key, value]) => `${key}:${value}`);
+  return `${[command, ...headerLines].join('\n')}\n\n${body}${FRAME_TERMINATOR}`;
+};
+
+const decodeFrame = (raw: string): StompFrame | null => {
+  // Heart-beat là các dòng trống giữa các frame
+  const data = raw.replace(/^[\r\n]+/, '');
+  if (!data) {
+    return null;
+  }
+
+  const separatorIndex = data.indexOf('\n\n');
+  const head = separatorIndex >= 0 ? data.slice(0, separatorIndex) : data;
+  const body = separatorIndex >= 0 ? data.slice(separatorIndex + 2) : '';
+  const [command, ...headerLines] = head.split('\n');
+
+  const headers: Record<string, string> = {};
+  headerLines.forEach((line) => {
+    const colonIndex = line.indexOf(':');
+    if (colonIndex > 0) {
+      headers[line.slice(0, colonIndex)] = line.slice(colonIndex + 1);
+    }
+  });
+
+  return { command: command.trim(), headers, body };
+};
+
+/**
+ * Tạo transport STOMP: một kết nối dùng chung cho mọi cuộc hội thoại đang mở,
+ * tự kết nối lại với backoff tăng dần khi mất kết nối
+ */
+export const createStompChatTransport = (url: string = DEFAULT_CHAT_WS_URL): ChatRealtimeTransport => {
+  const subscriptions = new Map<string, Subscription>();
+  let socket: WebSocket | null = null;
+  let isConnected = false;
+  let status: ChatConnectionStatus = 'disconnected';
+  let buffer = '';
+  let subscriptionCounter = 0;
+  let reconnectAttempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  // Broker từ chối token: lần kết nối lại sau phải lấy token mới
+  let needsTokenRefresh = false;
+  let hasRefreshedToken = false;
+
+  const setStatus = (next: ChatConnectionStatus) => {
+    status = next;
+    subscriptions.forEach(({ handlers }) => handlers.onStatusChange?.(next));
+  };
+
+  const send = (frame: string) => {
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(frame);
+    }
+  };
+
+  const sendSubscribe = (id: string, destination: string) => {
+    send(encodeFrame('SUBSCRIBE', { id, destination, ack: 'auto' }));
+  };
+
+  const clearTimers = () => {
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    if (heartbeatTimer) {
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+    }
+  };
+
+  const dispatch = (frame: StompFrame) => {
+    const subscription = subscriptions.get(frame.headers.subscription);
+    if (!subscription) {
+      return;
+    }
+
+    let event: ChatSocketEvent;
+    try {
+      event = JSON.parse(frame.body);
+    } catch (error) {
+      console.warn('[ChatSocketService] Invalid message payload', error);
+      return;
+    }
+
+    if (event.type === 'MESSAGE' && event.message) {
+      subscription.handlers.onMessage(event.message);
+    } else if (event.type === 'READ') {
+      subscription.handlers.onRead?.(event);
+    }
+  };
+
+  const handleFrame = (frame: StompFrame) => {
+    switch (frame.command) {
+      case 'CONNECTED':
+        isConnected = true;
+        reconnectAttempt = 0;
+        hasRefreshedToken = false;
+        heartbeatTimer = setInterval(() => send('\n'), HEARTBEAT_MS);
+        subscriptions.forEach((subscription, id) => sendSubscribe(id, subscription.destination));
+        setStatus('connected');
+        break;
+      case 'MESSAGE':
+        dispatch(frame);
+        break;
+      case 'ERROR': {
+        const message = frame.headers.message || frame.body;
+        console.warn('[ChatSocketService] Broker error:', message);
+        // CONNECT bị từ chối hoặc lỗi xác thực: token đã hết hạn
+        if (!isConnected || AUTH_ERROR_PATTERN.test(message)) {
+          needsTokenRefresh = true;
+        }
+        socket?.close();
+        break;
+      }
+      default:
+        break;
+    }
+  };
+
+  const handleData = (data: string) => {
+    buffer += data;
+    const chunks = buffer.split(FRAME_TERMINATOR);
+    // Phần cuối chưa có ký tự kết thúc, giữ lại chờ dữ liệu tiếp
+    buffer = chunks.pop() ?? '';
+    chunks.forEach((chunk) => {
+      const frame = decodeFrame(chunk);
+      if (frame) {
+        handleFrame(frame);
+      }
+    });
+  };
+
+  const scheduleReconnect = () => {
+    if (reconnectTimer) {
+      return;
+    }
+    if (subscriptions.size === 0) {
+      setStatus('disconnected');
+      return;
+    }
+
+    if (needsTokenRefresh) {
+      needsTokenRefresh = false;
+      // Token mới vẫn bị từ chối thì dừng, không thử lại mãi
+      if (hasRefreshedToken) {
+        console.warn('[ChatSocketService] Broker rejected the refreshed token, giving up');
+        setStatus('disconnected');
+        return;
+      }
+      hasRefreshedToken = true;
+      setStatus('reconnecting');
+      refreshAccessToken()
+        .then((accessToken) => connect(accessToken))
+        .catch((error) => {
+          console.warn('[ChatSocketService] Token refresh failed, stop reconnecting', error);
+          setStatus('disconnected');
+        });
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempt, RECONNECT_MAX_DELAY_MS);
+    reconnectAttempt += 1;
+    setStatus('reconnecting');
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = (freshAccessToken?: string) => {
+    if (socket || subscriptions.size === 0) {
+      return;
+    }
+
+    let accessToken: string;
+    try {
+      accessToken = freshAccessToken ?? getApiSession().accessToken;
+    } catch {
+      setStatus('disconnected');
+      return;
+    }
+
+    if (reconnectAttempt === 0) {
+      setStatus('connecting');
+    }
+
+    const ws = new WebSocket(url);
+    socket = ws;
+    buffer = '';
+
+    ws.onopen = () => {
+      ws.send(
+        encodeFrame('CONNECT', {
+          'accept-version': '1.2',
+          host: '/',
+          'heart-beat': `${HEARTBEAT_MS},${HEARTBEAT_MS}`,
+          Authorization: `Bearer ${accessToken}`,
+        }),
+      );
+    };
+
+    ws.onmessage = (event) => {
+      handleData(String(event.data));
+    };
+
+    ws.onerror = () => {
+      console.warn('[ChatSocketService] Socket error, waiting for close');
+    };
+
+    ws.onclose = () => {
+      // Socket cũ đóng sau khi đã chủ động ngắt thì bỏ qua
+      if (socket !== ws) {
+        return;
+      }
+      socket = null;
+      isConnected = false;
+      clearTimers();
+      scheduleReconnect();
+    };
+  };
+
+  const disconnect = () => {
+    clearTimers();
+    reconnectAttempt = 0;
+    needsTokenRefresh = false;
+    hasRefreshedToken = false;
+    const ws = socket;
+    socket = null;
+    isConnected = false;
+    if (ws) {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(encodeFrame('DISCONNECT', {}));
+      }
+      ws.close();
+    }
+    status = 'disconnected';
+  };
+
+  const subscribe = (customerId: string, storeId: string, handlers: ChatRealtimeHandlers) => {
+    subscriptionCounter += 1;
+    const id = `sub-${subscriptionCounter}`;
+    const destination = `/topic/chat/${customerId}/${storeId}`;
+    subscriptions.set(id, { destination, handlers });
+
+    if (isConnected) {
+      sendSubscribe(id, destination);
+      handlers.onStatusChange?.(status);
+    } else if (socket || reconnectTimer) {
+      handlers.onStatusChange?.(status);
+    } else {
+      connect();
+    }
+
+    return () => {
+      if (!subscriptions.delete(id)) {
+        return;
+      }
+      if (isConnected) {
+        send(encodeFrame('UNSUBSCRIBE', { id }));
+      }
+      if (subscriptions.size === 0) {
+        disconnect();
+      }
+    };
+  };
+
+  return { subscribe };
+};
+
+let chatTransport: ChatRealtimeTransport | null = null;
+
+/**
+ * Thay transport realtime (vd: mock trong lúc phát triển)
+ */
+export const setChatRealtimeTransport = (transport: ChatRealtimeTransport | null) => {
+  chatTransport = transport;
+};
+
+export const getChatRealtimeTransport = (): ChatRealtimeTransport => {
+  if (!chatTransport) {
+    chatTransport = createStompChatTransport();
+  }
+  return chatTransport;
+};
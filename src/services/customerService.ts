@@ -1,97 +1,50 @@
-import httpClient from '../api/httpClient';
-import {
-  CreateCustomerAddressPayload,
-  CreateCustomerAddressResponse,
-  CustomerAddress,
-  CustomerProfile,
-} from '../types/customer';
+import { ApiSession, authenticatedClient } from '../api/authenticatedClient';
+import { CreateCustomerAddressPayload, CustomerAddress, CustomerProfile } from '../types/customer';
 
-type AuthenticatedCustomerRequest = {
-  customerId: string;
-  accessToken: string;
-};
-
-export const getCustomerById = async ({
-  customerId,
-  accessToken,
-}: AuthenticatedCustomerRequest): Promise<CustomerProfile> => {
-  const { data } = await httpClient.get<CustomerProfile>(`/customers/${customerId}`, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
+/**
+ * GET /api/customers/{customerId}
+ * `session` is passed explicitly while logging in, before AuthContext has state
+ */
+export const getCustomerById = async (session?: ApiSession): Promise<CustomerProfile> => {
+  const { data } = await authenticatedClient.get<CustomerProfile>('/customers/{customerId}', {
+    session,
   });
   return data;
 };
 
-export const getCustomerAddresses = async ({
-  customerId,
-  accessToken,
-}: AuthenticatedCustomerRequest): Promise<CustomerAddress[]> => {
-  const { data } = await httpClient.get<CustomerAddress[]>(
-    `/customers/${customerId}/addresses`,
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
-    },
+export const getCustomerAddresses = async (): Promise<CustomerAddress[]> => {
+  const { data } = await authenticatedClient.get<CustomerAddress[]>(
+    '/customers/{customerId}/addresses',
   );
   return data;
 };
 
-export const createCustomerAddress = async ({
-  customerId,
-  accessToken,
-  payload,
-}: AuthenticatedCustomerRequest & {
-  payload: CreateCustomerAddressPayload;
-}): Promise<CustomerAddress> => {
-  const { data } = await httpClient.post<CreateCustomerAddressResponse>(
-    `/customers/${customerId}/addresses`,
+export const createCustomerAddress = async (
+  payload: CreateCustomerAddressPayload,
+): Promise<CustomerAddress> => {
+  const { data } = await authenticatedClient.post<CustomerAddress>(
+    '/customers/{customerId}/addresses',
     payload,
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-    },
   );
-  return data.data;
+  return data;
 };
 
 export const updateCustomerAddress = async ({
-  customerId,
   addressId,
-  accessToken,
   payload,
-}: AuthenticatedCustomerRequest & {
+}: {
   addressId: string;
   payload: CreateCustomerAddressPayload;
 }): Promise<CustomerAddress> => {
-  const { data } = await httpClient.put<CustomerAddress>(
-    `/customers/${customerId}/addresses/${addressId}`,
+  const { data } = await authenticatedClient.put<CustomerAddress>(
+    `/customers/{customerId}/addresses/${addressId}`,
     payload,
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-    },
   );
   return data;
 };
 
-export const deleteCustomerAddress = async ({
-  customerId,
-  addressId,
-  accessToken,
-}: AuthenticatedCustomerRequest & {
-  addressId: string;
-}): Promise<void> => {
-  await httpClient.delete<void>(`/customers/${customerId}/addresses/${addressId}`, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
+export const deleteCustomerAddress = async (addressId: string): Promise<void> => {
+  await authenticatedClient.delete<void>(`/customers/{customerId}/addresses/${addressId}`);
 };
 
 export type UpdateCustomerProfilePayload = {
@@ -108,23 +61,10 @@ export type UpdateCustomerProfilePayload = {
   preferredCategory?: string | null;
 };
 
-export const updateCustomerProfile = async ({
-  customerId,
-  accessToken,
-  payload,
-}: AuthenticatedCustomerRequest & {
-  payload: UpdateCustomerProfilePayload;
-}): Promise<CustomerProfile> => {
-  const { data } = await httpClient.put<CustomerProfile>(
-    `/customers/${customerId}`,
-    payload,
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-    },
-  );
+export const updateCustomerProfile = async (
+  payload: UpdateCustomerProfilePayload,
+): Promise<CustomerProfile> => {
+  const { data } = await authenticatedClient.put<CustomerProfile>('/customers/{customerId}', payload);
   return data;
 };
 
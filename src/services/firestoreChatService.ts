@@ -1,139 +0,0 @@
-/**
- * Firestore Chat Service
- * Handles realtime chat synchronization with Firestore
- * 
- * NOTE: This service requires Firebase SDK to be installed.
- * Install: npm install firebase
- * 
- * For now, this is a placeholder. To enable Firestore:
- * 1. Install Firebase: npm install firebase
- * 2. Initialize Firebase in your app
- * 3. Uncomment and configure the code below
- */
-
-import { FirebaseChatMessage } from '../types/chat';
-
-/**
- * Subscribe to messages in realtime
- * 
- * @param customerId Customer ID
- * @param storeId Store ID
- * @param onNewMessages Callback when new messages arrive
- * @returns Unsubscribe function
- */
-export const subscribeToMessages = (
-  customerId: string,
-  storeId: string,
-  onNewMessages: (messages: FirebaseChatMessage[]) => void,
-): (() => void) => {
-  // TODO: Implement Firestore subscription
-  // Requires Firebase SDK installation
-  
-  console.warn('[FirestoreChatService] Firestore not configured. Using API polling instead.');
-  
-  // Return empty unsubscribe function for now
-  return () => {
-    // No-op
-  };
-};
-
-/**
- * Send message to Firestore
- */
-export const sendMessage = async (
-  customerId: string,
-  storeId: string,
-  message: Omit<FirebaseChatMessage, 'id' | 'createdAt' | 'timestamp'>,
-): Promise<void> => {
-  // TODO: Implement Firestore send
-  // Requires Firebase SDK installation
-  
-  console.warn('[FirestoreChatService] Firestore not configured. Message sent via API only.');
-};
-
-/**
- * Update messages read status in Firestore
- */
-export const updateMessagesReadStatus = async (
-  customerId: string,
-  storeId: string,
-  senderType: 'CUSTOMER' | 'STORE',
-): Promise<void> => {
-  // TODO: Implement Firestore read status update
-  // Requires Firebase SDK installation
-  
-  console.warn('[FirestoreChatService] Firestore not configured. Read status updated via API only.');
-};
-
-/**
- * Example Firestore implementation (commented out):
- * 
- * import { collection, query, orderBy, limit, onSnapshot, addDoc, updateDoc, where, getDocs, writeBatch } from 'firebase/firestore';
- * import { db } from '../config/firebase'; // You need to create this config file
- * 
- * export const subscribeToMessages = (
- *   customerId: string,
- *   storeId: string,
- *   onNewMessages: (messages: FirebaseChatMessage[]) => void,
- * ): (() => void) => {
- *   const collectionPath = `chats/${customerId}_${storeId}/messages`;
- *   const messagesRef = collection(db, collectionPath);
- *   
- *   const q = query(
- *     messagesRef,
- *     orderBy('timestamp', 'asc'),
- *     limit(100),
- *   );
- * 
- *   const unsubscribe = onSnapshot(q, (snapshot) => {
- *     const messages: FirebaseChatMessage[] = snapshot.docs.map((doc) => ({
- *       id: doc.id,
- *       ...doc.data(),
- *     })) as FirebaseChatMessage[];
- *     
- *     onNewMessages(messages);
- *   });
- * 
- *   return unsubscribe;
- * };
- * 
- * export const sendMessage = async (
- *   customerId: string,
- *   storeId: string,
- *   message: Omit<FirebaseChatMessage, 'id' | 'createdAt' | 'timestamp'>,
- * ): Promise<void> => {
- *   const collectionPath = `chats/${customerId}_${storeId}/messages`;
- *   const messagesRef = collection(db, collectionPath);
- *   
- *   await addDoc(messagesRef, {
- *     ...message,
- *     createdAt: new Date().toISOString(),
- *     timestamp: Date.now(),
- *   });
- * };
- * 
- * export const updateMessagesReadStatus = async (
- *   customerId: string,
- *   storeId: string,
- *   senderType: 'CUSTOMER' | 'STORE',
- * ): Promise<void> => {
- *   const collectionPath = `chats/${customerId}_${storeId}/messages`;
- *   const messagesRef = collection(db, collectionPath);
- *   
- *   const q = query(
- *     messagesRef,
- *     where('senderType', '==', senderType),
- *     where('read', '==', false),
- *   );
- * 
- *   const snapshot = await getDocs(q);
- *   const batch = writeBatch(db);
- * 
- *   snapshot.docs.forEach((doc) => {
- *     batch.update(doc.ref, { read: true });
- *   });
- * 
- *   await batch.commit();
- * };
- */
-
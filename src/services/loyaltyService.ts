@@ -0,0 +1,51 @@
+import { authenticatedClient } from '../api/authenticatedClient';
+import {
+  LoyaltyMembership,
+  LoyaltyRedemptionRule,
+  LoyaltyTransactionPageResponse,
+} from '../types/loyalty';
+
+/**
+ * GET /api/v1/customers/{customerId}/loyalty/redemption-rule
+ * Lấy quy tắc quy đổi điểm và giới hạn dùng điểm mỗi đơn
+ */
+export const getLoyaltyRedemptionRule = async (): Promise<LoyaltyRedemptionRule> => {
+  const { data } = await authenticatedClient.get<LoyaltyRedemptionRule>(
+    '/v1/customers/{customerId}/loyalty/redemption-rule',
+  );
+  return data;
+};
+
+/**
+ * GET /api/v1/customers/{customerId}/loyalty/transactions
+ * Lấy lịch sử cộng/trừ điểm với pagination
+ */
+export const getLoyaltyTransactions = async (
+  page: number = 0,
+  size: number = 20,
+): Promise<LoyaltyTransactionPageResponse> => {
+  const queryParams = new URLSearchParams();
+  queryParams.append('page', String(page));
+  queryParams.append('size', String(size));
+
+  const { data } = await authenticatedClient.get<LoyaltyTransactionPageResponse>(
+    `/v1/customers/{customerId}/loyalty/transactions?${queryParams.toString()}`,
+  );
+  return data;
+};
+
+/**
+ * GET /api/v1/customers/{customerId}/loyalty/membership
+ * Lấy các hạng thành viên, điểm sắp hết hạn và voucher dành riêng cho hạng
+ */
+export const getLoyaltyMembership = async (): Promise<LoyaltyMembership> => {
+  const { data } = await authenticatedClient.get<LoyaltyMembership>(
+    '/v1/customers/{customerId}/loyalty/membership',
+  );
+  return {
+    ...data,
+    tiers: data?.tiers || [],
+    expiringPoints: data?.expiringPoints || [],
+    exclusiveVouchers: data?.exclusiveVouchers || [],
+  };
+};
@@ -1,30 +1,28 @@
-import httpClient from '../api/httpClient';
+import { ApiError, authenticatedClient } from '../api/authenticatedClient';
+import { CheckoutPayOSResponse } from '../types/checkout';
 import {
     CancelReason,
     CreateReturnRequest,
     CustomerOrder,
     GHNOrderResponse,
+    GHNOrderTracking,
     OrderHistoryRequest,
     OrderHistoryResponse,
+    ReturnRequest,
     ReturnRequestResponse,
+    ReturnShippingProofRequest,
 } from '../types/order';
 
-type AuthenticatedCustomerRequest = {
-  customerId: string;
-  accessToken: string;
-};
+const ALL_ORDERS_PAGE_SIZE = 100;
+const ALL_ORDERS_CONCURRENCY = 3;
 
 /**
  * GET /api/customers/{customerId}/orders
  * Lấy danh sách đơn hàng với pagination và filter
  */
-export const getCustomerOrders = async ({
-  customerId,
-  accessToken,
-  params,
-}: AuthenticatedCustomerRequest & {
-  params?: OrderHistoryRequest;
-}): Promise<{
+export const getCustomerOrders = async (
+  params?: OrderHistoryRequest,
+): Promise<{
   data: CustomerOrder[];
   total: number;
   totalPages: number;
@@ -42,13 +40,9 @@ export const getCustomerOrders = async ({
     queryParams.append('status', params.status);
   }
 
-  const endpoint = `/customers/${customerId}/orders?${queryParams.toString()}`;
+  const endpoint = `/customers/{customerId}/orders?${queryParams.toString()}`;
 
-  const { data } = await httpClient.get<OrderHistoryResponse>(endpoint, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
+  const { data } = await authenticatedClient.get<OrderHistoryResponse>(endpoint);
 
   // Handle both response formats
   const sourceItems: CustomerOrder[] = (data.items || data.content || []) as CustomerOrder[];
@@ -81,42 +75,44 @@ export const getCustomerOrders = async ({
   };
 };
 
+/**
+ * GET /api/customers/{customerId}/orders (tất cả các trang)
+ * Toàn bộ lịch sử đơn, dùng để tính chi tiêu xếp hạng thành viên
+ */
+export const getAllCustomerOrders = async (): Promise<CustomerOrder[]> => {
+  const firstPageResult = await getCustomerOrders({ page: 0, size: ALL_ORDERS_PAGE_SIZE });
+  const orders = [...firstPageResult.data];
+
+  // Tải các trang còn lại theo từng đợt, không bắn hết cùng lúc
+  for (let page = 1; page < firstPageResult.totalPages; page += ALL_ORDERS_CONCURRENCY) {
+    const batch = await Promise.all(
+      Array.from(
+        { length: Math.min(ALL_ORDERS_CONCURRENCY, firstPageResult.totalPages - page) },
+        (_, i) => getCustomerOrders({ page: page + i, size: ALL_ORDERS_PAGE_SIZE }),
+      ),
+    );
+    batch.forEach((result) => orders.push(...result.data));
+  }
+  return orders;
+};
+
 /**
  * GET /api/customers/{customerId}/orders/{orderId}
  * Lấy chi tiết đơn hàng
  */
-export const getCustomerOrderById = async ({
-  customerId,
-  accessToken,
-  orderId,
-}: AuthenticatedCustomerRequest & {
-  orderId: string;
-}): Promise<CustomerOrder | null> => {
-  const endpoint = `/customers/${customerId}/orders/${orderId}`;
+export const getCustomerOrderById = async (orderId: string): Promise<CustomerOrder | null> => {
+  const endpoint = `/customers/{customerId}/orders/${orderId}`;
 
   try {
-    const { data } = await httpClient.get<
-      CustomerOrder | { status: number; message: string; data: CustomerOrder }
-    >(endpoint, {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
-    });
-
-    let order: CustomerOrder | null = null;
-    if (data && typeof data === 'object' && 'data' in data) {
-      order = (data as { data: CustomerOrder }).data;
-    } else {
-      order = data as CustomerOrder;
-    }
+    const { data: order } = await authenticatedClient.get<CustomerOrder | null>(endpoint);
 
     if (!order) {
       return null;
     }
 
     return normalizeOrder(order as CustomerOrder & { items?: any[] });
-  } catch (error: any) {
-    if (error?.response?.status === 404) {
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
       return null;
     }
     throw error;
@@ -128,12 +124,10 @@ export const getCustomerOrderById = async ({
  * Hủy đơn hàng (chỉ khi status = PENDING)
  */
 export const cancelOrder = async ({
-  customerId,
-  accessToken,
   orderId,
   reason,
   note,
-}: AuthenticatedCustomerRequest & {
+}: {
   orderId: string;
   reason: CancelReason;
   note?: string;
@@ -144,18 +138,9 @@ export const cancelOrder = async ({
     query.append('note', note);
   }
 
-  const endpoint = `/v1/customers/${customerId}/orders/${orderId}/cancel?${query.toString()}`;
+  const endpoint = `/v1/customers/{customerId}/orders/${orderId}/cancel?${query.toString()}`;
 
-  await httpClient.post<void>(
-    endpoint,
-    undefined,
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-    },
-  );
+  await authenticatedClient.post<void>(endpoint);
 };
 
 /**
@@ -163,12 +148,10 @@ export const cancelOrder = async ({
  * Yêu cầu hủy đơn hàng (chỉ khi status = AWAITING_SHIPMENT)
  */
 export const requestCancelOrder = async ({
-  customerId,
-  accessToken,
   orderId,
   reason,
   note,
-}: AuthenticatedCustomerRequest & {
+}: {
   orderId: string;
   reason: CancelReason;
   note?: string;
@@ -179,44 +162,88 @@ export const requestCancelOrder = async ({
     query.append('note', note);
   }
 
-  const endpoint = `/v1/customers/${customerId}/orders/${orderId}/cancel-request?${query.toString()}`;
+  const endpoint = `/v1/customers/{customerId}/orders/${orderId}/cancel-request?${query.toString()}`;
+
+  await authenticatedClient.post<void>(endpoint);
+};
+
+/**
+ * POST /api/v1/payos/orders/{orderId}/payment-link?customerId={customerId}
+ * Tạo link thanh toán PayOS mới cho đơn hàng UNPAID (link cũ đã hết hạn hoặc bị hủy)
+ */
+export const createOrderPaymentLink = async ({
+  orderId,
+  returnUrl,
+  cancelUrl,
+}: {
+  orderId: string;
+  returnUrl: string;
+  cancelUrl: string;
+}): Promise<CheckoutPayOSResponse['data']> => {
+  const endpoint = `/v1/payos/orders/${orderId}/payment-link?customerId={customerId}`;
+
+  const { data } = await authenticatedClient.post<CheckoutPayOSResponse['data']>(
+    endpoint,
+    { returnUrl, cancelUrl },
+    { errorMessage: 'Không thể tạo link thanh toán. Vui lòng thử lại.' },
+  );
+
+  if (!data?.checkoutUrl) {
+    throw new Error('Invalid response format from payment link API');
+  }
+  return data;
+};
+
+/**
+ * POST /api/v1/customers/{customerId}/orders/{orderId}/switch-to-cod
+ * Chuyển đơn hàng UNPAID sang thanh toán khi nhận hàng (COD)
+ */
+export const switchOrderToCod = async (
+  orderId: string,
+): Promise<{ order: CustomerOrder | null; message: string }> => {
+  const endpoint = `/v1/customers/{customerId}/orders/${orderId}/switch-to-cod`;
 
-  await httpClient.post<void>(
+  const { data: order, message } = await authenticatedClient.post<CustomerOrder | null>(
     endpoint,
     undefined,
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-    },
+    { errorMessage: 'Không thể chuyển sang thanh toán khi nhận hàng.' },
   );
+
+  return {
+    order: order ? normalizeOrder(order as CustomerOrder & { items?: any[] }) : null,
+    message,
+  };
+};
+
+/**
+ * POST /api/v1/customers/{customerId}/orders/{orderId}/confirm-receipt
+ * Xác nhận đã nhận hàng (chỉ khi status = DELIVERED_WAITING_CONFIRM)
+ */
+export const confirmOrderReceipt = async (orderId: string): Promise<CustomerOrder | null> => {
+  const endpoint = `/v1/customers/{customerId}/orders/${orderId}/confirm-receipt`;
+
+  const { data: order } = await authenticatedClient.post<CustomerOrder | null>(endpoint, undefined, {
+    errorMessage: 'Không thể xác nhận đã nhận hàng. Vui lòng thử lại.',
+  });
+
+  return order ? normalizeOrder(order as CustomerOrder & { items?: any[] }) : null;
 };
 
 /**
  * GET /api/v1/ghn-orders/by-store-order/{storeOrderId}
  * Lấy thông tin GHN Order (Tracking)
  */
-export const getGhnOrderByStoreOrderId = async ({
-  accessToken,
-  storeOrderId,
-}: {
-  accessToken: string;
-  storeOrderId: string;
-}): Promise<GHNOrderResponse | null> => {
+export const getGhnOrderByStoreOrderId = async (
+  storeOrderId: string,
+): Promise<GHNOrderResponse | null> => {
   try {
-    const { data } = await httpClient.get<GHNOrderResponse>(
+    const result = await authenticatedClient.get<GHNOrderResponse['data']>(
       `/v1/ghn-orders/by-store-order/${storeOrderId}`,
-      {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-        },
-      },
     );
-    return data;
-  } catch (error: any) {
+    return result.data ? result : null;
+  } catch (error) {
     // Return null for 404 or 500 - this is normal when order doesn't have GHN tracking yet
-    if (error?.response?.status === 404 || error?.response?.status === 500) {
+    if (error instanceof ApiError && (error.status === 404 || error.status === 500)) {
       return null;
     }
     // Only log unexpected errors
@@ -225,26 +252,86 @@ export const getGhnOrderByStoreOrderId = async ({
   }
 };
 
+/**
+ * GET /api/v1/ghn-orders/by-store-order/{storeOrderId}/tracking
+ * Lấy nhật ký vận chuyển GHN (các mốc trạng thái, phí, lịch sử thay đổi ETA)
+ */
+export const getGhnOrderTracking = async (
+  storeOrderId: string,
+): Promise<GHNOrderTracking | null> => {
+  try {
+    const { data } = await authenticatedClient.get<GHNOrderTracking>(
+      `/v1/ghn-orders/by-store-order/${storeOrderId}/tracking`,
+      { errorMessage: 'Không thể tải hành trình đơn hàng' },
+    );
+    if (!data) {
+      return null;
+    }
+    return {
+      ...data,
+      logs: Array.isArray(data.logs) ? data.logs : [],
+      etaHistory: Array.isArray(data.etaHistory) ? data.etaHistory : [],
+    };
+  } catch (error) {
+    // Chưa có vận đơn GHN
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+};
+
 /**
  * POST /api/customers/me/returns
  * Tạo Return Request
  */
-export const createReturnRequest = async ({
-  accessToken,
-  payload,
-}: {
-  accessToken: string;
-  payload: CreateReturnRequest;
-}): Promise<ReturnRequestResponse> => {
-  const { data } = await httpClient.post<ReturnRequestResponse>(
-    `/customers/me/returns`,
+export const createReturnRequest = async (
+  payload: CreateReturnRequest,
+): Promise<ReturnRequestResponse> => {
+  return authenticatedClient.post<ReturnRequestResponse['data']>(`/customers/me/returns`, payload);
+};
+
+/**
+ * GET /api/customers/me/returns
+ * Lấy danh sách yêu cầu hoàn trả của khách hàng (mới nhất trước)
+ */
+export const getMyReturnRequests = async (): Promise<ReturnRequest[]> => {
+  const { data } = await authenticatedClient.get<
+    ReturnRequest[] | { items?: ReturnRequest[]; content?: ReturnRequest[] }
+  >(`/customers/me/returns`, { errorMessage: 'Không thể tải danh sách hoàn trả.' });
+
+  // Backend có thể trả về mảng hoặc dạng phân trang
+  const items = Array.isArray(data) ? data : data?.items || data?.content || [];
+  return [...items].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  );
+};
+
+/**
+ * POST /api/customers/me/returns/{returnId}/cancel
+ * Hủy yêu cầu hoàn trả (chỉ khi status = PENDING)
+ */
+export const cancelReturnRequest = async (returnId: string): Promise<ReturnRequest> => {
+  const { data } = await authenticatedClient.post<ReturnRequest>(
+    `/customers/me/returns/${returnId}/cancel`,
+    undefined,
+    { errorMessage: 'Không thể hủy yêu cầu hoàn trả. Vui lòng thử lại.' },
+  );
+  return data;
+};
+
+/**
+ * POST /api/customers/me/returns/{returnId}/shipping-proof
+ * Gửi mã vận đơn và ảnh chứng từ khi gửi trả hàng về cửa hàng
+ */
+export const submitReturnShippingProof = async (
+  returnId: string,
+  payload: ReturnShippingProofRequest,
+): Promise<ReturnRequest> => {
+  const { data } = await authenticatedClient.post<ReturnRequest>(
+    `/customers/me/returns/${returnId}/shipping-proof`,
     payload,
-    {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-    },
+    { errorMessage: 'Không thể gửi thông tin vận chuyển. Vui lòng thử lại.' },
   );
   return data;
 };
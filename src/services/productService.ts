@@ -1,5 +1,6 @@
 import httpClient from '../api/httpClient';
 import {
+  ProductAvailability,
   ProductDetail,
   ProductDetailResponse,
   ProductListResponse,
@@ -53,6 +54,30 @@ export const getProductById = async (productId: string): Promise<ProductDetail>
   return data.data;
 };
 
+/**
+ * GET /api/products/{productId}
+ * Giá và tình trạng kho mới nhất cho sản phẩm đã lưu (giỏ hàng, wishlist).
+ * Chưa chọn biến thể mà sản phẩm có biến thể thì còn hàng khi có biến thể bất kỳ còn hàng
+ */
+export const getProductAvailability = async (
+  productId: string,
+  variantId?: string | null,
+): Promise<ProductAvailability> => {
+  const product = await getProductById(productId);
+  const variant = variantId
+    ? product.variants?.find((v) => v.variantId === variantId)
+    : undefined;
+
+  const currentPrice = variant?.variantPrice ?? product.finalPrice ?? product.price;
+  const inStock = variant
+    ? variant.variantStock > 0
+    : product.variants && product.variants.length > 0
+      ? product.variants.some((v) => v.variantStock > 0)
+      : product.stockQuantity > 0;
+
+  return { product, currentPrice, inStock };
+};
+
 /**
  * GET /api/products/view/{productId}/vouchers?type=ALL
  * Lấy voucher platform/shop của sản phẩm
@@ -1,9 +1,18 @@
+import { authenticatedClient } from '../api/authenticatedClient';
 import httpClient from '../api/httpClient';
-import { ReviewPageResponse, ReviewRequestParams } from '../types/review';
+import {
+  CreateReviewRequest,
+  Review,
+  ReviewPageResponse,
+  ReviewRequestParams,
+  ReviewSummary,
+  UpdateReviewRequest,
+} from '../types/review';
+import { buildRatingHistogram } from '../utils/reviewUtils';
 
 /**
  * GET /api/reviews/product/{productId}
- * Lấy danh sách reviews của sản phẩm
+ * Lấy danh sách reviews của sản phẩm (lọc theo số sao, có media, biến thể và sắp xếp)
  */
 export const getProductReviews = async (
   productId: string,
@@ -16,6 +25,19 @@ export const getProductReviews = async (
   queryParams.append('page', String(page));
   queryParams.append('size', String(size));
 
+  if (params?.rating) {
+    queryParams.append('rating', String(params.rating));
+  }
+  if (params?.hasMedia) {
+    queryParams.append('hasMedia', 'true');
+  }
+  if (params?.variantOptionValue) {
+    queryParams.append('variant', params.variantOptionValue);
+  }
+  if (params?.sort) {
+    queryParams.append('sort', params.sort);
+  }
+
   const endpoint = `/reviews/product/${productId}?${queryParams.toString()}`;
 
   const { data } = await httpClient.get<ReviewPageResponse>(endpoint);
@@ -23,3 +45,89 @@ export const getProductReviews = async (
   return data;
 };
 
+/**
+ * GET /api/reviews/product/{productId} (đếm theo từng bộ lọc)
+ * Thống kê số sao và số review có media từ totalElements, không cần tải hết review
+ */
+export const getReviewSummary = async (productId: string): Promise<ReviewSummary> => {
+  const [ratingPages, mediaPage] = await Promise.all([
+    Promise.all(
+      [1, 2, 3, 4, 5].map((rating) => getProductReviews(productId, { rating, size: 1 })),
+    ),
+    getProductReviews(productId, { hasMedia: true, size: 1 }),
+  ]);
+
+  const counts: Record<number, number> = {};
+  ratingPages.forEach((response, index) => {
+    counts[index + 1] = response.totalElements || 0;
+  });
+
+  return { histogram: buildRatingHistogram(counts), mediaCount: mediaPage.totalElements || 0 };
+};
+
+const MY_REVIEWS_PAGE_SIZE = 100;
+
+/**
+ * GET /api/v1/customers/{customerId}/reviews (tất cả các trang)
+ * Lấy các review khách hàng đã viết (dùng để biết sản phẩm nào đã/chưa đánh giá)
+ */
+export const getMyReviews = async (): Promise<Review[]> => {
+  const reviews: Review[] = [];
+  for (let page = 0; ; page++) {
+    const { data } = await authenticatedClient.get<
+      Review[] | { content?: Review[]; last?: boolean; totalPages?: number }
+    >(`/v1/customers/{customerId}/reviews?page=${page}&size=${MY_REVIEWS_PAGE_SIZE}`);
+
+    // Backend trả mảng (không phân trang) thì đã là toàn bộ
+    if (Array.isArray(data)) {
+      return data;
+    }
+
+    const content = data?.content || [];
+    reviews.push(...content);
+    const isLastPage =
+      data?.last ?? (data?.totalPages === undefined || page >= data.totalPages - 1);
+    if (isLastPage || content.length < MY_REVIEWS_PAGE_SIZE) {
+      return reviews;
+    }
+  }
+};
+
+/**
+ * POST /api/v1/customers/{customerId}/reviews
+ * Viết review cho sản phẩm trong đơn hàng đã hoàn thành
+ */
+export const createReview = async (payload: CreateReviewRequest): Promise<Review> => {
+  const { data } = await authenticatedClient.post<Review>(
+    '/v1/customers/{customerId}/reviews',
+    payload,
+    { errorMessage: 'Không thể gửi đánh giá. Vui lòng thử lại.' },
+  );
+  return data;
+};
+
+/**
+ * PUT /api/v1/customers/{customerId}/reviews/{reviewId}
+ * Sửa review của khách hàng
+ */
+export const updateReview = async (
+  reviewId: string,
+  payload: UpdateReviewRequest,
+): Promise<Review> => {
+  const { data } = await authenticatedClient.put<Review>(
+    `/v1/customers/{customerId}/reviews/${reviewId}`,
+    payload,
+    { errorMessage: 'Không thể cập nhật đánh giá. Vui lòng thử lại.' },
+  );
+  return data;
+};
+
+/**
+ * DELETE /api/v1/customers/{customerId}/reviews/{reviewId}
+ * Xóa review của khách hàng
+ */
+export const deleteReview = async (reviewId: string): Promise<void> => {
+  await authenticatedClient.delete(`/v1/customers/{customerId}/reviews/${reviewId}`, {
+    errorMessage: 'Không thể xóa đánh giá. Vui lòng thử lại.',
+  });
+};
@@ -1,4 +1,4 @@
-import httpClient from '../api/httpClient';
+import { ApiError, authenticatedClient } from '../api/authenticatedClient';
 import { CartItem } from '../types/cart';
 
 export type ProductCacheItem = {
@@ -64,29 +64,21 @@ export type ShippingFeeResult = {
 /**
  * POST /api/ghn/fee
  * Tính phí ship GHN cho một store
- * Headers: Authorization: Bearer {accessToken}
  */
-export const calculateGHNFee = async (
-  request: GHNFeeRequest,
-  accessToken?: string,
-): Promise<number> => {
+export const calculateGHNFee = async (request: GHNFeeRequest): Promise<number> => {
   try {
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      Accept: 'application/json',
-    };
-    if (accessToken) {
-      headers.Authorization = `Bearer ${accessToken}`;
-    }
-    
-    const { data } = await httpClient.post<GHNFeeResponse>('/ghn/fee', request, { headers });
-    
-    if (data.code === 200 && data.data) {
-      return data.data.service_fee || 0;
+    // authenticatedClient bóc envelope { code, message, data } nên chỉ còn phần data
+    const { data, message } = await authenticatedClient.post<GHNFeeResponse['data'] | null>(
+      '/ghn/fee',
+      request,
+    );
+
+    if (data) {
+      return data.service_fee || 0;
     }
-    throw new Error(data.message || 'Failed to calculate shipping fee');
-  } catch (error: any) {
-    if (error?.response?.status === 404) {
+    throw new Error(message || 'Failed to calculate shipping fee');
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
       return 0; // Service not available
     }
     throw error;
@@ -1,8 +1,4 @@
-import httpClient from '../api/httpClient';
-
-type AuthenticatedRequest = {
-  accessToken: string;
-};
+import { ApiError, authenticatedClient } from '../api/authenticatedClient';
 
 export type UploadImageResponse = {
   url: string;
@@ -16,23 +12,45 @@ export type UploadVideoResponse = {
   publicId?: string;
 };
 
+export type UploadFile = {
+  uri: string;
+  type: string;
+  name?: string;
+};
+
+const UPLOAD_IMAGE_ERROR = 'Không thể upload ảnh. Vui lòng thử lại.';
+const UPLOAD_VIDEO_ERROR = 'Không thể upload video. Vui lòng thử lại.';
+
+const postImageForm = async (endpoint: string, formData: FormData) => {
+  const { data } = await authenticatedClient.post<UploadImageResponse[] | UploadImageResponse>(
+    endpoint,
+    formData,
+    {
+      headers: {
+        // Let axios add the multipart boundary
+        'Content-Type': 'multipart/form-data',
+      },
+      errorMessage: UPLOAD_IMAGE_ERROR,
+    },
+  );
+
+  // Response is array, get first item
+  if (Array.isArray(data) && data.length > 0) {
+    return data[0];
+  }
+
+  // If response is not array, assume it's the object itself
+  return data as UploadImageResponse;
+};
+
 /**
  * Upload image to Cloudinary
  * Endpoint: POST /api/v1/uploads/images (Primary) hoặc POST /api/uploads/images (Fallback)
  */
-export const uploadImage = async ({
-  accessToken,
-  file,
-}: AuthenticatedRequest & {
-  file: {
-    uri: string;
-    type: string;
-    name?: string;
-  };
-}): Promise<UploadImageResponse> => {
+export const uploadImage = async (file: UploadFile): Promise<UploadImageResponse> => {
   // Create FormData
   const formData = new FormData();
-  
+
   // Append file to FormData
   // React Native FormData format
   formData.append('files', {
@@ -43,66 +61,13 @@ export const uploadImage = async ({
 
   try {
     // Try primary endpoint first
-    const { data } = await httpClient.post<UploadImageResponse[]>(
-      '/v1/uploads/images',
-      formData,
-      {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          // Don't set Content-Type, let axios set it with boundary for multipart/form-data
-          'Content-Type': 'multipart/form-data',
-        },
-      },
-    );
-
-    // Response is array, get first item
-    if (Array.isArray(data) && data.length > 0) {
-      return data[0];
-    }
-    
-    // If response is not array, assume it's the object itself
-    return data as any;
-  } catch (error: any) {
+    return await postImageForm('/v1/uploads/images', formData);
+  } catch (error) {
     // If primary endpoint fails, try fallback
-    if (error.response?.status === 404 || error.response?.status === 500) {
-      try {
-        const { data } = await httpClient.post<UploadImageResponse[]>(
-          '/uploads/images',
-          formData,
-          {
-            headers: {
-              Authorization: `Bearer ${accessToken}`,
-              'Content-Type': 'multipart/form-data',
-            },
-          },
-        );
-
-        if (Array.isArray(data) && data.length > 0) {
-          return data[0];
-        }
-        
-        return data as any;
-      } catch (fallbackError: any) {
-        throw {
-          status: fallbackError.response?.status || 0,
-          message:
-            fallbackError.response?.data?.message ||
-            fallbackError.message ||
-            'Không thể upload ảnh. Vui lòng thử lại.',
-          response: fallbackError.response,
-        };
-      }
+    if (error instanceof ApiError && (error.status === 404 || error.status === 500)) {
+      return postImageForm('/uploads/images', formData);
     }
-
-    // Re-throw with formatted error
-    throw {
-      status: error.response?.status || 0,
-      message:
-        error.response?.data?.message ||
-        error.message ||
-        'Không thể upload ảnh. Vui lòng thử lại.',
-      response: error.response,
-    };
+    throw error;
   }
 };
 
@@ -110,45 +75,25 @@ export const uploadImage = async ({
  * Upload video to Cloudinary
  * Endpoint: POST /api/v1/uploads/video
  */
-export const uploadVideo = async ({
-  accessToken,
-  file,
-}: AuthenticatedRequest & {
-  file: {
-    uri: string;
-    type: string;
-    name?: string;
-  };
-}): Promise<UploadVideoResponse> => {
+export const uploadVideo = async (file: UploadFile): Promise<UploadVideoResponse> => {
   const formData = new FormData();
-  
+
   formData.append('file', {
     uri: file.uri,
     type: file.type || 'video/mp4',
     name: file.name || 'video.mp4',
   } as any);
 
-  try {
-    const { data } = await httpClient.post<UploadVideoResponse>(
-      '/v1/uploads/video',
-      formData,
-      {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          'Content-Type': 'multipart/form-data',
-        },
+  const { data } = await authenticatedClient.post<UploadVideoResponse>(
+    '/v1/uploads/video',
+    formData,
+    {
+      headers: {
+        'Content-Type': 'multipart/form-data',
       },
-    );
+      errorMessage: UPLOAD_VIDEO_ERROR,
+    },
+  );
 
-    return data;
-  } catch (error: any) {
-    throw {
-      status: error.response?.status || 0,
-      message:
-        error.response?.data?.message ||
-        error.message ||
-        'Không thể upload video. Vui lòng thử lại.',
-      response: error.response,
-    };
-  }
+  return data;
 };
@@ -1,10 +1,11 @@
+import { ApiError, authenticatedClient } from '../api/authenticatedClient';
 import httpClient from '../api/httpClient';
-import { ShopVoucher, ShopVouchersResponse } from '../types/voucher';
-
-type AuthenticatedCustomerRequest = {
-  customerId: string;
-  accessToken: string;
-};
+import {
+  CollectVoucherRequest,
+  CustomerVoucher,
+  ShopVoucher,
+  ShopVouchersResponse,
+} from '../types/voucher';
 
 /**
  * GET /api/v1/stores/{storeId}/vouchers
@@ -44,3 +45,73 @@ export const getShopVouchersByStore = async (
   }
 };
 
+
+/**
+ * GET /api/v1/customers/{customerId}/vouchers
+ * Lấy ví voucher (voucher shop / platform khách đã lưu)
+ */
+export const getMyVouchers = async (): Promise<CustomerVoucher[]> => {
+  const { data } = await authenticatedClient.get<
+    CustomerVoucher[] | { content?: CustomerVoucher[]; items?: CustomerVoucher[] }
+  >('/v1/customers/{customerId}/vouchers');
+
+  if (Array.isArray(data)) {
+    return data;
+  }
+  return data?.content || data?.items || [];
+};
+
+/**
+ * POST /api/v1/customers/{customerId}/vouchers
+ * Lưu voucher vào ví
+ */
+export const collectVoucher = async (
+  payload: CollectVoucherRequest,
+): Promise<CustomerVoucher | null> => {
+  const { data } = await authenticatedClient.post<CustomerVoucher | null>(
+    '/v1/customers/{customerId}/vouchers',
+    payload,
+  );
+  return data ?? null;
+};
+
+/**
+ * DELETE /api/v1/customers/{customerId}/vouchers/{voucherId}
+ * Xóa voucher khỏi ví
+ */
+export const removeMyVoucher = async (voucherId: string): Promise<void> => {
+  try {
+    await authenticatedClient.delete(`/v1/customers/{customerId}/vouchers/${voucherId}`);
+  } catch (error) {
+    // Đã không còn trong ví - coi như xóa thành công
+    if (error instanceof ApiError && error.status === 404) {
+      return;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Tạo CustomerVoucher từ voucher shop vừa lưu (khi server không trả lại bản ghi trong ví)
+ */
+export const toCustomerVoucher = (voucher: ShopVoucher): CustomerVoucher => ({
+  voucherId: voucher.voucherId,
+  source: 'SHOP',
+  code: voucher.code,
+  name: voucher.name,
+  description: voucher.description ?? null,
+  type: voucher.type,
+  discountPercent: voucher.discountPercent ?? null,
+  discountValue: voucher.discountValue ?? null,
+  maxDiscountValue: voucher.maxDiscountValue ?? null,
+  minOrderValue: voucher.minOrderValue ?? null,
+  startTime: voucher.startTime ?? null,
+  endTime: voucher.endTime ?? null,
+  status: voucher.status,
+  storeId: voucher.storeId,
+  storeName: voucher.storeName ?? null,
+  scope: voucher.scope ?? null,
+  productIds: voucher.productIds ?? [],
+  collectedAt: new Date().toISOString(),
+  usedAt: null,
+});
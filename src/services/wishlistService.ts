@@ -0,0 +1,218 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiError, authenticatedClient } from '../api/authenticatedClient';
+import {
+  AddWishlistItemRequest,
+  WishlistItem,
+  WishlistProductInput,
+  WishlistServerItem,
+} from '../types/wishlist';
+import { getProductAvailability } from './productService';
+
+const WISHLIST_STORAGE_KEY = 'wishlist:items:v1';
+
+export type LocalWishlist = {
+  items: WishlistItem[];
+  // Sản phẩm đã bỏ thích khi chưa đăng nhập / mất mạng, cần xóa trên server ở lần sync tới
+  pendingRemovals: string[];
+};
+
+const EMPTY_WISHLIST: LocalWishlist = { items: [], pendingRemovals: [] };
+
+/**
+ * Đọc wishlist đã lưu trong AsyncStorage
+ */
+export const getLocalWishlist = async (): Promise<LocalWishlist> => {
+  try {
+    const raw = await AsyncStorage.getItem(WISHLIST_STORAGE_KEY);
+    if (!raw) {
+      return EMPTY_WISHLIST;
+    }
+    const parsed = JSON.parse(raw);
+    return {
+      items: Array.isArray(parsed?.items) ? parsed.items : [],
+      pendingRemovals: Array.isArray(parsed?.pendingRemovals) ? parsed.pendingRemovals : [],
+    };
+  } catch (error) {
+    console.warn('[WishlistService] Failed to read local wishlist', error);
+    return EMPTY_WISHLIST;
+  }
+};
+
+/**
+ * Lưu wishlist vào AsyncStorage
+ */
+export const saveLocalWishlist = async (wishlist: LocalWishlist): Promise<void> => {
+  await AsyncStorage.setItem(WISHLIST_STORAGE_KEY, JSON.stringify(wishlist));
+};
+
+/**
+ * Tạo WishlistItem từ thông tin sản phẩm, ghi nhận giá và kho tại thời điểm lưu
+ */
+export const toWishlistItem = (product: WishlistProductInput): WishlistItem => ({
+  productId: product.productId,
+  variantId: product.variantId ?? null,
+  name: product.name,
+  image: product.image,
+  storeId: product.storeId,
+  storeName: product.storeName,
+  savedPrice: product.price,
+  savedInStock: product.inStock ?? true,
+  addedAt: new Date().toISOString(),
+  currentPrice: product.price,
+  inStock: product.inStock ?? true,
+  status: product.status,
+  synced: false,
+});
+
+const fromServerItem = (item: WishlistServerItem, local?: WishlistItem): WishlistItem => {
+  const currentPrice = item.finalPrice ?? item.price ?? local?.currentPrice ?? null;
+  const inStock =
+    typeof item.stockQuantity === 'number' ? item.stockQuantity > 0 : local?.inStock ?? true;
+
+  return {
+    productId: item.productId,
+    variantId: item.variantId ?? local?.variantId ?? null,
+    name: item.name || local?.name || 'Sản phẩm',
+    image: item.thumbnailUrl || local?.image || '',
+    storeId: item.storeId ?? local?.storeId,
+    storeName: item.storeName ?? local?.storeName,
+    // Ưu tiên snapshot trên máy, sau đó giá server ghi nhận lúc thêm
+    savedPrice: local?.savedPrice ?? item.priceAtAdd ?? currentPrice ?? 0,
+    savedInStock: local?.savedInStock ?? true,
+    addedAt: local?.addedAt ?? item.createdAt ?? new Date().toISOString(),
+    currentPrice,
+    inStock,
+    status: item.status ?? local?.status,
+    synced: true,
+  };
+};
+
+/**
+ * GET /api/v1/customers/{customerId}/wishlist
+ * Lấy danh sách sản phẩm yêu thích trên server
+ */
+export const getServerWishlist = async (): Promise<WishlistServerItem[]> => {
+  const { data } = await authenticatedClient.get<
+    WishlistServerItem[] | { content?: WishlistServerItem[]; items?: WishlistServerItem[] }
+  >('/v1/customers/{customerId}/wishlist');
+
+  if (Array.isArray(data)) {
+    return data;
+  }
+  return data?.content || data?.items || [];
+};
+
+/**
+ * POST /api/v1/customers/{customerId}/wishlist
+ * Thêm sản phẩm vào danh sách yêu thích
+ */
+export const addWishlistItem = async (payload: AddWishlistItemRequest): Promise<void> => {
+  await authenticatedClient.post('/v1/customers/{customerId}/wishlist', payload);
+};
+
+/**
+ * DELETE /api/v1/customers/{customerId}/wishlist/{productId}
+ * Xóa sản phẩm khỏi danh sách yêu thích
+ */
+export const removeWishlistItem = async (productId: string): Promise<void> => {
+  try {
+    await authenticatedClient.delete(`/v1/customers/{customerId}/wishlist/${productId}`);
+  } catch (error) {
+    // Đã không còn trên server - coi như xóa thành công
+    if (error instanceof ApiError && error.status === 404) {
+      return;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Đồng bộ wishlist local với server (gọi khi đã đăng nhập)
+ * - Đẩy các lượt bỏ thích và sản phẩm chưa từng lên server
+ * - Sản phẩm đã sync mà server không còn (xóa ở thiết bị khác) thì bỏ khỏi máy
+ * - Server là nguồn chính cho danh sách, snapshot giá lúc lưu giữ từ local
+ */
+export const syncWishlist = async (local: LocalWishlist): Promise<LocalWishlist> => {
+  const failedRemovals: string[] = [];
+  for (const productId of local.pendingRemovals) {
+    try {
+      await removeWishlistItem(productId);
+    } catch (error) {
+      console.warn('[WishlistService] Failed to sync removal', productId, error);
+      failedRemovals.push(productId);
+    }
+  }
+
+  const serverItems = await getServerWishlist();
+  const serverIds = new Set(serverItems.map((item) => item.productId));
+  const localById = new Map(local.items.map((item) => [item.productId, item]));
+
+  // Sản phẩm chưa từng sync (thêm khi chưa đăng nhập / mất mạng) - lỗi thì giữ lại để sync lần sau
+  const pendingAdds = local.items.filter(
+    (item) => !item.synced && !serverIds.has(item.productId),
+  );
+  const localOnly: WishlistItem[] = [];
+  for (const item of pendingAdds) {
+    try {
+      await addWishlistItem({
+        productId: item.productId,
+        variantId: item.variantId,
+        priceAtAdd: item.savedPrice,
+      });
+      localOnly.push({ ...item, synced: true });
+    } catch (error) {
+      console.warn('[WishlistService] Failed to sync item', item.productId, error);
+      localOnly.push(item);
+    }
+  }
+
+  const merged = [
+    ...serverItems
+      .filter((item) => !failedRemovals.includes(item.productId))
+      .map((item) => fromServerItem(item, localById.get(item.productId))),
+    ...localOnly,
+  ];
+
+  const synced: LocalWishlist = { items: merged, pendingRemovals: failedRemovals };
+  await saveLocalWishlist(synced);
+  return synced;
+};
+
+/**
+ * Lấy giá, tồn kho và trạng thái mới nhất của sản phẩm trong wishlist
+ */
+export const refreshWishlistItem = async (item: WishlistItem): Promise<WishlistItem> => {
+  const { product, currentPrice, inStock } = await getProductAvailability(
+    item.productId,
+    item.variantId,
+  );
+
+  return {
+    ...item,
+    name: product.name || item.name,
+    image: item.image || product.images?.[0] || '',
+    storeId: product.storeId ?? item.storeId,
+    storeName: product.storeName ?? item.storeName,
+    currentPrice,
+    inStock,
+    status: product.status,
+  };
+};
+
+/**
+ * Giá đã giảm so với lúc lưu
+ */
+export const hasPriceDropped = (item: WishlistItem): boolean =>
+  typeof item.currentPrice === 'number' && item.currentPrice < item.savedPrice;
+
+/**
+ * Lúc lưu hết hàng, hiện đã có hàng lại
+ */
+export const isBackInStock = (item: WishlistItem): boolean =>
+  !item.savedInStock && item.inStock === true;
+
+/**
+ * Sản phẩm ngừng kinh doanh / ẩn thì không thể thêm vào giỏ
+ */
+export const isWishlistItemUnavailable = (item: WishlistItem): boolean =>
+  item.status === 'DISCONTINUED' || item.status === 'INACTIVE';
@@ -28,6 +28,16 @@ export type LoginResponse = {
   };
 };
 
+export type RefreshTokenResponse = {
+  status: number;
+  message: string;
+  data: {
+    accessToken: string;
+    refreshToken?: string;
+    tokenType?: string;
+  };
+};
+
 export type RegisterResponse = {
   status: number;
   message: string;
@@ -1,3 +1,5 @@
+import { OrderItem } from './order';
+
 export type CartStatus = 'ACTIVE' | 'ABANDONED' | 'COMPLETED';
 
 export type CartItem = {
@@ -67,3 +69,118 @@ export type UpdateQuantityResponse = {
   data: Cart;
 };
 
+
+// Thông tin hiển thị cho sản phẩm thêm khi offline / chưa đăng nhập (server chưa trả về CartItem)
+export type CartItemPreview = {
+  productId: string;
+  name: string;
+  image: string;
+  unitPrice: number;
+  baseUnitPrice?: number | null;
+  variantOptionName?: string | null;
+  variantOptionValue?: string | null;
+};
+
+// Thay đổi giỏ hàng đang chờ đồng bộ lên server, phát lại theo thứ tự khi có mạng
+export type CartMutation =
+  | {
+      id: string;
+      type: 'ADD';
+      item: AddCartItemRequest;
+      preview: CartItemPreview;
+      createdAt: string;
+    }
+  | {
+      id: string;
+      type: 'UPDATE_QUANTITY';
+      cartItemId: string;
+      quantity: number;
+      createdAt: string;
+    }
+  | {
+      id: string;
+      type: 'REMOVE';
+      cartItemIds: string[];
+      createdAt: string;
+    };
+
+export type CartAddMutation = Extract<CartMutation, { type: 'ADD' }>;
+
+// Sản phẩm "Lưu để mua sau" - tách khỏi giỏ, không tính vào tạm tính và voucher
+export type SavedCartItem = {
+  id: string;
+  type: 'PRODUCT' | 'COMBO';
+  productId: string;
+  variantId?: string | null;
+  comboId?: string | null;
+  name: string;
+  image: string;
+  quantity: number;
+  variantOptionName?: string | null;
+  variantOptionValue?: string | null;
+  // Giá tại thời điểm lưu - dùng để báo thay đổi giá
+  savedPrice: number;
+  savedAt: string;
+  // Thông tin mới nhất (cập nhật khi mở giỏ hàng)
+  currentPrice?: number | null;
+  inStock?: boolean;
+};
+
+export type LocalCart = {
+  // customerId của chủ giỏ, null = giỏ của khách chưa đăng nhập
+  ownerId: string | null;
+  // Giỏ hàng server trả về ở lần đồng bộ gần nhất
+  serverCart: Cart | null;
+  queue: CartMutation[];
+  savedItems: SavedCartItem[];
+};
+
+export type CartSyncResult = {
+  serverCart: Cart;
+  // Thay đổi chưa gửi được (mất mạng giữa chừng), giữ lại cho lần sau
+  queue: CartMutation[];
+  // Thay đổi bị server từ chối hoặc không còn áp dụng được (sản phẩm đã bị xóa, hết hàng...)
+  dropped: CartMutation[];
+  // cartItemId tạm trên máy -> cartItemId server sau khi thêm thành công
+  resolvedIds: Record<string, string>;
+};
+
+export type GuestCartMergeIssue = {
+  name: string;
+  image: string;
+  variantOptionValue?: string | null;
+  quantity: number;
+  // Giá lúc khách thêm vào giỏ
+  previousPrice: number;
+  currentPrice?: number | null;
+};
+
+// Kết quả gộp giỏ khách vào giỏ tài khoản sau khi đăng nhập
+export type GuestCartMergeReport = {
+  mergedCount: number;
+  outOfStock: GuestCartMergeIssue[];
+  priceChanged: GuestCartMergeIssue[];
+};
+
+export type GuestCartMergeResult = CartSyncResult & {
+  report: GuestCartMergeReport;
+};
+
+// Mua lại từ đơn cũ: dòng đơn hàng không thêm lại được và lý do
+export type BuyAgainUnavailableReason = 'NOT_FOUND' | 'INACTIVE' | 'VARIANT_UNAVAILABLE' | 'OUT_OF_STOCK';
+
+export type BuyAgainLine = {
+  orderItem: OrderItem;
+  request: AddCartItemRequest;
+  preview: CartItemPreview;
+};
+
+export type BuyAgainUnavailableLine = {
+  orderItem: OrderItem;
+  reason: BuyAgainUnavailableReason;
+};
+
+export type BuyAgainCheckResult = {
+  available: BuyAgainLine[];
+  unavailable: BuyAgainUnavailableLine[];
+};
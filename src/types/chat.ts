@@ -50,15 +50,35 @@ export interface SendMessageRequest {
   mediaUrl?: string | MediaItem[];
 }
 
-export interface FirebaseChatMessage {
-  id: string;
-  senderId: string;
-  senderType: MessageSenderType;
-  content: string;
-  messageType: MessageType;
-  mediaUrl?: string | MediaItem[];
-  createdAt: string | number;
-  timestamp?: number;
-  read?: boolean;
+export type ChatConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+/**
+ * Event pushed on the conversation topic `/topic/chat/{customerId}/{storeId}`
+ */
+export type ChatSocketEvent =
+  | { type: 'MESSAGE'; message: ChatMessage }
+  | { type: 'READ'; viewerType: MessageSenderType; viewerId: string; readAt?: string };
+
+export interface ChatRealtimeHandlers {
+  onMessage: (message: ChatMessage) => void;
+  onRead?: (event: Extract<ChatSocketEvent, { type: 'READ' }>) => void;
+  onStatusChange?: (status: ChatConnectionStatus) => void;
+}
+
+/**
+ * Realtime transport used by ChatContext, can be swapped via setChatRealtimeTransport
+ */
+export interface ChatRealtimeTransport {
+  subscribe: (customerId: string, storeId: string, handlers: ChatRealtimeHandlers) => () => void;
+}
+
+export interface ChatPreferences {
+  pinnedStoreIds: string[];
+  mutedStoreIds: string[];
 }
 
+/**
+ * Số tin chưa đọc của khách hàng trong một cuộc hội thoại
+ */
+export const getConversationUnreadCount = (conversation: Conversation): number =>
+  conversation.customerUnreadCount ?? conversation.unreadCount ?? 0;
@@ -33,6 +33,8 @@ export type CheckoutCodRequest = {
   message?: string | null;
   storeVouchers?: CheckoutStoreVoucherPayload[] | null;
   platformVouchers?: PlatformVoucherPayload[] | null;
+  // Số điểm thưởng dùng để trừ vào tổng thanh toán
+  redeemPoints?: number | null;
   serviceTypeIds?: Record<string, number> | null;
 };
 
@@ -68,6 +70,8 @@ export type CheckoutCodOrder = {
   note: string;
   shippingServiceTypeId: number;
   campaignDiscountTotal: number;
+  loyaltyDiscount?: number | null;
+  redeemedPoints?: number | null;
 };
 
 export type CheckoutCodResponse = {
@@ -111,6 +115,7 @@ export type CheckoutPreviewRequest = {
   message?: string | null;
   storeVouchers?: CheckoutPreviewStoreVoucher[] | null;
   platformVouchers?: CheckoutPreviewPlatformVoucher[] | null;
+  redeemPoints?: number | null;
   serviceTypeIds?: Record<string, number> | null;
 };
 
@@ -163,8 +168,41 @@ export type CheckoutPreviewResponse = {
     overallSubtotal: number;
     overallShipping: number;
     overallDiscount: number;
-    overallGrandTotal: number;
+    overallGrandTotal: number; // Đã trừ tiền quy đổi từ điểm thưởng
+    overallLoyaltyDiscount?: number | null;
+    redeemedPoints?: number | null;
     stores: CheckoutPreviewStore[];
   };
 };
 
+// Mã voucher khách tự nhập ở trang thanh toán
+// Request preview / COD / PayOS chưa có trường cho mã toàn sàn nhập tay, chỉ nhận mã shop
+export type VoucherCodeScope = 'STORE';
+
+export type AppliedVoucherCode = {
+  code: string;
+  scope: VoucherCodeScope;
+  storeId?: string | null; // Chỉ có với scope STORE
+  discount: number; // Số tiền giảm thêm lúc kiểm tra mã
+};
+
+export type VoucherCodeFailureReason =
+  | 'NOT_FOUND'
+  | 'EXPIRED'
+  | 'NOT_STARTED'
+  | 'BELOW_MIN_ORDER'
+  | 'NOT_APPLICABLE'
+  | 'USAGE_LIMIT_REACHED'
+  | 'UNKNOWN';
+
+export type VoucherCodeValidationResult =
+  | {
+      valid: true;
+      voucherCode: AppliedVoucherCode;
+      preview: CheckoutPreviewResponse['data'];
+    }
+  | {
+      valid: false;
+      reason: VoucherCodeFailureReason;
+      message: string;
+    };
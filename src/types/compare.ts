@@ -0,0 +1,43 @@
+import { ProductDetail } from './product';
+
+// Sản phẩm trong khay so sánh (thông số đầy đủ được tải ở màn hình so sánh)
+export type CompareItem = {
+  productId: string;
+  name: string;
+  image: string;
+  categoryName?: string;
+};
+
+export type CompareCategory =
+  | 'headphones'
+  | 'speakers'
+  | 'amplifiers'
+  | 'dacs'
+  | 'turntables'
+  | 'mics';
+
+export type CompareSpecField = {
+  key: keyof ProductDetail;
+  label: string;
+};
+
+export type CompareSpecGroup = {
+  key: string;
+  title: string;
+  // Không có => nhóm chung, luôn hiển thị
+  category?: CompareCategory;
+  fields: CompareSpecField[];
+};
+
+export type CompareRow = {
+  key: string;
+  label: string;
+  values: (string | null)[];
+  isDifferent: boolean;
+};
+
+export type CompareSection = {
+  key: string;
+  title: string;
+  rows: CompareRow[];
+};
@@ -0,0 +1,87 @@
+import { CustomerVoucher } from './voucher';
+
+// Quy tắc dùng điểm thưởng do backend cấu hình
+export type LoyaltyRedemptionRule = {
+  enabled: boolean;
+  pointValue: number; // Số tiền (VND) quy đổi cho 1 điểm
+  minRedeemPoints: number; // Số điểm tối thiểu mỗi lần dùng
+  maxRedeemPercent: number; // Tối đa % tổng thanh toán được trừ bằng điểm
+  maxRedeemPointsPerOrder?: number | null; // Trần điểm mỗi đơn (null = không giới hạn)
+};
+
+export type LoyaltyRedemption = {
+  points: number;
+  discount: number;
+  // Lý do không dùng được điểm (null nếu dùng được)
+  unavailableReason: string | null;
+};
+
+export type LoyaltyTransactionType = 'EARN' | 'REDEEM' | 'REFUND' | 'EXPIRE' | 'ADJUST';
+
+export type LoyaltyTransaction = {
+  id: string;
+  type: LoyaltyTransactionType;
+  points: number; // Dương: cộng điểm, âm: trừ điểm
+  balanceAfter?: number | null;
+  orderId?: string | null;
+  orderCode?: string | null;
+  description?: string | null;
+  createdAt: string;
+};
+
+export type LoyaltyTransactionPageResponse = {
+  content: LoyaltyTransaction[];
+  totalElements: number;
+  totalPages: number;
+  last: boolean;
+  size: number;
+  number: number;
+};
+
+// Lịch sử điểm gộp theo đơn hàng
+export type LoyaltyOrderHistory = {
+  key: string;
+  orderId: string | null;
+  orderCode: string | null;
+  earned: number;
+  spent: number;
+  createdAt: string;
+  transactions: LoyaltyTransaction[];
+};
+
+// Quyền lợi của một hạng thành viên
+export type LoyaltyTierBenefits = {
+  freeShippingMinOrder?: number | null; // Miễn phí vận chuyển cho đơn từ mức này (0 = mọi đơn)
+  freeShippingPerMonth?: number | null; // Số lượt miễn phí vận chuyển mỗi tháng (null = không giới hạn)
+  pointMultiplier?: number | null; // Hệ số nhân điểm khi tích điểm
+  perks?: string[] | null; // Ưu đãi khác do backend mô tả sẵn
+};
+
+export type LoyaltyTier = {
+  code: string;
+  name: string;
+  minSpend: number; // Tổng chi tiêu tối thiểu để đạt hạng
+  benefits: LoyaltyTierBenefits;
+};
+
+export type LoyaltyExpiringPoints = {
+  points: number;
+  expiresAt: string;
+};
+
+export type LoyaltyMembership = {
+  tiers: LoyaltyTier[];
+  // Chi tiêu tính hạng trong bao nhiêu tháng gần nhất (null = toàn bộ lịch sử)
+  spendWindowMonths?: number | null;
+  expiringPoints: LoyaltyExpiringPoints[];
+  // Voucher dành riêng cho hạng thành viên (requiredTier)
+  exclusiveVouchers: CustomerVoucher[];
+};
+
+export type LoyaltyTierProgress = {
+  currentTier: LoyaltyTier | null;
+  nextTier: LoyaltyTier | null;
+  spend: number;
+  remainingSpend: number; // Còn thiếu để lên hạng tiếp theo (0 nếu đã hạng cao nhất)
+  percent: number; // 0-100
+};
@@ -1,3 +1,5 @@
+import { PaymentMethod } from './checkout';
+
 export type OrderStatus =
   | 'UNPAID'
   | 'CONFIRMED'
@@ -90,6 +92,15 @@ export interface CustomerOrder {
   note: string | null;
   storeOrders: StoreOrder[];
   items?: OrderItem[];
+  paymentMethod?: PaymentMethod | null;
+  // Thời điểm đơn UNPAID bị tự động hủy (nếu backend trả về)
+  paymentExpiresAt?: string | null;
+  // Backend cho phép chuyển đơn UNPAID sang COD hay không
+  allowCodSwitch?: boolean | null;
+  // Hạn hệ thống tự xác nhận đã nhận hàng (đơn DELIVERED_WAITING_CONFIRM)
+  autoConfirmAt?: string | null;
+  // Thời điểm khách xác nhận đã nhận hàng, sau mốc này không thể hoàn trả
+  receivedAt?: string | null;
 }
 
 export interface OrderHistoryRequest {
@@ -129,31 +140,120 @@ export interface GHNOrderResponse {
   data: GHNOrder;
 }
 
+export interface GHNTrackingLog {
+  status: OrderStatus | string;
+  description?: string | null;
+  location?: string | null;
+  updatedDate: string;
+}
+
+export interface GHNFeeBreakdown {
+  mainService?: number;
+  insurance?: number;
+  codFee?: number;
+  stationDo?: number;
+  stationPu?: number;
+  returnFee?: number;
+  r2s?: number;
+  coupon?: number;
+}
+
+export interface GHNEtaChange {
+  expectedDeliveryTime: string;
+  changedAt: string;
+  reason?: string | null;
+}
+
+export interface GHNOrderTracking {
+  orderGhn: string;
+  status: OrderStatus | string;
+  expectedDeliveryTime?: string | null;
+  totalFee: number;
+  fee?: GHNFeeBreakdown | null;
+  logs: GHNTrackingLog[];
+  etaHistory?: GHNEtaChange[];
+}
+
+export interface CreateReturnRequestItem {
+  orderItemId: string;
+  quantity: number;
+  reasonType: ReturnReasonType;
+  reason: string;
+}
+
+// Một yêu cầu gồm nhiều sản phẩm của cùng một StoreOrder, media dùng chung
 export interface CreateReturnRequest {
   orderId: string;
   storeOrderId: string;
+  items: CreateReturnRequestItem[];
+  images?: string[];
+  video?: string;
+}
+
+export type ReturnRequestStatus =
+  | 'PENDING'
+  | 'APPROVED'
+  | 'REJECTED'
+  | 'SHIPPING_BACK'
+  | 'RECEIVED'
+  | 'REFUNDED'
+  | 'CANCELLED';
+
+export interface ReturnShippingProof {
+  trackingCode: string;
+  carrier?: string | null;
+  images?: string[];
+  submittedAt?: string | null;
+}
+
+export interface ReturnStatusHistory {
+  status: ReturnRequestStatus | string;
+  note?: string | null;
+  changedAt: string;
+}
+
+export interface ReturnRequestItem extends CreateReturnRequestItem {
+  itemName?: string | null;
+  itemImage?: string | null;
+  refundAmount?: number | null;
+}
+
+export interface ReturnRequest {
+  id: string;
+  orderId: string;
+  storeOrderId: string;
+  // Sản phẩm đầu tiên, giữ cho tương thích với yêu cầu một sản phẩm
   orderItemId: string;
+  quantity?: number | null;
+  items?: ReturnRequestItem[];
   reasonType: ReturnReasonType;
   reason: string;
+  status: ReturnRequestStatus | string;
   images?: string[];
   video?: string;
+  createdAt: string;
+  updatedAt: string;
+  orderCode?: string | null;
+  storeName?: string | null;
+  itemName?: string | null;
+  itemImage?: string | null;
+  refundAmount?: number | null;
+  // Phản hồi của cửa hàng khi duyệt/từ chối
+  storeResponse?: string | null;
+  storeRespondedAt?: string | null;
+  shippingProof?: ReturnShippingProof | null;
+  history?: ReturnStatusHistory[];
 }
 
 export interface ReturnRequestResponse {
   status: number;
   message: string;
-  data: {
-    id: string;
-    orderId: string;
-    storeOrderId: string;
-    orderItemId: string;
-    reasonType: ReturnReasonType;
-    reason: string;
-    status: string;
-    images?: string[];
-    video?: string;
-    createdAt: string;
-    updatedAt: string;
-  };
+  data: ReturnRequest;
+}
+
+export interface ReturnShippingProofRequest {
+  trackingCode: string;
+  carrier?: string;
+  images?: string[];
 }
 
@@ -106,6 +106,32 @@ export type ProductQueryParams = {
   maxPrice?: number;
 };
 
+export type ProductSpecFacetRange = {
+  label: string;
+  min?: number;
+  max?: number;
+};
+
+// Bộ lọc theo thông số: key là tên trường trên ProductDetail / attributeName
+export type ProductSpecFacetValue = string | boolean | ProductSpecFacetRange;
+
+export type ProductSpecFacets = Record<string, ProductSpecFacetValue>;
+
+export type ProductSpecFacetDefinition = {
+  key: string;
+  label: string;
+  dataType: ProductAttributeValue['dataType'];
+  options?: string[];
+  ranges?: ProductSpecFacetRange[];
+};
+
+// Giá và tình trạng kho mới nhất của sản phẩm / biến thể đã lưu (giỏ hàng, wishlist)
+export type ProductAvailability = {
+  product: ProductDetail;
+  currentPrice: number;
+  inStock: boolean;
+};
+
 export type ProductVariant = {
   variantId: string;
   optionName: string;
@@ -23,10 +23,15 @@ export type Review = {
   customerAvatarUrl: string | null;
   status: ReviewStatus;
   productId: string;
+  // Dòng đơn hàng được đánh giá (chỉ có với review của chính khách hàng)
+  orderItemId?: string | null;
+  variantId?: string | null;
   variantOptionName?: string | null;
   variantOptionValue?: string | null;
   media?: ReviewMedia[];
   replies?: ReviewReply[];
+  // Số lượt "hữu ích" (nếu backend trả về)
+  helpfulCount?: number | null;
 };
 
 export type ReviewPageResponse = {
@@ -58,8 +63,48 @@ export type ReviewPageResponse = {
   empty: boolean;
 };
 
+export type ReviewSort = 'newest' | 'helpful';
+
 export type ReviewRequestParams = {
   page?: number;
   size?: number;
+  // Lọc / sắp xếp phía server
+  rating?: number | null;
+  hasMedia?: boolean;
+  variantOptionValue?: string | null;
+  sort?: ReviewSort;
+};
+
+export type ReviewFilter = {
+  rating: number | null;
+  hasMedia: boolean;
+  variantOptionValue: string | null;
+};
+
+export type RatingHistogram = {
+  // Số review theo từng mức sao (1-5)
+  counts: Record<number, number>;
+  total: number;
+  average: number;
+};
+
+export type ReviewSummary = {
+  histogram: RatingHistogram;
+  mediaCount: number;
 };
 
+
+export type CreateReviewRequest = {
+  orderItemId: string;
+  productId: string;
+  variantId?: string | null;
+  rating: number;
+  content: string;
+  media?: ReviewMedia[];
+};
+
+export type UpdateReviewRequest = {
+  rating: number;
+  content: string;
+  media?: ReviewMedia[];
+};
@@ -1,7 +1,14 @@
+import { CartItem } from './cart';
+
 export type VoucherStatus = 'ACTIVE' | 'INACTIVE' | 'EXPIRED' | 'USED';
 
 export type VoucherType = 'PERCENT' | 'FIXED';
 
+// PRODUCT: chỉ áp dụng cho productIds, ALL_SHOP_VOUCHER: toàn bộ sản phẩm của shop
+export type VoucherScope = 'PRODUCT' | 'ALL_SHOP_VOUCHER';
+
+export type VoucherSource = 'SHOP' | 'PLATFORM';
+
 export type ShopVoucher = {
   voucherId: string;
   code: string;
@@ -19,7 +26,7 @@ export type ShopVoucher = {
   storeName?: string;
   usageLimit?: number | null;
   usedCount?: number | null;
-  scope?: 'PRODUCT' | 'ALL_SHOP_VOUCHER';
+  scope?: VoucherScope;
   productIds?: string[];
 };
 
@@ -52,3 +59,91 @@ export type PlatformVoucherDiscount = {
   platformVoucherId?: string;
 };
 
+
+// Voucher đã lưu vào ví của khách (shop hoặc platform)
+export type CustomerVoucher = {
+  voucherId: string;
+  source: VoucherSource;
+  code: string;
+  name: string;
+  description?: string | null;
+  type: VoucherType;
+  discountPercent?: number | null;
+  discountValue?: number | null;
+  maxDiscountValue?: number | null;
+  minOrderValue?: number | null;
+  startTime?: string | null;
+  endTime?: string | null;
+  status: VoucherStatus;
+  storeId?: string | null;
+  storeName?: string | null;
+  scope?: VoucherScope | null;
+  productIds?: string[];
+  collectedAt: string;
+  usedAt?: string | null;
+  // Mã hạng thành viên tối thiểu để dùng (voucher dành riêng cho hạng)
+  requiredTier?: string | null;
+};
+
+export type CollectVoucherRequest = {
+  voucherId: string;
+  source: VoucherSource;
+};
+
+export type VoucherWalletGroup = 'USABLE' | 'EXPIRING_SOON' | 'USED' | 'EXPIRED';
+
+// Voucher shop đã chuẩn hóa để bộ tối ưu chọn voucher trong giỏ hàng
+export type VoucherCandidate = {
+  voucherId: string;
+  code: string;
+  name: string;
+  discountPercent?: number | null;
+  discountValue?: number | null;
+  maxDiscountValue?: number | null;
+  minOrderValue?: number | null;
+  startTime?: string | null;
+  endTime?: string | null;
+  status?: string | null;
+};
+
+// Lý do voucher được / không được bộ tối ưu chọn
+export type VoucherEvaluationStatus =
+  | 'APPLIED'
+  | 'NOT_BEST'
+  | 'USED_BY_OTHER_ITEM'
+  | 'NO_ITEMS'
+  | 'INACTIVE'
+  | 'NOT_STARTED'
+  | 'EXPIRED'
+  | 'MIN_ORDER_NOT_MET'
+  | 'NO_DISCOUNT';
+
+export type VoucherEvaluation = {
+  voucher: VoucherCandidate;
+  status: VoucherEvaluationStatus;
+  // Số tiền giảm nếu áp dụng (0 khi không đủ điều kiện)
+  discount: number;
+  // MIN_ORDER_NOT_MET: số tiền còn thiếu để đạt đơn tối thiểu
+  missingAmount?: number;
+};
+
+export type StoreVoucherInput = {
+  storeId: string;
+  // Chỉ các sản phẩm đang được chọn của shop
+  items: CartItem[];
+  shopVouchers: VoucherCandidate[];
+  // Voucher sản phẩm theo cartItemId
+  productVouchers: Record<string, VoucherCandidate[]>;
+};
+
+export type StoreVoucherPlan = {
+  storeId: string;
+  shopVoucher: VoucherCandidate | null;
+  // Voucher sản phẩm được chọn theo cartItemId
+  productVouchers: Record<string, VoucherCandidate>;
+  shopDiscount: number;
+  productDiscount: number;
+  totalDiscount: number;
+  shopEvaluations: VoucherEvaluation[];
+  productEvaluations: Record<string, VoucherEvaluation[]>;
+};
@@ -0,0 +1,60 @@
+import { ProductStatus } from './product';
+
+// Thông tin sản phẩm khi bấm tim (ProductCard, ProductDetailScreen)
+export type WishlistProductInput = {
+  productId: string;
+  variantId?: string | null;
+  name: string;
+  image: string;
+  price: number;
+  inStock?: boolean;
+  storeId?: string;
+  storeName?: string;
+  status?: ProductStatus;
+};
+
+export type WishlistItem = {
+  productId: string;
+  variantId?: string | null;
+  name: string;
+  image: string;
+  storeId?: string;
+  storeName?: string;
+  // Giá và tình trạng kho tại thời điểm lưu - dùng để báo giảm giá / có hàng lại
+  savedPrice: number;
+  savedInStock: boolean;
+  addedAt: string;
+  // Thông tin mới nhất (cập nhật khi mở màn hình Wishlist)
+  currentPrice?: number | null;
+  inStock?: boolean;
+  status?: ProductStatus;
+  // Đã có trên server - thiếu ở lần sync sau nghĩa là đã bị xóa từ thiết bị khác
+  synced?: boolean;
+};
+
+export type WishlistServerItem = {
+  productId: string;
+  variantId?: string | null;
+  name?: string;
+  thumbnailUrl?: string | null;
+  storeId?: string;
+  storeName?: string;
+  price?: number | null;
+  finalPrice?: number | null;
+  priceAtAdd?: number | null;
+  stockQuantity?: number | null;
+  status?: ProductStatus;
+  createdAt?: string;
+};
+
+export type WishlistResponse = {
+  status: number;
+  message: string;
+  data: WishlistServerItem[];
+};
+
+export type AddWishlistItemRequest = {
+  productId: string;
+  variantId?: string | null;
+  priceAtAdd?: number;
+};
@@ -0,0 +1,231 @@
+import {
+  CompareCategory,
+  CompareRow,
+  CompareSection,
+  CompareSpecGroup,
+} from '../types/compare';
+import { ProductDetail } from '../types/product';
+
+// Nhóm thông số theo danh mục, nhãn giống phần thông số ở ProductDetailScreen
+export const COMPARE_SPEC_GROUPS: CompareSpecGroup[] = [
+  {
+    key: 'general',
+    title: 'Thông tin chung',
+    fields: [
+      { key: 'brandName', label: 'Thương hiệu' },
+      { key: 'categoryName', label: 'Danh mục' },
+      { key: 'model', label: 'Model' },
+      { key: 'color', label: 'Màu sắc' },
+      { key: 'material', label: 'Chất liệu' },
+      { key: 'dimensions', label: 'Kích thước' },
+      { key: 'weight', label: 'Trọng lượng' },
+      { key: 'productCondition', label: 'Tình trạng' },
+    ],
+  },
+  {
+    key: 'audio',
+    title: 'Thông số kỹ thuật âm thanh',
+    fields: [
+      { key: 'frequencyResponse', label: 'Dải tần số' },
+      { key: 'sensitivity', label: 'Độ nhạy' },
+      { key: 'impedance', label: 'Trở kháng' },
+      { key: 'powerHandling', label: 'Công suất' },
+      { key: 'connectionType', label: 'Loại kết nối' },
+      { key: 'voltageInput', label: 'Điện áp đầu vào' },
+    ],
+  },
+  {
+    key: 'headphones',
+    title: 'Thông số tai nghe',
+    category: 'headphones',
+    fields: [
+      { key: 'headphoneType', label: 'Loại tai nghe' },
+      { key: 'driverSize', label: 'Kích thước driver' },
+      { key: 'headphoneConnectionType', label: 'Loại kết nối' },
+      { key: 'plugType', label: 'Loại jack cắm' },
+      { key: 'batteryCapacity', label: 'Dung lượng pin' },
+      { key: 'hasBuiltInBattery', label: 'Pin tích hợp' },
+      { key: 'headphoneFeatures', label: 'Tính năng' },
+      { key: 'compatibleDevices', label: 'Thiết bị tương thích' },
+      { key: 'isSportsModel', label: 'Mẫu thể thao' },
+      { key: 'isGamingHeadset', label: 'Tai nghe gaming' },
+    ],
+  },
+  {
+    key: 'speakers',
+    title: 'Thông số loa',
+    category: 'speakers',
+    fields: [
+      { key: 'driverConfiguration', label: 'Cấu hình driver' },
+      { key: 'driverSize', label: 'Kích thước driver' },
+      { key: 'enclosureType', label: 'Loại vỏ' },
+      { key: 'coveragePattern', label: 'Góc phủ sóng' },
+      { key: 'crossoverFrequency', label: 'Tần số crossover' },
+      { key: 'placementType', label: 'Loại đặt' },
+    ],
+  },
+  {
+    key: 'amplifiers',
+    title: 'Thông số amplifier',
+    category: 'amplifiers',
+    fields: [
+      { key: 'amplifierType', label: 'Loại amplifier' },
+      { key: 'totalPowerOutput', label: 'Công suất tổng' },
+      { key: 'thd', label: 'THD' },
+      { key: 'snr', label: 'SNR' },
+      { key: 'inputChannels', label: 'Kênh đầu vào' },
+      { key: 'outputChannels', label: 'Kênh đầu ra' },
+    ],
+  },
+  {
+    key: 'dacs',
+    title: 'Thông số DAC',
+    category: 'dacs',
+    fields: [
+      { key: 'dacChipset', label: 'Chipset DAC' },
+      { key: 'sampleRate', label: 'Tần số lấy mẫu' },
+      { key: 'bitDepth', label: 'Độ sâu bit' },
+      { key: 'balancedOutput', label: 'Đầu ra cân bằng' },
+      { key: 'thd', label: 'THD' },
+      { key: 'snr', label: 'SNR' },
+    ],
+  },
+  {
+    key: 'turntables',
+    title: 'Thông số máy quay đĩa',
+    category: 'turntables',
+    fields: [
+      { key: 'platterMaterial', label: 'Chất liệu platter' },
+      { key: 'motorType', label: 'Loại motor' },
+      { key: 'tonearmType', label: 'Loại tonearm' },
+      { key: 'autoReturn', label: 'Tự động trả về' },
+    ],
+  },
+  {
+    key: 'mics',
+    title: 'Thông số microphone',
+    category: 'mics',
+    fields: [
+      { key: 'micType', label: 'Loại mic' },
+      { key: 'polarPattern', label: 'Pattern phân cực' },
+      { key: 'maxSPL', label: 'SPL tối đa' },
+      { key: 'micOutputImpedance', label: 'Trở kháng đầu ra' },
+      { key: 'micSensitivity', label: 'Độ nhạy mic' },
+    ],
+  },
+  {
+    key: 'connectivity',
+    title: 'Kết nối & Tính năng',
+    fields: [
+      { key: 'supportBluetooth', label: 'Hỗ trợ Bluetooth' },
+      { key: 'supportWifi', label: 'Hỗ trợ WiFi' },
+      { key: 'supportAirplay', label: 'Hỗ trợ AirPlay' },
+    ],
+  },
+  {
+    key: 'warranty',
+    title: 'Chứng nhận & Bảo hành',
+    fields: [
+      { key: 'warrantyPeriod', label: 'Thời hạn bảo hành' },
+      { key: 'warrantyType', label: 'Loại bảo hành' },
+      { key: 'manufacturerName', label: 'Nhà sản xuất' },
+    ],
+  },
+];
+
+/**
+ * Xác định nhóm danh mục của sản phẩm từ tên danh mục
+ */
+export const getCompareCategory = (product: ProductDetail): CompareCategory | null => {
+  const names = [
+    product.categoryName,
+    ...(product.categories?.map((category) => category.categoryName) || []),
+  ]
+    .filter(Boolean)
+    .map((name) => name.toLowerCase());
+
+  const matches = (...keywords: string[]) =>
+    names.some((name) => keywords.some((keyword) => name.includes(keyword)));
+
+  if (matches('tai nghe', 'headphone', 'earphone')) return 'headphones';
+  if (matches('loa', 'speaker')) return 'speakers';
+  if (matches('amp')) return 'amplifiers';
+  if (matches('dac')) return 'dacs';
+  if (matches('turntable', 'mâm đĩa', 'đĩa than')) return 'turntables';
+  if (matches('micro', 'mic')) return 'mics';
+  return null;
+};
+
+const getAttributeValue = (product: ProductDetail, attributeName: string) =>
+  product.attributeValues?.find((attr) => attr.attributeName === attributeName)?.value;
+
+const formatSpecValue = (value: unknown): string | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'boolean') return value ? 'Có' : 'Không';
+  return String(value).trim() || null;
+};
+
+const toRow = (key: string, label: string, values: (string | null)[]): CompareRow => {
+  const present = values.filter((value): value is string => value !== null);
+  const normalized = new Set(values.map((value) => value?.toLowerCase() ?? ''));
+  return {
+    key,
+    label,
+    values,
+    // Khác nhau nếu có sản phẩm thiếu giá trị hoặc giá trị không trùng
+    isDifferent: present.length > 0 && normalized.size > 1,
+  };
+};
+
+/**
+ * Dựng bảng so sánh: chỉ giữ nhóm chung và nhóm thuộc danh mục của các sản phẩm,
+ * bỏ các dòng trống ở mọi sản phẩm
+ */
+export const buildCompareSections = (products: ProductDetail[]): CompareSection[] => {
+  const categories = new Set(products.map(getCompareCategory).filter(Boolean));
+  const usedKeys = new Set<string>();
+
+  const sections: CompareSection[] = COMPARE_SPEC_GROUPS.filter(
+    (group) => !group.category || categories.has(group.category),
+  )
+    .map((group) => {
+      const rows = group.fields
+        .filter((field) => !usedKeys.has(field.key))
+        .map((field) => {
+          usedKeys.add(field.key);
+          const values = products.map((product) =>
+            formatSpecValue(product[field.key] ?? getAttributeValue(product, field.key)),
+          );
+          return toRow(field.key, field.label, values);
+        })
+        .filter((row) => row.values.some((value) => value !== null));
+      return { key: group.key, title: group.title, rows };
+    })
+    .filter((section) => section.rows.length > 0);
+
+  // Thuộc tính động chưa có trong các nhóm trên
+  const attributeLabels = new Map<string, string>();
+  products.forEach((product) => {
+    product.attributeValues?.forEach((attr) => {
+      if (!usedKeys.has(attr.attributeName) && !attributeLabels.has(attr.attributeName)) {
+        attributeLabels.set(attr.attributeName, attr.attributeLabel || attr.attributeName);
+      }
+    });
+  });
+
+  const attributeRows = Array.from(attributeLabels.entries())
+    .map(([name, label]) =>
+      toRow(
+        name,
+        label,
+        products.map((product) => formatSpecValue(getAttributeValue(product, name))),
+      ),
+    )
+    .filter((row) => row.values.some((value) => value !== null));
+
+  if (attributeRows.length > 0) {
+    sections.push({ key: 'attributes', title: 'Thông số kỹ thuật chi tiết', rows: attributeRows });
+  }
+
+  return sections;
+};
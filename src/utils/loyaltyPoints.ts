@@ -0,0 +1,116 @@
+import {
+  LoyaltyOrderHistory,
+  LoyaltyRedemption,
+  LoyaltyRedemptionRule,
+  LoyaltyTransaction,
+  LoyaltyTransactionType,
+} from '../types/loyalty';
+
+const formatCurrencyVND = (value: number) =>
+  new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+
+export const LOYALTY_TRANSACTION_LABELS: Record<LoyaltyTransactionType, string> = {
+  EARN: 'Tích điểm',
+  REDEEM: 'Dùng điểm',
+  REFUND: 'Hoàn điểm',
+  EXPIRE: 'Điểm hết hạn',
+  ADJUST: 'Điều chỉnh',
+};
+
+/**
+ * Đổi điểm sang số tiền theo quy tắc của backend
+ */
+export const pointsToVnd = (rule: LoyaltyRedemptionRule, points: number) =>
+  Math.round(points * rule.pointValue);
+
+/**
+ * Số điểm tối đa được dùng cho đơn: min(số dư, % trần của tổng thanh toán, trần điểm mỗi đơn)
+ * orderTotal là tổng thanh toán trước khi trừ điểm
+ */
+export const calculateLoyaltyRedemption = (
+  rule: LoyaltyRedemptionRule | null,
+  balance: number,
+  orderTotal: number,
+): LoyaltyRedemption => {
+  const none = (unavailableReason: string): LoyaltyRedemption => ({
+    points: 0,
+    discount: 0,
+    unavailableReason,
+  });
+
+  if (!rule || !rule.enabled || rule.pointValue <= 0) {
+    return none('Chưa hỗ trợ dùng điểm thưởng');
+  }
+  if (balance <= 0) {
+    return none('Bạn chưa có điểm thưởng');
+  }
+  if (balance < rule.minRedeemPoints) {
+    return none(`Cần tối thiểu ${rule.minRedeemPoints} điểm để sử dụng`);
+  }
+
+  const maxByTotal = Math.floor(
+    (Math.max(0, orderTotal) * rule.maxRedeemPercent) / 100 / rule.pointValue,
+  );
+  const points = Math.min(
+    balance,
+    maxByTotal,
+    rule.maxRedeemPointsPerOrder ?? Number.POSITIVE_INFINITY,
+  );
+  if (points <= 0 || points < rule.minRedeemPoints) {
+    return none('Giá trị đơn hàng chưa đủ để dùng điểm');
+  }
+
+  return { points, discount: pointsToVnd(rule, points), unavailableReason: null };
+};
+
+/**
+ * Mô tả ngắn quy tắc quy đổi, ví dụ "1 điểm = 1.000 ₫, tối đa 50% giá trị đơn"
+ */
+export const describeLoyaltyRule = (rule: LoyaltyRedemptionRule) => {
+  const parts = [`1 điểm = ${formatCurrencyVND(rule.pointValue)}`];
+  if (rule.maxRedeemPercent < 100) {
+    parts.push(`tối đa ${rule.maxRedeemPercent}% giá trị đơn`);
+  }
+  if (rule.maxRedeemPointsPerOrder) {
+    parts.push(`không quá ${rule.maxRedeemPointsPerOrder} điểm/đơn`);
+  }
+  return parts.join(', ');
+};
+
+/**
+ * Gộp giao dịch điểm theo đơn hàng (giao dịch không gắn đơn đứng riêng), mới nhất lên đầu
+ */
+export const groupLoyaltyTransactionsByOrder = (
+  transactions: LoyaltyTransaction[],
+): LoyaltyOrderHistory[] => {
+  const groups = new Map<string, LoyaltyOrderHistory>();
+
+  transactions.forEach((transaction) => {
+    const key = transaction.orderId ? `order:${transaction.orderId}` : `tx:${transaction.id}`;
+    const group = groups.get(key) ?? {
+      key,
+      orderId: transaction.orderId ?? null,
+      orderCode: transaction.orderCode ?? null,
+      earned: 0,
+      spent: 0,
+      createdAt: transaction.createdAt,
+      transactions: [],
+    };
+
+    if (transaction.points >= 0) {
+      group.earned += transaction.points;
+    } else {
+      group.spent += Math.abs(transaction.points);
+    }
+    if (new Date(transaction.createdAt).getTime() > new Date(group.createdAt).getTime()) {
+      group.createdAt = transaction.createdAt;
+    }
+    group.orderCode = group.orderCode ?? transaction.orderCode ?? null;
+    group.transactions.push(transaction);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values()).sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  );
+};
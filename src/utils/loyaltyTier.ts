@@ -0,0 +1,142 @@
+import {
+  LoyaltyExpiringPoints,
+  LoyaltyTier,
+  LoyaltyTierProgress,
+} from '../types/loyalty';
+import { CustomerOrder, OrderStatus } from '../types/order';
+import { CustomerVoucher } from '../types/voucher';
+
+// Chỉ đơn đã giao thành công mới được tính vào chi tiêu xếp hạng
+const QUALIFYING_ORDER_STATUSES: OrderStatus[] = ['COMPLETED', 'DELIVERY_SUCCESS'];
+
+const formatCurrencyVND = (value: number) =>
+  new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+
+/**
+ * Sắp các hạng từ thấp đến cao theo mức chi tiêu tối thiểu
+ */
+export const sortLoyaltyTiers = (tiers: LoyaltyTier[]) =>
+  [...tiers].sort((a, b) => a.minSpend - b.minSpend);
+
+/**
+ * Tìm hạng theo mã hoặc tên (loyaltyLevel của hồ sơ có thể là một trong hai)
+ */
+export const findLoyaltyTier = (tiers: LoyaltyTier[], level?: string | null) => {
+  const key = level?.trim().toLowerCase();
+  if (!key) {
+    return null;
+  }
+  return (
+    tiers.find((tier) => tier.code.toLowerCase() === key || tier.name.toLowerCase() === key) ??
+    null
+  );
+};
+
+/**
+ * Tổng chi tiêu tính hạng từ lịch sử đơn, chỉ lấy đơn trong windowMonths tháng gần nhất nếu có
+ */
+export const calculateQualifyingSpend = (
+  orders: CustomerOrder[],
+  windowMonths?: number | null,
+  now: number = Date.now(),
+) => {
+  let since: number | null = null;
+  if (windowMonths) {
+    const start = new Date(now);
+    start.setMonth(start.getMonth() - windowMonths);
+    since = start.getTime();
+  }
+
+  return orders
+    .filter(
+      (order) =>
+        QUALIFYING_ORDER_STATUSES.includes(order.status) &&
+        (since === null || new Date(order.createdAt).getTime() >= since),
+    )
+    .reduce((sum, order) => sum + (order.grandTotal || 0), 0);
+};
+
+/**
+ * Tiến độ lên hạng: hạng hiện tại ưu tiên theo backend (loyaltyLevel), không khớp thì suy từ chi tiêu
+ */
+export const calculateTierProgress = (
+  tiers: LoyaltyTier[],
+  spend: number,
+  loyaltyLevel?: string | null,
+): LoyaltyTierProgress => {
+  const sorted = sortLoyaltyTiers(tiers);
+  const currentTier =
+    findLoyaltyTier(sorted, loyaltyLevel) ??
+    [...sorted].reverse().find((tier) => spend >= tier.minSpend) ??
+    null;
+  const nextTier =
+    sorted.find((tier) => tier.minSpend > (currentTier?.minSpend ?? Number.NEGATIVE_INFINITY)) ??
+    null;
+
+  if (!nextTier) {
+    return { currentTier, nextTier, spend, remainingSpend: 0, percent: 100 };
+  }
+
+  const base = currentTier?.minSpend ?? 0;
+  const range = nextTier.minSpend - base;
+  const percent = range > 0 ? ((spend - base) / range) * 100 : 100;
+  return {
+    currentTier,
+    nextTier,
+    spend,
+    remainingSpend: Math.max(0, nextTier.minSpend - spend),
+    percent: Math.min(100, Math.max(0, Math.round(percent))),
+  };
+};
+
+/**
+ * Voucher dành riêng cho hạng có dùng được với hạng hiện tại không
+ * Hạng yêu cầu không có trong danh sách thì để backend kiểm tra lúc thanh toán
+ */
+export const isTierVoucherUnlocked = (
+  voucher: Pick<CustomerVoucher, 'requiredTier'>,
+  tiers: LoyaltyTier[],
+  currentTier: LoyaltyTier | null,
+) => {
+  const requiredTier = findLoyaltyTier(tiers, voucher.requiredTier);
+  if (!voucher.requiredTier || !requiredTier) {
+    return true;
+  }
+  return !!currentTier && currentTier.minSpend >= requiredTier.minSpend;
+};
+
+/**
+ * Các đợt điểm chưa hết hạn, hết hạn sớm nhất lên đầu
+ */
+export const getUpcomingExpiringPoints = (
+  expiringPoints: LoyaltyExpiringPoints[],
+  now: number = Date.now(),
+) =>
+  expiringPoints
+    .filter((item) => item.points > 0 && new Date(item.expiresAt).getTime() > now)
+    .sort((a, b) => new Date(a.expiresAt).getTime() - new Date(b.expiresAt).getTime());
+
+/**
+ * Danh sách quyền lợi hiển thị của một hạng
+ */
+export const describeTierBenefits = (tier: LoyaltyTier, exclusiveVoucherCount: number = 0) => {
+  const { freeShippingMinOrder, freeShippingPerMonth, pointMultiplier, perks } = tier.benefits;
+  const benefits: string[] = [];
+
+  if (freeShippingMinOrder !== null && freeShippingMinOrder !== undefined) {
+    const threshold =
+      freeShippingMinOrder > 0
+        ? `Miễn phí vận chuyển cho đơn từ ${formatCurrencyVND(freeShippingMinOrder)}`
+        : 'Miễn phí vận chuyển mọi đơn';
+    benefits.push(
+      freeShippingPerMonth ? `${threshold} (${freeShippingPerMonth} lượt/tháng)` : threshold,
+    );
+  }
+  if (pointMultiplier && pointMultiplier > 1) {
+    benefits.push(`Tích điểm x${pointMultiplier}`);
+  }
+  if (exclusiveVoucherCount > 0) {
+    benefits.push(`${exclusiveVoucherCount} voucher dành riêng`);
+  }
+  return [...benefits, ...(perks ?? [])];
+};
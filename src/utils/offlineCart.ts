@@ -0,0 +1,199 @@
+import { AddCartItemRequest, Cart, CartItem, CartMutation } from '../types/cart';
+
+const LOCAL_ITEM_PREFIX = 'local-';
+const MAX_QUANTITY = 99;
+
+export const clampCartQuantity = (quantity: number) =>
+  Math.max(1, Math.min(Math.round(quantity), MAX_QUANTITY));
+
+export const createLocalId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * cartItemId tạm cho sản phẩm thêm trên máy, gắn với mutation ADD tương ứng
+ */
+export const toLocalCartItemId = (mutationId: string) => `${LOCAL_ITEM_PREFIX}${mutationId}`;
+
+export const isLocalCartItemId = (cartItemId: string) => cartItemId.startsWith(LOCAL_ITEM_PREFIX);
+
+const toMutationId = (cartItemId: string) => cartItemId.slice(LOCAL_ITEM_PREFIX.length);
+
+export const createEmptyCart = (customerId = ''): Cart => ({
+  cartId: '',
+  customerId,
+  status: 'ACTIVE',
+  subtotal: 0,
+  discountTotal: 0,
+  grandTotal: 0,
+  items: [],
+});
+
+/**
+ * Tìm dòng giỏ hàng trùng sản phẩm / biến thể / combo với yêu cầu thêm
+ * (ProductDetailScreen gửi chuỗi rỗng cho các id không dùng)
+ */
+export const findMatchingCartItem = (
+  cart: Cart | null,
+  item: AddCartItemRequest,
+  productId?: string,
+): CartItem | undefined => {
+  if (!cart) {
+    return undefined;
+  }
+  const variantId = item.variantId || null;
+  const comboId = item.comboId || null;
+  const refId = productId || item.productId || null;
+
+  return cart.items.find((cartItem) => {
+    if (variantId) {
+      return cartItem.variantId === variantId;
+    }
+    if (comboId) {
+      return cartItem.type === 'COMBO' && cartItem.refId === comboId;
+    }
+    return !cartItem.variantId && !!refId && cartItem.refId === refId;
+  });
+};
+
+const withTotals = (cart: Cart, items: CartItem[]): Cart => {
+  const subtotal = items.reduce((sum, item) => sum + item.lineTotal, 0);
+  // Giảm giá server tính cho giỏ cũ - không vượt quá tạm tính mới
+  const discountTotal = Math.min(cart.discountTotal, subtotal);
+  return {
+    ...cart,
+    items,
+    subtotal,
+    discountTotal,
+    grandTotal: Math.max(0, subtotal - discountTotal),
+  };
+};
+
+const applyMutation = (items: CartItem[], mutation: CartMutation): CartItem[] => {
+  switch (mutation.type) {
+    case 'ADD': {
+      const { item, preview } = mutation;
+      const quantity = clampCartQuantity(item.quantity);
+      return [
+        ...items,
+        {
+          cartItemId: toLocalCartItemId(mutation.id),
+          type: item.type,
+          refId: item.type === 'COMBO' ? item.comboId || '' : preview.productId,
+          name: preview.name,
+          image: preview.image,
+          quantity,
+          unitPrice: preview.unitPrice,
+          baseUnitPrice: preview.baseUnitPrice ?? null,
+          lineTotal: preview.unitPrice * quantity,
+          variantId: item.variantId || null,
+          variantOptionName: preview.variantOptionName ?? null,
+          variantOptionValue: preview.variantOptionValue ?? null,
+        },
+      ];
+    }
+    case 'UPDATE_QUANTITY':
+      return items.map((item) =>
+        item.cartItemId === mutation.cartItemId
+          ? { ...item, quantity: mutation.quantity, lineTotal: item.unitPrice * mutation.quantity }
+          : item,
+      );
+    case 'REMOVE':
+      return items.filter((item) => !mutation.cartItemIds.includes(item.cartItemId));
+    default:
+      return items;
+  }
+};
+
+/**
+ * Giỏ hàng hiển thị = giỏ server lần gần nhất + các thay đổi chưa đồng bộ
+ */
+export const applyCartQueue = (serverCart: Cart | null, queue: CartMutation[]): Cart => {
+  const base = serverCart ?? createEmptyCart();
+  if (queue.length === 0) {
+    return base;
+  }
+  return withTotals(base, queue.reduce(applyMutation, base.items));
+};
+
+/**
+ * Thêm thay đổi vào hàng đợi, gộp với các thay đổi chưa gửi để giảm số request:
+ * - Đổi số lượng nhiều lần chỉ giữ lần cuối
+ * - Sửa / xóa sản phẩm chỉ có trên máy thì sửa thẳng vào mutation ADD
+ * `lockedIds` là các mutation đang gửi lên server - không được sửa
+ */
+export const enqueueCartMutation = (
+  queue: CartMutation[],
+  mutation: CartMutation,
+  lockedIds: Set<string> = new Set(),
+): CartMutation[] => {
+  const isPendingAdd = (cartItemId: string) =>
+    isLocalCartItemId(cartItemId) &&
+    queue.some(
+      (m) => m.type === 'ADD' && m.id === toMutationId(cartItemId) && !lockedIds.has(m.id),
+    );
+
+  switch (mutation.type) {
+    case 'ADD':
+      return [...queue, mutation];
+    case 'UPDATE_QUANTITY': {
+      if (isPendingAdd(mutation.cartItemId)) {
+        const addId = toMutationId(mutation.cartItemId);
+        return queue.map((m) =>
+          m.type === 'ADD' && m.id === addId
+            ? { ...m, item: { ...m.item, quantity: mutation.quantity } }
+            : m,
+        );
+      }
+      return [
+        ...queue.filter(
+          (m) =>
+            !(
+              m.type === 'UPDATE_QUANTITY' &&
+              m.cartItemId === mutation.cartItemId &&
+              !lockedIds.has(m.id)
+            ),
+        ),
+        mutation,
+      ];
+    }
+    case 'REMOVE': {
+      const pendingAddIds = mutation.cartItemIds.filter(isPendingAdd).map(toMutationId);
+      const remainingIds = mutation.cartItemIds.filter((id) => !isPendingAdd(id));
+      const next = queue.filter((m) => {
+        if (lockedIds.has(m.id)) {
+          return true;
+        }
+        if (m.type === 'ADD') {
+          return !pendingAddIds.includes(m.id);
+        }
+        if (m.type === 'UPDATE_QUANTITY') {
+          return !mutation.cartItemIds.includes(m.cartItemId);
+        }
+        return true;
+      });
+      return remainingIds.length > 0 ? [...next, { ...mutation, cartItemIds: remainingIds }] : next;
+    }
+    default:
+      return queue;
+  }
+};
+
+/**
+ * Đổi cartItemId tạm sang id server (sản phẩm vừa được thêm thành công trong lúc đồng bộ)
+ */
+export const remapCartMutation = (
+  mutation: CartMutation,
+  resolvedIds: Record<string, string>,
+): CartMutation => {
+  switch (mutation.type) {
+    case 'UPDATE_QUANTITY':
+      return { ...mutation, cartItemId: resolvedIds[mutation.cartItemId] ?? mutation.cartItemId };
+    case 'REMOVE':
+      return {
+        ...mutation,
+        cartItemIds: mutation.cartItemIds.map((id) => resolvedIds[id] ?? id),
+      };
+    default:
+      return mutation;
+  }
+};
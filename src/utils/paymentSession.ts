@@ -0,0 +1,87 @@
+/**
+ * Payment Session Utility
+ * Lưu thông tin phiên thanh toán PayOS để đối soát khi app quay lại từ trình duyệt
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+
+export const PAYMENT_SESSION_KEY = 'payment:session:v1';
+
+// Phiên thanh toán quá thời gian này được coi là hết hạn
+export const PAYMENT_SESSION_TTL_MS = 5 * 60 * 1000;
+
+export type PaymentSession = {
+  type: 'payos';
+  timestamp: number;
+  orderId?: string;
+  orderCode?: string;
+  checkoutUrl?: string;
+};
+
+/**
+ * Lưu phiên thanh toán trước khi mở trang PayOS
+ */
+export const savePaymentSession = async (
+  session: Omit<PaymentSession, 'type' | 'timestamp'>,
+): Promise<PaymentSession> => {
+  const record: PaymentSession = {
+    type: 'payos',
+    timestamp: Date.now(),
+    ...session,
+  };
+  await AsyncStorage.setItem(PAYMENT_SESSION_KEY, JSON.stringify(record));
+  return record;
+};
+
+/**
+ * Đọc phiên thanh toán đang lưu (null nếu không có hoặc dữ liệu hỏng)
+ */
+export const getPaymentSession = async (): Promise<PaymentSession | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(PAYMENT_SESSION_KEY);
+    if (!raw) {
+      return null;
+    }
+    const session = JSON.parse(raw);
+    if (session?.type !== 'payos' || typeof session?.timestamp !== 'number') {
+      return null;
+    }
+    return session as PaymentSession;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Xóa phiên thanh toán (khi đã có kết quả hoặc đã hết hạn)
+ */
+export const clearPaymentSession = async (): Promise<void> => {
+  await AsyncStorage.removeItem(PAYMENT_SESSION_KEY).catch(() => {});
+};
+
+/**
+ * Kiểm tra phiên thanh toán còn hiệu lực không
+ */
+export const isPaymentSessionActive = (session: PaymentSession | null): boolean =>
+  !!session && Date.now() - session.timestamp < PAYMENT_SESSION_TTL_MS;
+
+// PayOS redirect về các URL này, App.tsx bắt deep link checkout/success và checkout/cancel
+export const getPayOSReturnUrl = () => Linking.createURL('checkout/success');
+export const getPayOSCancelUrl = () => Linking.createURL('checkout/cancel');
+
+export type PayOSBrowserResult = 'success' | 'cancel' | 'dismiss';
+
+/**
+ * Mở trang thanh toán PayOS trong trình duyệt in-app
+ * Trả về 'success'/'cancel' khi PayOS redirect về app, 'dismiss' khi user tự đóng trình duyệt
+ */
+export const openPayOSCheckout = async (checkoutUrl: string): Promise<PayOSBrowserResult> => {
+  const result = await WebBrowser.openAuthSessionAsync(checkoutUrl, Linking.createURL('checkout'));
+
+  if (result.type === 'success') {
+    return result.url.includes('checkout/cancel') ? 'cancel' : 'success';
+  }
+  return 'dismiss';
+};
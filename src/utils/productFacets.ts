@@ -0,0 +1,211 @@
+import {
+  ProductAttributeValue,
+  ProductDetail,
+  ProductSpecFacetDefinition,
+  ProductSpecFacetRange,
+  ProductSpecFacets,
+  ProductSpecFacetValue,
+} from '../types/product';
+
+type TypedSpecFacetKey =
+  | 'connectionType'
+  | 'headphoneType'
+  | 'impedance'
+  | 'supportBluetooth'
+  | 'supportWifi'
+  | 'supportAirplay'
+  | 'balancedOutput';
+
+// Sản phẩm dùng để dựng facet: trường thông số có kiểu và attributeValues
+export type SpecFacetSource = Partial<Pick<ProductDetail, TypedSpecFacetKey | 'attributeValues'>>;
+
+// Trường có kiểu trên ProductDetail dùng làm facet (chỉ nhãn và kiểu, giá trị lấy từ dữ liệu)
+const TYPED_SPEC_FIELDS: {
+  key: TypedSpecFacetKey;
+  label: string;
+  dataType: ProductAttributeValue['dataType'];
+}[] = [
+  { key: 'connectionType', label: 'Loại kết nối', dataType: 'STRING' },
+  { key: 'headphoneType', label: 'Loại tai nghe', dataType: 'STRING' },
+  { key: 'impedance', label: 'Trở kháng', dataType: 'NUMBER' },
+  { key: 'supportBluetooth', label: 'Hỗ trợ Bluetooth', dataType: 'BOOLEAN' },
+  { key: 'supportWifi', label: 'Hỗ trợ WiFi', dataType: 'BOOLEAN' },
+  { key: 'supportAirplay', label: 'Hỗ trợ AirPlay', dataType: 'BOOLEAN' },
+  { key: 'balancedOutput', label: 'Đầu ra cân bằng', dataType: 'BOOLEAN' },
+];
+
+const MAX_NUMBER_RANGES = 4;
+
+type FacetValues = {
+  label: string;
+  dataType: ProductAttributeValue['dataType'];
+  options: Set<string>;
+  numbers: Set<number>;
+  unit: string;
+  hasTrue: boolean;
+};
+
+const isRange = (value: ProductSpecFacetValue): value is ProductSpecFacetRange =>
+  typeof value === 'object' && value !== null;
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const collectValue = (
+  collected: Map<string, FacetValues>,
+  key: string,
+  label: string,
+  dataType: ProductAttributeValue['dataType'],
+  value: unknown,
+) => {
+  if (dataType === 'DATE' || value === null || value === undefined) return;
+
+  let entry = collected.get(key);
+  if (!entry) {
+    entry = { label, dataType, options: new Set(), numbers: new Set(), unit: '', hasTrue: false };
+    collected.set(key, entry);
+  }
+
+  if (dataType === 'BOOLEAN') {
+    if (value === true || value === 'true') entry.hasTrue = true;
+    return;
+  }
+
+  const text = String(value).trim();
+  if (!text) return;
+
+  if (dataType === 'NUMBER') {
+    // Giá trị dạng "32Ω" / "32 ohm": lấy phần số, giữ đơn vị để làm nhãn
+    const match = text.match(/^(-?\d+(?:[.,]\d+)?)\s*(.*)$/);
+    if (!match) return;
+    entry.numbers.add(Number(match[1].replace(',', '.')));
+    if (!entry.unit && match[2]) entry.unit = match[2];
+    return;
+  }
+
+  entry.options.add(text);
+};
+
+/**
+ * Chia các giá trị số thành tối đa 4 khoảng theo phân vị
+ */
+const buildNumberRanges = (numbers: Set<number>, unit: string): ProductSpecFacetRange[] => {
+  const values = Array.from(numbers).sort((a, b) => a - b);
+  const format = (value: number) => `${value}${unit}`;
+
+  if (values.length <= MAX_NUMBER_RANGES) {
+    return values.map((value) => ({ label: format(value), min: value, max: value }));
+  }
+
+  const bounds = Array.from(
+    new Set(
+      Array.from({ length: MAX_NUMBER_RANGES - 1 }, (_, index) =>
+        values[Math.floor(((index + 1) * values.length) / MAX_NUMBER_RANGES)],
+      ),
+    ),
+  );
+
+  return [
+    { label: `Dưới ${format(bounds[0])}`, max: bounds[0] },
+    ...bounds.slice(1).map((bound, index) => ({
+      label: `${format(bounds[index])} - ${format(bound)}`,
+      min: bounds[index],
+      max: bound,
+    })),
+    { label: `Trên ${format(bounds[bounds.length - 1])}`, min: bounds[bounds.length - 1] },
+  ];
+};
+
+/**
+ * Dựng facet từ dữ liệu sản phẩm đã tải:
+ * trường có kiểu trên ProductDetail và attributeValues (theo dataType).
+ * STRING -> các giá trị xuất hiện, NUMBER -> khoảng theo giá trị thực, BOOLEAN -> khi có sản phẩm hỗ trợ
+ */
+export const buildSpecFacetDefinitions = (
+  products: SpecFacetSource[],
+): ProductSpecFacetDefinition[] => {
+  const collected = new Map<string, FacetValues>();
+
+  products.forEach((product) => {
+    TYPED_SPEC_FIELDS.forEach((field) => {
+      collectValue(collected, field.key, field.label, field.dataType, product[field.key]);
+    });
+    product.attributeValues?.forEach((attribute) => {
+      collectValue(
+        collected,
+        attribute.attributeName,
+        attribute.attributeLabel || attribute.attributeName,
+        attribute.dataType,
+        attribute.value,
+      );
+    });
+  });
+
+  const definitions: ProductSpecFacetDefinition[] = [];
+  collected.forEach((entry, key) => {
+    const base = { key, label: entry.label, dataType: entry.dataType };
+    if (entry.dataType === 'BOOLEAN') {
+      if (entry.hasTrue) definitions.push(base);
+    } else if (entry.dataType === 'NUMBER') {
+      if (entry.numbers.size > 0) {
+        definitions.push({ ...base, ranges: buildNumberRanges(entry.numbers, entry.unit) });
+      }
+    } else if (entry.options.size > 0) {
+      definitions.push({
+        ...base,
+        options: Array.from(entry.options).sort((a, b) => a.localeCompare(b, 'vi')),
+      });
+    }
+  });
+
+  return definitions;
+};
+
+/**
+ * So sánh hai giá trị facet (khoảng số so theo nhãn)
+ */
+export const isSameFacetValue = (
+  a: ProductSpecFacetValue | undefined,
+  b: ProductSpecFacetValue,
+): boolean => {
+  if (a === undefined) return false;
+  if (isRange(a) && isRange(b)) return a.label === b.label;
+  return a === b;
+};
+
+/**
+ * Chuyển facet thành query params:
+ * STRING -> key=value, BOOLEAN -> key=true, NUMBER -> minKey / maxKey
+ */
+export const buildSpecFacetParams = (
+  facets: ProductSpecFacets,
+): Record<string, string | number | boolean> => {
+  const params: Record<string, string | number | boolean> = {};
+
+  Object.entries(facets).forEach(([key, value]) => {
+    if (isRange(value)) {
+      if (value.min !== undefined) params[`min${capitalize(key)}`] = value.min;
+      if (value.max !== undefined) params[`max${capitalize(key)}`] = value.max;
+    } else if (typeof value === 'boolean') {
+      if (value) params[key] = true;
+    } else if (value.trim()) {
+      params[key] = value.trim();
+    }
+  });
+
+  return params;
+};
+
+/**
+ * Nhãn hiển thị cho các facet đang bật
+ */
+export const getActiveFacetChips = (
+  facets: ProductSpecFacets,
+  definitions: ProductSpecFacetDefinition[],
+): { key: string; label: string }[] =>
+  Object.entries(facets).map(([key, value]) => {
+    const definition = definitions.find((facet) => facet.key === key);
+    const title = definition?.label ?? key;
+    if (isRange(value)) return { key, label: `${title}: ${value.label}` };
+    if (typeof value === 'boolean') return { key, label: title };
+    return { key, label: `${title}: ${value}` };
+  });
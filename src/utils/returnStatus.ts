@@ -0,0 +1,92 @@
+import { ReturnRequest, ReturnRequestStatus } from '../types/order';
+
+export type ReturnStepState = 'done' | 'current' | 'upcoming' | 'failed';
+
+export type ReturnStep = {
+  status: ReturnRequestStatus;
+  title: string;
+  state: ReturnStepState;
+  time?: string;
+};
+
+export const RETURN_STATUS_LABELS: Record<ReturnRequestStatus, string> = {
+  PENDING: 'Chờ cửa hàng duyệt',
+  APPROVED: 'Đã chấp nhận',
+  REJECTED: 'Bị từ chối',
+  SHIPPING_BACK: 'Đang gửi trả hàng',
+  RECEIVED: 'Cửa hàng đã nhận hàng',
+  REFUNDED: 'Đã hoàn tiền',
+  CANCELLED: 'Đã hủy yêu cầu',
+};
+
+export const RETURN_STATUS_COLORS: Record<ReturnRequestStatus, string> = {
+  PENDING: '#FF9800',
+  APPROVED: '#2196F3',
+  REJECTED: '#F44336',
+  SHIPPING_BACK: '#00BCD4',
+  RECEIVED: '#3F51B5',
+  REFUNDED: '#4CAF50',
+  CANCELLED: '#9E9E9E',
+};
+
+export const getReturnStatusLabel = (status: string) =>
+  RETURN_STATUS_LABELS[status as ReturnRequestStatus] || status;
+
+export const getReturnStatusColor = (status: string) =>
+  RETURN_STATUS_COLORS[status as ReturnRequestStatus] || '#9E9E9E';
+
+// Tiến trình bình thường của một yêu cầu hoàn trả
+const RETURN_FLOW: ReturnRequestStatus[] = ['PENDING', 'APPROVED', 'SHIPPING_BACK', 'RECEIVED', 'REFUNDED'];
+
+// Trạng thái kết thúc sớm, hiển thị thay cho các mốc còn lại
+const TERMINAL_STATUSES: ReturnRequestStatus[] = ['REJECTED', 'CANCELLED'];
+
+/**
+ * Yêu cầu chưa bị từ chối/hủy - sản phẩm không thể gửi thêm yêu cầu hoàn trả mới
+ */
+export const isActiveReturnRequest = (request: Pick<ReturnRequest, 'status'>) =>
+  !TERMINAL_STATUSES.includes(request.status as ReturnRequestStatus);
+
+/**
+ * Dựng tiến trình trạng thái từ trạng thái hiện tại và lịch sử (nếu có)
+ */
+export const buildReturnProgress = (request: ReturnRequest): ReturnStep[] => {
+  const status = request.status as ReturnRequestStatus;
+  const history = request.history ?? [];
+  const timeOf = (target: ReturnRequestStatus) =>
+    target === 'PENDING'
+      ? request.createdAt
+      : [...history].reverse().find((entry) => entry.status === target)?.changedAt;
+
+  if (TERMINAL_STATUSES.includes(status)) {
+    // Mốc cuối cùng đạt được trước khi bị từ chối/hủy
+    const reached = RETURN_FLOW.filter((step) => step === 'PENDING' || timeOf(step));
+    return [
+      ...reached.map((step) => ({
+        status: step,
+        title: RETURN_STATUS_LABELS[step],
+        state: 'done' as const,
+        time: timeOf(step),
+      })),
+      {
+        status,
+        title: RETURN_STATUS_LABELS[status],
+        state: 'failed',
+        time: timeOf(status) ?? request.updatedAt,
+      },
+    ];
+  }
+
+  const currentIndex = Math.max(RETURN_FLOW.indexOf(status), 0);
+  return RETURN_FLOW.map((step, index) => {
+    let state: ReturnStepState = 'upcoming';
+    if (index < currentIndex || (index === currentIndex && step === 'REFUNDED')) {
+      state = 'done';
+    } else if (index === currentIndex) {
+      state = 'current';
+    }
+    // Backend cũ không trả lịch sử: mốc hiện tại lấy thời điểm cập nhật gần nhất
+    const time = index === currentIndex ? timeOf(step) ?? request.updatedAt : index < currentIndex ? timeOf(step) : undefined;
+    return { status: step, title: RETURN_STATUS_LABELS[step], state, time };
+  });
+};
@@ -0,0 +1,35 @@
+import { RatingHistogram, ReviewFilter } from '../types/review';
+
+export const DEFAULT_REVIEW_FILTER: ReviewFilter = {
+  rating: null,
+  hasMedia: false,
+  variantOptionValue: null,
+};
+
+/**
+ * Thống kê số sao từ số review theo từng mức sao (1-5)
+ */
+export const buildRatingHistogram = (counts: Record<number, number>): RatingHistogram => {
+  const normalized: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  let total = 0;
+  let sum = 0;
+
+  [1, 2, 3, 4, 5].forEach((star) => {
+    const count = counts[star] || 0;
+    normalized[star] = count;
+    total += count;
+    sum += star * count;
+  });
+
+  return {
+    counts: normalized,
+    total,
+    average: total > 0 ? sum / total : 0,
+  };
+};
+
+/**
+ * Danh sách biến thể của sản phẩm (dùng cho bộ lọc review)
+ */
+export const getReviewVariantOptions = (variants: { optionValue: string }[] = []): string[] =>
+  Array.from(new Set(variants.map((variant) => variant.optionValue).filter(Boolean)));
@@ -0,0 +1,104 @@
+import { GHNTrackingLog, OrderStatus } from '../types/order';
+
+export type TrackingStepState = 'done' | 'current' | 'upcoming' | 'failed';
+
+export type TrackingStep = {
+  key: string;
+  title: string;
+  icon: string;
+  state: TrackingStepState;
+  time?: string;
+  description?: string | null;
+  location?: string | null;
+};
+
+type TrackingStepDefinition = {
+  key: string;
+  title: string;
+  icon: string;
+  statuses: OrderStatus[];
+};
+
+// Các mốc chính của một vận đơn GHN, theo thứ tự
+const TRACKING_STEPS: TrackingStepDefinition[] = [
+  { key: 'created', title: 'Đã tạo vận đơn', icon: 'file-document-outline', statuses: ['GHN_CREATED', 'AWAITING_SHIPMENT'] },
+  { key: 'pickup', title: 'Chờ lấy hàng', icon: 'package-variant', statuses: ['READY_FOR_PICKUP'] },
+  { key: 'transit', title: 'Đang vận chuyển', icon: 'truck-fast-outline', statuses: ['SHIPPING', 'READY_FOR_DELIVERY'] },
+  { key: 'delivering', title: 'Đang giao hàng', icon: 'moped-outline', statuses: ['OUT_FOR_DELIVERY'] },
+  {
+    key: 'delivered',
+    title: 'Đã giao hàng',
+    icon: 'check-circle-outline',
+    statuses: ['DELIVERED_WAITING_CONFIRM', 'DELIVERY_SUCCESS', 'COMPLETED'],
+  },
+];
+
+// Trạng thái bất thường, hiển thị như một mốc lỗi chèn vào timeline
+const ISSUE_STATUSES: Partial<Record<OrderStatus, { title: string; icon: string }>> = {
+  DELIVERY_FAIL: { title: 'Giao hàng thất bại', icon: 'alert-circle-outline' },
+  DELIVERY_DENIED: { title: 'Người nhận từ chối nhận hàng', icon: 'hand-back-left-outline' },
+  EXCEPTION: { title: 'Đơn hàng gặp sự cố', icon: 'alert-octagon-outline' },
+  RETURNING: { title: 'Đang hoàn hàng về shop', icon: 'keyboard-return' },
+  RETURNED: { title: 'Đã hoàn hàng về shop', icon: 'store-outline' },
+  CANCELLED: { title: 'Vận đơn đã hủy', icon: 'close-circle-outline' },
+};
+
+const findStepIndex = (status: string) =>
+  TRACKING_STEPS.findIndex((step) => step.statuses.includes(status as OrderStatus));
+
+export const isTrackingIssueStatus = (status: string) => status in ISSUE_STATUSES;
+
+/**
+ * Dựng timeline từ trạng thái hiện tại và nhật ký GHN.
+ * Mỗi mốc lấy thời gian của log gần nhất thuộc mốc đó.
+ */
+export const buildTrackingTimeline = (
+  currentStatus: string,
+  logs: GHNTrackingLog[],
+): TrackingStep[] => {
+  const sortedLogs = [...logs].sort(
+    (a, b) => new Date(a.updatedDate).getTime() - new Date(b.updatedDate).getTime(),
+  );
+
+  // Mốc xa nhất đã đạt được, kể cả khi trạng thái hiện tại là lỗi
+  const reachedIndex = Math.max(
+    findStepIndex(currentStatus),
+    ...sortedLogs.map((log) => findStepIndex(log.status)),
+  );
+  const issue = ISSUE_STATUSES[currentStatus as OrderStatus];
+  const isFinished = reachedIndex === TRACKING_STEPS.length - 1;
+
+  const steps: TrackingStep[] = TRACKING_STEPS.map((step, index) => {
+    const lastLog = [...sortedLogs].reverse().find((log) => step.statuses.includes(log.status as OrderStatus));
+    let state: TrackingStepState = 'upcoming';
+    if (index < reachedIndex || (index === reachedIndex && (isFinished || issue))) {
+      state = 'done';
+    } else if (index === reachedIndex) {
+      state = 'current';
+    }
+    return {
+      key: step.key,
+      title: step.title,
+      icon: step.icon,
+      state,
+      time: lastLog?.updatedDate,
+      description: lastLog?.description,
+      location: lastLog?.location,
+    };
+  });
+
+  if (issue) {
+    const issueLog = [...sortedLogs].reverse().find((log) => log.status === currentStatus);
+    steps.splice(reachedIndex + 1, 0, {
+      key: `issue-${currentStatus}`,
+      title: issue.title,
+      icon: issue.icon,
+      state: 'failed',
+      time: issueLog?.updatedDate,
+      description: issueLog?.description,
+      location: issueLog?.location,
+    });
+  }
+
+  return steps;
+};
@@ -0,0 +1,97 @@
+import { ApiError } from '../api/authenticatedClient';
+import {
+  AppliedVoucherCode,
+  CheckoutPreviewRequest,
+  CheckoutPreviewResponse,
+  VoucherCodeFailureReason,
+} from '../types/checkout';
+
+type CheckoutPreview = CheckoutPreviewResponse['data'];
+
+export const VOUCHER_CODE_FAILURE_LABELS: Record<VoucherCodeFailureReason, string> = {
+  NOT_FOUND: 'Mã voucher không tồn tại',
+  EXPIRED: 'Mã voucher đã hết hạn',
+  NOT_STARTED: 'Mã voucher chưa đến thời gian sử dụng',
+  BELOW_MIN_ORDER: 'Đơn hàng chưa đạt giá trị tối thiểu của mã',
+  NOT_APPLICABLE: 'Mã không áp dụng cho các sản phẩm đã chọn',
+  USAGE_LIMIT_REACHED: 'Mã đã hết lượt sử dụng',
+  UNKNOWN: 'Không thể áp dụng mã voucher',
+};
+
+// Thứ tự quan trọng: "hết lượt" phải xét trước "hết hạn", "không tồn tại" xét cuối
+const FAILURE_PATTERNS: [VoucherCodeFailureReason, RegExp][] = [
+  ['USAGE_LIMIT_REACHED', /usage|limit[ _]?reached|hết lượt|lượt sử dụng|đã sử dụng/i],
+  ['EXPIRED', /expired|hết hạn/i],
+  ['NOT_STARTED', /not[ _]?started|not[ _]?yet|chưa bắt đầu|chưa đến/i],
+  ['BELOW_MIN_ORDER', /min(imum)?[ _]?order|below[ _]?min|tối thiểu/i],
+  ['NOT_APPLICABLE', /not[ _]?applicable|scope|không áp dụng|không được áp dụng/i],
+  ['NOT_FOUND', /not[ _]?found|invalid|không tồn tại|không hợp lệ/i],
+];
+
+/**
+ * Mã voucher không phân biệt hoa thường, bỏ khoảng trắng
+ */
+export const normalizeVoucherCode = (code: string) => code.replace(/\s+/g, '').toUpperCase();
+
+/**
+ * Suy ra lý do mã bị từ chối từ lỗi preview (ưu tiên errorCode, sau đó tới message)
+ */
+export const getVoucherCodeFailureReason = (error: ApiError): VoucherCodeFailureReason => {
+  const data = (error.data ?? {}) as { errorCode?: unknown; code?: unknown; error?: unknown };
+  const errorCode = [data.errorCode, data.code, data.error].find(
+    (value): value is string => typeof value === 'string',
+  );
+  const sources = [errorCode, error.message].filter((value): value is string => !!value);
+
+  for (const source of sources) {
+    const match = FAILURE_PATTERNS.find(([, pattern]) => pattern.test(source));
+    if (match) {
+      return match[0];
+    }
+  }
+  return error.status === 404 ? 'NOT_FOUND' : 'UNKNOWN';
+};
+
+/**
+ * Thêm mã shop vào storeVouchers của request preview
+ */
+export const addVoucherCodeToPreviewRequest = (
+  payload: CheckoutPreviewRequest,
+  voucherCode: Pick<AppliedVoucherCode, 'code' | 'scope' | 'storeId'>,
+): CheckoutPreviewRequest => {
+  const storeId = voucherCode.storeId ?? '';
+  const storeVouchers = payload.storeVouchers ?? [];
+  const existing = storeVouchers.find((voucher) => voucher.storeId === storeId);
+  return {
+    ...payload,
+    storeVouchers: existing
+      ? storeVouchers.map((voucher) =>
+          voucher.storeId === storeId && !voucher.codes.includes(voucherCode.code)
+            ? { ...voucher, codes: [...voucher.codes, voucherCode.code] }
+            : voucher,
+        )
+      : [...storeVouchers, { storeId, codes: [voucherCode.code] }],
+  };
+};
+
+// Chi tiết voucher của preview là JSON tự do - chỉ cần biết mã có mặt hay không
+const detailMentionsCode = (detailJson: string | null | undefined, code: string) =>
+  !!detailJson && detailJson.toUpperCase().includes(`"${code}"`);
+
+/**
+ * Số tiền mã giảm thêm so với preview trước đó, null nếu backend bỏ qua mã
+ */
+export const getVoucherCodeDiscount = (
+  voucherCode: Pick<AppliedVoucherCode, 'code' | 'scope' | 'storeId'>,
+  preview: CheckoutPreview,
+  previousPreview: CheckoutPreview | null,
+): number | null => {
+  const store = preview.stores.find((item) => item.storeId === voucherCode.storeId);
+  if (!store) {
+    return null;
+  }
+  const previousStore = previousPreview?.stores.find((item) => item.storeId === store.storeId);
+  const discount = store.storeDiscount - (previousStore?.storeDiscount ?? 0);
+  const mentioned = detailMentionsCode(store.storeVoucherDetailJson, voucherCode.code);
+  return mentioned || (previousStore && discount > 0) ? Math.max(0, discount) : null;
+};
@@ -0,0 +1,332 @@
+import { CartItem } from '../types/cart';
+import {
+  StoreVoucherInput,
+  StoreVoucherPlan,
+  VoucherCandidate,
+  VoucherEvaluation,
+  VoucherEvaluationStatus,
+} from '../types/voucher';
+
+// Quá số voucher sản phẩm này thì chuyển sang chọn tham lam thay vì duyệt hết tổ hợp
+const MAX_EXACT_PRODUCT_VOUCHERS = 12;
+
+// Voucher không được chọn vì điều kiện của chính nó (không phải vì có voucher tốt hơn)
+const BLOCKING_STATUSES: VoucherEvaluationStatus[] = [
+  'NO_ITEMS',
+  'INACTIVE',
+  'NOT_STARTED',
+  'EXPIRED',
+  'MIN_ORDER_NOT_MET',
+  'NO_DISCOUNT',
+];
+
+type RawShopVoucher = {
+  shopVoucherId?: string;
+  voucherId?: string;
+  code: string;
+  title?: string;
+  name?: string;
+  discountPercent?: number | null;
+  discountValue?: number | null;
+  maxDiscountValue?: number | null;
+  minOrderValue?: number | null;
+  startTime?: string | null;
+  endTime?: string | null;
+  status?: string | null;
+};
+
+const formatCurrencyVND = (value: number) =>
+  new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+
+const toTime = (value?: string | null) => {
+  if (!value) {
+    return null;
+  }
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Chuẩn hóa voucher từ API sản phẩm (shopVoucherId hoặc voucherId, title hoặc name)
+ */
+export const toVoucherCandidate = (voucher: RawShopVoucher): VoucherCandidate => ({
+  voucherId: voucher.shopVoucherId || voucher.voucherId || '',
+  code: voucher.code,
+  name: voucher.title || voucher.name || voucher.code,
+  discountPercent: voucher.discountPercent,
+  discountValue: voucher.discountValue,
+  maxDiscountValue: voucher.maxDiscountValue,
+  minOrderValue: voucher.minOrderValue,
+  startTime: voucher.startTime,
+  endTime: voucher.endTime,
+  status: voucher.status,
+});
+
+/**
+ * Trạng thái hiệu lực của voucher (status null coi như ACTIVE)
+ */
+const getAvailabilityStatus = (
+  voucher: VoucherCandidate,
+  now: number,
+): VoucherEvaluationStatus | null => {
+  if (voucher.status === 'EXPIRED') {
+    return 'EXPIRED';
+  }
+  if (voucher.status === 'INACTIVE' || voucher.status === 'USED') {
+    return 'INACTIVE';
+  }
+  const startTime = toTime(voucher.startTime);
+  if (startTime !== null && now < startTime) {
+    return 'NOT_STARTED';
+  }
+  const endTime = toTime(voucher.endTime);
+  if (endTime !== null && now > endTime) {
+    return 'EXPIRED';
+  }
+  return null;
+};
+
+/**
+ * Số tiền giảm trên `amount`: PERCENT (có discountPercent) giới hạn bởi maxDiscountValue,
+ * FIXED trừ thẳng discountValue. Không giảm quá số tiền phải trả.
+ */
+const getDiscountAmount = (voucher: VoucherCandidate, amount: number) => {
+  if (voucher.discountPercent !== null && voucher.discountPercent !== undefined && voucher.discountPercent > 0) {
+    const discount = (amount * voucher.discountPercent) / 100;
+    const capped =
+      voucher.maxDiscountValue !== null && voucher.maxDiscountValue !== undefined
+        ? Math.min(discount, voucher.maxDiscountValue)
+        : discount;
+    return Math.round(Math.min(capped, amount));
+  }
+  if (voucher.discountValue !== null && voucher.discountValue !== undefined && voucher.discountValue > 0) {
+    return Math.round(Math.min(voucher.discountValue, amount));
+  }
+  return 0;
+};
+
+/**
+ * Đánh giá một voucher: `discountBase` để tính giảm, `minOrderBase` để xét đơn tối thiểu
+ */
+const evaluateVoucher = (
+  voucher: VoucherCandidate,
+  discountBase: number,
+  minOrderBase: number,
+  now: number,
+): VoucherEvaluation => {
+  const availability = getAvailabilityStatus(voucher, now);
+  if (availability) {
+    return { voucher, status: availability, discount: 0 };
+  }
+  if (voucher.minOrderValue && minOrderBase < voucher.minOrderValue) {
+    return {
+      voucher,
+      status: 'MIN_ORDER_NOT_MET',
+      discount: 0,
+      missingAmount: voucher.minOrderValue - minOrderBase,
+    };
+  }
+  const discount = getDiscountAmount(voucher, discountBase);
+  return { voucher, status: discount > 0 ? 'NOT_BEST' : 'NO_DISCOUNT', discount };
+};
+
+/**
+ * Giá tính voucher sản phẩm: giá campaign nếu còn lượt, ngược lại giá gốc
+ */
+const getProductVoucherPrice = (item: CartItem) =>
+  item.inPlatformCampaign &&
+  !item.campaignUsageExceeded &&
+  item.platformCampaignPrice !== null &&
+  item.platformCampaignPrice !== undefined
+    ? item.platformCampaignPrice
+    : item.baseUnitPrice ?? item.unitPrice;
+
+/**
+ * Gán voucher sản phẩm cho item để tổng giảm lớn nhất.
+ * Mỗi item dùng tối đa một voucher, mỗi voucher chỉ dùng cho một item trong đơn.
+ */
+const assignProductVouchers = (
+  evaluations: Record<string, VoucherEvaluation[]>,
+): Record<string, VoucherCandidate> => {
+  const options = Object.entries(evaluations).map(([cartItemId, list]) => ({
+    cartItemId,
+    list: list.filter((evaluation) => evaluation.status === 'NOT_BEST'),
+  }));
+  const voucherIds = Array.from(
+    new Set(options.flatMap(({ list }) => list.map((evaluation) => evaluation.voucher.voucherId))),
+  );
+  const assignment: Record<string, VoucherCandidate> = {};
+
+  if (voucherIds.length > MAX_EXACT_PRODUCT_VOUCHERS) {
+    // Tham lam: cặp (item, voucher) giảm nhiều nhất trước
+    const usedVoucherIds = new Set<string>();
+    options
+      .flatMap(({ cartItemId, list }) => list.map((evaluation) => ({ cartItemId, evaluation })))
+      .sort((a, b) => b.evaluation.discount - a.evaluation.discount)
+      .forEach(({ cartItemId, evaluation }) => {
+        if (assignment[cartItemId] || usedVoucherIds.has(evaluation.voucher.voucherId)) {
+          return;
+        }
+        assignment[cartItemId] = evaluation.voucher;
+        usedVoucherIds.add(evaluation.voucher.voucherId);
+      });
+    return assignment;
+  }
+
+  // Quy hoạch động theo (item, tập voucher đã dùng)
+  const bitOf = new Map(voucherIds.map((voucherId, index) => [voucherId, 1 << index]));
+  const memo = new Map<string, number>();
+  const best = (index: number, usedMask: number): number => {
+    if (index >= options.length) {
+      return 0;
+    }
+    const key = `${index}:${usedMask}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    let result = best(index + 1, usedMask);
+    options[index].list.forEach((evaluation) => {
+      const bit = bitOf.get(evaluation.voucher.voucherId)!;
+      if (!(usedMask & bit)) {
+        result = Math.max(result, evaluation.discount + best(index + 1, usedMask | bit));
+      }
+    });
+    memo.set(key, result);
+    return result;
+  };
+
+  // Lần theo bảng để lấy lại phương án
+  let usedMask = 0;
+  options.forEach(({ cartItemId, list }, index) => {
+    const target = best(index, usedMask);
+    if (target === best(index + 1, usedMask)) {
+      return;
+    }
+    const chosen = list.find((evaluation) => {
+      const bit = bitOf.get(evaluation.voucher.voucherId)!;
+      return !(usedMask & bit) && evaluation.discount + best(index + 1, usedMask | bit) === target;
+    });
+    if (chosen) {
+      assignment[cartItemId] = chosen.voucher;
+      usedMask |= bitOf.get(chosen.voucher.voucherId)!;
+    }
+  });
+  return assignment;
+};
+
+/**
+ * Chọn tổ hợp voucher tiết kiệm nhất cho các sản phẩm đang chọn của một shop.
+ * Quy tắc giống CartScreen:
+ * - Voucher shop (ALL_SHOP_VOUCHER): giảm trên unitPrice, xét đơn tối thiểu trên giá gốc
+ * - Voucher sản phẩm: giảm và xét đơn tối thiểu trên giá campaign (nếu còn lượt) hoặc giá gốc
+ * - Voucher shop và voucher sản phẩm cộng dồn độc lập, mỗi shop dùng một voucher shop
+ */
+export const optimizeStoreVouchers = (
+  input: StoreVoucherInput,
+  now: number = Date.now(),
+): StoreVoucherPlan => {
+  const productItems = input.items.filter((item) => item.type === 'PRODUCT');
+
+  // Voucher shop: chọn voucher giảm nhiều nhất
+  const storeSubtotal = productItems.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+  const storeBaseSubtotal = productItems.reduce(
+    (sum, item) => sum + (item.baseUnitPrice ?? item.unitPrice) * item.quantity,
+    0,
+  );
+  const shopEvaluations = input.shopVouchers.map((voucher) =>
+    productItems.length === 0
+      ? { voucher, status: 'NO_ITEMS' as const, discount: 0 }
+      : evaluateVoucher(voucher, storeSubtotal, storeBaseSubtotal, now),
+  );
+  const bestShop = shopEvaluations.reduce<VoucherEvaluation | null>(
+    (best, evaluation) =>
+      evaluation.status === 'NOT_BEST' && (!best || evaluation.discount > best.discount)
+        ? evaluation
+        : best,
+    null,
+  );
+  if (bestShop) {
+    bestShop.status = 'APPLIED';
+  }
+
+  // Voucher sản phẩm: đánh giá từng cặp (item, voucher) rồi gán tối ưu
+  const productEvaluations: Record<string, VoucherEvaluation[]> = {};
+  productItems.forEach((item) => {
+    const vouchers = input.productVouchers[item.cartItemId] ?? [];
+    if (vouchers.length === 0) {
+      return;
+    }
+    const itemSubtotal = getProductVoucherPrice(item) * item.quantity;
+    productEvaluations[item.cartItemId] = vouchers.map((voucher) =>
+      evaluateVoucher(voucher, itemSubtotal, itemSubtotal, now),
+    );
+  });
+
+  const productVouchers = assignProductVouchers(productEvaluations);
+  let productDiscount = 0;
+  Object.entries(productEvaluations).forEach(([cartItemId, evaluations]) => {
+    evaluations.forEach((evaluation) => {
+      if (evaluation.status !== 'NOT_BEST') {
+        return;
+      }
+      const voucherId = evaluation.voucher.voucherId;
+      if (productVouchers[cartItemId]?.voucherId === voucherId) {
+        evaluation.status = 'APPLIED';
+        productDiscount += evaluation.discount;
+      } else if (
+        Object.entries(productVouchers).some(
+          ([otherId, voucher]) => otherId !== cartItemId && voucher.voucherId === voucherId,
+        )
+      ) {
+        evaluation.status = 'USED_BY_OTHER_ITEM';
+      }
+    });
+  });
+
+  const shopDiscount = bestShop?.discount ?? 0;
+  return {
+    storeId: input.storeId,
+    shopVoucher: bestShop?.voucher ?? null,
+    productVouchers,
+    shopDiscount,
+    productDiscount,
+    totalDiscount: shopDiscount + productDiscount,
+    shopEvaluations,
+    productEvaluations,
+  };
+};
+
+/**
+ * Voucher có dùng được không (bỏ qua việc có voucher khác tốt hơn)
+ */
+export const isVoucherEvaluationUsable = (evaluation: VoucherEvaluation) =>
+  !BLOCKING_STATUSES.includes(evaluation.status);
+
+/**
+ * Giải thích vì sao voucher được chọn hoặc không
+ */
+export const describeVoucherEvaluation = (evaluation: VoucherEvaluation): string => {
+  switch (evaluation.status) {
+    case 'APPLIED':
+      return `Tiết kiệm nhiều nhất: ${formatCurrencyVND(evaluation.discount)}`;
+    case 'NOT_BEST':
+      return `Tiết kiệm ${formatCurrencyVND(evaluation.discount)}, ít hơn lựa chọn tốt nhất`;
+    case 'USED_BY_OTHER_ITEM':
+      return `Tiết kiệm ${formatCurrencyVND(evaluation.discount)}, nhưng đang dùng cho sản phẩm khác có lợi hơn`;
+    case 'NO_ITEMS':
+      return 'Chưa chọn sản phẩm nào của shop';
+    case 'INACTIVE':
+      return 'Voucher đã ngừng áp dụng';
+    case 'NOT_STARTED':
+      return 'Chưa đến thời gian áp dụng';
+    case 'EXPIRED':
+      return 'Voucher đã hết hạn';
+    case 'MIN_ORDER_NOT_MET':
+      return `Mua thêm ${formatCurrencyVND(evaluation.missingAmount ?? 0)} để đạt đơn tối thiểu ${formatCurrencyVND(evaluation.voucher.minOrderValue ?? 0)}`;
+    case 'NO_DISCOUNT':
+      return 'Voucher không có mức giảm';
+    default:
+      return '';
+  }
+};
@@ -0,0 +1,104 @@
+import { CustomerVoucher, ShopVoucher, VoucherWalletGroup } from '../types/voucher';
+
+// Còn dưới 3 ngày là sắp hết hạn
+export const EXPIRING_SOON_MS = 3 * 24 * 60 * 60 * 1000;
+
+export const VOUCHER_WALLET_GROUPS: VoucherWalletGroup[] = [
+  'USABLE',
+  'EXPIRING_SOON',
+  'USED',
+  'EXPIRED',
+];
+
+export const VOUCHER_WALLET_GROUP_LABELS: Record<VoucherWalletGroup, string> = {
+  USABLE: 'Có thể dùng',
+  EXPIRING_SOON: 'Sắp hết hạn',
+  USED: 'Đã dùng',
+  EXPIRED: 'Hết hạn',
+};
+
+type VoucherDiscount = Pick<
+  ShopVoucher,
+  'type' | 'discountPercent' | 'discountValue' | 'maxDiscountValue' | 'minOrderValue'
+>;
+
+const formatCurrencyVND = (value: number) =>
+  new Intl.NumberFormat('vi-VN', { style: 'currency', currency: 'VND' }).format(value);
+
+const toTime = (value?: string | null) => {
+  if (!value) {
+    return null;
+  }
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Nhóm hiển thị trong ví: đã dùng > hết hạn (hoặc shop tắt voucher) > sắp hết hạn > dùng được
+ */
+export const getVoucherWalletGroup = (
+  voucher: CustomerVoucher,
+  now: number = Date.now(),
+): VoucherWalletGroup => {
+  if (voucher.status === 'USED' || voucher.usedAt) {
+    return 'USED';
+  }
+  const endTime = toTime(voucher.endTime);
+  if (
+    voucher.status === 'EXPIRED' ||
+    voucher.status === 'INACTIVE' ||
+    (endTime !== null && endTime <= now)
+  ) {
+    return 'EXPIRED';
+  }
+  if (endTime !== null && endTime - now <= EXPIRING_SOON_MS) {
+    return 'EXPIRING_SOON';
+  }
+  return 'USABLE';
+};
+
+/**
+ * Chia ví voucher theo nhóm, mỗi nhóm sắp theo hạn dùng gần nhất trước
+ */
+export const groupWalletVouchers = (
+  vouchers: CustomerVoucher[],
+  now: number = Date.now(),
+): Record<VoucherWalletGroup, CustomerVoucher[]> => {
+  const groups: Record<VoucherWalletGroup, CustomerVoucher[]> = {
+    USABLE: [],
+    EXPIRING_SOON: [],
+    USED: [],
+    EXPIRED: [],
+  };
+  vouchers.forEach((voucher) => {
+    groups[getVoucherWalletGroup(voucher, now)].push(voucher);
+  });
+
+  const byEndTime = (a: CustomerVoucher, b: CustomerVoucher) =>
+    (toTime(a.endTime) ?? Number.MAX_SAFE_INTEGER) - (toTime(b.endTime) ?? Number.MAX_SAFE_INTEGER);
+  VOUCHER_WALLET_GROUPS.forEach((group) => groups[group].sort(byEndTime));
+  return groups;
+};
+
+/**
+ * Voucher có áp dụng cho sản phẩm không (voucher toàn shop / platform áp dụng mọi sản phẩm)
+ */
+export const isVoucherApplicableToProduct = (
+  voucher: Pick<ShopVoucher, 'scope' | 'productIds'>,
+  productId: string,
+) => voucher.scope !== 'PRODUCT' || !!voucher.productIds?.includes(productId);
+
+export const formatVoucherDiscount = (voucher: VoucherDiscount) => {
+  if (voucher.type === 'PERCENT') {
+    const max = voucher.maxDiscountValue
+      ? ` tối đa ${formatCurrencyVND(voucher.maxDiscountValue)}`
+      : '';
+    return `Giảm ${voucher.discountPercent ?? 0}%${max}`;
+  }
+  return `Giảm ${formatCurrencyVND(voucher.discountValue ?? 0)}`;
+};
+
+export const formatVoucherMinOrder = (voucher: VoucherDiscount) =>
+  voucher.minOrderValue
+    ? `Đơn tối thiểu ${formatCurrencyVND(voucher.minOrderValue)}`
+    : 'Không yêu cầu đơn tối thiểu';